@@ -0,0 +1,130 @@
+import {
+  applyHalvingCycleOverlay,
+  getHalvingDates,
+  getHalvingMonths,
+  HalvingCycleSettings,
+} from '../utils/applyHalvingCycleOverlay';
+import { getCagrDecayBtcPricePath } from '../utils/getBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+} from '../simulateUserTreasuryGrowth';
+
+describe('applyHalvingCycleOverlay', () => {
+  const settings: HalvingCycleSettings = {
+    peakMultiple: 2,
+    peakMonthsAfterHalving: 18,
+    postPeakDrawdown: 0.75,
+    troughMonthsAfterPeak: 12,
+    amplitudeDecay: 1,
+  };
+
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 100000,
+    btcCagrToday: 0.15,
+    btcCagrAsymptote: 0.15,
+    settleYears: 5,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 24,
+    startDate: '2025-01-01',
+  };
+
+  const basePath = getCagrDecayBtcPricePath(marketData);
+
+  describe('halving calendar', () => {
+    it('should include known and projected halving dates', () => {
+      const years = getHalvingDates(new Date('2037-01-01')).map(d =>
+        d.getUTCFullYear()
+      );
+
+      expect(years).toEqual(
+        expect.arrayContaining([2012, 2016, 2020, 2024, 2028, 2032, 2036])
+      );
+    });
+
+    it('should map halvings to simulation months', () => {
+      const months = getHalvingMonths('2025-01-01', 12 * 8);
+
+      // 2028-04 → 39 months after 2025-01, 2032-04 → 87
+      expect(months).toEqual([39, 87]);
+    });
+  });
+
+  describe('overlay', () => {
+    it('should keep the initial price', () => {
+      const path = applyHalvingCycleOverlay(basePath, '2025-01-01', settings);
+
+      expect(path.btcPriceInEuro[0]).toBe(100000);
+      expect(path.btcPriceInEuro.length).toBe(basePath.btcPriceInEuro.length);
+    });
+
+    it('should leave the long-run CAGR intact at halving dates', () => {
+      const path = applyHalvingCycleOverlay(basePath, '2025-01-01', settings);
+      const [first, , , , last] = getHalvingMonths('2025-01-01', 12 * 24);
+
+      const overlayGrowth =
+        path.btcPriceInEuro[last] / path.btcPriceInEuro[first];
+      const baseGrowth =
+        basePath.btcPriceInEuro[last] / basePath.btcPriceInEuro[first];
+      // halvingi w środku miesiąca → mnożnik cyklu ≈ 1 w obu punktach
+      expect(overlayGrowth / baseGrowth).toBeGreaterThan(0.95);
+      expect(overlayGrowth / baseGrowth).toBeLessThan(1.05);
+    });
+
+    it('should peak above and bottom below the base trend', () => {
+      const path = applyHalvingCycleOverlay(basePath, '2025-01-01', settings);
+      const [firstHalving] = getHalvingMonths('2025-01-01', 12 * 24);
+      const ratioAt = (m: number) =>
+        path.btcPriceInEuro[m] / basePath.btcPriceInEuro[m];
+      const atHalving = ratioAt(firstHalving);
+
+      expect(ratioAt(firstHalving + 18) / atHalving).toBeGreaterThan(1.8);
+      expect(ratioAt(firstHalving + 30) / atHalving).toBeLessThan(0.6);
+    });
+
+    it('should shrink cycle amplitude with decay', () => {
+      const decayed = applyHalvingCycleOverlay(basePath, '2025-01-01', {
+        ...settings,
+        amplitudeDecay: 0.5,
+      });
+      const constant = applyHalvingCycleOverlay(
+        basePath,
+        '2025-01-01',
+        settings
+      );
+      const [, secondHalving] = getHalvingMonths('2025-01-01', 12 * 24);
+      const peakMonth = secondHalving + 18;
+      const ratio = (p: typeof decayed) =>
+        p.btcPriceInEuro[peakMonth] / p.btcPriceInEuro[secondHalving];
+
+      expect(ratio(decayed)).toBeLessThan(ratio(constant));
+    });
+  });
+
+  describe('engine integration', () => {
+    it('should apply the overlay through MarketData.halvingCycle', () => {
+      const withOverlay = simulateUserTreasuryGrowth({
+        marketData: { ...marketData, halvingCycle: settings },
+        userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+        platformData: {
+          platformFeeFromYieldPct: 0.1,
+          platformExchangeFeePct: 0.01,
+        },
+        earnData: { yearlyYieldPct: 0.02 },
+      });
+      const expected = applyHalvingCycleOverlay(
+        basePath,
+        '2025-01-01',
+        settings
+      );
+
+      withOverlay.forEach((snapshot, month) =>
+        expect(snapshot.currentBtcPriceInEuro).toBeCloseTo(
+          expected.btcPriceInEuro[month],
+          6
+        )
+      );
+    });
+  });
+});
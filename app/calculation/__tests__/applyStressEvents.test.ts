@@ -0,0 +1,213 @@
+import {
+  RecoveryShape,
+  StressEvent,
+  StressEventPreset,
+  applyStressEvents,
+  getStressEventFromPreset,
+  getStressEventWindows,
+} from '../utils/applyStressEvents';
+import {
+  getBtcPricePath,
+  getCagrDecayBtcPricePath,
+} from '../utils/getBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulatePlatformTreasuryGrowth } from '../simulatePlatformTreasuryGrowth';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('applyStressEvents', () => {
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 100000,
+    btcCagrToday: 0.3,
+    btcCagrAsymptote: 0.1,
+    settleYears: 5,
+    settleEpsilon: 0.05,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 10,
+  };
+  const basePath = getCagrDecayBtcPricePath(marketData);
+
+  const crash: StressEvent = {
+    startMonth: 24,
+    drawdown: 0.75,
+    crashMonths: 6,
+    plateauMonths: 3,
+    recoveryMonths: 12,
+  };
+
+  describe('price shape', () => {
+    it('should leave months before the event untouched', () => {
+      const path = applyStressEvents(basePath, [crash]);
+
+      for (let month = 0; month <= 24; month++) {
+        expect(path.btcPriceInEuro[month]).toBe(basePath.btcPriceInEuro[month]);
+      }
+    });
+
+    it('should reach the drawdown at the bottom and hold it on the plateau', () => {
+      const path = applyStressEvents(basePath, [crash]);
+      const trough = basePath.btcPriceInEuro[24] * 0.25;
+
+      expect(path.btcPriceInEuro[30]).toBeCloseTo(trough, 6);
+      expect(path.btcPriceInEuro[33]).toBeCloseTo(trough, 6);
+      expect(path.btcPriceInEuro[27]).toBeGreaterThan(trough);
+      expect(path.btcPriceInEuro[27]).toBeLessThan(basePath.btcPriceInEuro[24]);
+    });
+
+    it('should return to the base path after the recovery', () => {
+      const path = applyStressEvents(basePath, [crash]);
+
+      expect(path.btcPriceInEuro[39]).toBeLessThan(basePath.btcPriceInEuro[39]);
+      for (let month = 45; month < 120; month++) {
+        expect(path.btcPriceInEuro[month]).toBeCloseTo(
+          basePath.btcPriceInEuro[month],
+          6
+        );
+      }
+    });
+
+    it('should keep rates consistent with prices', () => {
+      const path = applyStressEvents(basePath, [crash]);
+
+      for (let month = 0; month < 119; month++) {
+        expect(path.btcPriceInEuro[month + 1]).toBeCloseTo(
+          path.btcPriceInEuro[month] * (1 + path.btcMonthlyRate[month]),
+          6
+        );
+      }
+    });
+
+    it('should recover faster with a fast shape than with a slow one', () => {
+      const fast = applyStressEvents(basePath, [
+        { ...crash, recoveryShape: RecoveryShape.Fast },
+      ]);
+      const slow = applyStressEvents(basePath, [
+        { ...crash, recoveryShape: RecoveryShape.Slow },
+      ]);
+
+      expect(fast.btcPriceInEuro[39]).toBeGreaterThan(slow.btcPriceInEuro[39]);
+    });
+
+    it('should keep a permanent discount without recovery', () => {
+      const path = applyStressEvents(basePath, [
+        { ...crash, recoveryMonths: 0 },
+      ]);
+      const discount = path.btcPriceInEuro[33] / basePath.btcPriceInEuro[33];
+
+      expect(
+        path.btcPriceInEuro[100] / basePath.btcPriceInEuro[100]
+      ).toBeCloseTo(discount, 8);
+    });
+
+    it('should stack multiple events', () => {
+      const second: StressEvent = { ...crash, startMonth: 60 };
+      const path = applyStressEvents(basePath, [crash, second]);
+
+      expect(path.btcPriceInEuro[30]).toBeCloseTo(
+        basePath.btcPriceInEuro[24] * 0.25,
+        6
+      );
+      expect(path.btcPriceInEuro[66]).toBeCloseTo(
+        basePath.btcPriceInEuro[60] * 0.25,
+        6
+      );
+    });
+
+    it('should validate event parameters', () => {
+      expect(() =>
+        applyStressEvents(basePath, [{ ...crash, drawdown: 1 }])
+      ).toThrow('Stress event drawdown must be in (0, 1)');
+      expect(() =>
+        applyStressEvents(basePath, [{ ...crash, crashMonths: 0 }])
+      ).toThrow('Stress event crashMonths must be >= 1');
+    });
+  });
+
+  describe('presets and windows', () => {
+    it('should build events from named presets', () => {
+      Object.values(StressEventPreset).forEach(preset => {
+        const event = getStressEventFromPreset(preset, 12);
+        expect(event.startMonth).toBe(12);
+        expect(event.drawdown).toBeGreaterThan(0);
+        expect(event.name).toBeDefined();
+      });
+    });
+
+    it('should clip windows to the horizon', () => {
+      const windows = getStressEventWindows(
+        [crash, { ...crash, startMonth: 110 }, { ...crash, startMonth: 200 }],
+        120
+      );
+
+      expect(windows).toEqual([
+        { name: '-75% crash', startMonth: 24, endMonth: 45 },
+        { name: '-75% crash', startMonth: 110, endMonth: 119 },
+      ]);
+    });
+  });
+
+  describe('engine integration', () => {
+    const stressedMarketData: MarketData = {
+      ...marketData,
+      stressEvents: [crash],
+    };
+    const userInput: UserTreasuryGrowthInput = {
+      marketData: stressedMarketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+
+    it('should apply on top of any price model', () => {
+      const path = getBtcPricePath({
+        ...stressedMarketData,
+        customBtcPrices: [50000, 50000, 50000],
+      });
+
+      expect(path.btcPriceInEuro[30]).toBeCloseTo(
+        path.btcPriceInEuro[24] * 0.25,
+        6
+      );
+    });
+
+    it('should buy more BTC in the user simulation during the crash', () => {
+      const stressed = simulateUserTreasuryGrowth(userInput);
+      const baseline = simulateUserTreasuryGrowth({
+        ...userInput,
+        marketData,
+      });
+
+      expect(stressed[30].currentBtcPriceInEuro).toBeLessThan(
+        baseline[30].currentBtcPriceInEuro
+      );
+      expect(stressed[119].userAccumulatedBtcHolding).toBeGreaterThan(
+        baseline[119].userAccumulatedBtcHolding
+      );
+    });
+
+    it('should reflect the event in the platform simulation', () => {
+      const result = simulatePlatformTreasuryGrowth({
+        platformUsersData: {
+          userStarts: 10,
+          userEnds: 100,
+          growthType: GrowthType.Linear,
+          years: 10,
+        },
+        userTreasuryGrowthInput: userInput,
+        platformTreasuryGrowthData: { yearlyYieldPct: 0.02 },
+      });
+
+      expect(result[30].btcPriceInEuro).toBeCloseTo(
+        basePath.btcPriceInEuro[24] * 0.25,
+        6
+      );
+    });
+  });
+});
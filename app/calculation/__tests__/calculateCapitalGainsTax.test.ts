@@ -0,0 +1,225 @@
+import {
+  addTaxLot,
+  addYieldTaxLot,
+  createTaxLedger,
+  disposeTaxLots,
+  getCostBasis,
+  LotMethod,
+  settleTaxYear,
+  TaxJurisdictionType,
+  TaxLedger,
+} from '../utils/calculateCapitalGainsTax';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+
+describe('calculateCapitalGainsTax', () => {
+  // dwa loty: 1 BTC po 10 000 i 1 BTC po 30 000
+  const createLedger = (
+    lotMethod: LotMethod,
+    jurisdiction = TaxJurisdictionType.Poland
+  ): TaxLedger => {
+    const ledger = createTaxLedger({ jurisdiction, lotMethod });
+    addTaxLot(ledger, { month: 0, btc: 1, costBasisInEuro: 10000 });
+    addTaxLot(ledger, { month: 6, btc: 1, costBasisInEuro: 30000 });
+    return ledger;
+  };
+
+  it('should match lots by FIFO, LIFO or average cost', () => {
+    const fifo = createLedger(LotMethod.Fifo);
+    const lifo = createLedger(LotMethod.Lifo);
+    const average = createLedger(LotMethod.AverageCost);
+
+    expect(disposeTaxLots(fifo, 8, 1, 40000).realizedGainInEuro).toBe(30000);
+    expect(disposeTaxLots(lifo, 8, 1, 40000).realizedGainInEuro).toBe(10000);
+    expect(disposeTaxLots(average, 8, 1, 40000).realizedGainInEuro).toBe(20000);
+    expect(getCostBasis(fifo)).toBe(30000);
+    expect(getCostBasis(lifo)).toBe(10000);
+    expect(getCostBasis(average)).toBe(20000);
+  });
+
+  it('should split a sale across lots proportionally', () => {
+    const ledger = createLedger(LotMethod.Fifo);
+
+    // 1.5 BTC za 60 000: koszt 10 000 + 15 000
+    expect(disposeTaxLots(ledger, 8, 1.5, 60000).realizedGainInEuro).toBe(
+      35000
+    );
+    expect(getCostBasis(ledger)).toBe(15000);
+  });
+
+  it('should tax the yearly gain at 19% in Poland', () => {
+    const ledger = createLedger(LotMethod.Fifo);
+    disposeTaxLots(ledger, 8, 1, 40000);
+
+    expect(settleTaxYear(ledger)).toBeCloseTo(30000 * 0.19, 8);
+    expect(settleTaxYear(ledger)).toBe(0);
+  });
+
+  it('should carry losses forward to later years', () => {
+    const ledger = createLedger(LotMethod.Lifo);
+    disposeTaxLots(ledger, 8, 1, 20000);
+    expect(settleTaxYear(ledger)).toBe(0);
+    expect(ledger.lossCarryForwardInEuro).toBe(10000);
+
+    disposeTaxLots(ledger, 20, 1, 25000);
+    expect(settleTaxYear(ledger)).toBeCloseTo(5000 * 0.19, 8);
+    expect(ledger.lossCarryForwardInEuro).toBe(0);
+  });
+
+  it('should exempt lots held past the German holding period', () => {
+    const ledger = createLedger(LotMethod.Fifo, TaxJurisdictionType.Germany);
+    const exempt = disposeTaxLots(ledger, 12, 1, 40000);
+    const taxable = disposeTaxLots(ledger, 12, 1, 40000);
+
+    expect(exempt.realizedGainInEuro).toBe(30000);
+    expect(exempt.taxableGainInEuro).toBe(0);
+    expect(taxable.taxableGainInEuro).toBe(10000);
+    expect(settleTaxYear(ledger)).toBeCloseTo(3000, 8);
+  });
+
+  it('should tax yield as income and use its value as cost basis', () => {
+    const ledger = createTaxLedger({
+      jurisdiction: TaxJurisdictionType.Poland,
+    });
+    const untaxed = createTaxLedger({
+      jurisdiction: TaxJurisdictionType.Poland,
+      yieldIncomeTaxRate: 0,
+    });
+
+    expect(addYieldTaxLot(ledger, 0, 0.01, 500)).toBeCloseTo(95, 8);
+    expect(addYieldTaxLot(untaxed, 0, 0.01, 500)).toBe(0);
+    expect(getCostBasis(ledger)).toBe(500);
+    expect(getCostBasis(untaxed)).toBe(0);
+    expect(settleTaxYear(ledger)).toBeCloseTo(95, 8);
+  });
+
+  it('should validate the jurisdiction and rates', () => {
+    expect(() => createTaxLedger({ jurisdiction: 'XX' })).toThrow(
+      'Unknown tax jurisdiction "XX"'
+    );
+    expect(() =>
+      createTaxLedger({
+        jurisdiction: TaxJurisdictionType.Poland,
+        capitalGainsTaxRate: 1,
+      })
+    ).toThrow('capitalGainsTaxRate must be in [0, 1) (got 1)');
+  });
+
+  describe('taxes in simulateUserTreasuryGrowth', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 50000,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        settleYears: 1,
+        cpi: 0,
+        enableIndexing: false,
+        numberOfYears: 2,
+        startDate: '2025-01-01',
+        customBtcPrices: [...Array(12).fill(50000), ...Array(12).fill(100000)],
+      },
+      userData: {
+        startMonth: 0,
+        monthlyDcaInEuro: 0,
+        initialBtcHolding: 1,
+      },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+      decumulationData: {
+        startMonth: 12,
+        monthlyWithdrawalInEuro: 5000,
+      },
+      taxData: { jurisdiction: TaxJurisdictionType.Poland },
+    };
+
+    it('should leave results unchanged without tax data', () => {
+      const withTax = simulateUserTreasuryGrowth(input);
+      const withoutTax = simulateUserTreasuryGrowth({
+        ...input,
+        taxData: undefined,
+      });
+
+      expect(withTax[11].userAccumulatedBtcHolding).toBe(1);
+      expect(withoutTax[23].taxPaidInEuro).toBe(0);
+      // bez lotów podatkowych: średni koszt zdejmowany proporcjonalnie
+      expect(withoutTax[23].costBasisInEuro).toBeCloseTo(50000 * 0.4, 8);
+      expect(withoutTax[23].userAccumulatedBtcHolding).toBeCloseTo(0.4, 12);
+    });
+
+    it('should pay the yearly tax by selling BTC at year end', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      // 12 wypłat po 5 000 EUR (0.05 BTC kupione po 50 000): zysk 12 * 2 500
+      expect(result[12].realizedGainInEuro).toBeCloseTo(2500, 8);
+      expect(result[23].taxPaidInEuro).toBeCloseTo(30000 * 0.19, 6);
+      expect(result[23].taxBtcSold).toBeCloseTo(0.057, 10);
+      expect(result[23].userAccumulatedBtcHolding).toBeCloseTo(0.343, 10);
+      // sprzedaż na podatek też jest zyskiem (do zapłaty w kolejnym roku)
+      expect(result[23].realizedGainInEuro).toBeCloseTo(2500 + 2850, 6);
+    });
+
+    it('should settle the tax at the end of the calendar year', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...input,
+        marketData: { ...input.marketData, startDate: '2025-10-01' },
+      });
+
+      // start w październiku: miesiące 12–14 to paźdz.–grudz. 2026
+      expect(result[11].taxPaidInEuro).toBe(0);
+      expect(result[14].taxPaidInEuro).toBeCloseTo(3 * 2500 * 0.19, 6);
+      expect(result[23].taxPaidInEuro).toBe(0);
+    });
+
+    it('should deduct the outstanding tax from the after-tax value', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      expect(result[11].costBasisInEuro).toBeCloseTo(50000, 8);
+      expect(result[11].afterTaxValueInEuro).toBeCloseTo(50000, 8);
+      // miesiąc 12: 0.95 BTC po 100 000, zysk bieżący 2 500 + latentny 47 500
+      expect(result[12].afterTaxValueInEuro).toBeCloseTo(
+        95000 - 50000 * 0.19,
+        6
+      );
+    });
+
+    it('should value many average-cost lots in linear time', () => {
+      const startedAt = Date.now();
+      const { paths } = simulateUserTreasuryGrowthMonteCarlo(
+        {
+          ...input,
+          marketData: {
+            ...input.marketData,
+            btcCagrToday: 0.3,
+            btcCagrAsymptote: 0.1,
+            settleYears: 5,
+            numberOfYears: 40,
+            customBtcPrices: undefined,
+          },
+          userData: { startMonth: 0, monthlyDcaInEuro: 500 },
+          decumulationData: undefined,
+          taxData: {
+            jurisdiction: TaxJurisdictionType.Poland,
+            lotMethod: LotMethod.AverageCost,
+          },
+        },
+        { numberOfPaths: 50, seed: 1, annualVolatility: 0.6 }
+      );
+
+      // 480 lotów na ścieżkę; kwadratowa wycena zajmowała tu kilka sekund
+      expect(Date.now() - startedAt).toBeLessThan(3000);
+      paths.forEach(path => {
+        const last = path[path.length - 1];
+        const valueInEuro =
+          last.userAccumulatedBtcHolding * last.currentBtcPriceInEuro;
+        // bez sprzedaży: podatek tylko od latentnego zysku ponad średni koszt
+        expect(last.afterTaxValueInEuro).toBeCloseTo(
+          valueInEuro - Math.max(valueInEuro - last.costBasisInEuro, 0) * 0.19,
+          4
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  calculateCollateralLoan,
+  CollateralLoanCalculation,
+  validateCollateralLoanData,
+} from '../utils/calculateCollateralLoan';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+
+describe('calculateCollateralLoan', () => {
+  const baseInput: CollateralLoanCalculation = {
+    loanData: { startMonth: 0, targetLtv: 0.3, yearlyInterestRate: 0.12 },
+    month: 0,
+    loanBalanceInEuro: 0,
+    currentBtcPriceInEuro: 50000,
+    userAccumulatedBtcHolding: 1,
+    platformExchangeFeePct: 0,
+    cpiFactor: 1,
+    fxRate: 1,
+    loanClosed: false,
+  };
+
+  it('should draw up to the target LTV in the first month', () => {
+    const result = calculateCollateralLoan(baseInput);
+
+    expect(result.loanDrawnInEuro).toBeCloseTo(15000, 8);
+    expect(result.loanBalanceInEuro).toBeCloseTo(15000, 8);
+    expect(result.loanLtv).toBeCloseTo(0.3, 12);
+    expect(result.userAccumulatedBtcHolding).toBe(1);
+  });
+
+  it('should accrue monthly interest without drawing again', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      month: 1,
+      loanBalanceInEuro: 15000,
+    });
+
+    expect(result.loanInterestInEuro).toBeCloseTo(150, 8);
+    expect(result.loanBalanceInEuro).toBeCloseTo(15150, 8);
+    expect(result.loanDrawnInEuro).toBe(0);
+  });
+
+  it('should draw monthly amounts up to the target LTV', () => {
+    const loanData = { ...baseInput.loanData, monthlyDrawInEuro: 2000 };
+    const draw = calculateCollateralLoan({ ...baseInput, loanData });
+    const capped = calculateCollateralLoan({
+      ...baseInput,
+      loanData: { ...loanData, yearlyInterestRate: 0 },
+      month: 1,
+      loanBalanceInEuro: 14000,
+    });
+
+    expect(draw.loanDrawnInEuro).toBe(2000);
+    expect(capped.loanDrawnInEuro).toBeCloseTo(1000, 8);
+  });
+
+  it('should draw the headroom when auto-rebalancing after a rally', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      loanData: {
+        ...baseInput.loanData,
+        yearlyInterestRate: 0,
+        autoRebalance: true,
+      },
+      month: 5,
+      loanBalanceInEuro: 15000,
+      currentBtcPriceInEuro: 60000,
+    });
+
+    expect(result.loanDrawnInEuro).toBeCloseTo(3000, 8);
+    expect(result.loanLtv).toBeCloseTo(0.3, 12);
+  });
+
+  it('should sell BTC back to the target LTV on a margin call', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      loanData: {
+        ...baseInput.loanData,
+        yearlyInterestRate: 0,
+        marginCallLtv: 0.5,
+      },
+      month: 5,
+      loanBalanceInEuro: 30000,
+    });
+
+    expect(result.marginCall).toBe(true);
+    expect(result.loanLtv).toBeCloseTo(0.3, 10);
+    // (30000 - x) = 0.3 * (50000 - x) → x = 15000 / 0.7
+    expect(result.btcSold).toBeCloseTo(15000 / 0.7 / 50000, 10);
+  });
+
+  it('should include the exchange fee when selling on a margin call', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      loanData: {
+        ...baseInput.loanData,
+        yearlyInterestRate: 0,
+        marginCallLtv: 0.5,
+      },
+      month: 5,
+      loanBalanceInEuro: 30000,
+      platformExchangeFeePct: 0.01,
+    });
+
+    expect(result.loanLtv).toBeCloseTo(0.3, 10);
+    expect(result.platformExchangeFeeInBtc).toBeCloseTo(
+      result.btcSold * 0.01,
+      12
+    );
+  });
+
+  it('should liquidate the collateral with a penalty', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      loanData: {
+        ...baseInput.loanData,
+        yearlyInterestRate: 0,
+        marginCallLtv: 0.6,
+        liquidationLtv: 0.8,
+        liquidationPenaltyPct: 0.05,
+      },
+      month: 5,
+      loanBalanceInEuro: 45000,
+    });
+
+    expect(result.liquidated).toBe(true);
+    expect(result.marginCall).toBe(false);
+    expect(result.loanBalanceInEuro).toBeCloseTo(0, 8);
+    expect(result.userAccumulatedBtcHolding).toBeCloseTo(1 - 0.945, 12);
+  });
+
+  it('should not draw again once the loan was liquidated', () => {
+    const result = calculateCollateralLoan({
+      ...baseInput,
+      loanData: { ...baseInput.loanData, monthlyDrawInEuro: 1000 },
+      month: 6,
+      loanClosed: true,
+    });
+
+    expect(result.loanDrawnInEuro).toBe(0);
+    expect(result.loanBalanceInEuro).toBe(0);
+  });
+
+  it('should validate loan settings', () => {
+    const loanData = baseInput.loanData;
+
+    expect(() =>
+      validateCollateralLoanData({ ...loanData, targetLtv: 1 })
+    ).toThrow('targetLtv must be in (0, 1) (got 1)');
+    expect(() =>
+      validateCollateralLoanData({ ...loanData, marginCallLtv: 0.2 })
+    ).toThrow('marginCallLtv must be > targetLtv (got 0.2 <= 0.3)');
+    expect(() =>
+      validateCollateralLoanData({
+        ...loanData,
+        marginCallLtv: 0.6,
+        liquidationLtv: 0.5,
+      })
+    ).toThrow('liquidationLtv must be > marginCallLtv (got 0.5)');
+  });
+
+  describe('loans in simulateUserTreasuryGrowth', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 50000,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        settleYears: 1,
+        cpi: 0,
+        enableIndexing: false,
+        numberOfYears: 1,
+      },
+      userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+      loanData: {
+        startMonth: 2,
+        targetLtv: 0.4,
+        yearlyInterestRate: 0.12,
+        marginCallLtv: 0.6,
+        liquidationLtv: 0.8,
+      },
+    };
+
+    it('should report the loan balance and net worth', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      expect(result[1].loanBalanceInEuro).toBe(0);
+      expect(result[1].netWorthInEuro).toBeCloseTo(50000, 8);
+      expect(result[2].loanDrawnInEuro).toBeCloseTo(20000, 8);
+      expect(result[2].netWorthInEuro).toBeCloseTo(30000, 8);
+      expect(result[3].loanBalanceInEuro).toBeCloseTo(20200, 8);
+      expect(result[3].netWorthInEuro).toBeCloseTo(50000 - 20200, 8);
+    });
+
+    it('should trigger a margin call or a liquidation when the price falls', () => {
+      const marginCall = simulateUserTreasuryGrowth({
+        ...input,
+        marketData: {
+          ...input.marketData,
+          customBtcPrices: [50000, 50000, 50000, 50000, 30000],
+        },
+      });
+      const liquidation = simulateUserTreasuryGrowth({
+        ...input,
+        marketData: {
+          ...input.marketData,
+          customBtcPrices: [50000, 50000, 50000, 50000, 23000],
+        },
+      });
+
+      expect(marginCall[4].marginCall).toBe(true);
+      expect(marginCall[4].loanLtv).toBeCloseTo(0.4, 10);
+      expect(marginCall[4].userAccumulatedBtcHolding).toBeLessThan(1);
+      expect(liquidation[4].liquidated).toBe(true);
+      expect(liquidation[4].loanBalanceInEuro).toBeCloseTo(0, 8);
+      expect(liquidation[5].loanDrawnInEuro).toBe(0);
+    });
+
+    it('should end the loan plan after a liquidation', () => {
+      const prices = [50000, 50000, 50000, 50000, 23000, 50000, 60000];
+      const draws = (autoRebalance: boolean) =>
+        simulateUserTreasuryGrowth({
+          ...input,
+          marketData: { ...input.marketData, customBtcPrices: prices },
+          loanData: {
+            ...input.loanData!,
+            monthlyDrawInEuro: autoRebalance ? undefined : 10000,
+            autoRebalance,
+          },
+        });
+
+      for (const result of [draws(false), draws(true)]) {
+        expect(result[2].loanDrawnInEuro).toBeGreaterThan(0);
+        expect(result[4].liquidated).toBe(true);
+        result.slice(5).forEach(snapshot => {
+          expect(snapshot.liquidated).toBe(false);
+          expect(snapshot.loanDrawnInEuro).toBe(0);
+          expect(snapshot.loanBalanceInEuro).toBeCloseTo(0, 8);
+          expect(snapshot.loanLtv).toBe(0);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  ContributionStrategy,
+  ContributionStrategyType,
+  DipReference,
+  createContributionStrategyState,
+  getBtcPriceDip,
+  getContributionSummary,
+  validateContributionStrategy,
+} from '../utils/calculateContributionStrategy';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+
+describe('calculateContributionStrategy', () => {
+  const simulate = (
+    contributionStrategy: ContributionStrategy | undefined,
+    customBtcPrices = [50000, 40000, 60000],
+    initialBtcHolding = 0
+  ) => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 50000,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        settleYears: 1,
+        cpi: 0,
+        enableIndexing: false,
+        numberOfYears: 1,
+        customBtcPrices,
+      },
+      userData: {
+        startMonth: 0,
+        monthlyDcaInEuro: 1000,
+        initialBtcHolding,
+        contributionStrategy,
+      },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+    };
+    return simulateUserTreasuryGrowth(input);
+  };
+  const contributions = (strategy?: ContributionStrategy, prices?: number[]) =>
+    simulate(strategy, prices)
+      .slice(0, 3)
+      .map(snapshot => snapshot.contributionInEuro);
+
+  const dip: ContributionStrategy = {
+    type: ContributionStrategyType.BuyTheDip,
+    dipReference: DipReference.AllTimeHigh,
+    dipThresholdPct: 0.2,
+    dipMultiplier: 3,
+  };
+
+  it('should report the flat DCA contribution every month', () => {
+    expect(contributions(undefined)).toEqual([1000, 1000, 1000]);
+    expect(contributions({ type: ContributionStrategyType.FlatDca })).toEqual([
+      1000, 1000, 1000,
+    ]);
+  });
+
+  it('should top the portfolio up to the value-averaging target', () => {
+    const result = contributions({
+      type: ContributionStrategyType.ValueAveraging,
+    });
+
+    // miesiąc 1: 0.02 BTC warte 800, cel 2000; miesiąc 2: 0.05 BTC warte 3000 = cel
+    expect(result[0]).toBe(1000);
+    expect(result[1]).toBeCloseTo(1200, 8);
+    expect(result[2]).toBeCloseTo(0, 8);
+  });
+
+  it('should start the value-averaging target at the initial holding', () => {
+    const result = simulate(
+      { type: ContributionStrategyType.ValueAveraging },
+      undefined,
+      1
+    );
+
+    expect(result[0].contributionInEuro).toBe(1000);
+    // 1.02 BTC po 40 000 = 40 800, cel 52 000
+    expect(result[1].contributionInEuro).toBeCloseTo(11200, 8);
+  });
+
+  it('should multiply the contribution when the price dips below the all-time high', () => {
+    expect(contributions(dip, [50000, 39000, 45000])).toEqual([
+      1000, 3000, 1000,
+    ]);
+  });
+
+  it('should measure the dip against the moving average', () => {
+    const state = createContributionStrategyState();
+    const strategy: ContributionStrategy = {
+      ...dip,
+      dipReference: DipReference.MovingAverage,
+      movingAverageMonths: 3,
+    };
+
+    // średnia z [100, 100, 70] = 90
+    expect(getBtcPriceDip(strategy, state, 3, [100, 100, 100, 70])).toBeCloseTo(
+      1 - 70 / 90,
+      12
+    );
+    expect(getBtcPriceDip(strategy, state, 0, [100])).toBe(0);
+  });
+
+  it('should cap the monthly and total spending', () => {
+    expect(
+      contributions({ ...dip, maxMonthlyMultiple: 2 }, [50000, 39000, 45000])
+    ).toEqual([1000, 2000, 1000]);
+    expect(
+      contributions({
+        type: ContributionStrategyType.FlatDca,
+        totalBudgetInEuro: 2500,
+      })
+    ).toEqual([1000, 1000, 500]);
+  });
+
+  it('should compare a strategy with flat DCA on the same price path', () => {
+    const prices = [50000, 39000, 45000, 50000];
+    const flat = getContributionSummary(
+      simulate(undefined, prices).slice(0, 4)
+    );
+    const dipSummary = getContributionSummary(
+      simulate(dip, prices).slice(0, 4)
+    );
+
+    expect(flat.totalContributedInEuro).toBe(4000);
+    expect(dipSummary.totalContributedInEuro).toBe(6000);
+    expect(dipSummary.valuePerContributedEuro).toBeGreaterThan(
+      flat.valuePerContributedEuro
+    );
+  });
+
+  it('should validate the strategy', () => {
+    expect(() =>
+      validateContributionStrategy({ ...dip, dipThresholdPct: 1 })
+    ).toThrow('dipThresholdPct must be in (0, 1) (got 1)');
+    expect(() =>
+      validateContributionStrategy({ ...dip, dipMultiplier: undefined })
+    ).toThrow('dipMultiplier must be >= 0 (got undefined)');
+    expect(() =>
+      validateContributionStrategy({
+        type: 'martingale' as ContributionStrategyType,
+      })
+    ).toThrow('Unknown contribution strategy "martingale"');
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  CounterpartyRiskData,
+  CounterpartyRiskMode,
+  getCounterpartyDefaultMonths,
+  getMonthlyDefaultProbability,
+  validateCounterpartyRiskData,
+  withSelfCustody,
+} from '../utils/calculateCounterpartyRisk';
+import { createSeededRandom } from '../utils/createSeededRandom';
+import { TaxJurisdictionType } from '../utils/calculateCapitalGainsTax';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+
+describe('calculateCounterpartyRisk', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0,
+      enableIndexing: false,
+      numberOfYears: 1,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+    platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0 },
+  };
+  const risk: CounterpartyRiskData = {
+    yearlyDefaultProbability: 0.1,
+    lossGivenDefaultPct: 0.5,
+    mode: CounterpartyRiskMode.Expected,
+    seed: 1,
+  };
+
+  it('should convert the yearly default probability to a monthly one', () => {
+    const monthly = getMonthlyDefaultProbability(0.1);
+
+    expect(1 - Math.pow(1 - monthly, 12)).toBeCloseTo(0.1, 12);
+  });
+
+  it('should apply the expected loss as a monthly haircut', () => {
+    const snapshots = simulateUserTreasuryGrowth({
+      ...input,
+      counterpartyRiskData: risk,
+    });
+
+    const monthlyLoss = getMonthlyDefaultProbability(0.1) * 0.5;
+    expect(snapshots[0].counterpartyLossInBtc).toBeCloseTo(monthlyLoss, 12);
+    expect(snapshots[11].userAccumulatedBtcHolding).toBeCloseTo(
+      Math.pow(1 - monthlyLoss, 12),
+      12
+    );
+    expect(snapshots[11].counterpartyDefault).toBe(false);
+  });
+
+  it('should only expose the capped share of the holding', () => {
+    const [first] = simulateUserTreasuryGrowth({
+      ...input,
+      counterpartyRiskData: { ...risk, maxExposurePct: 0.25 },
+    });
+
+    expect(first.counterpartyLossInBtc).toBeCloseTo(
+      0.25 * getMonthlyDefaultProbability(0.1) * 0.5,
+      12
+    );
+  });
+
+  it('should wipe out the lost share in a default month', () => {
+    const snapshots = simulateUserTreasuryGrowth({
+      ...input,
+      counterpartyRiskData: {
+        ...risk,
+        mode: CounterpartyRiskMode.Stochastic,
+        maxExposurePct: 0.8,
+        defaultMonths: [3],
+      },
+    });
+
+    expect(snapshots[2].userAccumulatedBtcHolding).toBe(1);
+    expect(snapshots[3].counterpartyDefault).toBe(true);
+    expect(snapshots[3].counterpartyLossInBtc).toBeCloseTo(0.4, 12);
+    expect(snapshots[11].userAccumulatedBtcHolding).toBeCloseTo(0.6, 12);
+  });
+
+  it('should drop defaulted BTC from the tax lots without a deductible loss', () => {
+    const snapshots = simulateUserTreasuryGrowth({
+      ...input,
+      taxData: { jurisdiction: TaxJurisdictionType.Poland },
+      counterpartyRiskData: {
+        ...risk,
+        mode: CounterpartyRiskMode.Stochastic,
+        maxExposurePct: 0.8,
+        defaultMonths: [3],
+      },
+    });
+
+    expect(snapshots[3].realizedGainInEuro).toBe(0);
+    expect(snapshots[3].costBasisInEuro).toBeCloseTo(0.6 * 50000, 8);
+  });
+
+  it('should draw defaults with the yearly probability', () => {
+    const random = createSeededRandom(7);
+    let defaults = 0;
+    for (let i = 0; i < 2000; i++) {
+      defaults += getCounterpartyDefaultMonths(risk, 12, random).length;
+    }
+
+    expect(defaults / 2000).toBeGreaterThan(0.08);
+    expect(defaults / 2000).toBeLessThan(0.13);
+  });
+
+  it('should sample defaults per Monte Carlo path', () => {
+    const { paths } = simulateUserTreasuryGrowthMonteCarlo(
+      {
+        ...input,
+        counterpartyRiskData: { ...risk, yearlyDefaultProbability: 0.5 },
+      },
+      { numberOfPaths: 50, seed: 3, annualVolatility: 0 }
+    );
+
+    const defaulted = paths.filter(path =>
+      path.some(snapshot => snapshot.counterpartyDefault)
+    ).length;
+    expect(defaulted).toBeGreaterThan(0);
+    expect(defaulted).toBeLessThan(50);
+  });
+
+  it('should compare with yield-free self-custody', () => {
+    const earning: UserTreasuryGrowthInput = {
+      ...input,
+      earnData: { yearlyYieldPct: 0.02 },
+      counterpartyRiskData: risk,
+    };
+    const selfCustody = simulateUserTreasuryGrowth(withSelfCustody(earning));
+
+    expect(selfCustody[11].userAccumulatedBtcHolding).toBe(1);
+    // 2% APY nie pokrywa 5% oczekiwanej straty rocznie
+    expect(
+      simulateUserTreasuryGrowth(earning)[11].userAccumulatedBtcHolding
+    ).toBeLessThan(1);
+  });
+
+  it('should validate the risk settings', () => {
+    expect(() =>
+      validateCounterpartyRiskData({ ...risk, lossGivenDefaultPct: 1.5 })
+    ).toThrow('lossGivenDefaultPct must be in [0, 1] (got 1.5)');
+    expect(() =>
+      validateCounterpartyRiskData({ ...risk, maxExposurePct: -0.1 })
+    ).toThrow('maxExposurePct must be in [0, 1] (got -0.1)');
+  });
+});
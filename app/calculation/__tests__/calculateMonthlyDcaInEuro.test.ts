@@ -1,4 +1,9 @@
-import { calculateMonthlyDcaInEuro } from '../utils/calculateMonthlyDcaInEuro';
+import {
+  calculateMonthlyDcaInEuro,
+  ContributionSchedule,
+  validateContributionSchedule,
+} from '../utils/calculateMonthlyDcaInEuro';
+import { simulateUserTreasuryGrowth } from '../simulateUserTreasuryGrowth';
 
 describe('calculateMonthlyDcaInEuro', () => {
   describe('basic functionality', () => {
@@ -286,4 +291,129 @@ describe('calculateMonthlyDcaInEuro', () => {
       expect(Number.isFinite(result)).toBe(true);
     });
   });
+
+  describe('contribution schedule', () => {
+    const dca = (schedule: ContributionSchedule, month: number, cpi = 1) =>
+      calculateMonthlyDcaInEuro(
+        1000,
+        cpi,
+        cpi !== 1,
+        schedule,
+        month,
+        6,
+        '2025-01-01'
+      );
+
+    it('should step up the contribution every 12 months from the start', () => {
+      const schedule = { yearlyStepUpPct: 0.1 };
+
+      expect(dca(schedule, 6)).toBe(1000);
+      expect(dca(schedule, 17)).toBe(1000);
+      expect(dca(schedule, 18)).toBeCloseTo(1100, 8);
+      expect(dca(schedule, 30, 1.5)).toBeCloseTo(1815, 8);
+    });
+
+    it('should skip contributions in pauses and after the stop month', () => {
+      const schedule = {
+        pauses: [{ startMonth: 10, endMonth: 13 }],
+        stopMonth: 24,
+      };
+
+      expect(dca(schedule, 9)).toBe(1000);
+      expect(dca(schedule, 10)).toBe(0);
+      expect(dca(schedule, 12)).toBe(0);
+      expect(dca(schedule, 13)).toBe(1000);
+      expect(dca(schedule, 24)).toBe(0);
+    });
+
+    it('should add lump sums on their months, even when paused', () => {
+      const schedule = {
+        stopMonth: 12,
+        lumpSums: [
+          { month: 8, amountInEuro: 5000 },
+          { month: 20, amountInEuro: 2000 },
+        ],
+      };
+
+      expect(dca(schedule, 8, 1.5)).toBe(6500);
+      expect(dca(schedule, 20)).toBe(2000);
+      expect(dca(schedule, 21)).toBe(0);
+    });
+
+    it('should pay a yearly bonus as a multiple of the stepped-up contribution', () => {
+      const schedule = {
+        yearlyStepUpPct: 0.1,
+        yearlyBonusMonth: 11,
+        yearlyBonusMultiplier: 1,
+      };
+
+      expect(dca(schedule, 11)).toBe(2000);
+      expect(dca(schedule, 12)).toBe(1000);
+      expect(dca(schedule, 23)).toBeCloseTo(2200, 8);
+    });
+
+    it('should pay the bonus in its calendar month', () => {
+      const schedule = { yearlyBonusMonth: 11, yearlyBonusMultiplier: 1 };
+      const octoberStart = (month: number) =>
+        calculateMonthlyDcaInEuro(
+          1000,
+          1,
+          false,
+          schedule,
+          month,
+          0,
+          '2025-10-01'
+        );
+
+      // grudzień to miesiąc 2 i 14 symulacji startującej w październiku
+      expect(octoberStart(2)).toBe(2000);
+      expect(octoberStart(11)).toBe(1000);
+      expect(octoberStart(14)).toBe(2000);
+    });
+
+    it('should validate the schedule', () => {
+      expect(() =>
+        validateContributionSchedule({ yearlyStepUpPct: -1 })
+      ).toThrow('yearlyStepUpPct must be > -1 (got -1)');
+      expect(() =>
+        validateContributionSchedule({
+          pauses: [{ startMonth: 10, endMonth: 10 }],
+        })
+      ).toThrow(
+        'pauses[0] must satisfy 0 <= startMonth < endMonth (got 10–10)'
+      );
+      expect(() =>
+        validateContributionSchedule({ yearlyBonusMonth: 12 })
+      ).toThrow('yearlyBonusMonth must be an integer in [0, 11] (got 12)');
+    });
+
+    it('should drive the contributions in simulateUserTreasuryGrowth', () => {
+      const result = simulateUserTreasuryGrowth({
+        marketData: {
+          initialBtcPriceInEuro: 50000,
+          btcCagrToday: 0,
+          btcCagrAsymptote: 0,
+          settleYears: 1,
+          cpi: 0,
+          enableIndexing: false,
+          numberOfYears: 2,
+        },
+        userData: {
+          startMonth: 0,
+          monthlyDcaInEuro: 1000,
+          contributionSchedule: {
+            yearlyStepUpPct: 0.5,
+            pauses: [{ startMonth: 0, endMonth: 6 }],
+            lumpSums: [{ month: 3, amountInEuro: 10000 }],
+          },
+        },
+        platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+        earnData: { yearlyYieldPct: 0 },
+      });
+
+      // 10 000 + 6 * 1 000 + 12 * 1 500 = 34 000 EUR
+      expect(result[5].userAccumulatedBtcHolding).toBeCloseTo(0.2, 12);
+      expect(result[23].userAccumulatedBtcHolding).toBeCloseTo(0.68, 12);
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import {
+  calculatePurchaseGoals,
+  getPurchaseGoalMonths,
+  PurchaseFundingType,
+  PurchaseGoal,
+  PurchaseGoalsCalculation,
+  validatePurchaseGoals,
+} from '../utils/calculatePurchaseGoals';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+
+describe('calculatePurchaseGoals', () => {
+  const car: PurchaseGoal = { name: 'Car', priceInEuro: 30000 };
+  const baseInput: PurchaseGoalsCalculation = {
+    purchaseGoals: [car],
+    reachedGoals: [false],
+    currentBtcPriceInEuro: 50000,
+    userAccumulatedBtcHolding: 1,
+    loanBalanceInEuro: 0,
+    platformExchangeFeePct: 0.01,
+    cpiFactor: 1,
+    fxRate: 1,
+  };
+
+  it('should report a goal covered by selling BTC without executing it', () => {
+    const result = calculatePurchaseGoals(baseInput);
+
+    expect(result.goalsReached).toEqual([0]);
+    expect(result.userAccumulatedBtcHolding).toBe(1);
+    expect(result.purchaseSpentInEuro).toBe(0);
+  });
+
+  it('should skip goals already reached or not yet affordable', () => {
+    expect(
+      calculatePurchaseGoals({ ...baseInput, reachedGoals: [true] })
+        .goalsReached
+    ).toEqual([]);
+    // 0.6 BTC * 50 000 * 0.99 = 29 700 < 30 000
+    expect(
+      calculatePurchaseGoals({ ...baseInput, userAccumulatedBtcHolding: 0.6 })
+        .goalsReached
+    ).toEqual([]);
+  });
+
+  it('should sell BTC with the exchange fee when executed', () => {
+    const result = calculatePurchaseGoals({
+      ...baseInput,
+      purchaseGoals: [{ ...car, execute: true }],
+    });
+
+    expect(result.purchaseSpentInEuro).toBeCloseTo(30000, 8);
+    expect(result.btcSold).toBeCloseTo(30000 / (50000 * 0.99), 12);
+    expect(result.platformExchangeFeeInBtc).toBeCloseTo(
+      result.btcSold * 0.01,
+      12
+    );
+  });
+
+  it('should index the price and check goals in order after each purchase', () => {
+    const house: PurchaseGoal = {
+      name: 'House',
+      priceInEuro: 15000,
+      enableIndexing: true,
+    };
+    const result = calculatePurchaseGoals({
+      ...baseInput,
+      purchaseGoals: [{ ...car, execute: true }, house],
+      reachedGoals: [false, false],
+      cpiFactor: 1.2,
+    });
+
+    // po zakupie auta zostaje 19 500 EUR netto: dom za 18 000 tak, za 21 000 nie
+    expect(result.goalsReached).toEqual([0, 1]);
+    const expensive = calculatePurchaseGoals({
+      ...baseInput,
+      purchaseGoals: [{ ...car, execute: true }, house],
+      reachedGoals: [false, false],
+      cpiFactor: 1.4,
+    });
+    expect(expensive.goalsReached).toEqual([0]);
+  });
+
+  it('should borrow against BTC up to the goal LTV', () => {
+    const goal: PurchaseGoal = {
+      ...car,
+      funding: PurchaseFundingType.Borrow,
+      ltv: 0.5,
+      execute: true,
+    };
+    const result = calculatePurchaseGoals({
+      ...baseInput,
+      purchaseGoals: [goal],
+      userAccumulatedBtcHolding: 1.2,
+      loanData: { startMonth: 0, targetLtv: 0.3, yearlyInterestRate: 0.1 },
+    });
+    const short = calculatePurchaseGoals({
+      ...baseInput,
+      purchaseGoals: [{ ...goal, execute: false }],
+    });
+
+    expect(result.goalsReached).toEqual([0]);
+    expect(result.loanBalanceInEuro).toBe(30000);
+    expect(result.userAccumulatedBtcHolding).toBe(1.2);
+    expect(short.goalsReached).toEqual([]);
+  });
+
+  it('should validate goals', () => {
+    expect(() => validatePurchaseGoals([{ ...car, priceInEuro: 0 }])).toThrow(
+      'purchaseGoals[0].priceInEuro must be > 0 (got 0)'
+    );
+    expect(() =>
+      validatePurchaseGoals([{ ...car, funding: PurchaseFundingType.Borrow }])
+    ).toThrow('purchaseGoals[0].ltv must be in (0, 1)');
+    expect(() =>
+      validatePurchaseGoals([
+        {
+          ...car,
+          funding: PurchaseFundingType.Borrow,
+          ltv: 0.5,
+          execute: true,
+        },
+      ])
+    ).toThrow('loanData is required to execute the loan-funded purchase "Car"');
+  });
+
+  describe('purchase goals in simulateUserTreasuryGrowth', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 50000,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        settleYears: 1,
+        cpi: 0,
+        enableIndexing: false,
+        numberOfYears: 3,
+      },
+      userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+      purchaseGoals: [
+        { name: 'Car', priceInEuro: 10000 },
+        { name: 'House', priceInEuro: 100000 },
+      ],
+    };
+
+    it('should report the first affordable month of each goal', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      // 10 wpłat po 1000 EUR → auto w miesiącu 9; dom poza horyzontem
+      expect(getPurchaseGoalMonths(input.purchaseGoals!, result)).toEqual([
+        9,
+        null,
+      ]);
+      expect(result[9].purchaseGoalsReached).toEqual([0]);
+      expect(result[10].purchaseGoalsReached).toEqual([]);
+    });
+
+    it('should continue with reduced holdings after an executed purchase', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...input,
+        purchaseGoals: [{ name: 'Car', priceInEuro: 10000, execute: true }],
+      });
+
+      expect(result[9].purchaseSpentInEuro).toBeCloseTo(10000, 8);
+      expect(result[9].userAccumulatedBtcHolding).toBeCloseTo(0, 12);
+      expect(result[35].userAccumulatedBtcHolding).toBeCloseTo(0.52, 12);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  ReferralData,
+  ReferralRewardBasis,
+  getReferralJoinMonths,
+  validateReferralData,
+} from '../utils/calculateReferralIncome';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulatePlatformTreasuryGrowth } from '../simulatePlatformTreasuryGrowth';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { withCohortStartMonth } from '../utils/withCohortStartMonth';
+
+describe('calculateReferralIncome', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0,
+      enableIndexing: false,
+      numberOfYears: 1,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+    platformData: {
+      platformFeeFromYieldPct: 0.2,
+      platformExchangeFeePct: 0.01,
+    },
+    earnData: { yearlyYieldPct: 0.12 },
+  };
+  const referrals: ReferralData = {
+    referralCount: 2,
+    rewardBasis: ReferralRewardBasis.Yield,
+    rewardSharePct: 0.1,
+  };
+
+  it('should group referrals by the month their plan starts', () => {
+    const joinMonths = getReferralJoinMonths(
+      {
+        ...referrals,
+        referralSchedule: [
+          { monthsAfterStart: 0, count: 1 },
+          { monthsAfterStart: 6, count: 3 },
+        ],
+        joinDelayMonths: 2,
+      },
+      4
+    );
+
+    expect(Array.from(joinMonths)).toEqual([
+      [6, 3],
+      [12, 3],
+    ]);
+  });
+
+  it("should credit a share of the referrals' gross yield", () => {
+    const plain = simulateUserTreasuryGrowth(input);
+    const withReferrals = simulateUserTreasuryGrowth({
+      ...input,
+      referralData: referrals,
+    });
+
+    // poleceni mają ten sam plan co użytkownik → 2 × 10% jego yieldu brutto
+    const grossYield = plain[5].yieldInBtc + plain[5].platformFeeFromYieldInBtc;
+    expect(withReferrals[5].referralRewardInBtc).toBeCloseTo(
+      2 * 0.1 * grossYield,
+      12
+    );
+    expect(withReferrals[5].activeReferrals).toBe(2);
+    expect(withReferrals[11].userAccumulatedBtcHolding).toBeGreaterThan(
+      plain[11].userAccumulatedBtcHolding
+    );
+  });
+
+  it("should reward a share of the referrals' exchange fees after the join delay", () => {
+    const snapshots = simulateUserTreasuryGrowth({
+      ...input,
+      referralData: {
+        ...referrals,
+        rewardBasis: ReferralRewardBasis.ExchangeFee,
+        joinDelayMonths: 3,
+      },
+    });
+
+    expect(snapshots[2].referralRewardInBtc).toBe(0);
+    expect(snapshots[2].activeReferrals).toBe(0);
+    // 2 × 10% × opłata 1% od 1 000 po 50 000
+    expect(snapshots[3].referralRewardInBtc).toBeCloseTo(
+      2 * 0.1 * (10 / 50000),
+      12
+    );
+  });
+
+  it('should charge referral payouts against the platform fees', () => {
+    const platformInput = {
+      platformUsersData: {
+        userStarts: 10,
+        userEnds: 10,
+        growthType: GrowthType.Linear,
+        years: 1,
+      },
+      platformTreasuryGrowthData: { yearlyYieldPct: 0 },
+    };
+    const [, , month] = simulatePlatformTreasuryGrowth({
+      ...platformInput,
+      userTreasuryGrowthInput: { ...input, referralData: referrals },
+    });
+    const [, , withoutReferrals] = simulatePlatformTreasuryGrowth({
+      ...platformInput,
+      userTreasuryGrowthInput: input,
+    });
+
+    expect(month.btcReferralPayout).toBeGreaterThan(0);
+    expect(month.btcFeeTotal).toBeCloseTo(
+      month.btcFeeFromYield +
+        month.btcFeeFromExchange -
+        month.btcReferralPayout,
+      12
+    );
+    expect(month.btcFeeTotal).toBeLessThan(withoutReferrals.btcFeeTotal);
+  });
+
+  it('should share referee simulations between cohorts', () => {
+    const referralInput = { ...input, referralData: referrals };
+    const [, , cohort] = buildCohortSimulationSet({
+      platformUsersData: {
+        userStarts: 10,
+        userEnds: 20,
+        growthType: GrowthType.Linear,
+        years: 1,
+      },
+      userTreasuryGrowthInput: referralInput,
+    });
+    const referralSimulations = new Map();
+    simulateUserTreasuryGrowth({ ...referralInput, referralSimulations });
+
+    expect(Array.from(referralSimulations.keys())).toEqual([0]);
+    expect(cohort.userSimulationSnapshot).toEqual(
+      simulateUserTreasuryGrowth(
+        withCohortStartMonth(referralInput, cohort.startMonth)
+      )
+    );
+  });
+
+  it('should validate the referral settings', () => {
+    expect(() =>
+      validateReferralData({ ...referrals, rewardSharePct: 1.5 })
+    ).toThrow('rewardSharePct must be in [0, 1] (got 1.5)');
+    expect(() =>
+      validateReferralData({ ...referrals, joinDelayMonths: -1 })
+    ).toThrow('joinDelayMonths must be an integer >= 0 (got -1)');
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  StakingTier,
+  createStakingState,
+  getStakingTierBtc,
+  rebalanceStakingTiers,
+  validateStakingTiers,
+} from '../utils/calculateStakingTiers';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+
+describe('calculateStakingTiers', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0,
+      enableIndexing: false,
+      numberOfYears: 1,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+    platformData: { platformFeeFromYieldPct: 0.1, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0.12 },
+  };
+  const simulate = (
+    stakingTiers: StakingTier[],
+    overrides: Partial<UserTreasuryGrowthInput> = {}
+  ) =>
+    simulateUserTreasuryGrowth({
+      ...input,
+      ...overrides,
+      earnData: { ...input.earnData, stakingTiers },
+    });
+
+  const monthlyRate = (apy: number) => Math.pow(1 + apy, 1 / 12) - 1;
+  const locked: StakingTier = {
+    name: 'Locked',
+    allocationPct: 0.5,
+    apy: 0.1,
+    lockUpMonths: 6,
+    earlyExitPenaltyPct: 0.1,
+  };
+
+  it('should keep the single yield when there are no tiers', () => {
+    const base = simulateUserTreasuryGrowth(input);
+    const tiers = simulate([]);
+
+    expect(tiers.map(s => s.userAccumulatedBtcHolding)).toEqual(
+      base.map(s => s.userAccumulatedBtcHolding)
+    );
+    expect(tiers[0].stakingTierBtc).toEqual([]);
+  });
+
+  it('should split the holding between tiers and the passive share', () => {
+    const [first] = simulate([
+      { name: 'Flexible', allocationPct: 0.3, apy: 0.05 },
+      { name: 'Locked', allocationPct: 0.2, apy: 0.2 },
+    ]);
+
+    const flexible = 0.3 * monthlyRate(0.05) * 0.9;
+    const lockedYield = 0.2 * monthlyRate(0.2) * 0.9;
+    const passive = 0.5 * monthlyRate(0.12) * 0.9;
+    expect(first.stakingTierYieldInBtc[0]).toBeCloseTo(flexible, 12);
+    expect(first.stakingTierYieldInBtc[1]).toBeCloseTo(lockedYield, 12);
+    expect(first.stakingTierBtc[0]).toBeCloseTo(0.3 + flexible, 12);
+    expect(first.userAccumulatedBtcHolding).toBeCloseTo(
+      1 + flexible + lockedYield + passive,
+      12
+    );
+  });
+
+  it('should charge the platform fee per tier', () => {
+    const [first] = simulate([
+      {
+        name: 'Promo',
+        allocationPct: 1,
+        apy: 0.1,
+        platformFeeFromYieldPct: 0,
+      },
+    ]);
+
+    expect(first.platformFeeFromYieldInBtc).toBe(0);
+    expect(first.stakingTierYieldInBtc[0]).toBeCloseTo(monthlyRate(0.1), 12);
+  });
+
+  it('should take sales from the passive share before locked tiers', () => {
+    const state = createStakingState([locked]);
+    rebalanceStakingTiers([locked], state, 0, 1);
+
+    expect(rebalanceStakingTiers([locked], state, 1, 0.6)).toBe(0);
+    expect(state.passiveBtc).toBeCloseTo(0.1, 12);
+    expect(getStakingTierBtc(state)[0]).toBeCloseTo(0.5, 12);
+  });
+
+  it('should charge the early-exit penalty only inside the lock-up', () => {
+    const state = createStakingState([locked]);
+    rebalanceStakingTiers([locked], state, 0, 1);
+
+    // 0.3 BTC zablokowane → kara 0.03 BTC z reszty
+    expect(rebalanceStakingTiers([locked], state, 2, 0.2)).toBeCloseTo(
+      0.03,
+      12
+    );
+    expect(getStakingTierBtc(state)[0]).toBeCloseTo(0.17, 12);
+    expect(rebalanceStakingTiers([locked], state, 6, 0.1)).toBe(0);
+  });
+
+  it('should deduct the penalty when withdrawals hit locked tiers', () => {
+    const snapshots = simulate([{ ...locked, allocationPct: 1, apy: 0 }], {
+      earnData: { yearlyYieldPct: 0 },
+      decumulationData: { startMonth: 1, monthlyWithdrawalInEuro: 5000 },
+    });
+
+    expect(snapshots[1].withdrawalBtcSold).toBeCloseTo(0.1, 12);
+    expect(snapshots[1].stakingPenaltyInBtc).toBeCloseTo(0.01, 12);
+    expect(snapshots[1].userAccumulatedBtcHolding).toBeCloseTo(0.89, 12);
+  });
+
+  it('should validate the tiers', () => {
+    expect(() =>
+      validateStakingTiers([locked, { ...locked, allocationPct: 0.6 }])
+    ).toThrow('stakingTiers allocations must sum to <= 1 (got 1.1)');
+    expect(() =>
+      validateStakingTiers([{ ...locked, lockUpMonths: 1.5 }])
+    ).toThrow('stakingTiers[0].lockUpMonths must be an integer >= 0 (got 1.5)');
+    expect(() =>
+      validateStakingTiers([{ ...locked, earlyExitPenaltyPct: 1 }])
+    ).toThrow('stakingTiers[0].earlyExitPenaltyPct must be in [0, 1) (got 1)');
+  });
+});
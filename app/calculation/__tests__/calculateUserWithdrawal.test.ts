@@ -0,0 +1,145 @@
+import {
+  calculateUserWithdrawal,
+  getFundsDepletedMonth,
+  WithdrawalCalculation,
+} from '../utils/calculateUserWithdrawal';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('calculateUserWithdrawal', () => {
+  const baseInput: WithdrawalCalculation = {
+    monthlyWithdrawalInEuro: 990, // 990 EUR netto
+    currentBtcPriceInEuro: 50000,
+    userAccumulatedBtcHolding: 1,
+    platformExchangeFeePct: 0.01,
+  };
+
+  it('should sell enough BTC to pay the full amount after the fee', () => {
+    const result = calculateUserWithdrawal(baseInput);
+
+    // 990 / (50000 * 0.99) = 0.02 BTC, z czego 0.0002 BTC to opłata
+    expect(result.btcSold).toBeCloseTo(0.02, 12);
+    expect(result.platformExchangeFeeInBtc).toBeCloseTo(0.0002, 12);
+    expect(result.withdrawalInEuro).toBeCloseTo(990, 8);
+    expect(result.userAccumulatedBtcHolding).toBeCloseTo(0.98, 12);
+    expect(result.fundsDepleted).toBe(false);
+  });
+
+  it('should pay out the rest and flag depletion when funds are short', () => {
+    const result = calculateUserWithdrawal({
+      ...baseInput,
+      userAccumulatedBtcHolding: 0.01,
+    });
+
+    expect(result.btcSold).toBe(0.01);
+    expect(result.userAccumulatedBtcHolding).toBe(0);
+    expect(result.withdrawalInEuro).toBeCloseTo(495, 8);
+    expect(result.fundsDepleted).toBe(true);
+  });
+
+  it('should do nothing without a withdrawal', () => {
+    const result = calculateUserWithdrawal({
+      ...baseInput,
+      monthlyWithdrawalInEuro: 0,
+    });
+
+    expect(result.btcSold).toBe(0);
+    expect(result.userAccumulatedBtcHolding).toBe(1);
+    expect(result.fundsDepleted).toBe(false);
+  });
+
+  describe('payout phase in simulateUserTreasuryGrowth', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 50000,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        settleYears: 1,
+        cpi: 0.1,
+        enableIndexing: false,
+        numberOfYears: 4,
+      },
+      userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+      decumulationData: { startMonth: 24, monthlyWithdrawalInEuro: 2000 },
+    };
+
+    it('should stop contributions and withdraw from the payout start', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      expect(result[23].isPayoutPhase).toBe(false);
+      expect(result[23].userAccumulatedBtcHolding).toBeCloseTo(0.48, 12);
+      expect(result[24].isPayoutPhase).toBe(true);
+      expect(result[24].withdrawalInEuro).toBeCloseTo(2000, 8);
+      expect(result[24].userAccumulatedBtcHolding).toBeCloseTo(0.44, 12);
+    });
+
+    it('should report the month the funds run out', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      // 24 000 EUR starcza na 12 wypłat po 2000 EUR
+      expect(result[35].fundsDepleted).toBe(false);
+      expect(result[36].fundsDepleted).toBe(true);
+      expect(result[36].withdrawalInEuro).toBeCloseTo(0, 6);
+      expect(result[47].fundsDepleted).toBe(true);
+      expect(getFundsDepletedMonth(result)).toBe(36);
+      expect(
+        getFundsDepletedMonth(
+          simulateUserTreasuryGrowth({ ...input, decumulationData: undefined })
+        )
+      ).toBeNull();
+    });
+
+    it('should index the withdrawal with CPI and keep yield accruing', () => {
+      const indexed = simulateUserTreasuryGrowth({
+        ...input,
+        decumulationData: { ...input.decumulationData!, enableIndexing: true },
+      });
+      const withYield = simulateUserTreasuryGrowth({
+        ...input,
+        earnData: { yearlyYieldPct: 0.05 },
+      });
+
+      expect(indexed[24].withdrawalInEuro).toBeCloseTo(2000 * 1.21, 6);
+      expect(withYield[30].userAccumulatedBtcHolding).toBeGreaterThan(
+        simulateUserTreasuryGrowth(input)[30].userAccumulatedBtcHolding
+      );
+    });
+
+    it('should charge the exchange fee on sold BTC', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...input,
+        platformData: {
+          platformFeeFromYieldPct: 0,
+          platformExchangeFeePct: 0.01,
+        },
+      });
+
+      expect(result[24].platformExchangeFeeInBtc).toBeCloseTo(
+        result[24].withdrawalBtcSold * 0.01,
+        12
+      );
+    });
+
+    it('should start the payout after the same savings period for each cohort', () => {
+      const cohorts = buildCohortSimulationSet({
+        platformUsersData: {
+          userStarts: 10,
+          userEnds: 20,
+          growthType: GrowthType.Linear,
+          years: 4,
+        },
+        userTreasuryGrowthInput: input,
+      });
+      const cohort = cohorts.find(c => c.startMonth === 6)!;
+
+      expect(cohort.userSimulationSnapshot[29].isPayoutPhase).toBe(false);
+      expect(cohort.userSimulationSnapshot[30].isPayoutPhase).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  compareLumpSumVsDca,
+  InvestmentApproach,
+} from '../compareLumpSumVsDca';
+import { UserTreasuryGrowthInput } from '../simulateUserTreasuryGrowth';
+import { PriceModelType } from '../utils/getBtcPricePath';
+
+describe('compareLumpSumVsDca', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0,
+      enableIndexing: false,
+      numberOfYears: 1,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+    platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0 },
+  };
+
+  it('should invest the plan total three ways', () => {
+    const results = compareLumpSumVsDca(input);
+
+    expect(results.map(result => result.approach)).toEqual([
+      InvestmentApproach.LumpSum,
+      InvestmentApproach.Spread,
+      InvestmentApproach.PlanDca,
+    ]);
+    results.forEach(result => {
+      expect(result.totalContributedInEuro).toBeCloseTo(12000, 8);
+      expect(result.finalBtcHolding).toBeCloseTo(0.24, 12);
+    });
+  });
+
+  it('should buy the lump sum at the start price with the exchange fee', () => {
+    const [lumpSum] = compareLumpSumVsDca(
+      {
+        ...input,
+        platformData: { ...input.platformData, platformExchangeFeePct: 0.01 },
+      },
+      { totalCapitalInEuro: 50000 }
+    );
+
+    expect(lumpSum.finalBtcHolding).toBeCloseTo(0.99, 12);
+    expect(lumpSum.snapshots[0].contributionInEuro).toBe(0);
+  });
+
+  it('should favour the lump sum on a rising path', () => {
+    const [lumpSum, spread, plan] = compareLumpSumVsDca(
+      { ...input, marketData: { ...input.marketData, btcCagrToday: 0.5 } },
+      { spreadMonths: 6 }
+    );
+
+    expect(lumpSum.finalValueInEuro).toBeGreaterThan(spread.finalValueInEuro);
+    expect(spread.finalValueInEuro).toBeGreaterThan(plan.finalValueInEuro);
+  });
+
+  it('should measure drawdowns and months underwater', () => {
+    const [lumpSum, spread] = compareLumpSumVsDca(
+      {
+        ...input,
+        marketData: {
+          ...input.marketData,
+          customBtcPrices: [50000, 25000, 50000],
+        },
+      },
+      { spreadMonths: 2 }
+    );
+
+    expect(lumpSum.maxDrawdownPct).toBeCloseTo(0.5, 12);
+    expect(lumpSum.maxLossPct).toBeCloseTo(0.5, 12);
+    expect(lumpSum.monthsUnderwater).toBe(1);
+    // 6 000 po 50 000 + 6 000 po 25 000 = 0.36 BTC → 9 000 z 12 000
+    expect(spread.maxLossPct).toBeCloseTo(0.25, 12);
+    expect(spread.finalBtcHolding).toBeCloseTo(0.36, 12);
+  });
+
+  it('should work with any price model', () => {
+    const results = compareLumpSumVsDca({
+      ...input,
+      marketData: {
+        ...input.marketData,
+        priceModel: PriceModelType.PowerLaw,
+        powerLaw: { exponent: 5.8, coefficient: 1e-17 },
+        numberOfYears: 2,
+      },
+    });
+
+    results.forEach(result =>
+      expect(result.finalBtcHolding).toBeGreaterThan(0)
+    );
+  });
+
+  it('should validate the settings', () => {
+    expect(() => compareLumpSumVsDca(input, { spreadMonths: 0 })).toThrow(
+      'spreadMonths must be an integer >= 1 (got 0)'
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  BtcPricePath,
+  PriceModelType,
+  getBtcPricePath,
+  getCagrDecayBtcPricePath,
+  getNumberOfMonths,
+  getPriceModel,
+  registerPriceModel,
+} from '../utils/getBtcPricePath';
+import { getBtcPricePathFromMonthlyRates } from '../utils/getBtcPricePathFromMonthlyRates';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { simulatePlatformTreasuryGrowth } from '../simulatePlatformTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('getBtcPricePath', () => {
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 50000,
+    btcCagrToday: 0.3,
+    btcCagrAsymptote: 0.1,
+    settleYears: 5,
+    settleEpsilon: 0.05,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 3,
+  };
+
+  // stały wzrost 1%/mies. – łatwy do sprawdzenia model testowy
+  const flatGrowthPath = (data: MarketData): BtcPricePath =>
+    getBtcPricePathFromMonthlyRates(
+      data.initialBtcPriceInEuro,
+      new Array(getNumberOfMonths(data.numberOfYears)).fill(0.01)
+    );
+
+  registerPriceModel({
+    type: 'flatGrowth',
+    stochastic: false,
+    getBtcPricePath: flatGrowthPath,
+  });
+
+  describe('price model registry', () => {
+    it('should default to the CAGR-decay model', () => {
+      expect(getPriceModel().type).toBe(PriceModelType.CagrDecay);
+      expect(getBtcPricePath(marketData)).toEqual(
+        getCagrDecayBtcPricePath(marketData)
+      );
+    });
+
+    it('should register all built-in models', () => {
+      Object.values(PriceModelType).forEach(type =>
+        expect(getPriceModel(type).type).toBe(type)
+      );
+      expect(getPriceModel(PriceModelType.HistoricalBootstrap).stochastic).toBe(
+        true
+      );
+      expect(getPriceModel(PriceModelType.PowerLaw).stochastic).toBe(false);
+    });
+
+    it('should use a registered custom model', () => {
+      const path = getBtcPricePath({ ...marketData, priceModel: 'flatGrowth' });
+
+      expect(path).toEqual(flatGrowthPath(marketData));
+      expect(path.btcPriceInEuro[12]).toBeCloseTo(50000 * 1.01 ** 12, 6);
+    });
+
+    it('should throw for an unknown model', () => {
+      expect(() =>
+        getBtcPricePath({ ...marketData, priceModel: 'doesNotExist' })
+      ).toThrow('Unknown price model "doesNotExist"');
+    });
+  });
+
+  describe('shared precomputed path', () => {
+    const btcPricePath = flatGrowthPath(marketData);
+    const userInput: UserTreasuryGrowthInput = {
+      marketData,
+      btcPricePath,
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+    const platformUsersData = {
+      userStarts: 10,
+      userEnds: 100,
+      growthType: GrowthType.Linear,
+      years: 3,
+    };
+
+    it('should drive every cohort with the given path', () => {
+      const cohorts = buildCohortSimulationSet({
+        platformUsersData,
+        userTreasuryGrowthInput: userInput,
+      });
+
+      cohorts.forEach(cohort =>
+        cohort.userSimulationSnapshot.forEach((snapshot, month) =>
+          expect(snapshot.currentBtcPriceInEuro).toBe(
+            btcPricePath.btcPriceInEuro[month]
+          )
+        )
+      );
+    });
+
+    it('should drive the platform engine with the given path', () => {
+      const result = simulatePlatformTreasuryGrowth({
+        platformUsersData,
+        userTreasuryGrowthInput: userInput,
+        platformTreasuryGrowthData: { yearlyYieldPct: 0.02 },
+      });
+
+      result.forEach((snapshot, month) =>
+        expect(snapshot.btcPriceInEuro).toBe(btcPricePath.btcPriceInEuro[month])
+      );
+    });
+
+    it('should compute the model path once for all cohorts', () => {
+      let calls = 0;
+      registerPriceModel({
+        type: 'countingFlatGrowth',
+        stochastic: false,
+        getBtcPricePath: data => {
+          calls++;
+          return flatGrowthPath(data);
+        },
+      });
+
+      buildCohortSimulationSet({
+        platformUsersData,
+        userTreasuryGrowthInput: {
+          ...userInput,
+          btcPricePath: undefined,
+          marketData: { ...marketData, priceModel: 'countingFlatGrowth' },
+        },
+      });
+
+      expect(calls).toBe(1);
+    });
+
+    it('should center Monte Carlo shocks on the given path', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(userInput, {
+        numberOfPaths: 3,
+        annualVolatility: 0,
+        seed: 1,
+      });
+
+      result.paths.forEach(path =>
+        path.forEach((snapshot, month) =>
+          expect(snapshot.currentBtcPriceInEuro).toBeCloseTo(
+            btcPricePath.btcPriceInEuro[month],
+            6
+          )
+        )
+      );
+    });
+  });
+
+  it('should keep the engine output unchanged for the default model', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+
+    expect(simulateUserTreasuryGrowth(input)).toEqual(
+      simulateUserTreasuryGrowth({
+        ...input,
+        btcPricePath: getCagrDecayBtcPricePath(marketData),
+      })
+    );
+  });
+});
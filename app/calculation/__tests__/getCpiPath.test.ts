@@ -0,0 +1,299 @@
+import { CpiModelType, getCpiPath } from '../utils/getCpiPath';
+import { createSeededRandom } from '../utils/createSeededRandom';
+import { getMonteCarloBtcPricePath } from '../utils/getMonteCarloBtcPricePath';
+import { getCagrDecayBtcPricePath } from '../utils/getBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+import {
+  alignMonthlySeries,
+  parseMonthlySeries,
+} from '../utils/parseMonthlySeries';
+
+describe('getCpiPath', () => {
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 50000,
+    btcCagrToday: 0.3,
+    btcCagrAsymptote: 0.1,
+    settleYears: 5,
+    settleEpsilon: 0.05,
+    cpi: 0.03,
+    enableIndexing: true,
+    numberOfYears: 5,
+  };
+  const meanReverting = {
+    initialRate: 0.08,
+    longRunRate: 0.02,
+    reversionSpeed: 0.6,
+    annualVolatility: 0.01,
+    seed: 3,
+  };
+
+  describe('constant', () => {
+    it('should compound the annual cpi monthly', () => {
+      const path = getCpiPath(marketData);
+
+      expect(path.cpiFactor.length).toBe(60);
+      expect(path.cpiFactor[0]).toBe(1);
+      expect(path.cpiFactor[12]).toBeCloseTo(1.03, 10);
+      expect(path.cpiFactor[48]).toBeCloseTo(Math.pow(1.03, 4), 10);
+    });
+  });
+
+  describe('schedule', () => {
+    it('should use the rate of each simulation year and repeat the last one', () => {
+      const path = getCpiPath({
+        ...marketData,
+        cpiModel: CpiModelType.Schedule,
+        cpiSchedule: { yearlyRates: [0.1, 0.05] },
+      });
+
+      expect(path.cpiFactor[12]).toBeCloseTo(1.1, 10);
+      expect(path.cpiFactor[24]).toBeCloseTo(1.1 * 1.05, 10);
+      expect(path.cpiFactor[48]).toBeCloseTo(1.1 * Math.pow(1.05, 3), 10);
+    });
+
+    it('should fall back to cpi for an empty schedule', () => {
+      const path = getCpiPath({
+        ...marketData,
+        cpiModel: CpiModelType.Schedule,
+        cpiSchedule: { yearlyRates: [] },
+      });
+
+      expect(path).toEqual(getCpiPath(marketData));
+    });
+  });
+
+  describe('mean reverting', () => {
+    const ouMarketData: MarketData = {
+      ...marketData,
+      numberOfYears: 30,
+      cpiModel: CpiModelType.MeanReverting,
+      cpiMeanReverting: meanReverting,
+    };
+
+    it('should revert from the initial rate towards the long-run rate', () => {
+      const path = getCpiPath({
+        ...ouMarketData,
+        cpiMeanReverting: { ...meanReverting, annualVolatility: 0 },
+      });
+      const annual = (month: number) =>
+        Math.pow(1 + path.monthlyCpiRate[month], 12) - 1;
+
+      expect(annual(0)).toBeCloseTo(0.08, 10);
+      expect(annual(120)).toBeLessThan(0.03);
+      expect(annual(359)).toBeCloseTo(0.02, 3);
+    });
+
+    it('should be reproducible for the same seed', () => {
+      expect(getCpiPath(ouMarketData)).toEqual(getCpiPath(ouMarketData));
+      expect(
+        getCpiPath({
+          ...ouMarketData,
+          cpiMeanReverting: { ...meanReverting, seed: 4 },
+        })
+      ).not.toEqual(getCpiPath(ouMarketData));
+    });
+
+    it('should correlate inflation shocks with BTC shocks', () => {
+      const basePath = getCagrDecayBtcPricePath(ouMarketData);
+      const correlationFor = (rho: number) => {
+        const random = createSeededRandom(11);
+        const btcPath = getMonteCarloBtcPricePath(
+          basePath,
+          { annualVolatility: 0.6 },
+          random
+        );
+        const path = getCpiPath(
+          {
+            ...ouMarketData,
+            cpiMeanReverting: {
+              ...meanReverting,
+              reversionSpeed: 0,
+              btcShockCorrelation: rho,
+            },
+          },
+          random,
+          btcPath
+        );
+        const btc = btcPath.btcMonthlyRate
+          .slice(0, -1)
+          .map(r => Math.log(1 + r));
+        const cpi = path.monthlyCpiRate
+          .slice(1)
+          .map((r, m) => r - path.monthlyCpiRate[m]);
+        const mean = (xs: number[]) =>
+          xs.reduce((a, x) => a + x, 0) / xs.length;
+        const mb = mean(btc);
+        const mc = mean(cpi);
+        const cov = mean(btc.map((b, i) => (b - mb) * (cpi[i] - mc)));
+        const sd = (xs: number[], m: number) =>
+          Math.sqrt(mean(xs.map(x => (x - m) * (x - m))));
+        return cov / (sd(btc, mb) * sd(cpi, mc));
+      };
+
+      expect(correlationFor(0.9)).toBeGreaterThan(0.7);
+      expect(Math.abs(correlationFor(0))).toBeLessThan(0.2);
+      expect(correlationFor(-0.9)).toBeLessThan(-0.7);
+    });
+
+    it('should drive inflation with the sampled BTC shocks', () => {
+      const random = createSeededRandom(5);
+      const btcPath = getMonteCarloBtcPricePath(
+        getCagrDecayBtcPricePath(ouMarketData),
+        { annualVolatility: 0.6 },
+        random
+      );
+      const path = getCpiPath(
+        {
+          ...ouMarketData,
+          cpiMeanReverting: {
+            ...meanReverting,
+            reversionSpeed: 0,
+            btcShockCorrelation: 1,
+          },
+        },
+        random,
+        btcPath
+      );
+      const annual = (month: number) =>
+        Math.pow(1 + path.monthlyCpiRate[month], 12) - 1;
+
+      // ρ = 1: innowacja inflacji to dokładnie szok z(m) ceny BTC
+      for (let month = 0; month < 24; month++) {
+        expect(annual(month + 1) - annual(month)).toBeCloseTo(
+          (meanReverting.annualVolatility / Math.sqrt(12)) *
+            btcPath.btcPriceShock![month],
+          10
+        );
+      }
+    });
+
+    it('should throw when settings are missing', () => {
+      expect(() =>
+        getCpiPath({ ...ouMarketData, cpiMeanReverting: undefined })
+      ).toThrow('cpiMeanReverting settings are required');
+    });
+  });
+
+  describe('imported', () => {
+    it('should follow the index and continue with cpi afterwards', () => {
+      const path = getCpiPath({
+        ...marketData,
+        cpiModel: CpiModelType.Imported,
+        cpiIndex: [100, 101, 103],
+      });
+
+      expect(path.cpiFactor[1]).toBeCloseTo(1.01, 10);
+      expect(path.cpiFactor[2]).toBeCloseTo(1.03, 10);
+      expect(path.cpiFactor[14]).toBeCloseTo(1.03 * 1.03, 10);
+    });
+
+    it('should accept an HICP-style series from parseMonthlySeries', () => {
+      const { values } = parseMonthlySeries(
+        'month;HICP\n2025-01;125,1\n2025-02;125,9',
+        'CPI index'
+      );
+
+      expect(values).toEqual([125.1, 125.9]);
+      expect(() =>
+        parseMonthlySeries('2025-01,100\n2025-03,101', 'CPI index')
+      ).toThrow('gap in CPI index series');
+    });
+
+    it('should align a dated index to the simulation start date', () => {
+      const series = parseMonthlySeries(
+        'month,hicp\n2024-11,100\n2024-12,101\n2025-01,103\n2025-02,104',
+        'CPI index'
+      );
+      const path = getCpiPath({
+        ...marketData,
+        cpiModel: CpiModelType.Imported,
+        cpiIndex: alignMonthlySeries(series, '2025-01-01', 'CPI index'),
+      });
+
+      expect(alignMonthlySeries(series, '2024-11-01', 'CPI index')).toEqual(
+        series.values
+      );
+      expect(path.cpiFactor[0]).toBe(1);
+      expect(path.cpiFactor[1]).toBeCloseTo(104 / 103, 10);
+      expect(() =>
+        alignMonthlySeries(series, '2024-10-01', 'CPI index')
+      ).toThrow(
+        'Custom CPI index series starts in 2024-11, after the simulation start 2024-10'
+      );
+      expect(() =>
+        alignMonthlySeries(series, '2025-03-01', 'CPI index')
+      ).toThrow('Custom CPI index series ends before the simulation start');
+      expect(
+        alignMonthlySeries({ values: [100, 101] }, '2030-06-01', 'CPI index')
+      ).toEqual([100, 101]);
+    });
+
+    it('should reject non-positive index values', () => {
+      expect(() =>
+        getCpiPath({
+          ...marketData,
+          cpiModel: CpiModelType.Imported,
+          cpiIndex: [100, 0],
+        })
+      ).toThrow('cpiIndex[1] must be > 0 (got 0)');
+    });
+  });
+
+  describe('engine integration', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: {
+        ...marketData,
+        cpiModel: CpiModelType.Schedule,
+        cpiSchedule: { yearlyRates: [0.2, 0] },
+      },
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0 },
+    };
+
+    it('should expose the per-month factor on snapshots', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      expect(result[0].cpiFactor).toBe(1);
+      expect(result[12].cpiFactor).toBeCloseTo(1.2, 10);
+      expect(result[59].cpiFactor).toBeCloseTo(1.2, 10);
+    });
+
+    it('should index contributions with the cpi path', () => {
+      const result = simulateUserTreasuryGrowth(input);
+      const bought = (month: number) =>
+        result[month].userAccumulatedBtcHolding -
+        (month > 0 ? result[month - 1].userAccumulatedBtcHolding : 0);
+
+      expect(bought(30) * result[30].currentBtcPriceInEuro).toBeCloseTo(
+        1.2 * bought(0) * result[0].currentBtcPriceInEuro,
+        6
+      );
+    });
+
+    it('should draw a new inflation path per Monte Carlo path', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(
+        {
+          ...input,
+          marketData: {
+            ...marketData,
+            cpiModel: CpiModelType.MeanReverting,
+            cpiMeanReverting: { ...meanReverting, annualVolatility: 0.03 },
+          },
+        },
+        { numberOfPaths: 5, annualVolatility: 0.5, seed: 1 }
+      );
+
+      const finalFactors = result.paths.map(path => path[59].cpiFactor);
+      expect(new Set(finalFactors).size).toBe(5);
+    });
+  });
+});
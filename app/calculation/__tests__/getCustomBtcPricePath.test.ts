@@ -0,0 +1,234 @@
+import {
+  getCustomBtcPricePath,
+  parseCustomBtcPriceSeries,
+} from '../utils/getCustomBtcPricePath';
+import { getBtcPricePath } from '../utils/getBtcPricePath';
+import { MarketRegime } from '../utils/getRegimeSwitchingBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { simulatePlatformTreasuryGrowth } from '../simulatePlatformTreasuryGrowth';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('getCustomBtcPricePath', () => {
+  describe('parseCustomBtcPriceSeries', () => {
+    it('should parse CSV with a header', () => {
+      const series = parseCustomBtcPriceSeries(
+        'month,price\n2025-01,90000\n2025-02,95000\n2025-03,99000'
+      );
+
+      expect(series).toEqual({
+        startMonth: '2025-01',
+        btcPriceInEuro: [90000, 95000, 99000],
+      });
+    });
+
+    it('should parse semicolon CSV with decimal commas and full dates', () => {
+      const series = parseCustomBtcPriceSeries(
+        'Data;Cena BTC\n2025-01-01;90 000,50\n2025-02-01;95000,25'
+      );
+
+      expect(series.startMonth).toBe('2025-01');
+      expect(series.btcPriceInEuro).toEqual([90000.5, 95000.25]);
+    });
+
+    it('should parse a single column of prices without months', () => {
+      const series = parseCustomBtcPriceSeries('90000\n95000\n99000\n');
+
+      expect(series).toEqual({
+        startMonth: undefined,
+        btcPriceInEuro: [90000, 95000, 99000],
+      });
+    });
+
+    it('should parse JSON arrays and the closes dataset format', () => {
+      expect(parseCustomBtcPriceSeries('[1, 2, 3]').btcPriceInEuro).toEqual([
+        1, 2, 3,
+      ]);
+      expect(
+        parseCustomBtcPriceSeries(
+          JSON.stringify({
+            closes: [
+              { month: '2024-12', btcPriceInEuro: 10 },
+              { month: '2025-01', btcPriceInEuro: 11 },
+            ],
+          })
+        )
+      ).toEqual({ startMonth: '2024-12', btcPriceInEuro: [10, 11] });
+      expect(
+        parseCustomBtcPriceSeries('[{"date": "2025-01-31", "price": 5}]')
+      ).toEqual({ startMonth: '2025-01', btcPriceInEuro: [5] });
+    });
+
+    it('should reject gaps between months', () => {
+      expect(() =>
+        parseCustomBtcPriceSeries('month,price\n2025-01,1\n2025-04,2')
+      ).toThrow(
+        'Row 3: gap in price series – 2 month(s) missing between 2025-01 and 2025-04'
+      );
+    });
+
+    it('should reject duplicated or unordered months', () => {
+      expect(() => parseCustomBtcPriceSeries('2025-02,1\n2025-02,2')).toThrow(
+        'months must be in ascending order'
+      );
+    });
+
+    it('should reject non-positive prices', () => {
+      expect(() =>
+        parseCustomBtcPriceSeries('month,price\n2025-01,100\n2025-02,0')
+      ).toThrow('Row 3: price must be > 0 (got 0)');
+      expect(() => parseCustomBtcPriceSeries('[100, -5]')).toThrow(
+        'Row 2: price must be > 0 (got -5)'
+      );
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseCustomBtcPriceSeries('  ')).toThrow(
+        'Custom price series is empty'
+      );
+      expect(() => parseCustomBtcPriceSeries('[1, 2')).toThrow(
+        'Custom price series is not valid JSON'
+      );
+      expect(() => parseCustomBtcPriceSeries('2025-13,1')).toThrow(
+        'Row 1: invalid month "2025-13"'
+      );
+      expect(() => parseCustomBtcPriceSeries('2025-01,abc')).toThrow(
+        'Row 1: invalid price "abc"'
+      );
+    });
+  });
+
+  describe('path construction', () => {
+    const marketData: MarketData = {
+      initialBtcPriceInEuro: 100000,
+      btcCagrToday: 0.3,
+      btcCagrAsymptote: 0.1,
+      settleYears: 5,
+      settleEpsilon: 0.05,
+      cpi: 0.02,
+      enableIndexing: false,
+      numberOfYears: 2,
+    };
+
+    it('should use the custom prices directly', () => {
+      const prices = Array.from({ length: 24 }, (_, m) => 1000 + m * 10);
+      const path = getBtcPricePath({ ...marketData, customBtcPrices: prices });
+
+      path.btcPriceInEuro.forEach((price, month) =>
+        expect(price).toBeCloseTo(prices[month], 8)
+      );
+    });
+
+    it('should extend short inputs with the configured model rates', () => {
+      const modelPath = getBtcPricePath(marketData);
+      const path = getCustomBtcPricePath([50000, 60000, 55000], modelPath);
+
+      expect(path.btcPriceInEuro.length).toBe(24);
+      expect(path.btcPriceInEuro.slice(0, 3)).toEqual([50000, 60000, 55000]);
+      for (let month = 2; month < 24; month++) {
+        expect(path.btcMonthlyRate[month]).toBe(
+          modelPath.btcMonthlyRate[month]
+        );
+      }
+      expect(path.btcPriceInEuro[3]).toBeCloseTo(
+        55000 * (1 + modelPath.btcMonthlyRate[2]),
+        8
+      );
+    });
+
+    it('should keep the model market regimes', () => {
+      const modelPath = {
+        ...getBtcPricePath(marketData),
+        marketRegime: Array(24).fill(MarketRegime.Bear),
+      };
+      const path = getCustomBtcPricePath([50000, 60000], modelPath);
+
+      expect(path.marketRegime).toEqual(modelPath.marketRegime);
+    });
+
+    it('should ignore prices beyond the horizon', () => {
+      const prices = Array.from({ length: 40 }, (_, m) => 1000 + m);
+      const path = getBtcPricePath({ ...marketData, customBtcPrices: prices });
+
+      expect(path.btcPriceInEuro.length).toBe(24);
+      expect(path.btcPriceInEuro[23]).toBeCloseTo(1023, 8);
+    });
+
+    it('should throw for non-positive custom prices', () => {
+      expect(() =>
+        getBtcPricePath({ ...marketData, customBtcPrices: [100, 0] })
+      ).toThrow('customBtcPrices[1] must be > 0 (got 0)');
+    });
+  });
+
+  describe('engine integration', () => {
+    const customBtcPrices = Array.from(
+      { length: 12 },
+      (_, m) => 80000 * (m % 2 === 0 ? 1 : 0.9)
+    );
+    const userInput: UserTreasuryGrowthInput = {
+      marketData: {
+        initialBtcPriceInEuro: 100000,
+        btcCagrToday: 0.3,
+        btcCagrAsymptote: 0.1,
+        settleYears: 5,
+        settleEpsilon: 0.05,
+        cpi: 0.02,
+        enableIndexing: false,
+        numberOfYears: 3,
+        customBtcPrices,
+      },
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+    const platformUsersData = {
+      userStarts: 10,
+      userEnds: 100,
+      growthType: GrowthType.Linear,
+      years: 3,
+    };
+
+    it('should drive simulateUserTreasuryGrowth prices', () => {
+      const result = simulateUserTreasuryGrowth(userInput);
+
+      customBtcPrices.forEach((price, month) =>
+        expect(result[month].currentBtcPriceInEuro).toBeCloseTo(price, 6)
+      );
+    });
+
+    it('should give every cohort the custom price path', () => {
+      const cohorts = buildCohortSimulationSet({
+        platformUsersData,
+        userTreasuryGrowthInput: userInput,
+      });
+
+      cohorts.forEach(cohort =>
+        customBtcPrices.forEach((price, month) =>
+          expect(
+            cohort.userSimulationSnapshot[month].currentBtcPriceInEuro
+          ).toBeCloseTo(price, 6)
+        )
+      );
+    });
+
+    it('should drive simulatePlatformTreasuryGrowth prices', () => {
+      const result = simulatePlatformTreasuryGrowth({
+        platformUsersData,
+        userTreasuryGrowthInput: userInput,
+        platformTreasuryGrowthData: { yearlyYieldPct: 0.02 },
+      });
+
+      customBtcPrices.forEach((price, month) =>
+        expect(result[month].btcPriceInEuro).toBeCloseTo(price, 6)
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Currency, FxModelType, getFxPath } from '../utils/getFxPath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('getFxPath', () => {
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 50000,
+    btcCagrToday: 0.2,
+    btcCagrAsymptote: 0.1,
+    settleYears: 5,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 3,
+  };
+  const plnMarketData: MarketData = {
+    ...marketData,
+    quoteCurrency: Currency.EUR,
+    contributionCurrency: Currency.PLN,
+    fx: { initialRate: 4.3 },
+  };
+
+  it('should return a rate of 1 when both currencies are the same', () => {
+    const path = getFxPath({
+      ...marketData,
+      contributionCurrency: Currency.EUR,
+    });
+
+    expect(path.fxRate.length).toBe(36);
+    expect(path.fxRate.every(rate => rate === 1)).toBe(true);
+  });
+
+  it('should keep a constant rate by default', () => {
+    const path = getFxPath(plnMarketData);
+
+    expect(path.fxRate[0]).toBe(4.3);
+    expect(path.fxRate[35]).toBe(4.3);
+  });
+
+  it('should compound the annual drift monthly', () => {
+    const path = getFxPath({
+      ...plnMarketData,
+      fx: { model: FxModelType.Drift, initialRate: 4, annualDrift: 0.05 },
+    });
+
+    expect(path.fxRate[12]).toBeCloseTo(4.2, 10);
+    expect(path.fxRate[24]).toBeCloseTo(4 * 1.05 * 1.05, 10);
+  });
+
+  it('should follow imported rates and drift from the last one', () => {
+    const path = getFxPath({
+      ...plnMarketData,
+      fx: {
+        model: FxModelType.Imported,
+        initialRate: 4.3,
+        annualDrift: 0.1,
+        rates: [4.2, 4.4],
+      },
+    });
+
+    expect(path.fxRate.slice(0, 2)).toEqual([4.2, 4.4]);
+    expect(path.fxRate[13]).toBeCloseTo(4.4 * 1.1, 10);
+  });
+
+  it('should validate fx settings', () => {
+    expect(() => getFxPath({ ...plnMarketData, fx: undefined })).toThrow(
+      'fx settings are required to convert PLN contributions to EUR'
+    );
+    expect(() =>
+      getFxPath({ ...plnMarketData, fx: { initialRate: 0 } })
+    ).toThrow('fx.initialRate must be > 0 (got 0)');
+    expect(() =>
+      getFxPath({
+        ...plnMarketData,
+        fx: { model: FxModelType.Imported, initialRate: 4 },
+      })
+    ).toThrow('fx.rates are required');
+    expect(() =>
+      getFxPath({
+        ...plnMarketData,
+        fx: { model: FxModelType.Imported, initialRate: 4, rates: [4, -1] },
+      })
+    ).toThrow('fx.rates[1] must be > 0 (got -1)');
+  });
+
+  describe('engine integration', () => {
+    const input: UserTreasuryGrowthInput = {
+      marketData: plnMarketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 430 },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: { yearlyYieldPct: 0 },
+    };
+
+    it('should convert contributions to the quote currency', () => {
+      const pln = simulateUserTreasuryGrowth(input);
+      const eur = simulateUserTreasuryGrowth({
+        ...input,
+        marketData,
+        userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      });
+
+      expect(pln[35].userAccumulatedBtcHolding).toBeCloseTo(
+        eur[35].userAccumulatedBtcHolding,
+        12
+      );
+      expect(pln[35].fxRate).toBe(4.3);
+      expect(eur[35].fxRate).toBe(1);
+    });
+
+    it('should buy less BTC when the contribution currency weakens', () => {
+      const weakening = simulateUserTreasuryGrowth({
+        ...input,
+        marketData: {
+          ...plnMarketData,
+          fx: { model: FxModelType.Drift, initialRate: 4.3, annualDrift: 0.1 },
+        },
+      });
+      const constant = simulateUserTreasuryGrowth(input);
+
+      expect(weakening[0].userAccumulatedBtcHolding).toBeCloseTo(
+        constant[0].userAccumulatedBtcHolding,
+        12
+      );
+      expect(weakening[35].userAccumulatedBtcHolding).toBeLessThan(
+        constant[35].userAccumulatedBtcHolding
+      );
+    });
+
+    it('should pass the fx path to cohorts and Monte Carlo paths', () => {
+      const cohorts = buildCohortSimulationSet({
+        platformUsersData: {
+          userStarts: 10,
+          userEnds: 20,
+          growthType: GrowthType.Linear,
+          years: 3,
+        },
+        userTreasuryGrowthInput: input,
+      });
+      const monteCarlo = simulateUserTreasuryGrowthMonteCarlo(input, {
+        numberOfPaths: 3,
+        annualVolatility: 0.5,
+        seed: 1,
+      });
+
+      cohorts.forEach(cohort =>
+        expect(cohort.userSimulationSnapshot[20].fxRate).toBe(4.3)
+      );
+      monteCarlo.paths.forEach(path => expect(path[20].fxRate).toBe(4.3));
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  getHistoricalBootstrapBtcPricePath,
+  getHistoricalBtcLogReturns,
+  HistoricalBootstrapSettings,
+} from '../utils/getHistoricalBootstrapBtcPricePath';
+import { createSeededRandom } from '../utils/createSeededRandom';
+import { PriceModelType } from '../utils/getBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { buildCohortSimulationSet } from '../utils/buildCohortSimulationSet';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('getHistoricalBootstrapBtcPricePath', () => {
+  const settings: HistoricalBootstrapSettings = {
+    blockLengthMonths: 12,
+    seed: 1,
+    demean: false,
+  };
+
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 100000,
+    btcCagrToday: 0.3,
+    btcCagrAsymptote: 0.1,
+    settleYears: 8,
+    settleEpsilon: 0.05,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 10,
+    priceModel: PriceModelType.HistoricalBootstrap,
+    historicalBootstrap: settings,
+  };
+
+  describe('historical dataset', () => {
+    it('should provide finite monthly log-returns', () => {
+      const logReturns = getHistoricalBtcLogReturns();
+
+      expect(logReturns.length).toBeGreaterThan(100);
+      logReturns.forEach(r => expect(Number.isFinite(r)).toBe(true));
+    });
+  });
+
+  describe('basic functionality', () => {
+    it('should return a path covering the horizon', () => {
+      const path = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(settings.seed)
+      );
+
+      expect(path.btcPriceInEuro.length).toBe(120);
+      expect(path.btcMonthlyRate.length).toBe(120);
+      expect(path.btcPriceInEuro[0]).toBe(100000);
+    });
+
+    it('should only use historical returns when de-meaning is off', () => {
+      const historical = getHistoricalBtcLogReturns().map(r => Math.exp(r) - 1);
+      const path = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(settings.seed)
+      );
+
+      path.btcMonthlyRate.forEach(rate => {
+        expect(historical.some(h => Math.abs(h - rate) < 1e-12)).toBe(true);
+      });
+    });
+
+    it('should copy consecutive historical months within a block', () => {
+      const historical = getHistoricalBtcLogReturns().map(r => Math.exp(r) - 1);
+      const path = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(settings.seed)
+      );
+
+      const start = historical.findIndex(
+        h => Math.abs(h - path.btcMonthlyRate[0]) < 1e-12
+      );
+      for (let k = 0; k < 12; k++) {
+        expect(path.btcMonthlyRate[k]).toBeCloseTo(
+          historical[(start + k) % historical.length],
+          12
+        );
+      }
+    });
+
+    it('should be reproducible for the same seed', () => {
+      const first = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(5)
+      );
+      const second = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(5)
+      );
+
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('de-meaning', () => {
+    it('should match the long-run drift to btcCagrAsymptote', () => {
+      const longMarketData = { ...marketData, numberOfYears: 1000 };
+      const path = getHistoricalBootstrapBtcPricePath(
+        longMarketData,
+        { ...settings, demean: true },
+        createSeededRandom(3)
+      );
+
+      const meanLogReturn =
+        path.btcMonthlyRate.reduce((a, r) => a + Math.log(1 + r), 0) /
+        path.btcMonthlyRate.length;
+      const annualized = Math.exp(meanLogReturn * 12) - 1;
+      expect(annualized).toBeGreaterThan(0.05);
+      expect(annualized).toBeLessThan(0.15);
+    });
+  });
+
+  describe('engine integration', () => {
+    const userInput: UserTreasuryGrowthInput = {
+      marketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+
+    it('should drive simulateUserTreasuryGrowth prices', () => {
+      const path = getHistoricalBootstrapBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(settings.seed)
+      );
+      const result = simulateUserTreasuryGrowth(userInput);
+
+      result.forEach((snapshot, month) => {
+        expect(snapshot.currentBtcPriceInEuro).toBeCloseTo(
+          path.btcPriceInEuro[month],
+          6
+        );
+      });
+    });
+
+    it('should give every cohort the same price path', () => {
+      const cohorts = buildCohortSimulationSet({
+        platformUsersData: {
+          userStarts: 10,
+          userEnds: 100,
+          growthType: GrowthType.Linear,
+          years: 10,
+        },
+        userTreasuryGrowthInput: userInput,
+      });
+
+      const reference = cohorts[0].userSimulationSnapshot;
+      cohorts.forEach(cohort => {
+        cohort.userSimulationSnapshot.forEach((snapshot, month) => {
+          expect(snapshot.currentBtcPriceInEuro).toBe(
+            reference[month].currentBtcPriceInEuro
+          );
+        });
+      });
+    });
+
+    it('should throw when bootstrap settings are missing', () => {
+      expect(() =>
+        simulateUserTreasuryGrowth({
+          ...userInput,
+          marketData: { ...marketData, historicalBootstrap: undefined },
+        })
+      ).toThrow('historicalBootstrap settings are required');
+    });
+  });
+});
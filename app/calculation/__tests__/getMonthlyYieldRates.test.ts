@@ -0,0 +1,172 @@
+import {
+  YieldScheduleType,
+  getMonthlyYieldRates,
+} from '../utils/getMonthlyYieldRates';
+import { CpiModelType, getCpiPath } from '../utils/getCpiPath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulatePlatformTreasuryGrowth } from '../simulatePlatformTreasuryGrowth';
+import { GrowthType } from '../utils/getPlatformUsersTimeline';
+
+describe('getMonthlyYieldRates', () => {
+  const toAnnual = (monthlyRate: number) => Math.pow(1 + monthlyRate, 12) - 1;
+
+  it('should return a constant rate without a schedule', () => {
+    const rates = getMonthlyYieldRates(0.05, 24);
+
+    expect(rates.length).toBe(24);
+    rates.forEach(rate => expect(toAnnual(rate)).toBeCloseTo(0.05, 10));
+  });
+
+  it('should use per-year rates and keep the last one', () => {
+    const rates = getMonthlyYieldRates(0.05, 48, {
+      type: YieldScheduleType.Yearly,
+      yearlyRates: [0.06, 0.03],
+    });
+
+    expect(toAnnual(rates[0])).toBeCloseTo(0.06, 10);
+    expect(toAnnual(rates[11])).toBeCloseTo(0.06, 10);
+    expect(toAnnual(rates[12])).toBeCloseTo(0.03, 10);
+    expect(toAnnual(rates[47])).toBeCloseTo(0.03, 10);
+  });
+
+  it('should decay linearly to the floor and stay there', () => {
+    const rates = getMonthlyYieldRates(0.06, 120, {
+      type: YieldScheduleType.LinearDecay,
+      floorPct: 0.02,
+      decayYears: 4,
+    });
+
+    expect(toAnnual(rates[0])).toBeCloseTo(0.06, 10);
+    expect(toAnnual(rates[24])).toBeCloseTo(0.04, 10);
+    expect(toAnnual(rates[48])).toBeCloseTo(0.02, 10);
+    expect(toAnnual(rates[119])).toBeCloseTo(0.02, 10);
+  });
+
+  it('should halve the gap to the floor every half-life', () => {
+    const rates = getMonthlyYieldRates(0.1, 120, {
+      type: YieldScheduleType.ExponentialDecay,
+      floorPct: 0.02,
+      halfLifeYears: 3,
+    });
+
+    expect(toAnnual(rates[0])).toBeCloseTo(0.1, 10);
+    expect(toAnnual(rates[36])).toBeCloseTo(0.06, 10);
+    expect(toAnnual(rates[72])).toBeCloseTo(0.04, 10);
+  });
+
+  it('should follow the CPI path with multiplier, spread and floor', () => {
+    const cpiPath = getCpiPath({
+      cpi: 0.03,
+      enableIndexing: false,
+      numberOfYears: 3,
+      initialBtcPriceInEuro: 1,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpiModel: CpiModelType.Schedule,
+      cpiSchedule: { yearlyRates: [0.04, 0.01, -0.02] },
+    });
+    const rates = getMonthlyYieldRates(
+      0,
+      36,
+      {
+        type: YieldScheduleType.CpiLinked,
+        cpiMultiplier: 0.5,
+        cpiSpreadPct: 0.01,
+        floorPct: 0.005,
+      },
+      cpiPath
+    );
+
+    expect(toAnnual(rates[0])).toBeCloseTo(0.03, 10);
+    expect(toAnnual(rates[12])).toBeCloseTo(0.015, 10);
+    expect(toAnnual(rates[24])).toBeCloseTo(0.005, 10);
+  });
+
+  it('should validate schedule settings', () => {
+    expect(() =>
+      getMonthlyYieldRates(0.05, 12, { type: YieldScheduleType.LinearDecay })
+    ).toThrow('decayYears must be > 0');
+    expect(() =>
+      getMonthlyYieldRates(0.05, 12, {
+        type: YieldScheduleType.ExponentialDecay,
+      })
+    ).toThrow('halfLifeYears must be > 0');
+    expect(() =>
+      getMonthlyYieldRates(0.05, 12, { type: YieldScheduleType.CpiLinked })
+    ).toThrow('cpiPath is required');
+  });
+
+  describe('engine integration', () => {
+    const marketData: MarketData = {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0.02,
+      enableIndexing: false,
+      numberOfYears: 2,
+    };
+    const input: UserTreasuryGrowthInput = {
+      marketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+      platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+      earnData: {
+        yearlyYieldPct: 0.05,
+        yieldSchedule: {
+          type: YieldScheduleType.Yearly,
+          yearlyRates: [0.1, 0],
+        },
+      },
+    };
+
+    it('should apply the rate of each month to user holdings', () => {
+      const result = simulateUserTreasuryGrowth(input);
+
+      expect(result[11].userAccumulatedBtcHolding).toBeCloseTo(1.1, 10);
+      expect(result[23].userAccumulatedBtcHolding).toBeCloseTo(1.1, 10);
+    });
+
+    it('should apply the schedule to the platform principal', () => {
+      const platformInput = {
+        platformUsersData: {
+          userStarts: 10,
+          userEnds: 10,
+          growthType: GrowthType.Linear,
+          years: 2,
+        },
+        userTreasuryGrowthInput: {
+          ...input,
+          userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+          platformData: {
+            platformFeeFromYieldPct: 0,
+            platformExchangeFeePct: 0.01,
+          },
+          earnData: { yearlyYieldPct: 0 },
+        },
+      };
+      const constant = simulatePlatformTreasuryGrowth({
+        ...platformInput,
+        platformTreasuryGrowthData: { yearlyYieldPct: 0.05 },
+      });
+      const scheduled = simulatePlatformTreasuryGrowth({
+        ...platformInput,
+        platformTreasuryGrowthData: {
+          yearlyYieldPct: 0.05,
+          yieldSchedule: {
+            type: YieldScheduleType.Yearly,
+            yearlyRates: [0.05, 0],
+          },
+        },
+      });
+
+      expect(scheduled[11]).toEqual(constant[11]);
+      expect(scheduled[20].platformMonthlyYieldBtc).toBe(0);
+      expect(constant[20].platformMonthlyYieldBtc).toBeGreaterThan(0);
+    });
+  });
+});
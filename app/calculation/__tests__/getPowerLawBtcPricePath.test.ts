@@ -0,0 +1,150 @@
+import {
+  getPowerLawBtcPricePath,
+  getPowerLawTrendPrice,
+  PowerLawSettings,
+} from '../utils/getPowerLawBtcPricePath';
+import { PriceModelType } from '../utils/getBtcPricePath';
+import { getMonthDate } from '../utils/getMonthDate';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+} from '../simulateUserTreasuryGrowth';
+
+describe('getPowerLawBtcPricePath', () => {
+  const settings: PowerLawSettings = {
+    exponent: 5.8,
+    coefficient: 1e-17,
+  };
+
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 100000,
+    btcCagrToday: 0,
+    btcCagrAsymptote: 0,
+    settleYears: 0,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 20,
+    startDate: '2025-08-01',
+    priceModel: PriceModelType.PowerLaw,
+    powerLaw: settings,
+  };
+
+  const trendAt = (month: number) =>
+    getPowerLawTrendPrice(getMonthDate(marketData.startDate, month), settings);
+
+  describe('trend line', () => {
+    it('should grow with days since genesis', () => {
+      expect(trendAt(120)).toBeGreaterThan(trendAt(0));
+    });
+
+    it('should have a decaying growth rate', () => {
+      const firstYearGrowth = trendAt(12) / trendAt(0);
+      const lastYearGrowth = trendAt(240) / trendAt(228);
+      expect(lastYearGrowth).toBeLessThan(firstYearGrowth);
+    });
+  });
+
+  describe('path', () => {
+    it('should start at the initial price', () => {
+      const path = getPowerLawBtcPricePath(marketData, settings);
+
+      expect(path.btcPriceInEuro.length).toBe(240);
+      expect(path.btcPriceInEuro[0]).toBe(100000);
+    });
+
+    it('should stay parallel to the trend without reversion', () => {
+      const path = getPowerLawBtcPricePath(marketData, settings);
+      const deviation0 = path.btcPriceInEuro[0] / trendAt(0);
+
+      expect(path.btcPriceInEuro[100] / trendAt(100)).toBeCloseTo(
+        deviation0,
+        8
+      );
+    });
+
+    it('should revert to the trend after reversionYears', () => {
+      const path = getPowerLawBtcPricePath(marketData, {
+        ...settings,
+        reversionYears: 5,
+      });
+      const logDeviation0 = Math.log(path.btcPriceInEuro[0] / trendAt(0));
+      const logDeviation5y = Math.log(path.btcPriceInEuro[60] / trendAt(60));
+
+      expect(logDeviation5y / logDeviation0).toBeCloseTo(0.05, 6);
+    });
+
+    it('should keep prices inside the corridor', () => {
+      const path = getPowerLawBtcPricePath(
+        { ...marketData, initialBtcPriceInEuro: 1_000_000 },
+        {
+          ...settings,
+          corridor: { supportMultiple: 0.5, resistanceMultiple: 2 },
+        }
+      );
+
+      for (let month = 1; month < path.btcPriceInEuro.length; month++) {
+        const trend = trendAt(month);
+        expect(path.btcPriceInEuro[month]).toBeLessThanOrEqual(
+          trend * 2 + 1e-6
+        );
+        expect(path.btcPriceInEuro[month]).toBeGreaterThanOrEqual(
+          trend * 0.5 - 1e-6
+        );
+      }
+    });
+
+    it('should report rates consistent with prices', () => {
+      const path = getPowerLawBtcPricePath(marketData, settings);
+
+      for (let month = 1; month < path.btcPriceInEuro.length; month++) {
+        expect(path.btcPriceInEuro[month]).toBeCloseTo(
+          path.btcPriceInEuro[month - 1] * (1 + path.btcMonthlyRate[month - 1]),
+          6
+        );
+      }
+    });
+  });
+
+  describe('engine integration', () => {
+    it('should drive simulateUserTreasuryGrowth prices', () => {
+      const path = getPowerLawBtcPricePath(marketData, settings);
+      const result = simulateUserTreasuryGrowth({
+        marketData,
+        userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+        platformData: {
+          platformFeeFromYieldPct: 0.1,
+          platformExchangeFeePct: 0.01,
+        },
+        earnData: { yearlyYieldPct: 0.02 },
+      });
+
+      expect(result[120].currentBtcPriceInEuro).toBeCloseTo(
+        path.btcPriceInEuro[120],
+        6
+      );
+    });
+
+    it('should throw when power-law settings are missing', () => {
+      expect(() =>
+        simulateUserTreasuryGrowth({
+          marketData: { ...marketData, powerLaw: undefined },
+          userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+          platformData: {
+            platformFeeFromYieldPct: 0.1,
+            platformExchangeFeePct: 0.01,
+          },
+          earnData: { yearlyYieldPct: 0.02 },
+        })
+      ).toThrow('powerLaw settings are required');
+    });
+
+    it('should throw for an invalid start date', () => {
+      expect(() =>
+        getPowerLawBtcPricePath(
+          { ...marketData, startDate: 'not-a-date' },
+          settings
+        )
+      ).toThrow('startDate must be a valid ISO date');
+    });
+  });
+});
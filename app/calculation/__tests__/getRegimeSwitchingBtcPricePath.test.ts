@@ -0,0 +1,210 @@
+import {
+  getRegimeSwitchingBtcPricePath,
+  MarketRegime,
+  RegimeSwitchingMode,
+  RegimeSwitchingSettings,
+} from '../utils/getRegimeSwitchingBtcPricePath';
+import { createSeededRandom } from '../utils/createSeededRandom';
+import { PriceModelType } from '../utils/getBtcPricePath';
+import {
+  MarketData,
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+
+describe('getRegimeSwitchingBtcPricePath', () => {
+  const settings: RegimeSwitchingSettings = {
+    regimes: [
+      {
+        regime: MarketRegime.Bull,
+        monthlyDrift: 0.05,
+        monthlyVolatility: 0.15,
+        transitionProbabilities: {
+          [MarketRegime.Bull]: 0.9,
+          [MarketRegime.Bear]: 0.1,
+        },
+      },
+      {
+        regime: MarketRegime.Bear,
+        monthlyDrift: -0.05,
+        monthlyVolatility: 0.2,
+        transitionProbabilities: {
+          [MarketRegime.Bull]: 0.2,
+          [MarketRegime.Bear]: 0.8,
+        },
+      },
+    ],
+    initialRegime: MarketRegime.Bull,
+    mode: RegimeSwitchingMode.Expected,
+    seed: 1,
+  };
+
+  const marketData: MarketData = {
+    initialBtcPriceInEuro: 100000,
+    btcCagrToday: 0,
+    btcCagrAsymptote: 0,
+    settleYears: 0,
+    cpi: 0.02,
+    enableIndexing: false,
+    numberOfYears: 10,
+    priceModel: PriceModelType.RegimeSwitching,
+    regimeSwitching: settings,
+  };
+
+  describe('expected regime mode', () => {
+    it('should start at the initial price and regime', () => {
+      const path = getRegimeSwitchingBtcPricePath(marketData, settings);
+
+      expect(path.btcPriceInEuro[0]).toBe(100000);
+      expect(path.marketRegime[0]).toBe(MarketRegime.Bull);
+      expect(path.marketRegime.length).toBe(120);
+    });
+
+    it('should use the initial regime drift in the first month', () => {
+      const path = getRegimeSwitchingBtcPricePath(marketData, settings);
+
+      expect(path.btcMonthlyRate[0]).toBeCloseTo(Math.exp(0.05) - 1, 10);
+    });
+
+    it('should converge to the stationary expected drift', () => {
+      const path = getRegimeSwitchingBtcPricePath(marketData, settings);
+      // stacjonarnie: π_bull = 0.2 / (0.1 + 0.2) = 2/3
+      const stationaryDrift = (2 / 3) * 0.05 + (1 / 3) * -0.05;
+
+      expect(path.btcMonthlyRate[119]).toBeCloseTo(
+        Math.exp(stationaryDrift) - 1,
+        8
+      );
+    });
+
+    it('should be deterministic', () => {
+      expect(getRegimeSwitchingBtcPricePath(marketData, settings)).toEqual(
+        getRegimeSwitchingBtcPricePath(marketData, settings)
+      );
+    });
+  });
+
+  describe('stochastic mode', () => {
+    const stochastic = { ...settings, mode: RegimeSwitchingMode.Stochastic };
+
+    it('should be reproducible for the same seed', () => {
+      expect(getRegimeSwitchingBtcPricePath(marketData, stochastic)).toEqual(
+        getRegimeSwitchingBtcPricePath(marketData, stochastic)
+      );
+    });
+
+    it('should visit both regimes over a long horizon', () => {
+      const path = getRegimeSwitchingBtcPricePath(
+        { ...marketData, numberOfYears: 50 },
+        stochastic
+      );
+
+      expect(path.marketRegime).toContain(MarketRegime.Bull);
+      expect(path.marketRegime).toContain(MarketRegime.Bear);
+    });
+
+    it('should sample stochastically when a random source is passed', () => {
+      const first = getRegimeSwitchingBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(1)
+      );
+      const second = getRegimeSwitchingBtcPricePath(
+        marketData,
+        settings,
+        createSeededRandom(2)
+      );
+
+      expect(first.btcPriceInEuro[119]).not.toBe(second.btcPriceInEuro[119]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should require bull and bear regimes', () => {
+      expect(() =>
+        getRegimeSwitchingBtcPricePath(marketData, {
+          ...settings,
+          regimes: [settings.regimes[0]],
+        })
+      ).toThrow('Regime switching requires bull and bear regimes');
+    });
+
+    it('should reject rows that do not sum to 1', () => {
+      expect(() =>
+        getRegimeSwitchingBtcPricePath(marketData, {
+          ...settings,
+          regimes: [
+            {
+              ...settings.regimes[0],
+              transitionProbabilities: {
+                [MarketRegime.Bull]: 0.5,
+                [MarketRegime.Bear]: 0.1,
+              },
+            },
+            settings.regimes[1],
+          ],
+        })
+      ).toThrow('must sum to 1');
+    });
+
+    it('should reject transitions to undefined regimes', () => {
+      expect(() =>
+        getRegimeSwitchingBtcPricePath(marketData, {
+          ...settings,
+          regimes: [
+            {
+              ...settings.regimes[0],
+              transitionProbabilities: {
+                [MarketRegime.Bull]: 0.9,
+                [MarketRegime.Sideways]: 0.1,
+              },
+            },
+            settings.regimes[1],
+          ],
+        })
+      ).toThrow('undefined regime');
+    });
+  });
+
+  describe('engine integration', () => {
+    const userInput: UserTreasuryGrowthInput = {
+      marketData,
+      userData: { startMonth: 0, monthlyDcaInEuro: 100 },
+      platformData: {
+        platformFeeFromYieldPct: 0.1,
+        platformExchangeFeePct: 0.01,
+      },
+      earnData: { yearlyYieldPct: 0.02 },
+    };
+
+    it('should report the regime of each month in the snapshots', () => {
+      const path = getRegimeSwitchingBtcPricePath(marketData, settings);
+      const result = simulateUserTreasuryGrowth(userInput);
+
+      result.forEach((snapshot, month) =>
+        expect(snapshot.marketRegime).toBe(path.marketRegime[month])
+      );
+    });
+
+    it('should not report a regime for other price models', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...userInput,
+        marketData: { ...marketData, priceModel: PriceModelType.CagrDecay },
+      });
+
+      expect(result[0].marketRegime).toBeUndefined();
+    });
+
+    it('should sample regime paths in Monte Carlo', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(userInput, {
+        numberOfPaths: 50,
+        annualVolatility: 0,
+        seed: 3,
+      });
+      const band = result.percentiles[119].btcPriceInEuro;
+
+      expect(band.p95).toBeGreaterThan(band.p5);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  getReturnMetrics,
+  getReturnMetricsDistribution,
+  getXirr,
+} from '../utils/getReturnMetrics';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { simulateUserTreasuryGrowthMonteCarlo } from '../simulateUserTreasuryGrowthMonteCarlo';
+
+describe('getReturnMetrics', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0,
+      enableIndexing: false,
+      numberOfYears: 1,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+    platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0 },
+  };
+  const lumpSum: UserTreasuryGrowthInput = {
+    ...input,
+    userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+  };
+
+  it('should solve XIRR from dated cash flows', () => {
+    expect(
+      getXirr([
+        { years: 0, amountInEuro: -100 },
+        { years: 1, amountInEuro: 110 },
+      ])
+    ).toBeCloseTo(0.1, 8);
+    expect(getXirr([{ years: 0, amountInEuro: -100 }])).toBeNaN();
+  });
+
+  it('should report a zero return for DCA on a flat price', () => {
+    const metrics = getReturnMetrics(simulateUserTreasuryGrowth(input));
+
+    expect(metrics.investedInEuro).toBeCloseTo(12000, 8);
+    expect(metrics.xirrPct).toBe(0);
+    expect(metrics.twrPct).toBeCloseTo(0, 12);
+    expect(metrics.moic).toBeCloseTo(1, 12);
+    expect(metrics.maxDrawdownPct).toBe(0);
+    expect(metrics.longestUnderwaterMonths).toBe(0);
+  });
+
+  it('should date the final value at the last month', () => {
+    // cena podwaja się w 11 odstępach miesięcznych (miesiąc 0 → miesiąc 11)
+    const metrics = getReturnMetrics(
+      simulateUserTreasuryGrowth({
+        ...lumpSum,
+        marketData: {
+          ...lumpSum.marketData,
+          customBtcPrices: Array.from(
+            { length: 12 },
+            (_, month) => 50000 * Math.pow(2, month / 11)
+          ),
+        },
+      }),
+      { initialBtcHolding: 1 }
+    );
+
+    expect(metrics.xirrPct).toBeCloseTo(Math.pow(2, 12 / 11) - 1, 8);
+    expect(metrics.twrPct).toBeCloseTo(Math.pow(2, 12 / 11) - 1, 10);
+  });
+
+  it('should value the initial holding at the start price', () => {
+    const metrics = getReturnMetrics(
+      simulateUserTreasuryGrowth({
+        ...lumpSum,
+        marketData: {
+          ...lumpSum.marketData,
+          customBtcPrices: [...Array(11).fill(50000), 100000],
+        },
+      }),
+      { initialBtcHolding: 1 }
+    );
+
+    expect(metrics.xirrPct).toBeCloseTo(Math.pow(2, 12 / 11) - 1, 8);
+    expect(metrics.twrPct).toBeCloseTo(Math.pow(2, 12 / 11) - 1, 12);
+    expect(metrics.moic).toBeCloseTo(2, 12);
+  });
+
+  it('should measure the drawdown and the longest underwater period', () => {
+    const metrics = getReturnMetrics(
+      simulateUserTreasuryGrowth({
+        ...lumpSum,
+        marketData: {
+          ...lumpSum.marketData,
+          customBtcPrices: [
+            ...Array(3).fill(50000),
+            ...Array(3).fill(25000),
+            40000,
+            ...Array(5).fill(60000),
+          ],
+        },
+      }),
+      { initialBtcHolding: 1 }
+    );
+
+    expect(metrics.maxDrawdownPct).toBeCloseTo(0.5, 12);
+    expect(metrics.longestUnderwaterMonths).toBe(4);
+  });
+
+  it('should not let withdrawals affect the time-weighted return', () => {
+    const metrics = getReturnMetrics(
+      simulateUserTreasuryGrowth({
+        ...lumpSum,
+        decumulationData: { startMonth: 0, monthlyWithdrawalInEuro: 2000 },
+      }),
+      { initialBtcHolding: 1 }
+    );
+
+    expect(metrics.distributedInEuro).toBeCloseTo(24000, 8);
+    expect(metrics.twrPct).toBeCloseTo(0, 12);
+    expect(metrics.xirrPct).toBeCloseTo(0, 8);
+    expect(metrics.moic).toBeCloseTo(1, 12);
+  });
+
+  it('should build the distribution over Monte Carlo paths', () => {
+    const { paths } = simulateUserTreasuryGrowthMonteCarlo(input, {
+      numberOfPaths: 50,
+      seed: 7,
+      annualVolatility: 0.6,
+    });
+    const distribution = getReturnMetricsDistribution(paths);
+
+    expect(distribution.xirrPct.p5).toBeLessThan(distribution.xirrPct.p95);
+    expect(distribution.maxDrawdownPct.p95).toBeGreaterThan(0);
+    expect(distribution.investedInEuro.p50).toBeCloseTo(12000, 8);
+  });
+});
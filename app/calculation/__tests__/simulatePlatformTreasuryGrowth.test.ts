@@ -462,9 +462,11 @@ describe('simulatePlatformTreasuryGrowth', () => {
       const result = simulatePlatformTreasuryGrowth(baseInput);
 
       result.forEach(snapshot => {
-        // Total fees should equal sum of yield and exchange fees
+        // Total fees should equal yield and exchange fees minus referral payouts
         const expectedTotal =
-          snapshot.btcFeeFromYield + snapshot.btcFeeFromExchange;
+          snapshot.btcFeeFromYield +
+          snapshot.btcFeeFromExchange -
+          snapshot.btcReferralPayout;
         expect(snapshot.btcFeeTotal).toBeCloseTo(expectedTotal, 6);
       });
     });
@@ -1,7 +1,11 @@
 import {
   simulateUserTreasuryGrowth,
+  UserPensionSimulationSnapshot,
   UserTreasuryGrowthInput,
 } from '../simulateUserTreasuryGrowth';
+import { TaxJurisdictionType } from '../utils/calculateCapitalGainsTax';
+import { CounterpartyRiskMode } from '../utils/calculateCounterpartyRisk';
+import { ReferralRewardBasis } from '../utils/calculateReferralIncome';
 
 describe('simulateUserTreasuryGrowth', () => {
   const baseInput: UserTreasuryGrowthInput = {
@@ -241,6 +245,113 @@ describe('simulateUserTreasuryGrowth', () => {
     });
   });
 
+  describe('cost basis and P/L', () => {
+    const flatInput: UserTreasuryGrowthInput = {
+      ...baseInput,
+      marketData: {
+        ...baseInput.marketData,
+        btcCagrToday: 0,
+        btcCagrAsymptote: 0,
+        cpi: 0,
+        enableIndexing: false,
+      },
+      earnData: { yearlyYieldPct: 0 },
+    };
+
+    it('should accumulate contributions and BTC bought', () => {
+      const result = simulateUserTreasuryGrowth(flatInput);
+
+      expect(result[0].btcBought).toBeCloseTo(990 / 50000, 12);
+      expect(result[11].cumulativeContributionInEuro).toBeCloseTo(12000, 8);
+      expect(result[11].costBasisInEuro).toBeCloseTo(12000, 8);
+      expect(result[11].averageCostInEuro).toBeCloseTo(50000 / 0.99, 6);
+    });
+
+    it('should report the break-even price and unrealized P/L', () => {
+      const [first] = simulateUserTreasuryGrowth(flatInput);
+
+      // 1% opłaty przy zakupie i 1% przy sprzedaży
+      expect(first.unrealizedPnlInEuro).toBeCloseTo(-10, 8);
+      expect(first.breakEvenBtcPriceInEuro).toBeCloseTo(50000 / 0.99 / 0.99, 6);
+    });
+
+    it('should sum platform fees in BTC and at the price when charged', () => {
+      const result = simulateUserTreasuryGrowth(baseInput);
+
+      const feesInBtc = result.reduce(
+        (sum, snapshot) =>
+          sum +
+          snapshot.platformFeeFromYieldInBtc +
+          snapshot.platformExchangeFeeInBtc,
+        0
+      );
+      const feesInEuro = result.reduce(
+        (sum, snapshot) =>
+          sum +
+          (snapshot.platformFeeFromYieldInBtc +
+            snapshot.platformExchangeFeeInBtc) *
+            snapshot.currentBtcPriceInEuro,
+        0
+      );
+      expect(result[23].cumulativePlatformFeesInBtc).toBeCloseTo(feesInBtc, 12);
+      expect(result[23].cumulativePlatformFeesInEuro).toBeCloseTo(
+        feesInEuro,
+        8
+      );
+    });
+
+    it('should sum withdrawals, tax, losses and referral rewards', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...baseInput,
+        decumulationData: { startMonth: 12, monthlyWithdrawalInEuro: 500 },
+        taxData: { jurisdiction: TaxJurisdictionType.Poland },
+        counterpartyRiskData: {
+          yearlyDefaultProbability: 0.1,
+          lossGivenDefaultPct: 0.5,
+          mode: CounterpartyRiskMode.Expected,
+          seed: 1,
+        },
+        referralData: {
+          referralCount: 2,
+          rewardBasis: ReferralRewardBasis.Yield,
+          rewardSharePct: 0.1,
+        },
+      });
+      const sumOf = (field: keyof UserPensionSimulationSnapshot) =>
+        result.reduce((sum, snapshot) => sum + (snapshot[field] as number), 0);
+
+      expect(result[11].cumulativeWithdrawalInEuro).toBe(0);
+      expect(result[23].cumulativeWithdrawalInEuro).toBeCloseTo(6000, 8);
+      expect(sumOf('taxPaidInEuro')).toBeGreaterThan(0);
+      expect(result[23].cumulativeTaxPaidInEuro).toBeCloseTo(
+        sumOf('taxPaidInEuro'),
+        8
+      );
+      expect(sumOf('counterpartyLossInBtc')).toBeGreaterThan(0);
+      expect(result[23].cumulativeCounterpartyLossInBtc).toBeCloseTo(
+        sumOf('counterpartyLossInBtc'),
+        12
+      );
+      expect(sumOf('referralRewardInBtc')).toBeGreaterThan(0);
+      expect(result[23].cumulativeReferralRewardInBtc).toBeCloseTo(
+        sumOf('referralRewardInBtc'),
+        12
+      );
+    });
+
+    it('should keep cost at zero for yield', () => {
+      const result = simulateUserTreasuryGrowth({
+        ...flatInput,
+        userData: { startMonth: 0, monthlyDcaInEuro: 0, initialBtcHolding: 1 },
+        earnData: { yearlyYieldPct: 0.1 },
+      });
+
+      expect(result[11].costBasisInEuro).toBeCloseTo(50000, 8);
+      expect(result[11].averageCostInEuro).toBeLessThan(50000);
+      expect(result[11].unrealizedPnlInEuro).toBeGreaterThan(0);
+    });
+  });
+
   describe('yield calculations', () => {
     it('should handle zero yield', () => {
       const zeroYieldInput = {
@@ -0,0 +1,228 @@
+import {
+  simulateUserTreasuryGrowthMonteCarlo,
+  MonteCarloSettings,
+  MAX_MONTE_CARLO_PATHS,
+} from '../simulateUserTreasuryGrowthMonteCarlo';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+
+describe('simulateUserTreasuryGrowthMonteCarlo', () => {
+  const baseInput: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0.3,
+      btcCagrAsymptote: 0.1,
+      settleYears: 5,
+      settleEpsilon: 0.05,
+      cpi: 0.02, // 2% annual inflation
+      enableIndexing: false,
+      numberOfYears: 5,
+    },
+    userData: {
+      startMonth: 0,
+      monthlyDcaInEuro: 500,
+    },
+    platformData: {
+      platformFeeFromYieldPct: 0.1, // 10% fee from yield
+      platformExchangeFeePct: 0.01, // 1% exchange fee
+    },
+    earnData: {
+      yearlyYieldPct: 0.02, // 2% annual yield
+    },
+  };
+
+  const baseSettings: MonteCarloSettings = {
+    numberOfPaths: 200,
+    annualVolatility: 0.6,
+    seed: 42,
+  };
+
+  describe('basic functionality', () => {
+    it('should return requested number of paths with full length', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+
+      expect(result.paths.length).toBe(200);
+      result.paths.forEach(path => expect(path.length).toBe(60));
+      expect(result.percentiles.length).toBe(60);
+    });
+
+    it('should start every path at the initial BTC price', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+
+      result.paths.forEach(path =>
+        expect(path[0].currentBtcPriceInEuro).toBe(50000)
+      );
+    });
+
+    it('should throw for non-positive number of paths', () => {
+      expect(() =>
+        simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+          ...baseSettings,
+          numberOfPaths: 0,
+        })
+      ).toThrow('numberOfPaths must be >= 1');
+    });
+
+    it('should throw for more paths than the limit', () => {
+      expect(() =>
+        simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+          ...baseSettings,
+          numberOfPaths: MAX_MONTE_CARLO_PATHS + 1,
+        })
+      ).toThrow(`numberOfPaths must be <= ${MAX_MONTE_CARLO_PATHS}`);
+    });
+  });
+
+  describe('seeding', () => {
+    it('should be reproducible for the same seed', () => {
+      const first = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+      const second = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+
+      expect(second.percentiles).toEqual(first.percentiles);
+    });
+
+    it('should differ for different seeds', () => {
+      const first = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+      const second = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        seed: 7,
+      });
+
+      expect(second.percentiles[59].btcPriceInEuro.p50).not.toBe(
+        first.percentiles[59].btcPriceInEuro.p50
+      );
+    });
+  });
+
+  describe('percentile bands', () => {
+    it('should keep percentiles ordered', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(
+        baseInput,
+        baseSettings
+      );
+
+      result.percentiles.forEach(snapshot => {
+        [
+          snapshot.btcPriceInEuro,
+          snapshot.userAccumulatedBtcHolding,
+          snapshot.userBtcValueInEuro,
+        ].forEach(band => {
+          expect(band.p5).toBeLessThanOrEqual(band.p25);
+          expect(band.p25).toBeLessThanOrEqual(band.p50);
+          expect(band.p50).toBeLessThanOrEqual(band.p75);
+          expect(band.p75).toBeLessThanOrEqual(band.p95);
+        });
+      });
+    });
+
+    it('should collapse to the deterministic path with zero volatility', () => {
+      const deterministic = simulateUserTreasuryGrowth(baseInput);
+      const result = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        numberOfPaths: 5,
+        annualVolatility: 0,
+      });
+
+      result.percentiles.forEach((snapshot, month) => {
+        expect(snapshot.btcPriceInEuro.p5).toBeCloseTo(
+          deterministic[month].currentBtcPriceInEuro,
+          6
+        );
+        expect(snapshot.btcPriceInEuro.p95).toBeCloseTo(
+          deterministic[month].currentBtcPriceInEuro,
+          6
+        );
+      });
+    });
+
+    it('should center the median price around the deterministic curve', () => {
+      const deterministic = simulateUserTreasuryGrowth(baseInput);
+      const result = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        numberOfPaths: 1000,
+      });
+
+      const lastMonth = deterministic.length - 1;
+      const ratio =
+        result.percentiles[lastMonth].btcPriceInEuro.p50 /
+        deterministic[lastMonth].currentBtcPriceInEuro;
+      expect(ratio).toBeGreaterThan(0.8);
+      expect(ratio).toBeLessThan(1.25);
+    });
+
+    it('should widen the bands with higher volatility', () => {
+      const low = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        annualVolatility: 0.2,
+      });
+      const high = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        annualVolatility: 0.8,
+      });
+
+      const spread = (band: { p5: number; p95: number }) => band.p95 / band.p5;
+      expect(spread(high.percentiles[59].btcPriceInEuro)).toBeGreaterThan(
+        spread(low.percentiles[59].btcPriceInEuro)
+      );
+    });
+  });
+
+  describe('custom prices', () => {
+    it('should keep the imported months fixed and shock only the remainder', () => {
+      const customBtcPrices = [50000, 40000, 45000, 60000];
+      const result = simulateUserTreasuryGrowthMonteCarlo(
+        {
+          ...baseInput,
+          marketData: { ...baseInput.marketData, customBtcPrices },
+        },
+        baseSettings
+      );
+
+      customBtcPrices.forEach((price, month) => {
+        expect(result.percentiles[month].btcPriceInEuro.p5).toBeCloseTo(
+          price,
+          6
+        );
+        expect(result.percentiles[month].btcPriceInEuro.p95).toBeCloseTo(
+          price,
+          6
+        );
+      });
+      expect(result.percentiles[4].btcPriceInEuro.p95).toBeGreaterThan(
+        result.percentiles[4].btcPriceInEuro.p5
+      );
+    });
+  });
+
+  describe('fat tails', () => {
+    it('should produce finite values with Student-t shocks', () => {
+      const result = simulateUserTreasuryGrowthMonteCarlo(baseInput, {
+        ...baseSettings,
+        fatTailDegreesOfFreedom: 4,
+      });
+
+      result.percentiles.forEach(snapshot => {
+        expect(Number.isFinite(snapshot.userBtcValueInEuro.p5)).toBe(true);
+        expect(Number.isFinite(snapshot.userBtcValueInEuro.p95)).toBe(true);
+        expect(snapshot.btcPriceInEuro.p5).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  SavingsGoalType,
+  SavingsGoalVariable,
+  solveSavingsGoal,
+} from '../solveSavingsGoal';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { ReferralRewardBasis } from '../utils/calculateReferralIncome';
+
+describe('solveSavingsGoal', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0.1,
+      enableIndexing: false,
+      numberOfYears: 2,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+    platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0 },
+  };
+
+  it('should find the monthly DCA for a BTC target', () => {
+    // 1 BTC po 24 wpłatach przy stałej cenie 50 000 EUR
+    const result = solveSavingsGoal(input, {
+      type: SavingsGoalType.BtcAmount,
+      targetValue: 1,
+      targetMonth: 23,
+      solveFor: SavingsGoalVariable.MonthlyDca,
+    });
+
+    expect(result.value).toBeCloseTo(50000 / 24, 1);
+    expect(result.achievedValue).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should include the exchange fee in the required DCA', () => {
+    const result = solveSavingsGoal(
+      {
+        ...input,
+        platformData: {
+          platformFeeFromYieldPct: 0,
+          platformExchangeFeePct: 0.01,
+        },
+      },
+      {
+        type: SavingsGoalType.NominalValue,
+        targetValue: 100000,
+        targetMonth: 23,
+        solveFor: SavingsGoalVariable.MonthlyDca,
+      }
+    );
+
+    expect(result.value).toBeCloseTo(100000 / 24 / 0.99, 1);
+  });
+
+  it('should ask for more DCA for a real target than for a nominal one', () => {
+    const goal = {
+      targetValue: 100000,
+      targetMonth: 23,
+      solveFor: SavingsGoalVariable.MonthlyDca,
+    };
+    const nominal = solveSavingsGoal(input, {
+      ...goal,
+      type: SavingsGoalType.NominalValue,
+    });
+    const real = solveSavingsGoal(input, {
+      ...goal,
+      type: SavingsGoalType.RealValue,
+    });
+
+    expect(real.value!).toBeGreaterThan(nominal.value!);
+    expect(real.achievedValue).toBeCloseTo(100000, -1);
+  });
+
+  it('should find the initial BTC holding and extend the horizon if needed', () => {
+    const result = solveSavingsGoal(input, {
+      type: SavingsGoalType.BtcAmount,
+      targetValue: 1,
+      targetMonth: 35,
+      solveFor: SavingsGoalVariable.InitialBtcHolding,
+    });
+
+    // 36 wpłat po 1000 EUR = 0.72 BTC
+    expect(result.value).toBeCloseTo(0.28, 6);
+  });
+
+  it('should return 0 when the goal is already met', () => {
+    const result = solveSavingsGoal(input, {
+      type: SavingsGoalType.BtcAmount,
+      targetValue: 1,
+      targetMonth: 23,
+      solveFor: SavingsGoalVariable.MonthlyDca,
+    });
+    const withHolding = solveSavingsGoal(
+      { ...input, userData: { ...input.userData, initialBtcHolding: 2 } },
+      {
+        type: SavingsGoalType.BtcAmount,
+        targetValue: 1,
+        targetMonth: 23,
+        solveFor: SavingsGoalVariable.MonthlyDca,
+      }
+    );
+
+    expect(result.value!).toBeGreaterThan(0);
+    expect(withHolding.value).toBe(0);
+  });
+
+  it('should find the shortest horizon or report an unreachable goal', () => {
+    const goal = {
+      type: SavingsGoalType.BtcAmount,
+      targetValue: 0.48,
+      targetMonth: 0,
+      solveFor: SavingsGoalVariable.NumberOfYears,
+    };
+    const result = solveSavingsGoal(input, goal);
+    const unreachable = solveSavingsGoal(
+      { ...input, userData: { startMonth: 0, monthlyDcaInEuro: 0 } },
+      goal
+    );
+
+    expect(result.targetMonth).toBe(23);
+    expect(result.value).toBe(2);
+    expect(unreachable.value).toBeNull();
+  });
+
+  it('should include referral rewards like the simulated plan', () => {
+    const withReferrals: UserTreasuryGrowthInput = {
+      ...input,
+      earnData: { yearlyYieldPct: 0.12 },
+      referralData: {
+        referralCount: 3,
+        rewardBasis: ReferralRewardBasis.Yield,
+        rewardSharePct: 0.2,
+      },
+    };
+    // cel = saldo bazowego planu → rozwiązanie to jego DCA (1000)
+    const targetValue =
+      simulateUserTreasuryGrowth(withReferrals)[23].userAccumulatedBtcHolding;
+    const goal = {
+      type: SavingsGoalType.BtcAmount,
+      targetValue,
+      targetMonth: 23,
+    };
+    const dca = solveSavingsGoal(withReferrals, {
+      ...goal,
+      solveFor: SavingsGoalVariable.MonthlyDca,
+    });
+    const years = solveSavingsGoal(withReferrals, {
+      ...goal,
+      solveFor: SavingsGoalVariable.NumberOfYears,
+    });
+
+    expect(dca.value).toBeCloseTo(1000, 1);
+    expect(years.targetMonth).toBe(23);
+  });
+
+  it('should validate the goal', () => {
+    expect(() =>
+      solveSavingsGoal(input, {
+        type: SavingsGoalType.BtcAmount,
+        targetValue: 0,
+        targetMonth: 23,
+        solveFor: SavingsGoalVariable.MonthlyDca,
+      })
+    ).toThrow('targetValue must be > 0 (got 0)');
+    expect(() =>
+      solveSavingsGoal(input, {
+        type: SavingsGoalType.BtcAmount,
+        targetValue: 1,
+        targetMonth: -1,
+        solveFor: SavingsGoalVariable.MonthlyDca,
+      })
+    ).toThrow('targetMonth must be an integer >= 0 (got -1)');
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  MAX_SOLVER_PATHS,
+  PERPETUAL_PAYOUT_YEARS,
+  solveSustainableWithdrawal,
+} from '../solveSustainableWithdrawal';
+import {
+  simulateUserTreasuryGrowth,
+  UserTreasuryGrowthInput,
+} from '../simulateUserTreasuryGrowth';
+import { ReferralRewardBasis } from '../utils/calculateReferralIncome';
+
+describe('solveSustainableWithdrawal', () => {
+  const input: UserTreasuryGrowthInput = {
+    marketData: {
+      initialBtcPriceInEuro: 50000,
+      btcCagrToday: 0,
+      btcCagrAsymptote: 0,
+      settleYears: 1,
+      cpi: 0.02,
+      enableIndexing: false,
+      numberOfYears: 3,
+    },
+    userData: { startMonth: 0, monthlyDcaInEuro: 1000 },
+    platformData: { platformFeeFromYieldPct: 0, platformExchangeFeePct: 0 },
+    earnData: { yearlyYieldPct: 0 },
+  };
+
+  it('should spread the savings evenly without growth, yield and fees', () => {
+    // 24 000 EUR oszczędności, 12 miesięcy wypłat → 2000 EUR/mies.
+    const result = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 1,
+    });
+
+    expect(result.monthlyWithdrawalInEuro).toBeCloseTo(2000, -1);
+    expect(result.monthlyWithdrawalInEuro).toBeLessThanOrEqual(2000);
+    expect(result.payoutMonths).toBe(12);
+    expect(result.successProbability).toBe(1);
+  });
+
+  it('should return a withdrawal that lasts exactly the payout period', () => {
+    const settings = { startMonth: 24, payoutYears: 2 };
+    const { monthlyWithdrawalInEuro } = solveSustainableWithdrawal(
+      { ...input, earnData: { yearlyYieldPct: 0.05 } },
+      settings
+    );
+    const simulate = (withdrawal: number) =>
+      simulateUserTreasuryGrowth({
+        ...input,
+        marketData: { ...input.marketData, numberOfYears: 4 },
+        earnData: { yearlyYieldPct: 0.05 },
+        decumulationData: {
+          startMonth: 24,
+          monthlyWithdrawalInEuro: withdrawal,
+        },
+      });
+
+    expect(simulate(monthlyWithdrawalInEuro).some(s => s.fundsDepleted)).toBe(
+      false
+    );
+    expect(
+      simulate(monthlyWithdrawalInEuro * 1.01).some(s => s.fundsDepleted)
+    ).toBe(true);
+  });
+
+  it('should allow less income when indexed, and less for longer payouts', () => {
+    const nominal = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 10,
+    });
+    const indexed = solveSustainableWithdrawal(
+      { ...input, marketData: { ...input.marketData, cpi: 0.05 } },
+      { startMonth: 24, payoutYears: 10, enableIndexing: true }
+    );
+    const longer = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 20,
+    });
+
+    expect(indexed.monthlyWithdrawalInEuro).toBeLessThan(
+      nominal.monthlyWithdrawalInEuro
+    );
+    expect(longer.monthlyWithdrawalInEuro).toBeLessThan(
+      nominal.monthlyWithdrawalInEuro
+    );
+  });
+
+  it('should pay forever from yield and price growth', () => {
+    const result = solveSustainableWithdrawal(
+      {
+        ...input,
+        marketData: {
+          ...input.marketData,
+          btcCagrToday: 0.1,
+          btcCagrAsymptote: 0.1,
+        },
+      },
+      { startMonth: 24 }
+    );
+
+    expect(result.payoutMonths).toBe(PERPETUAL_PAYOUT_YEARS * 12);
+    expect(result.monthlyWithdrawalInEuro).toBeGreaterThan(0);
+  });
+
+  it('should solve the perpetual income over the perpetual payout horizon', () => {
+    const growthInput = {
+      ...input,
+      marketData: {
+        ...input.marketData,
+        btcCagrToday: 0.05,
+        btcCagrAsymptote: 0.05,
+      },
+    };
+    const perpetual = solveSustainableWithdrawal(growthInput, {
+      startMonth: 24,
+    });
+    const explicit = solveSustainableWithdrawal(growthInput, {
+      startMonth: 24,
+      payoutYears: PERPETUAL_PAYOUT_YEARS,
+    });
+    const fixed = solveSustainableWithdrawal(growthInput, {
+      startMonth: 24,
+      payoutYears: 30,
+    });
+    const longer = solveSustainableWithdrawal(growthInput, {
+      startMonth: 24,
+      payoutYears: PERPETUAL_PAYOUT_YEARS * 2,
+    });
+
+    expect(perpetual.payoutMonths).toBe(PERPETUAL_PAYOUT_YEARS * 12);
+    expect(perpetual.monthlyWithdrawalInEuro).toBe(
+      explicit.monthlyWithdrawalInEuro
+    );
+    // horyzont skończony, nie granica: krótsza wypłata pozwala na więcej,
+    // dłuższa niż PERPETUAL_PAYOUT_YEARS – na mniej
+    expect(perpetual.monthlyWithdrawalInEuro).toBeLessThan(
+      fixed.monthlyWithdrawalInEuro
+    );
+    expect(perpetual.monthlyWithdrawalInEuro).toBeGreaterThan(
+      longer.monthlyWithdrawalInEuro
+    );
+  });
+
+  it('should include referral rewards in the sustainable income', () => {
+    const yieldInput = { ...input, earnData: { yearlyYieldPct: 0.12 } };
+    const settings = { startMonth: 24, payoutYears: 2 };
+    const without = solveSustainableWithdrawal(yieldInput, settings);
+    const withReferrals = solveSustainableWithdrawal(
+      {
+        ...yieldInput,
+        referralData: {
+          referralCount: 3,
+          rewardBasis: ReferralRewardBasis.Yield,
+          rewardSharePct: 0.2,
+        },
+      },
+      settings
+    );
+
+    expect(withReferrals.monthlyWithdrawalInEuro).toBeGreaterThan(
+      without.monthlyWithdrawalInEuro * 1.01
+    );
+  });
+
+  it('should lower the income for a higher success probability', () => {
+    const monteCarlo = { numberOfPaths: 40, annualVolatility: 0.6, seed: 7 };
+    const p50 = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 5,
+      successProbability: 0.5,
+      monteCarlo,
+    });
+    const p95 = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 5,
+      successProbability: 0.95,
+      monteCarlo,
+    });
+
+    expect(p50.pathWithdrawals.length).toBe(40);
+    expect(p95.monthlyWithdrawalInEuro).toBeLessThan(
+      p50.monthlyWithdrawalInEuro
+    );
+    // wypłata P95 wystarcza na ≥ 95% ścieżek
+    const covered = p95.pathWithdrawals.filter(
+      w => w >= p95.monthlyWithdrawalInEuro
+    ).length;
+    expect(covered / 40).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('should cap the number of Monte Carlo paths', () => {
+    const result = solveSustainableWithdrawal(input, {
+      startMonth: 24,
+      payoutYears: 1,
+      monteCarlo: { numberOfPaths: 150, annualVolatility: 0.6, seed: 7 },
+    });
+
+    expect(result.pathWithdrawals.length).toBe(MAX_SOLVER_PATHS);
+  });
+
+  it('should validate settings', () => {
+    expect(() =>
+      solveSustainableWithdrawal(input, { startMonth: 24, payoutYears: 0 })
+    ).toThrow('payoutYears must be > 0');
+    expect(() =>
+      solveSustainableWithdrawal(input, {
+        startMonth: 24,
+        successProbability: 0,
+      })
+    ).toThrow('successProbability must be in (0, 1]');
+  });
+});
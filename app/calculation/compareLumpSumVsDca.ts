@@ -0,0 +1,172 @@
+import {
+  UserPensionSimulationSnapshot,
+  UserTreasuryGrowthInput,
+  simulateUserTreasuryGrowth,
+} from './simulateUserTreasuryGrowth';
+import { withSimulationHorizon } from './utils/withSimulationHorizon';
+
+export enum InvestmentApproach {
+  LumpSum = 'lumpSum', // cały kapitał w miesiącu startu (initialBtcHolding po cenie startowej z opłatą)
+  Spread = 'spread', // kapitał po równo przez spreadMonths miesięcy
+  PlanDca = 'planDca', // bieżący plan wpłat (harmonogram i strategia)
+}
+
+export interface LumpSumComparisonSettings {
+  totalCapitalInEuro?: number; // w walucie wpłat; brak → suma wpłat bieżącego planu
+  spreadMonths?: number; // dla Spread, domyślnie 12
+}
+
+export interface LumpSumComparisonResult {
+  approach: InvestmentApproach;
+  totalContributedInEuro: number; // zainwestowany kapitał (waluta kwotowania; wpłaty planu wg cumulativeContributionInEuro)
+  finalBtcHolding: number;
+  finalValueInEuro: number; // waluta kwotowania
+  valuePerContributedEuro: number; // wartość końcowa / kapitał
+  maxDrawdownPct: number; // największy spadek wartości portfela od szczytu, np. 0.6
+  maxLossPct: number; // największa strata wartości względem wpłaconego dotąd kapitału (0 – nigdy pod kreską)
+  monthsUnderwater: number; // miesiące z wartością poniżej wpłaconego dotąd kapitału
+  snapshots: UserPensionSimulationSnapshot[];
+}
+
+// metryki ścieżki portfela; kapitał z lumpSum dopisujemy w miesiącu startu
+function getPathMetrics(
+  approach: InvestmentApproach,
+  snapshots: UserPensionSimulationSnapshot[],
+  initialContributionInEuro: number,
+  startMonth: number
+): LumpSumComparisonResult {
+  let contributedInEuro = 0;
+  let peakValueInEuro = 0;
+  let maxDrawdownPct = 0;
+  let maxLossPct = 0;
+  let monthsUnderwater = 0;
+
+  snapshots.forEach((snapshot, month) => {
+    if (month < startMonth) return;
+    contributedInEuro =
+      snapshot.cumulativeContributionInEuro + initialContributionInEuro;
+    const valueInEuro =
+      snapshot.userAccumulatedBtcHolding * snapshot.currentBtcPriceInEuro;
+    peakValueInEuro = Math.max(peakValueInEuro, valueInEuro);
+    if (peakValueInEuro > 0) {
+      maxDrawdownPct = Math.max(
+        maxDrawdownPct,
+        1 - valueInEuro / peakValueInEuro
+      );
+    }
+    if (contributedInEuro > 0 && valueInEuro < contributedInEuro) {
+      monthsUnderwater++;
+      maxLossPct = Math.max(maxLossPct, 1 - valueInEuro / contributedInEuro);
+    }
+  });
+
+  const last = snapshots[snapshots.length - 1];
+  const finalValueInEuro = last
+    ? last.userAccumulatedBtcHolding * last.currentBtcPriceInEuro
+    : 0;
+  return {
+    approach,
+    totalContributedInEuro: contributedInEuro,
+    finalBtcHolding: last?.userAccumulatedBtcHolding ?? 0,
+    finalValueInEuro,
+    valuePerContributedEuro:
+      contributedInEuro > 0 ? finalValueInEuro / contributedInEuro : 0,
+    maxDrawdownPct,
+    maxLossPct,
+    monthsUnderwater,
+    snapshots,
+  };
+}
+
+// Ten sam kapitał trzema sposobami na tej samej ścieżce ceny (dowolny model):
+// całość na starcie, po równo przez N miesięcy i bieżący plan DCA. Reszta
+// wejścia (yield, wypłaty, podatki) bez zmian.
+export function compareLumpSumVsDca(
+  inputData: UserTreasuryGrowthInput,
+  { totalCapitalInEuro, spreadMonths = 12 }: LumpSumComparisonSettings = {}
+): LumpSumComparisonResult[] {
+  if (!(Number.isInteger(spreadMonths) && spreadMonths >= 1)) {
+    throw new Error(
+      `spreadMonths must be an integer >= 1 (got ${spreadMonths})`
+    );
+  }
+  const input = withSimulationHorizon(
+    inputData,
+    inputData.marketData.numberOfYears
+  );
+  const { startMonth = 0, initialBtcHolding = 0 } = input.userData;
+  const { btcPriceInEuro } = input.btcPricePath!;
+  const { fxRate } = input.fxPath!;
+  const { platformExchangeFeePct } = input.platformData;
+
+  const planSnapshots = simulateUserTreasuryGrowth(input);
+  const capitalInEuro =
+    totalCapitalInEuro ??
+    planSnapshots.reduce(
+      (sum, snapshot, month) =>
+        sum + snapshot.contributionInEuro * fxRate[month],
+      0
+    );
+  if (!(capitalInEuro >= 0)) {
+    throw new Error(`totalCapitalInEuro must be >= 0 (got ${capitalInEuro})`);
+  }
+
+  // bez wpłat regularnych, harmonogramu i strategii
+  const withoutPlan = (
+    userData: Partial<UserTreasuryGrowthInput['userData']>
+  ): UserTreasuryGrowthInput => ({
+    ...input,
+    userData: {
+      ...input.userData,
+      monthlyDcaInEuro: 0,
+      contributionSchedule: undefined,
+      contributionStrategy: undefined,
+      ...userData,
+    },
+  });
+
+  // lump sum: kupno po cenie z miesiąca startu, opłata za wymianę pomniejsza BTC
+  const startPriceInEuro = btcPriceInEuro[startMonth] ?? btcPriceInEuro[0];
+  const startCapitalInEuro = capitalInEuro / (fxRate[startMonth] ?? fxRate[0]);
+  const lumpSumInput = withoutPlan({
+    initialBtcHolding:
+      initialBtcHolding +
+      (startCapitalInEuro * (1 - platformExchangeFeePct)) / startPriceInEuro,
+  });
+  if (input.taxData) {
+    lumpSumInput.taxData = {
+      ...input.taxData,
+      initialCostBasisInEuro:
+        (input.taxData.initialCostBasisInEuro ??
+          initialBtcHolding * startPriceInEuro * fxRate[startMonth]) +
+        capitalInEuro,
+    };
+  }
+
+  // spread: N jednorazowych wpłat (bez indeksacji) od miesiąca startu; wpłaty
+  // poza horyzontem przepadają
+  const spreadInput = withoutPlan({
+    contributionSchedule: {
+      lumpSums: Array.from({ length: spreadMonths }, (_, i) => ({
+        month: startMonth + i,
+        amountInEuro: capitalInEuro / spreadMonths,
+      })),
+    },
+  });
+
+  return [
+    getPathMetrics(
+      InvestmentApproach.LumpSum,
+      simulateUserTreasuryGrowth(lumpSumInput),
+      startCapitalInEuro,
+      startMonth
+    ),
+    getPathMetrics(
+      InvestmentApproach.Spread,
+      simulateUserTreasuryGrowth(spreadInput),
+      0,
+      startMonth
+    ),
+    getPathMetrics(InvestmentApproach.PlanDca, planSnapshots, 0, startMonth),
+  ];
+}
@@ -5,22 +5,29 @@ import {
 import { buildCohortSimulationSet } from './utils/buildCohortSimulationSet';
 import { buildPlatformMonthlySnapshots } from './utils/buildPlatformMonthlySnapshots';
 import { PlatformUsersData } from './utils/getPlatformUsersTimeline';
+import {
+  YieldSchedule,
+  getMonthlyYieldRates,
+} from './utils/getMonthlyYieldRates';
+import { getCpiPath } from './utils/getCpiPath';
 
 export interface PlatformMonthlySnapshot {
   month: number; // 0-indexed
   btcPriceInEuro: number; // cena BTC (skopiowana z którejś symulacji; wspólna ścieżka)
   btcFeeFromYield: number; // suma BTC z opłat od yieldu (miesiąc)
   btcFeeFromExchange: number; // suma BTC z opłat od wymiany (miesiąc)
-  btcFeeTotal: number; // łączna opłata BTC (yield + exchange) w miesiącu
+  btcReferralPayout: number; // suma BTC wypłaconych użytkownikom za polecenia (koszt, miesiąc)
+  btcFeeTotal: number; // łączna opłata BTC (yield + exchange) minus nagrody za polecenia w miesiącu
   totalUsers: number; // całkowita liczba użytkowników w danym miesiącu
   totalUsersBtcOnPlatform: number; // całkowita ilość BTC wszystkich użytkowników na platformie
   // ! todo oblicz total ltv avg per user w danym miesiacu
-  ltvPerUser: number; // średni Lifetime Value per user (w euro)
-  ltvPerUserBtc: number; // średni Lifetime Value per user (w BTC)
+  ltvPerUser?: number; // średni Lifetime Value per user (w euro)
+  ltvPerUserBtc?: number; // średni Lifetime Value per user (w BTC)
 }
 
 interface PlatformTreasuryGrowthData {
   yearlyYieldPct: number;
+  yieldSchedule?: YieldSchedule; // zmienna w czasie stopa; domyślnie stałe yearlyYieldPct
 }
 
 interface PlatformTreasuryGrowthProps {
@@ -62,10 +69,14 @@ export function simulatePlatformTreasuryGrowth(
 
   if (platformMonthlySnapshots.length === 0) return [];
 
-  // roczna stopa → miesięczna stopa
-  // ! todo add util for this
-  const monthlyRate =
-    Math.pow(1 + platformTreasuryGrowthData.yearlyYieldPct, 1 / 12) - 1;
+  // roczna stopa (lub harmonogram) → stopy miesięczne
+  const monthlyRates = getMonthlyYieldRates(
+    platformTreasuryGrowthData.yearlyYieldPct,
+    platformMonthlySnapshots.length,
+    platformTreasuryGrowthData.yieldSchedule,
+    userTreasuryGrowthInput.cpiPath ??
+      getCpiPath(userTreasuryGrowthInput.marketData)
+  );
 
   const out: SimulatePlatformTreasuryGrowthResult[] = new Array(
     platformMonthlySnapshots.length
@@ -76,7 +87,7 @@ export function simulatePlatformTreasuryGrowth(
     const element = platformMonthlySnapshots[m];
 
     const working = principalBtc; // kapitał na początek miesiąca
-    const investYield = working * monthlyRate; // odsetki w BTC w tym miesiącu
+    const investYield = working * monthlyRates[m]; // odsetki w BTC w tym miesiącu
     const endPrincipal = principalBtc + element.btcFeeTotal + investYield; // reinwestycja fee + yieldu
 
     out[m] = {
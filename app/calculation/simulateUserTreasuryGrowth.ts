@@ -1,23 +1,115 @@
 import { calculateUserBtcAndPlatformFees } from './utils/calculateUserBtcAndPlatformFees';
-import { calculateMonthlyDcaInEuro } from './utils/calculateMonthlyDcaInEuro';
-import { getAnnualBtcCagr } from './utils/getAnnualBtcCagr';
-import { getMonthlyBtcCagrRate } from './utils/getMonthlyBtcCagrRate';
+import {
+  ContributionSchedule,
+  calculateMonthlyDcaInEuro,
+  validateContributionSchedule,
+} from './utils/calculateMonthlyDcaInEuro';
+import { calculateUserWithdrawal } from './utils/calculateUserWithdrawal';
+import {
+  CollateralLoanData,
+  calculateCollateralLoan,
+  getLtv,
+  validateCollateralLoanData,
+} from './utils/calculateCollateralLoan';
+import {
+  PurchaseGoal,
+  calculatePurchaseGoals,
+  validatePurchaseGoals,
+} from './utils/calculatePurchaseGoals';
+import {
+  TaxData,
+  addTaxLot,
+  calculateMonthlyTax,
+  createTaxLedger,
+} from './utils/calculateCapitalGainsTax';
+import {
+  ContributionStrategy,
+  calculateStrategyContribution,
+  createContributionStrategyState,
+  updateAllTimeHigh,
+  validateContributionStrategy,
+} from './utils/calculateContributionStrategy';
+import {
+  BtcPricePath,
+  PriceModelType,
+  getBtcPricePath,
+  getNumberOfMonths,
+} from './utils/getBtcPricePath';
+import { HistoricalBootstrapSettings } from './utils/getHistoricalBootstrapBtcPricePath';
+import { PowerLawSettings } from './utils/getPowerLawBtcPricePath';
+import { HalvingCycleSettings } from './utils/applyHalvingCycleOverlay';
+import { StressEvent } from './utils/applyStressEvents';
+import {
+  CpiModelType,
+  CpiPath,
+  CpiScheduleSettings,
+  MeanRevertingCpiSettings,
+  getCpiPath,
+} from './utils/getCpiPath';
+import { Currency, FxPath, FxSettings, getFxPath } from './utils/getFxPath';
+import {
+  YieldSchedule,
+  getMonthlyYieldRates,
+} from './utils/getMonthlyYieldRates';
+import {
+  MarketRegime,
+  RegimeSwitchingSettings,
+} from './utils/getRegimeSwitchingBtcPricePath';
+import {
+  StakingTier,
+  calculateStakingTiers,
+  createStakingState,
+  getStakingTierBtc,
+  rebalanceStakingTiers,
+  scaleStakingState,
+  validateStakingTiers,
+} from './utils/calculateStakingTiers';
+import {
+  CounterpartyRiskData,
+  CounterpartyRiskMode,
+  getCounterpartyLossRates,
+  validateCounterpartyRiskData,
+} from './utils/calculateCounterpartyRisk';
+import {
+  ReferralData,
+  getReferralRewards,
+  validateReferralData,
+} from './utils/calculateReferralIncome';
+import { withCohortStartMonth } from './utils/withCohortStartMonth';
+import { getMonthDate } from './utils/getMonthDate';
 
 export interface MarketData {
   cpi: number; // > 0 0.01
-  initialBtcPriceInEuro: number; // in euro
+  cpiModel?: CpiModelType; // model ścieżki inflacji, domyślnie stałe cpi
+  cpiSchedule?: CpiScheduleSettings; // dla CpiModelType.Schedule
+  cpiMeanReverting?: MeanRevertingCpiSettings; // wymagane dla CpiModelType.MeanReverting
+  cpiIndex?: number[]; // miesięczny indeks cen (HICP) od miesiąca 0, wymagany dla CpiModelType.Imported
+  initialBtcPriceInEuro: number; // w walucie kwotowania (quoteCurrency), domyślnie EUR
+  quoteCurrency?: Currency; // waluta ceny BTC i wszystkich kwot *InEuro, domyślnie EUR
+  contributionCurrency?: Currency; // waluta wpłat DCA, domyślnie quoteCurrency
+  fx?: FxSettings; // kurs waluty wpłat do waluty kwotowania, wymagany gdy waluty się różnią
   enableIndexing: boolean;
   numberOfYears: number;
+  startDate?: string; // 'YYYY-MM-DD' – data miesiąca 0 (power-law, halvingi); domyślnie DEFAULT_SIMULATION_START_DATE
   btcCagrToday: number; // a0 (rocznie) - poczatkowa wartosc cagr
   btcCagrAsymptote: number; // a∞ (rocznie) - asymptota cagr - do jakiej wartosci CAGR zmierza
   settleYears: number; // T_settle, np. 5 - kiedy ustali sie asymptota cagr today
   settleEpsilon?: number; // ε, domyślnie 0.05 - ε = ile różnicy ma zostać po T_settle latach
+  priceModel?: PriceModelType | string; // model ścieżki ceny (wbudowany lub z registerPriceModel), domyślnie krzywa CAGR
+  historicalBootstrap?: HistoricalBootstrapSettings; // wymagane dla PriceModelType.HistoricalBootstrap
+  powerLaw?: PowerLawSettings; // wymagane dla PriceModelType.PowerLaw (zamiast btcCagr*/settleYears)
+  regimeSwitching?: RegimeSwitchingSettings; // wymagane dla PriceModelType.RegimeSwitching
+  halvingCycle?: HalvingCycleSettings; // opcjonalny cykl halvingowy nakładany na ścieżkę bazową
+  stressEvents?: StressEvent[]; // zaplanowane krachy/stagnacje nakładane na ścieżkę w użyciu
+  customBtcPrices?: number[]; // własne ceny miesięczne od miesiąca 0 (np. import CSV); krótsze dopełnia model
 }
 
 export interface UserData {
   startMonth: number;
-  monthlyDcaInEuro: number; // in euro
+  monthlyDcaInEuro: number; // w walucie wpłat (contributionCurrency), domyślnie EUR
   initialBtcHolding?: number; // in btc
+  contributionSchedule?: ContributionSchedule; // podwyżki, przerwy, jednorazowe wpłaty, premia; domyślnie stałe DCA
+  contributionStrategy?: ContributionStrategy; // value averaging / buy-the-dip na bazie harmonogramu; domyślnie płaskie DCA
 }
 
 export interface PlatformData {
@@ -27,6 +119,14 @@ export interface PlatformData {
 
 export interface EarnData {
   yearlyYieldPct: number;
+  yieldSchedule?: YieldSchedule; // zmienna w czasie stopa yieldu; domyślnie stałe yearlyYieldPct
+  stakingTiers?: StakingTier[]; // tiery z własnym APY i lock-upem; nieprzydzielona reszta dostaje yield powyżej
+}
+
+export interface DecumulationData {
+  startMonth: number; // miesiąc symulacji, od którego trwa faza wypłat (wpłaty DCA ustają)
+  monthlyWithdrawalInEuro: number; // wypłata netto w walucie wpłat (contributionCurrency)
+  enableIndexing?: boolean; // wypłata rośnie z inflacją (cpiFactor), domyślnie false
 }
 
 export interface UserTreasuryGrowthInput {
@@ -34,98 +134,501 @@ export interface UserTreasuryGrowthInput {
   userData: UserData;
   platformData: PlatformData;
   earnData: EarnData;
+  decumulationData?: DecumulationData; // faza wypłat (emerytura); domyślnie tylko akumulacja
+  loanData?: CollateralLoanData; // pożyczka pod zastaw BTC; domyślnie bez długu
+  purchaseGoals?: PurchaseGoal[]; // cele zakupowe (auto, dom, studia) – miesiąc osiągalności i opcjonalny zakup
+  taxData?: TaxData; // podatek od zysków i yieldu (loty, kraj); domyślnie bez podatków
+  counterpartyRiskData?: CounterpartyRiskData; // ryzyko defaultu miejsca yieldu; domyślnie bez strat
+  referralData?: ReferralData; // nagrody za poleconych (udział w ich yieldzie lub opłatach); domyślnie brak
+  referralSimulations?: Map<number, UserPensionSimulationSnapshot[]>; // symulacje poleconych wg miesiąca dołączenia – wspólne dla kohort tego samego planu i ścieżek
+  btcPricePath?: BtcPricePath; // gotowa ścieżka ceny (np. z Monte Carlo); domyślnie getBtcPricePath(marketData)
+  cpiPath?: CpiPath; // gotowa ścieżka inflacji; domyślnie getCpiPath(marketData)
+  fxPath?: FxPath; // gotowa ścieżka kursu walut; domyślnie getFxPath(marketData)
 }
 
 export interface UserPensionSimulationSnapshot {
   currentBtcPriceInEuro: number; // z tego momentu
   platformFeeFromYieldInBtc: number; // z tego momentu
   platformExchangeFeeInBtc: number; // z tego momentu
+  contributionInEuro: number; // wpłata w tym miesiącu (waluta kwotowania, z opłatą za wymianę)
+  cumulativeContributionInEuro: number; // suma wpłat od startu (w walucie wpłat, przeliczona kursem z tego miesiąca)
+  btcBought: number; // BTC kupione z wpłaty w tym miesiącu (po opłacie za wymianę)
+  yieldInBtc: number; // yield netto dopisany w tym miesiącu (po prowizji platformy)
+  referralRewardInBtc: number; // nagroda za poleconych dopisana w tym miesiącu (koszt platformy)
+  activeReferrals: number; // poleceni, którzy już rozpoczęli plan
   userAccumulatedBtcHolding: number; // akumulowane
   btcMonthlyRateUsed: number; // użyta stopa wzrostu ceny BTC
+  cpiFactor: number; // skumulowany indeks cen (1 w miesiącu 0) – do indeksacji i wartości realnych
+  fxRate: number; // kurs: jednostki waluty wpłat za 1 jednostkę waluty kwotowania (1 gdy te same)
+  isPayoutPhase: boolean; // true od miesiąca startu fazy wypłat
+  withdrawalInEuro: number; // wypłacona kwota netto w tym miesiącu (waluta kwotowania)
+  withdrawalBtcSold: number; // BTC sprzedane na wypłatę (razem z opłatą za wymianę)
+  fundsDepleted: boolean; // saldo nie pokryło pełnej wypłaty (środki się skończyły)
+  loanBalanceInEuro: number; // dług na koniec miesiąca (waluta kwotowania)
+  loanDrawnInEuro: number; // transza pożyczki wypłacona w tym miesiącu
+  loanInterestInEuro: number; // odsetki naliczone w tym miesiącu
+  loanLtv: number; // dług / wartość BTC na koniec miesiąca
+  loanBtcSold: number; // BTC sprzedane na spłatę (margin call, rebalancing, likwidacja) razem z opłatą
+  marginCall: boolean; // LTV przekroczyło marginCallLtv – częściowa spłata do targetLtv
+  liquidated: boolean; // LTV przekroczyło liquidationLtv – zabezpieczenie sprzedane
+  netWorthInEuro: number; // wartość BTC minus dług
+  purchaseGoalsReached: number[]; // indeksy celów zakupowych osiągalnych po raz pierwszy w tym miesiącu
+  purchaseSpentInEuro: number; // wydane na zrealizowane zakupy (waluta kwotowania)
+  purchaseBtcSold: number; // BTC sprzedane na zakupy razem z opłatą
+  realizedGainInEuro: number; // zrealizowany zysk (strata) ze sprzedaży w tym miesiącu
+  yieldIncomeTaxInEuro: number; // podatek od yieldu naliczony w tym miesiącu (płacony w rozliczeniu rocznym)
+  taxPaidInEuro: number; // podatek zapłacony w tym miesiącu (rozliczenie roczne)
+  taxBtcSold: number; // BTC sprzedane na podatek razem z opłatą
+  costBasisInEuro: number; // koszt nabycia posiadanych BTC: loty podatkowe (taxData) albo średni koszt
+  averageCostInEuro: number; // średni koszt nabycia 1 BTC
+  breakEvenBtcPriceInEuro: number; // cena BTC, przy której sprzedaż całości (po opłacie) pokrywa koszt nabycia i dług
+  unrealizedPnlInEuro: number; // wartość BTC minus koszt nabycia
+  cumulativePlatformFeesInBtc: number; // suma opłat platformy (yield + wymiana) od startu
+  cumulativePlatformFeesInEuro: number; // ta sama suma wyceniona w miesiącu pobrania (jak wpłaty)
+  cumulativeWithdrawalInEuro: number; // suma wypłat od startu (jak wpłaty)
+  cumulativeTaxPaidInEuro: number; // suma zapłaconego podatku od startu (jak wpłaty)
+  cumulativeCounterpartyLossInBtc: number; // suma strat z defaultu kontrahenta od startu
+  cumulativeReferralRewardInBtc: number; // suma nagród za poleconych od startu
+  afterTaxValueInEuro: number; // wartość netto po sprzedaży całości, opłacie i podatku
+  stakingTierBtc: number[]; // BTC w każdym tierze na koniec miesiąca (puste bez stakingTiers)
+  stakingTierYieldInBtc: number[]; // yield netto każdego tieru w tym miesiącu
+  stakingPenaltyInBtc: number; // kara za wyjście z lock-upu przed czasem
+  counterpartyLossInBtc: number; // strata z defaultu kontrahenta (oczekiwana lub zdarzenie) – saldo już ją uwzględnia
+  counterpartyDefault: boolean; // w tym miesiącu nastąpił default (tryb stochastyczny)
+  marketRegime?: MarketRegime; // reżim rynku (tylko model regime-switching)
 }
 
 export function simulateUserTreasuryGrowth(inputData: UserTreasuryGrowthInput) {
   const {
-    marketData: {
-      initialBtcPriceInEuro,
-      cpi,
-      enableIndexing,
-      numberOfYears,
-      btcCagrToday,
-      btcCagrAsymptote,
-      settleYears,
-      settleEpsilon,
-    },
+    marketData,
     userData: {
       monthlyDcaInEuro: baseDcaInEuro,
       initialBtcHolding = 0,
       startMonth = 0,
+      contributionSchedule,
+      contributionStrategy,
     },
     platformData: { platformFeeFromYieldPct, platformExchangeFeePct },
-    earnData: { yearlyYieldPct },
+    earnData: { yearlyYieldPct, yieldSchedule, stakingTiers = [] },
+    decumulationData,
+    loanData,
+    purchaseGoals = [],
+    taxData,
+    counterpartyRiskData,
+    referralData,
+    btcPricePath = getBtcPricePath(marketData),
+    cpiPath = getCpiPath(marketData),
+    fxPath = getFxPath(marketData),
   } = inputData;
+  const { enableIndexing, numberOfYears } = marketData;
+  if (contributionSchedule) validateContributionSchedule(contributionSchedule);
+  if (contributionStrategy) validateContributionStrategy(contributionStrategy);
+  if (loanData) validateCollateralLoanData(loanData);
+  validatePurchaseGoals(purchaseGoals, loanData);
+  validateStakingTiers(stakingTiers);
+  if (counterpartyRiskData) validateCounterpartyRiskData(counterpartyRiskData);
+  if (referralData) validateReferralData(referralData);
 
   // globals
-  const numberOfMonths = numberOfYears * 12;
-  const monthlyYieldRate = Math.pow(1 + yearlyYieldPct, 1 / 12) - 1;
-  const monthlyCpiRate = Math.pow(1 + cpi, 1 / 12) - 1;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+  const monthlyYieldRates = getMonthlyYieldRates(
+    yearlyYieldPct,
+    numberOfMonths,
+    yieldSchedule,
+    cpiPath
+  );
+  const counterpartyLossRates = counterpartyRiskData
+    ? getCounterpartyLossRates(counterpartyRiskData, numberOfMonths)
+    : null;
+  // poleceni realizują ten sam plan na tych samych ścieżkach (bez własnych
+  // poleceń) – jedna symulacja na miesiąc dołączenia
+  const referralSimulations =
+    inputData.referralSimulations ??
+    new Map<number, UserPensionSimulationSnapshot[]>();
+  const referralRewards = referralData
+    ? getReferralRewards(
+        referralData,
+        startMonth,
+        numberOfMonths,
+        joinMonth => {
+          const cached = referralSimulations.get(joinMonth);
+          if (cached) return cached;
+          const snapshots = simulateUserTreasuryGrowth(
+            withCohortStartMonth(
+              {
+                ...inputData,
+                referralData: undefined,
+                referralSimulations: undefined,
+                btcPricePath,
+                cpiPath,
+                fxPath,
+              },
+              joinMonth
+            )
+          );
+          referralSimulations.set(joinMonth, snapshots);
+          return snapshots;
+        }
+      )
+    : null;
 
   // accumulators
   const monthlySnapshots: UserPensionSimulationSnapshot[] = [];
-  let currentBtcPriceInEuro = initialBtcPriceInEuro;
   let userAccumulatedBtcHolding = initialBtcHolding;
-  let cpiFactor = 1;
+  let loanBalanceInEuro = 0;
+  let loanClosed = false; // po likwidacji pożyczka nie pobiera nowych transz
+  // sumy w walucie wpłat – przeliczane do snapshotu kursem z danego miesiąca
+  let cumulativeContribution = 0;
+  let averageCostBasis = 0;
+  let cumulativePlatformFeesInBtc = 0;
+  let cumulativePlatformFees = 0;
+  let cumulativeWithdrawal = 0;
+  let cumulativeTaxPaid = 0;
+  let cumulativeCounterpartyLossInBtc = 0;
+  let cumulativeReferralRewardInBtc = 0;
+  const reachedGoals = purchaseGoals.map(() => false);
+  const strategyState = createContributionStrategyState();
+  const taxLedger = taxData && createTaxLedger(taxData);
+  const stakingState =
+    stakingTiers.length > 0 ? createStakingState(stakingTiers) : null;
+  if (startMonth < numberOfMonths) {
+    // saldo początkowe – domyślnie po cenie rynkowej z miesiąca startu
+    averageCostBasis =
+      taxData?.initialCostBasisInEuro ??
+      initialBtcHolding *
+        btcPricePath.btcPriceInEuro[startMonth] *
+        fxPath.fxRate[startMonth];
+    if (taxLedger) {
+      addTaxLot(taxLedger, {
+        month: startMonth,
+        btc: initialBtcHolding,
+        costBasisInEuro: averageCostBasis,
+      });
+    }
+  }
 
   for (let month = 0; month < numberOfMonths; month++) {
-    // obliczamy btc cagr dla danego miesiaca
-    const tYears = (month + 0.5) / 12; // +0.5 bo bierzemy srednia ze srodka miesiaca
-    const btcAnnualCagr = getAnnualBtcCagr({
-      yearsSinceStart: tYears,
-      annualCagrStart: btcCagrToday,
-      annualCagrAsymptote: btcCagrAsymptote,
-      yearsToSettle: settleYears, // ile lat zostalo do ustalenia
-      residualFraction: settleEpsilon, // ile zostalo od settle do ustalenia ceny, czyli do asymptoty
-    });
+    // cena i stopa wzrostu ceny BTC z (wspólnej) ścieżki ceny
+    const currentBtcPriceInEuro = btcPricePath.btcPriceInEuro[month];
+    const btcMonthlyRate = btcPricePath.btcMonthlyRate[month];
+    const cpiFactor = cpiPath.cpiFactor[month];
+    const fxRate = fxPath.fxRate[month];
+    updateAllTimeHigh(strategyState, currentBtcPriceInEuro);
 
-    // przelicz na miesięczną stopę wzrostu ceny BTC
-    const btcMonthlyRate = getMonthlyBtcCagrRate(btcAnnualCagr);
+    // faza wypłat: bez wpłat DCA; najpierw sprzedaż BTC na wypłatę,
+    // potem yield od pozostałego salda
+    const isPayoutPhase =
+      decumulationData !== undefined && month >= decumulationData.startMonth;
+    const withdrawal = calculateUserWithdrawal({
+      monthlyWithdrawalInEuro: isPayoutPhase
+        ? calculateMonthlyDcaInEuro(
+            decumulationData.monthlyWithdrawalInEuro,
+            cpiFactor,
+            decumulationData.enableIndexing ?? false
+          ) / fxRate
+        : 0,
+      currentBtcPriceInEuro,
+      userAccumulatedBtcHolding,
+      platformExchangeFeePct,
+    });
 
-    const calculatedMonthlyDcaInEuro = calculateMonthlyDcaInEuro(
+    // wpłata w walucie wpłat (harmonogram, potem strategia) → waluta kwotowania
+    const scheduledDcaInEuro = calculateMonthlyDcaInEuro(
       baseDcaInEuro,
       cpiFactor,
-      enableIndexing
+      enableIndexing,
+      contributionSchedule,
+      month,
+      startMonth,
+      marketData.startDate
     );
+    // snapshot dostaje ją w walucie kwotowania (contributionInEuro)
+    const contributionInContributionCurrency =
+      month < startMonth || isPayoutPhase
+        ? 0
+        : contributionStrategy
+          ? calculateStrategyContribution({
+              strategy: contributionStrategy,
+              state: strategyState,
+              month,
+              btcPriceInEuro: btcPricePath.btcPriceInEuro,
+              scheduledDcaInEuro,
+              portfolioValueInEuro:
+                withdrawal.userAccumulatedBtcHolding *
+                currentBtcPriceInEuro *
+                fxRate,
+            })
+          : scheduledDcaInEuro;
+    const calculatedMonthlyDcaInEuro =
+      contributionInContributionCurrency / fxRate;
+
     const yieldAndFee = calculateUserBtcAndPlatformFees({
       monthlyDcaInEuro: calculatedMonthlyDcaInEuro,
-      monthlyYieldRate,
+      // przy tierach yield liczy calculateStakingTiers
+      monthlyYieldRate: stakingState ? 0 : monthlyYieldRates[month],
       platformFeeFromYieldPct,
       currentBtcPriceInEuro,
-      userAccumulatedBtcHolding,
+      userAccumulatedBtcHolding: withdrawal.userAccumulatedBtcHolding,
       platformExchangeFeePct,
     });
 
     if (month >= startMonth) {
+      // staking: przyrost salda do tierów wg alokacji, yield per tier
+      const staking = stakingState
+        ? calculateStakingTiers({
+            stakingTiers,
+            state: stakingState,
+            month,
+            userAccumulatedBtcHolding: yieldAndFee.userAccumulatedBtcHolding,
+            passiveMonthlyYieldRate: monthlyYieldRates[month],
+            platformFeeFromYieldPct,
+          })
+        : null;
+      const accrued = staking ?? yieldAndFee;
+
+      // default kontrahenta: utracona część narażonego salda (po yieldzie)
+      const counterpartyLossRate = counterpartyLossRates?.[month] ?? 0;
+      const counterpartyLossInBtc =
+        accrued.userAccumulatedBtcHolding * counterpartyLossRate;
+      if (stakingState)
+        scaleStakingState(stakingState, 1 - counterpartyLossRate);
+      // nagroda za poleconych dopisywana w BTC, płaci ją platforma
+      const referralRewardInBtc =
+        referralRewards?.referralRewardInBtc[month] ?? 0;
+      const heldBtc =
+        accrued.userAccumulatedBtcHolding -
+        counterpartyLossInBtc +
+        referralRewardInBtc;
+
+      // pożyczka pod zastaw salda po wpłacie i yieldzie
+      const loan = loanData
+        ? calculateCollateralLoan({
+            loanData,
+            month,
+            loanBalanceInEuro,
+            currentBtcPriceInEuro,
+            userAccumulatedBtcHolding: heldBtc,
+            platformExchangeFeePct,
+            cpiFactor,
+            fxRate,
+            loanClosed,
+          })
+        : null;
+      if (loan?.liquidated) loanClosed = true;
+      // cele zakupowe sprawdzane po pożyczce (zakup na kredyt zwiększa dług)
+      const purchases = calculatePurchaseGoals({
+        purchaseGoals,
+        reachedGoals,
+        currentBtcPriceInEuro,
+        userAccumulatedBtcHolding: loan?.userAccumulatedBtcHolding ?? heldBtc,
+        loanBalanceInEuro: loan?.loanBalanceInEuro ?? 0,
+        loanData,
+        platformExchangeFeePct,
+        cpiFactor,
+        fxRate,
+      });
+      purchases.goalsReached.forEach(i => (reachedGoals[i] = true));
+      loanBalanceInEuro = purchases.loanBalanceInEuro;
+
+      // sprzedaże z pożyczki i zakupów zdejmowane z tierów (kara z lock-upu)
+      const exitPenaltyInBtc = stakingState
+        ? rebalanceStakingTiers(
+            stakingTiers,
+            stakingState,
+            month,
+            purchases.userAccumulatedBtcHolding
+          )
+        : 0;
+      const stakingPenaltyInBtc =
+        (staking?.stakingPenaltyInBtc ?? 0) + exitPenaltyInBtc;
+
+      // podatki: loty z wpłat i yieldu, zysk ze sprzedaży, rozliczenie roczne
+      const tax = taxLedger
+        ? calculateMonthlyTax({
+            ledger: taxLedger,
+            month,
+            currentBtcPriceInEuro,
+            fxRate,
+            platformExchangeFeePct,
+            userAccumulatedBtcHolding:
+              purchases.userAccumulatedBtcHolding - exitPenaltyInBtc,
+            withdrawalSale: withdrawal,
+            dcaInBtc: yieldAndFee.userNetDcaInBtc,
+            dcaCostInEuro: contributionInContributionCurrency,
+            // nagroda za polecenia opodatkowana jak yield
+            yieldInBtc: accrued.userMonthlyYieldInBtc + referralRewardInBtc,
+            // kara i strata z defaultu przepadają bez straty podatkowej
+            forfeitedBtc: counterpartyLossInBtc + stakingPenaltyInBtc,
+            laterSales: [...(loan ? [loan] : []), purchases],
+            // rozliczenie roczne w grudniu kalendarzowym (PL, DE)
+            isTaxYearEnd:
+              getMonthDate(marketData.startDate, month).getUTCMonth() === 11,
+          })
+        : null;
+      const finalHolding =
+        tax?.userAccumulatedBtcHolding ??
+        purchases.userAccumulatedBtcHolding - exitPenaltyInBtc;
+      const netWorthInEuro =
+        finalHolding * currentBtcPriceInEuro - loanBalanceInEuro;
+      const platformExchangeFeeInBtc =
+        yieldAndFee.platformExchangeFeeInBtc +
+        withdrawal.platformExchangeFeeInBtc +
+        (loan?.platformExchangeFeeInBtc ?? 0) +
+        purchases.platformExchangeFeeInBtc +
+        (tax?.platformExchangeFeeInBtc ?? 0);
+
+      // średni koszt: sprzedaże i straty zdejmują koszt proporcjonalnie,
+      // wpłata dodaje swoją kwotę, yield i nagrody – zerowy koszt
+      const heldBeforeSalesInBtc =
+        withdrawal.userAccumulatedBtcHolding +
+        yieldAndFee.userNetDcaInBtc +
+        accrued.userMonthlyYieldInBtc +
+        referralRewardInBtc;
+      averageCostBasis =
+        averageCostBasis *
+          getRemainingShare(
+            withdrawal.userAccumulatedBtcHolding,
+            userAccumulatedBtcHolding
+          ) +
+        contributionInContributionCurrency;
+      averageCostBasis *= getRemainingShare(finalHolding, heldBeforeSalesInBtc);
+      cumulativeContribution += contributionInContributionCurrency;
+      const monthlyPlatformFeesInBtc =
+        accrued.platformFeeFromYieldInBtc + platformExchangeFeeInBtc;
+      cumulativePlatformFeesInBtc += monthlyPlatformFeesInBtc;
+      cumulativePlatformFees +=
+        monthlyPlatformFeesInBtc * currentBtcPriceInEuro * fxRate;
+      cumulativeWithdrawal += withdrawal.withdrawalInEuro * fxRate;
+      cumulativeTaxPaid += (tax?.taxPaidInEuro ?? 0) * fxRate;
+      cumulativeCounterpartyLossInBtc += counterpartyLossInBtc;
+      cumulativeReferralRewardInBtc += referralRewardInBtc;
+      const costBasisInEuro = tax?.costBasisInEuro ?? averageCostBasis / fxRate;
+
       monthlySnapshots.push({
         currentBtcPriceInEuro,
-        platformFeeFromYieldInBtc: yieldAndFee.platformFeeFromYieldInBtc,
-        platformExchangeFeeInBtc: yieldAndFee.platformExchangeFeeInBtc,
-        userAccumulatedBtcHolding: yieldAndFee.userAccumulatedBtcHolding,
+        platformFeeFromYieldInBtc: accrued.platformFeeFromYieldInBtc,
+        platformExchangeFeeInBtc,
+        contributionInEuro: calculatedMonthlyDcaInEuro,
+        cumulativeContributionInEuro: cumulativeContribution / fxRate,
+        btcBought: yieldAndFee.userNetDcaInBtc,
+        yieldInBtc: accrued.userMonthlyYieldInBtc,
+        referralRewardInBtc,
+        activeReferrals: referralRewards?.activeReferrals[month] ?? 0,
+        userAccumulatedBtcHolding: finalHolding,
         btcMonthlyRateUsed: btcMonthlyRate,
+        cpiFactor,
+        fxRate,
+        isPayoutPhase,
+        withdrawalInEuro: withdrawal.withdrawalInEuro,
+        withdrawalBtcSold: withdrawal.btcSold,
+        fundsDepleted: withdrawal.fundsDepleted,
+        loanBalanceInEuro,
+        loanDrawnInEuro: loan?.loanDrawnInEuro ?? 0,
+        loanInterestInEuro: loan?.loanInterestInEuro ?? 0,
+        loanLtv: getLtv(
+          loanBalanceInEuro,
+          finalHolding * currentBtcPriceInEuro
+        ),
+        loanBtcSold: loan?.btcSold ?? 0,
+        marginCall: loan?.marginCall ?? false,
+        liquidated: loan?.liquidated ?? false,
+        netWorthInEuro,
+        purchaseGoalsReached: purchases.goalsReached,
+        purchaseSpentInEuro: purchases.purchaseSpentInEuro,
+        purchaseBtcSold: purchases.btcSold,
+        realizedGainInEuro: tax?.realizedGainInEuro ?? 0,
+        yieldIncomeTaxInEuro: tax?.yieldIncomeTaxInEuro ?? 0,
+        taxPaidInEuro: tax?.taxPaidInEuro ?? 0,
+        taxBtcSold: tax?.taxBtcSold ?? 0,
+        costBasisInEuro,
+        averageCostInEuro:
+          finalHolding > 0 ? costBasisInEuro / finalHolding : 0,
+        breakEvenBtcPriceInEuro:
+          finalHolding > 0
+            ? (costBasisInEuro + loanBalanceInEuro) /
+              (finalHolding * (1 - platformExchangeFeePct))
+            : 0,
+        unrealizedPnlInEuro:
+          finalHolding * currentBtcPriceInEuro - costBasisInEuro,
+        cumulativePlatformFeesInBtc,
+        cumulativePlatformFeesInEuro: cumulativePlatformFees / fxRate,
+        cumulativeWithdrawalInEuro: cumulativeWithdrawal / fxRate,
+        cumulativeTaxPaidInEuro: cumulativeTaxPaid / fxRate,
+        cumulativeCounterpartyLossInBtc,
+        cumulativeReferralRewardInBtc,
+        afterTaxValueInEuro:
+          netWorthInEuro -
+          finalHolding * currentBtcPriceInEuro * platformExchangeFeePct -
+          (tax?.outstandingTaxInEuro ?? 0),
+        stakingTierBtc: stakingState ? getStakingTierBtc(stakingState) : [],
+        stakingTierYieldInBtc: staking?.tierYieldInBtc ?? [],
+        stakingPenaltyInBtc,
+        counterpartyLossInBtc,
+        counterpartyDefault:
+          counterpartyRiskData?.mode === CounterpartyRiskMode.Stochastic &&
+          counterpartyLossRate > 0,
+        marketRegime: btcPricePath.marketRegime?.[month],
       });
-      userAccumulatedBtcHolding = yieldAndFee.userAccumulatedBtcHolding;
+      userAccumulatedBtcHolding = finalHolding;
     } else {
       monthlySnapshots.push({
         currentBtcPriceInEuro,
         platformFeeFromYieldInBtc: 0,
         platformExchangeFeeInBtc: 0,
+        contributionInEuro: 0,
+        cumulativeContributionInEuro: 0,
+        btcBought: 0,
+        yieldInBtc: 0,
+        referralRewardInBtc: 0,
+        activeReferrals: 0,
         userAccumulatedBtcHolding: 0,
         btcMonthlyRateUsed: btcMonthlyRate,
+        cpiFactor,
+        fxRate,
+        isPayoutPhase: false,
+        withdrawalInEuro: 0,
+        withdrawalBtcSold: 0,
+        fundsDepleted: false,
+        loanBalanceInEuro: 0,
+        loanDrawnInEuro: 0,
+        loanInterestInEuro: 0,
+        loanLtv: 0,
+        loanBtcSold: 0,
+        marginCall: false,
+        liquidated: false,
+        netWorthInEuro: 0,
+        purchaseGoalsReached: [],
+        purchaseSpentInEuro: 0,
+        purchaseBtcSold: 0,
+        realizedGainInEuro: 0,
+        yieldIncomeTaxInEuro: 0,
+        taxPaidInEuro: 0,
+        taxBtcSold: 0,
+        costBasisInEuro: 0,
+        averageCostInEuro: 0,
+        breakEvenBtcPriceInEuro: 0,
+        unrealizedPnlInEuro: 0,
+        cumulativePlatformFeesInBtc: 0,
+        cumulativePlatformFeesInEuro: 0,
+        cumulativeWithdrawalInEuro: 0,
+        cumulativeTaxPaidInEuro: 0,
+        cumulativeCounterpartyLossInBtc: 0,
+        cumulativeReferralRewardInBtc: 0,
+        afterTaxValueInEuro: 0,
+        stakingTierBtc: stakingTiers.map(() => 0),
+        stakingTierYieldInBtc: stakingTiers.map(() => 0),
+        stakingPenaltyInBtc: 0,
+        counterpartyLossInBtc: 0,
+        counterpartyDefault: false,
+        marketRegime: btcPricePath.marketRegime?.[month],
       });
     }
-
-    currentBtcPriceInEuro = currentBtcPriceInEuro * (1 + btcMonthlyRate);
-    cpiFactor *= 1 + monthlyCpiRate;
   }
 
   return monthlySnapshots;
 }
+
+// Część salda, która została po sprzedażach (do proporcjonalnego zdjęcia kosztu)
+function getRemainingShare(remainingBtc: number, btc: number) {
+  return btc > 0 ? Math.min(Math.max(remainingBtc / btc, 0), 1) : 0;
+}
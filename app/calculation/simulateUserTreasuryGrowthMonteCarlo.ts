@@ -0,0 +1,139 @@
+import {
+  UserTreasuryGrowthInput,
+  UserPensionSimulationSnapshot,
+  simulateUserTreasuryGrowth,
+} from './simulateUserTreasuryGrowth';
+import { createSeededRandom } from './utils/createSeededRandom';
+import { getBtcPricePath, getPriceModel } from './utils/getBtcPricePath';
+import {
+  MonteCarloPriceShockSettings,
+  getMonteCarloBtcPricePath,
+} from './utils/getMonteCarloBtcPricePath';
+import { CpiModelType, getCpiPath } from './utils/getCpiPath';
+import { getFxPath } from './utils/getFxPath';
+import { PercentileBand, getPercentileBand } from './utils/getPercentile';
+import {
+  CounterpartyRiskMode,
+  getCounterpartyDefaultMonths,
+} from './utils/calculateCounterpartyRisk';
+
+// każda ścieżka to pełna symulacja trzymana w pamięci – górny limit N
+export const MAX_MONTE_CARLO_PATHS = 1000;
+
+export interface MonteCarloSettings extends MonteCarloPriceShockSettings {
+  numberOfPaths: number; // N – liczba losowanych ścieżek (1…MAX_MONTE_CARLO_PATHS)
+  seed: number; // ten sam seed → te same ścieżki
+}
+
+export interface UserMonteCarloPercentileSnapshot {
+  month: number; // 0-indexed
+  btcPriceInEuro: PercentileBand;
+  userAccumulatedBtcHolding: PercentileBand;
+  userBtcValueInEuro: PercentileBand; // holding × cena w danej ścieżce
+}
+
+export interface UserMonteCarloSimulationResult {
+  paths: UserPensionSimulationSnapshot[][]; // pełne snapshoty każdej ścieżki
+  percentiles: UserMonteCarloPercentileSnapshot[]; // P5/P25/P50/P75/P95 per miesiąc
+}
+
+// Wejścia symulacji dla każdej ścieżki Monte Carlo: losowa ścieżka ceny
+// (i inflacji dla modelu OU), losowe defaulty kontrahenta, wspólny kurs walut.
+export function getMonteCarloInputs(
+  inputData: UserTreasuryGrowthInput,
+  monteCarloSettings: MonteCarloSettings
+): UserTreasuryGrowthInput[] {
+  const { numberOfPaths, seed } = monteCarloSettings;
+  if (!(numberOfPaths >= 1)) {
+    throw new Error('numberOfPaths must be >= 1');
+  }
+  if (numberOfPaths > MAX_MONTE_CARLO_PATHS) {
+    throw new Error(`numberOfPaths must be <= ${MAX_MONTE_CARLO_PATHS}`);
+  }
+
+  const { marketData } = inputData;
+  const random = createSeededRandom(seed);
+  const basePath = inputData.btcPricePath ?? getBtcPricePath(marketData);
+  // kurs walut jest deterministyczny – wspólny dla wszystkich ścieżek
+  const fxPath = inputData.fxPath ?? getFxPath(marketData);
+  const { stochastic } = getPriceModel(marketData.priceModel);
+  // importowane ceny to zrealizowana historia – szoki dostaje tylko dalsza,
+  // modelowa część ścieżki (stopy między własnymi cenami zostają bez zmian)
+  const fixedMonths = Math.max(
+    (marketData.customBtcPrices?.length ?? 0) - 1,
+    0
+  );
+
+  const inputs: UserTreasuryGrowthInput[] = [];
+  for (let i = 0; i < Math.floor(numberOfPaths); i++) {
+    // modele losowe (bootstrap historyczny, regime-switching) same są źródłem
+    // losowości – każda ścieżka to nowa próba; pozostałe modele dostają szoki
+    // σ/√12 · z wokół swojej deterministycznej ścieżki
+    const btcPricePath = stochastic
+      ? getBtcPricePath(marketData, random)
+      : getMonteCarloBtcPricePath(
+          basePath,
+          monteCarloSettings,
+          random,
+          fixedMonths
+        );
+    // inflacja losowa (OU) dostaje własne szoki, opcjonalnie skorelowane z ceną
+    const cpiPath =
+      marketData.cpiModel === CpiModelType.MeanReverting
+        ? getCpiPath(marketData, random, btcPricePath)
+        : inputData.cpiPath;
+    // ryzyko kontrahenta: w każdej ścieżce losowe miesiące defaultu
+    const counterpartyRiskData = inputData.counterpartyRiskData && {
+      ...inputData.counterpartyRiskData,
+      mode: CounterpartyRiskMode.Stochastic,
+      defaultMonths: getCounterpartyDefaultMonths(
+        inputData.counterpartyRiskData,
+        btcPricePath.btcPriceInEuro.length,
+        random
+      ),
+    };
+    inputs.push({
+      ...inputData,
+      btcPricePath,
+      cpiPath,
+      fxPath,
+      counterpartyRiskData,
+      // symulacje poleconych zależą od ścieżki – osobne dla każdej
+      referralSimulations: undefined,
+    });
+  }
+  return inputs;
+}
+
+export function simulateUserTreasuryGrowthMonteCarlo(
+  inputData: UserTreasuryGrowthInput,
+  monteCarloSettings: MonteCarloSettings
+): UserMonteCarloSimulationResult {
+  const paths = getMonteCarloInputs(inputData, monteCarloSettings).map(
+    simulateUserTreasuryGrowth
+  );
+
+  const numberOfMonths = paths[0].length;
+  const percentiles: UserMonteCarloPercentileSnapshot[] = new Array(
+    numberOfMonths
+  );
+  for (let month = 0; month < numberOfMonths; month++) {
+    const snapshots = paths.map(path => path[month]);
+    percentiles[month] = {
+      month,
+      btcPriceInEuro: getPercentileBand(
+        snapshots.map(s => s.currentBtcPriceInEuro)
+      ),
+      userAccumulatedBtcHolding: getPercentileBand(
+        snapshots.map(s => s.userAccumulatedBtcHolding)
+      ),
+      userBtcValueInEuro: getPercentileBand(
+        snapshots.map(
+          s => s.userAccumulatedBtcHolding * s.currentBtcPriceInEuro
+        )
+      ),
+    };
+  }
+
+  return { paths, percentiles };
+}
@@ -0,0 +1,146 @@
+import {
+  UserPensionSimulationSnapshot,
+  UserTreasuryGrowthInput,
+  simulateUserTreasuryGrowth,
+} from './simulateUserTreasuryGrowth';
+import { withReferralSimulations } from './utils/withReferralSimulations';
+import { withSimulationHorizon } from './utils/withSimulationHorizon';
+
+export enum SavingsGoalType {
+  NominalValue = 'nominalValue', // wartość portfela w walucie wpłat
+  RealValue = 'realValue', // j.w. w pieniądzu z miesiąca 0 (÷ cpiFactor)
+  BtcAmount = 'btcAmount', // saldo BTC
+}
+
+export enum SavingsGoalVariable {
+  MonthlyDca = 'monthlyDca', // userData.monthlyDcaInEuro
+  InitialBtcHolding = 'initialBtcHolding', // userData.initialBtcHolding
+  NumberOfYears = 'numberOfYears', // najkrótszy horyzont, w którym cel jest osiągnięty
+}
+
+// najdłuższy horyzont, w którym szukamy celu
+export const MAX_GOAL_YEARS = 100;
+
+export interface SavingsGoal {
+  type: SavingsGoalType;
+  targetValue: number; // w walucie wpłat albo w BTC
+  targetMonth: number; // miesiąc symulacji (indeks snapshotu), w którym sprawdzamy cel; pomijany dla NumberOfYears
+  solveFor: SavingsGoalVariable;
+}
+
+export interface SavingsGoalResult {
+  value: number | null; // szukane DCA / BTC / lata (ułamek = miesiące); null – cel nieosiągalny
+  targetMonth: number | null; // miesiąc, w którym cel jest osiągnięty
+  achievedValue: number | null; // wartość celu w tym miesiącu przy znalezionym rozwiązaniu
+}
+
+// wartość celu w danym snapshocie
+export function getSavingsGoalValue(
+  snapshot: UserPensionSimulationSnapshot,
+  type: SavingsGoalType
+): number {
+  switch (type) {
+    case SavingsGoalType.BtcAmount:
+      return snapshot.userAccumulatedBtcHolding;
+    case SavingsGoalType.RealValue:
+      return (
+        (snapshot.userAccumulatedBtcHolding *
+          snapshot.currentBtcPriceInEuro *
+          snapshot.fxRate) /
+        snapshot.cpiFactor
+      );
+    default:
+      return (
+        snapshot.userAccumulatedBtcHolding *
+        snapshot.currentBtcPriceInEuro *
+        snapshot.fxRate
+      );
+  }
+}
+
+// Goal-seek wokół simulateUserTreasuryGrowth: najmniejsze miesięczne DCA albo
+// początkowe saldo BTC, przy którym cel jest osiągnięty w targetMonth (bisekcja –
+// wartość rośnie monotonicznie z wpłatami), albo najkrótszy horyzont, w którym
+// cel jest osiągnięty przy obecnych wpłatach. Opłaty, yield i indeksacja wpłat
+// działają tak samo jak w symulacji.
+export function solveSavingsGoal(
+  inputData: UserTreasuryGrowthInput,
+  goal: SavingsGoal
+): SavingsGoalResult {
+  const { type, targetValue, targetMonth, solveFor } = goal;
+  if (!(targetValue > 0)) {
+    throw new Error(`targetValue must be > 0 (got ${targetValue})`);
+  }
+
+  if (solveFor === SavingsGoalVariable.NumberOfYears) {
+    const snapshots = simulateUserTreasuryGrowth(
+      withSimulationHorizon(inputData, MAX_GOAL_YEARS)
+    );
+    const month = snapshots.findIndex(
+      snapshot => getSavingsGoalValue(snapshot, type) >= targetValue
+    );
+    return month >= 0
+      ? {
+          value: (month + 1) / 12,
+          targetMonth: month,
+          achievedValue: getSavingsGoalValue(snapshots[month], type),
+        }
+      : { value: null, targetMonth: null, achievedValue: null };
+  }
+
+  if (!(Number.isInteger(targetMonth) && targetMonth >= 0)) {
+    throw new Error(`targetMonth must be an integer >= 0 (got ${targetMonth})`);
+  }
+  // horyzont wydłużony, gdy cel leży za końcem symulacji; nagrody za
+  // poleconych z bazowego planu, liczone raz dla wszystkich kroków bisekcji
+  const solverInput = withReferralSimulations(
+    withSimulationHorizon(
+      inputData,
+      Math.max(
+        inputData.marketData.numberOfYears,
+        Math.ceil((targetMonth + 1) / 12)
+      )
+    )
+  );
+  const isDca = solveFor === SavingsGoalVariable.MonthlyDca;
+  const valueAt = (variable: number) =>
+    getSavingsGoalValue(
+      simulateUserTreasuryGrowth({
+        ...solverInput,
+        userData: {
+          ...solverInput.userData,
+          ...(isDca
+            ? { monthlyDcaInEuro: variable }
+            : { initialBtcHolding: variable }),
+        },
+      })[targetMonth],
+      type
+    );
+
+  if (valueAt(0) >= targetValue) {
+    return { value: 0, targetMonth, achievedValue: valueAt(0) };
+  }
+
+  // górna granica podwajana, aż cel zostanie osiągnięty
+  const current = isDca
+    ? inputData.userData.monthlyDcaInEuro
+    : (inputData.userData.initialBtcHolding ?? 0);
+  let low = 0;
+  let high = Math.max(current, isDca ? 1 : 0.001);
+  for (let i = 0; i < 60 && valueAt(high) < targetValue; i++) {
+    low = high;
+    high *= 2;
+  }
+  if (valueAt(high) < targetValue) {
+    return { value: null, targetMonth: null, achievedValue: null };
+  }
+
+  // bisekcja do 1 centa / 1 satoshi (albo 0.0001% kwoty)
+  const tolerance = isDca ? 0.01 : 1e-8;
+  while (high - low > Math.max(tolerance, high * 1e-6)) {
+    const middle = (low + high) / 2;
+    if (valueAt(middle) >= targetValue) high = middle;
+    else low = middle;
+  }
+  return { value: high, targetMonth, achievedValue: valueAt(high) };
+}
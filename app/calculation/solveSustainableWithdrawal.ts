@@ -0,0 +1,143 @@
+import {
+  UserTreasuryGrowthInput,
+  simulateUserTreasuryGrowth,
+} from './simulateUserTreasuryGrowth';
+import {
+  MonteCarloSettings,
+  getMonteCarloInputs,
+} from './simulateUserTreasuryGrowthMonteCarlo';
+import { getPercentile } from './utils/getPercentile';
+import { withReferralSimulations } from './utils/withReferralSimulations';
+import { withSimulationHorizon } from './utils/withSimulationHorizon';
+
+// Horyzont wypłaty "bezterminowej". Symulacja nie ma nieskończonego horyzontu,
+// więc wypłata bez payoutYears musi wystarczyć na tyle lat – dłużej niż
+// realistyczna emerytura, a koszt solvera (ścieżki × bisekcja × miesiące)
+// pozostaje ograniczony. Wynik jest więc wypłatą na 100 lat, nie granicą
+// dla t → ∞; w UI opisywany jako taki.
+export const PERPETUAL_PAYOUT_YEARS = 100;
+// koszt solvera = ścieżki × kroki bisekcji × pełna symulacja – oba ograniczone
+export const MAX_SOLVER_PATHS = 100;
+const MAX_BISECTION_STEPS = 30;
+
+export interface SustainableWithdrawalSettings {
+  startMonth: number; // miesiąc symulacji, od którego trwają wypłaty
+  payoutYears?: number; // ile lat wypłat; brak → bezterminowo (PERPETUAL_PAYOUT_YEARS)
+  enableIndexing?: boolean; // wypłata w pieniądzu z miesiąca 0, rosnąca z cpiFactor
+  successProbability?: number; // tylko Monte Carlo: odsetek ścieżek, na których środki wystarczą, domyślnie 0.9
+  monteCarlo?: MonteCarloSettings; // gdy podane – rozwiązanie dla losowych ścieżek ceny (najwyżej MAX_SOLVER_PATHS pierwszych)
+}
+
+export interface SustainableWithdrawalResult {
+  monthlyWithdrawalInEuro: number; // maks. wypłata netto w walucie wpłat (przy indeksacji – w pieniądzu z miesiąca 0)
+  payoutMonths: number; // liczba miesięcy wypłat, dla których liczono
+  successProbability: number; // 1 dla ścieżki deterministycznej
+  pathWithdrawals: number[]; // maks. wypłata dla każdej ścieżki (rosnąco); jedna wartość bez Monte Carlo
+}
+
+// Największa miesięczna wypłata, przy której saldo BTC nie wyczerpie się przez
+// payoutYears od startMonth. Korzysta z tej samej pętli co simulateUserTreasuryGrowth
+// (faza wypłat z decumulationData) i szuka wypłaty bisekcją – wystarczalność jest
+// monotoniczna względem kwoty. Dla Monte Carlo liczy maksimum na każdej ścieżce
+// i zwraca kwantyl (1 - successProbability) – wypłata wystarcza na ≥ p ścieżek.
+export function solveSustainableWithdrawal(
+  inputData: UserTreasuryGrowthInput,
+  settings: SustainableWithdrawalSettings
+): SustainableWithdrawalResult {
+  const {
+    startMonth,
+    payoutYears = PERPETUAL_PAYOUT_YEARS,
+    enableIndexing = false,
+    successProbability = 0.9,
+    monteCarlo,
+  } = settings;
+  if (!(startMonth >= 0)) {
+    throw new Error(`startMonth must be >= 0 (got ${startMonth})`);
+  }
+  if (!(payoutYears > 0)) {
+    throw new Error(`payoutYears must be > 0 (got ${payoutYears})`);
+  }
+  if (!(successProbability > 0 && successProbability <= 1)) {
+    throw new Error('successProbability must be in (0, 1]');
+  }
+
+  const payoutMonths = Math.round(payoutYears * 12);
+  const endMonth = startMonth + payoutMonths;
+  // horyzont dopasowany do końca wypłat
+  const solverInput = withSimulationHorizon(
+    inputData,
+    Math.ceil(endMonth / 12)
+  );
+
+  const pathInputs = monteCarlo
+    ? getMonteCarloInputs(solverInput, {
+        ...monteCarlo,
+        numberOfPaths: Math.min(monteCarlo.numberOfPaths, MAX_SOLVER_PATHS),
+      })
+    : [solverInput];
+  // nagrody za poleconych z bazowego planu danej ścieżki, liczone raz dla
+  // wszystkich kroków bisekcji
+  const pathWithdrawals = pathInputs
+    .map(pathInput =>
+      getMaxWithdrawal(
+        withReferralSimulations(pathInput),
+        startMonth,
+        endMonth,
+        enableIndexing
+      )
+    )
+    .sort((a, b) => a - b);
+
+  return {
+    monthlyWithdrawalInEuro: monteCarlo
+      ? getPercentile(pathWithdrawals, 1 - successProbability)
+      : pathWithdrawals[0],
+    payoutMonths,
+    successProbability: monteCarlo ? successProbability : 1,
+    pathWithdrawals,
+  };
+}
+
+function getMaxWithdrawal(
+  inputData: UserTreasuryGrowthInput,
+  startMonth: number,
+  endMonth: number,
+  enableIndexing: boolean
+): number {
+  const isSustainable = (monthlyWithdrawalInEuro: number) =>
+    !simulateUserTreasuryGrowth({
+      ...inputData,
+      decumulationData: { startMonth, monthlyWithdrawalInEuro, enableIndexing },
+    })
+      .slice(startMonth, endMonth)
+      .some(snapshot => snapshot.fundsDepleted);
+
+  // górna granica: wartość salda na start wypłat, podwajana dopóki wystarcza
+  const atStart = simulateUserTreasuryGrowth({
+    ...inputData,
+    decumulationData: undefined,
+  })[Math.max(startMonth - 1, 0)];
+  let high = Math.max(
+    atStart.userAccumulatedBtcHolding *
+      atStart.currentBtcPriceInEuro *
+      atStart.fxRate,
+    1
+  );
+  let low = 0;
+  for (let i = 0; i < 60 && isSustainable(high); i++) {
+    low = high;
+    high *= 2;
+  }
+
+  // bisekcja do 0.1% kwoty (min. 1 cent), najwyżej MAX_BISECTION_STEPS kroków
+  for (
+    let i = 0;
+    i < MAX_BISECTION_STEPS && high - low > Math.max(0.01, high * 1e-3);
+    i++
+  ) {
+    const middle = (low + high) / 2;
+    if (isSustainable(middle)) low = middle;
+    else high = middle;
+  }
+  return low;
+}
@@ -0,0 +1,149 @@
+import { BtcPricePath } from './getBtcPricePath';
+import { getBtcPricePathFromMonthlyRates } from './getBtcPricePathFromMonthlyRates';
+import { getMonthDate } from './getMonthDate';
+
+// znane halvingi; kolejne szacujemy co 4 lata od ostatniego
+export const KNOWN_HALVING_DATES = [
+  '2012-11-28',
+  '2016-07-09',
+  '2020-05-11',
+  '2024-04-20',
+];
+const HALVING_INTERVAL_YEARS = 4;
+const MS_PER_MONTH = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+export interface HalvingCycleSettings {
+  peakMultiple: number; // szczyt cyklu względem trendu, np. 2 = 2× trend
+  peakMonthsAfterHalving: number; // ile miesięcy po halvingu wypada szczyt, np. 18
+  postPeakDrawdown: number; // spadek od szczytu do dołka, np. 0.75 = -75%
+  troughMonthsAfterPeak: number; // ile miesięcy po szczycie wypada dołek, np. 12
+  amplitudeDecay: number; // mnożnik amplitudy na każdy kolejny cykl, np. 0.8 (1 = bez wygaszania)
+}
+
+// daty halvingów (UTC) od pierwszego znanego do `until` włącznie
+export function getHalvingDates(until: Date): Date[] {
+  const dates = KNOWN_HALVING_DATES.map(d => new Date(d));
+  let last = dates[dates.length - 1];
+  while (last.getTime() <= until.getTime()) {
+    last = new Date(
+      Date.UTC(
+        last.getUTCFullYear() + HALVING_INTERVAL_YEARS,
+        last.getUTCMonth(),
+        last.getUTCDate()
+      )
+    );
+    dates.push(last);
+  }
+  return dates;
+}
+
+// miesiące symulacji (0-indexed), w których wypada halving
+export function getHalvingMonths(
+  startDate: string | undefined,
+  numberOfMonths: number
+): number[] {
+  const start = getMonthDate(startDate, 0);
+  const end = getMonthDate(startDate, numberOfMonths);
+  return getHalvingDates(end)
+    .filter(d => d >= start && d < end)
+    .map(
+      d =>
+        (d.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        d.getUTCMonth() -
+        start.getUTCMonth()
+    );
+}
+
+// log-mnożnik cyklu: 0 w halvingu → ln(peak) w szczycie → ln(peak·(1-dd)) w dołku → 0 w kolejnym halvingu
+function getCycleLogMultiplier(
+  monthsSinceHalving: number,
+  cycleLengthMonths: number,
+  settings: HalvingCycleSettings
+): number {
+  const peakMonth = Math.min(
+    Math.max(settings.peakMonthsAfterHalving, 0),
+    cycleLengthMonths
+  );
+  const troughMonth = Math.min(
+    peakMonth + Math.max(settings.troughMonthsAfterPeak, 0),
+    cycleLengthMonths
+  );
+  const peakLog = Math.log(Math.max(settings.peakMultiple, 1e-6));
+  const troughLog =
+    peakLog + Math.log(Math.max(1 - settings.postPeakDrawdown, 1e-6));
+
+  const points: [number, number][] = [
+    [0, 0],
+    [peakMonth, peakLog],
+    [troughMonth, troughLog],
+    [cycleLengthMonths, 0],
+  ];
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (monthsSinceHalving <= x1) {
+      if (x1 === x0) return y1;
+      return y0 + ((y1 - y0) * (monthsSinceHalving - x0)) / (x1 - x0);
+    }
+  }
+  return 0;
+}
+
+// Nakłada cykl halvingowy na dowolną ścieżkę bazową. Mnożnik cyklu wynosi 1
+// w każdym halvingu i jest ograniczony, więc długoterminowy CAGR trendu się
+// nie zmienia – przesuwa się tylko rozkład wzrostów w czasie. Cena startowa
+// traktowana jest jako cena "w cyklu", tzn. trend = cena / mnożnik(0).
+export function applyHalvingCycleOverlay(
+  basePath: BtcPricePath,
+  startDate: string | undefined,
+  settings: HalvingCycleSettings
+): BtcPricePath {
+  const numberOfMonths = basePath.btcPriceInEuro.length;
+  if (numberOfMonths === 0) return basePath;
+
+  const halvingDates = getHalvingDates(getMonthDate(startDate, numberOfMonths));
+  const start = getMonthDate(startDate, 0);
+  const firstCycleIndex = Math.max(
+    0,
+    halvingDates.filter(d => d.getTime() <= start.getTime()).length - 1
+  );
+
+  const cycleFactorAt = (month: number) => {
+    const date = getMonthDate(startDate, month);
+    const cycleIndex =
+      halvingDates.filter(d => d.getTime() <= date.getTime()).length - 1;
+    if (cycleIndex < 0) return 1;
+    const halving = halvingDates[cycleIndex];
+    const nextHalving = halvingDates[cycleIndex + 1];
+    const cycleLengthMonths =
+      (nextHalving.getTime() - halving.getTime()) / MS_PER_MONTH;
+    const monthsSinceHalving =
+      (date.getTime() - halving.getTime()) / MS_PER_MONTH;
+    const amplitude = Math.pow(
+      settings.amplitudeDecay,
+      Math.max(0, cycleIndex - firstCycleIndex)
+    );
+    return Math.exp(
+      amplitude *
+        getCycleLogMultiplier(monthsSinceHalving, cycleLengthMonths, settings)
+    );
+  };
+
+  const cycleFactors: number[] = new Array(numberOfMonths + 1);
+  for (let month = 0; month <= numberOfMonths; month++) {
+    cycleFactors[month] = cycleFactorAt(month);
+  }
+
+  const btcMonthlyRate = basePath.btcMonthlyRate.map(
+    (rate, month) =>
+      (1 + rate) * (cycleFactors[month + 1] / cycleFactors[month]) - 1
+  );
+
+  return {
+    ...basePath,
+    ...getBtcPricePathFromMonthlyRates(
+      basePath.btcPriceInEuro[0],
+      btcMonthlyRate
+    ),
+  };
+}
@@ -0,0 +1,171 @@
+import { BtcPricePath } from './getBtcPricePath';
+
+export enum RecoveryShape {
+  Linear = 'linear', // równe tempo odrabiania (w skali log)
+  Fast = 'fast', // szybkie odbicie, potem wolniej (V)
+  Slow = 'slow', // długo przy dnie, potem szybko (U)
+}
+
+export interface StressEvent {
+  name?: string; // etykieta na wykresie
+  startMonth: number; // miesiąc (0-indexed) rozpoczęcia spadku
+  drawdown: number; // spadek od ceny w startMonth do dna, np. 0.75 = -75%
+  crashMonths: number; // czas spadku do dna (>= 1)
+  plateauMonths?: number; // ile miesięcy cena stoi na dnie (domyślnie 0)
+  recoveryMonths: number; // czas powrotu do ścieżki bazowej; 0 = bez powrotu (trwały dyskont)
+  recoveryShape?: RecoveryShape; // domyślnie Linear
+}
+
+export enum StressEventPreset {
+  Crash2018 = 'crash2018',
+  Crash2022 = 'crash2022',
+  ProlongedStagnation = 'prolongedStagnation',
+}
+
+// parametry zbliżone do historycznych bessy (szczyt → dno → nowy ATH)
+export const STRESS_EVENT_PRESETS: Record<
+  StressEventPreset,
+  Omit<StressEvent, 'startMonth'>
+> = {
+  [StressEventPreset.Crash2018]: {
+    name: '2018-style crash',
+    drawdown: 0.84,
+    crashMonths: 12,
+    plateauMonths: 4,
+    recoveryMonths: 20,
+    recoveryShape: RecoveryShape.Slow,
+  },
+  [StressEventPreset.Crash2022]: {
+    name: '2022-style crash',
+    drawdown: 0.77,
+    crashMonths: 12,
+    plateauMonths: 2,
+    recoveryMonths: 14,
+    recoveryShape: RecoveryShape.Linear,
+  },
+  [StressEventPreset.ProlongedStagnation]: {
+    name: 'Prolonged stagnation',
+    drawdown: 0.4,
+    crashMonths: 6,
+    plateauMonths: 36,
+    recoveryMonths: 24,
+    recoveryShape: RecoveryShape.Slow,
+  },
+};
+
+export function getStressEventFromPreset(
+  preset: StressEventPreset,
+  startMonth: number
+): StressEvent {
+  return { ...STRESS_EVENT_PRESETS[preset], startMonth };
+}
+
+export interface StressEventWindow {
+  name: string;
+  startMonth: number; // początek spadku
+  endMonth: number; // koniec odbicia (albo dna, gdy brak powrotu)
+}
+
+export function getStressEventWindows(
+  events: StressEvent[],
+  numberOfMonths: number
+): StressEventWindow[] {
+  return events
+    .filter(event => event.startMonth < numberOfMonths)
+    .map(event => ({
+      name: event.name ?? `-${Math.round(event.drawdown * 100)}% crash`,
+      startMonth: event.startMonth,
+      endMonth: Math.min(
+        numberOfMonths - 1,
+        event.startMonth +
+          event.crashMonths +
+          (event.plateauMonths ?? 0) +
+          event.recoveryMonths
+      ),
+    }));
+}
+
+function getRecoveryProgress(x: number, shape: RecoveryShape): number {
+  if (shape === RecoveryShape.Fast) return 1 - (1 - x) * (1 - x);
+  if (shape === RecoveryShape.Slow) return x * x;
+  return x;
+}
+
+function validateStressEvent(event: StressEvent): void {
+  if (!(event.drawdown > 0 && event.drawdown < 1)) {
+    throw new Error('Stress event drawdown must be in (0, 1)');
+  }
+  if (!(event.crashMonths >= 1)) {
+    throw new Error('Stress event crashMonths must be >= 1');
+  }
+  if (!(event.startMonth >= 0)) {
+    throw new Error('Stress event startMonth must be >= 0');
+  }
+  if (!((event.plateauMonths ?? 0) >= 0 && event.recoveryMonths >= 0)) {
+    throw new Error(
+      'Stress event plateauMonths and recoveryMonths must be >= 0'
+    );
+  }
+}
+
+// Nakłada zaplanowane zdarzenia stresowe na dowolną ścieżkę bazową:
+//  spadek: log-liniowo z ceny w startMonth do ceny·(1 - drawdown),
+//  plateau: cena stoi na dnie,
+//  odbicie: ln(cena) przechodzi od dna do ścieżki bazowej wg kształtu,
+//  potem: ścieżka bazowa (albo stały dyskont, gdy recoveryMonths = 0).
+// Kolejne zdarzenia nakładane są na wynik poprzednich.
+export function applyStressEvents(
+  basePath: BtcPricePath,
+  events: StressEvent[]
+): BtcPricePath {
+  const numberOfMonths = basePath.btcPriceInEuro.length;
+  if (numberOfMonths === 0 || events.length === 0) return basePath;
+
+  // ceny 0..N (z ceną po ostatnim miesiącu), żeby odtworzyć wszystkie stopy
+  let prices = [
+    ...basePath.btcPriceInEuro,
+    basePath.btcPriceInEuro[numberOfMonths - 1] *
+      (1 + basePath.btcMonthlyRate[numberOfMonths - 1]),
+  ];
+
+  for (const event of events) {
+    validateStressEvent(event);
+    const {
+      startMonth,
+      drawdown,
+      crashMonths,
+      plateauMonths = 0,
+      recoveryMonths,
+      recoveryShape = RecoveryShape.Linear,
+    } = event;
+    if (startMonth > numberOfMonths) continue;
+
+    const base = prices;
+    const logTrough = Math.log(base[startMonth] * (1 - drawdown));
+    const recoveryStart = startMonth + crashMonths + plateauMonths;
+    const permanentDiscount = logTrough - Math.log(base[recoveryStart] ?? 1);
+
+    prices = base.map((price, month) => {
+      if (month <= startMonth) return price;
+      if (month <= startMonth + crashMonths) {
+        const x = (month - startMonth) / crashMonths;
+        return base[startMonth] * Math.pow(1 - drawdown, x);
+      }
+      if (month <= recoveryStart) return Math.exp(logTrough);
+      if (recoveryMonths === 0) return price * Math.exp(permanentDiscount);
+      if (month >= recoveryStart + recoveryMonths) return price;
+
+      const g = getRecoveryProgress(
+        (month - recoveryStart) / recoveryMonths,
+        recoveryShape
+      );
+      return Math.exp((1 - g) * logTrough + g * Math.log(price));
+    });
+  }
+
+  const btcPriceInEuro = prices.slice(0, numberOfMonths);
+  const btcMonthlyRate = btcPriceInEuro.map(
+    (price, month) => prices[month + 1] / price - 1
+  );
+  return { ...basePath, btcPriceInEuro, btcMonthlyRate };
+}
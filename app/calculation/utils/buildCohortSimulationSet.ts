@@ -7,6 +7,10 @@ import {
   getPlatformUsersTimeline,
   PlatformUsersData,
 } from './getPlatformUsersTimeline';
+import { getBtcPricePath } from './getBtcPricePath';
+import { getCpiPath } from './getCpiPath';
+import { getFxPath } from './getFxPath';
+import { withCohortStartMonth } from './withCohortStartMonth';
 
 export interface BuildCohortSimulationSetProps {
   platformUsersData: PlatformUsersData;
@@ -24,19 +28,29 @@ export function buildCohortSimulationSet(
     years: userTreasuryGrowthInput.marketData.numberOfYears,
   });
 
+  // jedna ścieżka ceny, inflacji i kursu dla wszystkich kohort (liczone raz, o ile nie podane)
+  const cohortInput: UserTreasuryGrowthInput = {
+    ...userTreasuryGrowthInput,
+    btcPricePath:
+      userTreasuryGrowthInput.btcPricePath ??
+      getBtcPricePath(userTreasuryGrowthInput.marketData),
+    cpiPath:
+      userTreasuryGrowthInput.cpiPath ??
+      getCpiPath(userTreasuryGrowthInput.marketData),
+    fxPath:
+      userTreasuryGrowthInput.fxPath ??
+      getFxPath(userTreasuryGrowthInput.marketData),
+    // polecony dołączający w danym miesiącu jest ten sam dla każdej kohorty
+    referralSimulations: new Map(),
+  };
+
   // user 0
-  const fullSimulationUser = simulateUserTreasuryGrowth(
-    userTreasuryGrowthInput
-  );
+  const fullSimulationUser = simulateUserTreasuryGrowth(cohortInput);
 
   const rows = marketUsersTimeline.map(({ month, newUsers }) => {
-    const userMarketData = simulateUserTreasuryGrowth({
-      ...userTreasuryGrowthInput,
-      userData: {
-        ...userTreasuryGrowthInput.userData,
-        startMonth: month,
-      },
-    });
+    const userMarketData = simulateUserTreasuryGrowth(
+      withCohortStartMonth(cohortInput, month)
+    );
 
     return {
       startMonth: month, // <─ NEW FIELD ───────────────────────────┐
@@ -27,6 +27,7 @@ export function buildPlatformMonthlySnapshots(
   for (let month = 0; month < totalMonths; month++) {
     let feeYieldBtc = 0;
     let feeExchangeBtc = 0;
+    let referralPayoutBtc = 0;
     let totalUsers = 0;
     let totalUsersBtcOnPlatform = 0;
 
@@ -38,6 +39,8 @@ export function buildPlatformMonthlySnapshots(
           cohort.numberOfUsers * (snap.platformFeeFromYieldInBtc || 0);
         feeExchangeBtc +=
           cohort.numberOfUsers * (snap.platformExchangeFeeInBtc || 0);
+        referralPayoutBtc +=
+          cohort.numberOfUsers * (snap.referralRewardInBtc || 0);
         totalUsers += cohort.numberOfUsers;
         totalUsersBtcOnPlatform +=
           cohort.numberOfUsers * (snap.userAccumulatedBtcHolding || 0);
@@ -48,12 +51,16 @@ export function buildPlatformMonthlySnapshots(
       totalPlatformArray[0].userSimulationSnapshot[month]
         .currentBtcPriceInEuro || 0;
 
+    // nagrody za polecenia pomniejszają przychód platformy
+    const btcFeeTotal = feeYieldBtc + feeExchangeBtc - referralPayoutBtc;
+
     out[month] = {
       month,
       btcPriceInEuro,
       btcFeeFromYield: feeYieldBtc,
       btcFeeFromExchange: feeExchangeBtc,
-      btcFeeTotal: feeYieldBtc + feeExchangeBtc,
+      btcReferralPayout: referralPayoutBtc,
+      btcFeeTotal,
       totalUsers,
       totalUsersBtcOnPlatform,
     };
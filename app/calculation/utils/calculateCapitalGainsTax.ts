@@ -0,0 +1,358 @@
+import { calculateUserWithdrawal } from './calculateUserWithdrawal';
+
+export enum LotMethod {
+  Fifo = 'fifo', // najpierw najstarsze loty
+  Lifo = 'lifo', // najpierw najnowsze loty
+  AverageCost = 'averageCost', // koszt = średnia cena całego salda (daty lotów FIFO)
+}
+
+export enum TaxJurisdictionType {
+  Poland = 'PL',
+  Germany = 'DE',
+}
+
+// Zasady opodatkowania kraju. Nowe kraje rejestruje się przez
+// registerTaxJurisdiction – silnik korzysta tylko z tych pól.
+export interface TaxJurisdiction {
+  type: string; // klucz w TaxData.jurisdiction
+  name: string;
+  capitalGainsTaxRate: number; // od rocznego zysku ze sprzedaży (po stratach z lat ubiegłych)
+  yieldIncomeTaxRate: number; // yield jako dochód w chwili naliczenia; 0 → koszt 0, podatek przy sprzedaży
+  holdingPeriodExemptionMonths?: number; // zysk z lotu trzymanego co najmniej tyle miesięcy jest zwolniony
+}
+
+const taxJurisdictions = new Map<string, TaxJurisdiction>();
+
+export function registerTaxJurisdiction(jurisdiction: TaxJurisdiction): void {
+  taxJurisdictions.set(jurisdiction.type, jurisdiction);
+}
+
+export function getTaxJurisdiction(type: string): TaxJurisdiction {
+  const jurisdiction = taxJurisdictions.get(type);
+  if (!jurisdiction) {
+    throw new Error(`Unknown tax jurisdiction "${type}"`);
+  }
+  return jurisdiction;
+}
+
+// PIT-38: 19% od dochodu z kryptowalut, nadwyżka kosztów przechodzi na kolejne lata
+registerTaxJurisdiction({
+  type: TaxJurisdictionType.Poland,
+  name: 'Poland',
+  capitalGainsTaxRate: 0.19,
+  yieldIncomeTaxRate: 0.19,
+});
+
+// §23 EStG: sprzedaż po ponad roku zwolniona; krócej i yield – stawka osobista
+// (tu przybliżona, do nadpisania w TaxData)
+registerTaxJurisdiction({
+  type: TaxJurisdictionType.Germany,
+  name: 'Germany',
+  capitalGainsTaxRate: 0.3,
+  yieldIncomeTaxRate: 0.3,
+  holdingPeriodExemptionMonths: 12,
+});
+
+export interface TaxData {
+  jurisdiction: TaxJurisdictionType | string;
+  lotMethod?: LotMethod; // domyślnie FIFO
+  capitalGainsTaxRate?: number; // nadpisuje stawkę kraju (np. osobista stawka w DE)
+  yieldIncomeTaxRate?: number; // nadpisuje stawkę kraju
+  initialCostBasisInEuro?: number; // koszt initialBtcHolding w walucie wpłat; domyślnie wartość rynkowa na starcie
+}
+
+export interface TaxLot {
+  month: number; // miesiąc nabycia
+  btc: number;
+  costBasisInEuro: number; // w walucie wpłat (waluta podatku)
+}
+
+// Stan rozliczeń podatkowych: loty i bieżący rok podatkowy (kwoty w walucie wpłat)
+export interface TaxLedger {
+  lotMethod: LotMethod;
+  capitalGainsTaxRate: number;
+  yieldIncomeTaxRate: number;
+  holdingPeriodExemptionMonths?: number;
+  lots: TaxLot[];
+  yearTaxableGainInEuro: number; // zysk (lub strata) do opodatkowania w bieżącym roku
+  yieldTaxDueInEuro: number; // podatek od yieldu naliczony w bieżącym roku
+  lossCarryForwardInEuro: number; // strata z lat ubiegłych do odliczenia
+}
+
+export function createTaxLedger(taxData: TaxData): TaxLedger {
+  const jurisdiction = getTaxJurisdiction(taxData.jurisdiction);
+  const capitalGainsTaxRate =
+    taxData.capitalGainsTaxRate ?? jurisdiction.capitalGainsTaxRate;
+  const yieldIncomeTaxRate =
+    taxData.yieldIncomeTaxRate ?? jurisdiction.yieldIncomeTaxRate;
+  if (!(capitalGainsTaxRate >= 0 && capitalGainsTaxRate < 1)) {
+    throw new Error(
+      `capitalGainsTaxRate must be in [0, 1) (got ${capitalGainsTaxRate})`
+    );
+  }
+  if (!(yieldIncomeTaxRate >= 0 && yieldIncomeTaxRate < 1)) {
+    throw new Error(
+      `yieldIncomeTaxRate must be in [0, 1) (got ${yieldIncomeTaxRate})`
+    );
+  }
+  return {
+    lotMethod: taxData.lotMethod ?? LotMethod.Fifo,
+    capitalGainsTaxRate,
+    yieldIncomeTaxRate,
+    holdingPeriodExemptionMonths: jurisdiction.holdingPeriodExemptionMonths,
+    lots: [],
+    yearTaxableGainInEuro: 0,
+    yieldTaxDueInEuro: 0,
+    lossCarryForwardInEuro: 0,
+  };
+}
+
+export function addTaxLot(ledger: TaxLedger, lot: TaxLot): void {
+  if (lot.btc > 0) ledger.lots.push(lot);
+}
+
+// yield: nowy lot; przy opodatkowaniu jako dochód kosztem jest wartość rynkowa
+export function addYieldTaxLot(
+  ledger: TaxLedger,
+  month: number,
+  btc: number,
+  valueInEuro: number
+): number {
+  const yieldIncomeTaxInEuro = valueInEuro * ledger.yieldIncomeTaxRate;
+  ledger.yieldTaxDueInEuro += yieldIncomeTaxInEuro;
+  addTaxLot(ledger, {
+    month,
+    btc,
+    costBasisInEuro: ledger.yieldIncomeTaxRate > 0 ? valueInEuro : 0,
+  });
+  return yieldIncomeTaxInEuro;
+}
+
+// Zużywa `btc` z lotów wg metody i zwraca zużyte części (koszt proporcjonalny)
+function takeTaxLots(ledger: TaxLedger, btc: number): TaxLot[] {
+  const { lots, lotMethod } = ledger;
+  const averageCost =
+    lotMethod === LotMethod.AverageCost ? getAverageCost(lots) : 0;
+  const taken: TaxLot[] = [];
+  let remaining = btc;
+  while (remaining > 1e-12 && lots.length > 0) {
+    const index = lotMethod === LotMethod.Lifo ? lots.length - 1 : 0;
+    const lot = lots[index];
+    const btcTaken = Math.min(lot.btc, remaining);
+    const lotCost = (lot.costBasisInEuro * btcTaken) / lot.btc;
+    taken.push({
+      month: lot.month,
+      btc: btcTaken,
+      costBasisInEuro:
+        lotMethod === LotMethod.AverageCost ? averageCost * btcTaken : lotCost,
+    });
+    lot.btc -= btcTaken;
+    lot.costBasisInEuro -= lotCost;
+    if (lot.btc <= 1e-12) lots.splice(index, 1);
+    remaining -= btcTaken;
+  }
+
+  // średni koszt: pozostałe loty przejmują resztę kosztu po równo na BTC
+  if (lotMethod === LotMethod.AverageCost) {
+    lots.forEach(lot => (lot.costBasisInEuro = averageCost * lot.btc));
+  }
+  return taken;
+}
+
+function getAverageCost(lots: TaxLot[]): number {
+  const btc = lots.reduce((sum, lot) => sum + lot.btc, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.costBasisInEuro, 0);
+  return btc > 0 ? cost / btc : 0;
+}
+
+function isExempt(ledger: TaxLedger, lot: TaxLot, month: number): boolean {
+  return (
+    ledger.holdingPeriodExemptionMonths !== undefined &&
+    month - lot.month >= ledger.holdingPeriodExemptionMonths
+  );
+}
+
+// Sprzedaż `btc` za `proceedsInEuro` netto (po opłacie) – zysk trafia do
+// bieżącego roku; zysk i strata lotów zwolnionych (okres posiadania) pomijane.
+export function disposeTaxLots(
+  ledger: TaxLedger,
+  month: number,
+  btc: number,
+  proceedsInEuro: number
+) {
+  let realizedGainInEuro = 0;
+  let taxableGainInEuro = 0;
+  if (btc > 0) {
+    takeTaxLots(ledger, btc).forEach(part => {
+      const gain = (proceedsInEuro * part.btc) / btc - part.costBasisInEuro;
+      realizedGainInEuro += gain;
+      if (!isExempt(ledger, part, month)) taxableGainInEuro += gain;
+    });
+  }
+  ledger.yearTaxableGainInEuro += taxableGainInEuro;
+  return { realizedGainInEuro, taxableGainInEuro };
+}
+
+// Utrata `btc` bez przychodu (default kontrahenta, kara za wyjście z lock-upu):
+// loty znikają razem z kosztem, bez straty do odliczenia – ani w PL, ani w DE
+// nie jest to domyślnie zbycie.
+export function forfeitTaxLots(ledger: TaxLedger, btc: number): void {
+  if (btc > 0) takeTaxLots(ledger, btc);
+}
+
+// podatek od zysku roku po odliczeniu strat z lat ubiegłych
+function getCapitalGainsTax(ledger: TaxLedger, gainInEuro: number) {
+  return (
+    Math.max(gainInEuro - ledger.lossCarryForwardInEuro, 0) *
+    ledger.capitalGainsTaxRate
+  );
+}
+
+// Koniec roku podatkowego: podatek od zysków i yieldu do zapłaty; strata
+// przechodzi na kolejne lata. Zeruje bieżący rok.
+export function settleTaxYear(ledger: TaxLedger): number {
+  const taxDueInEuro =
+    getCapitalGainsTax(ledger, ledger.yearTaxableGainInEuro) +
+    ledger.yieldTaxDueInEuro;
+  ledger.lossCarryForwardInEuro = Math.max(
+    ledger.lossCarryForwardInEuro - ledger.yearTaxableGainInEuro,
+    0
+  );
+  ledger.yearTaxableGainInEuro = 0;
+  ledger.yieldTaxDueInEuro = 0;
+  return taxDueInEuro;
+}
+
+export function getCostBasis(ledger: TaxLedger): number {
+  return ledger.lots.reduce((sum, lot) => sum + lot.costBasisInEuro, 0);
+}
+
+// Podatek do zapłaty, gdyby sprzedać całe saldo teraz (za `valueInEuro` netto)
+// i rozliczyć bieżący rok – do wartości po podatku.
+export function getOutstandingTax(
+  ledger: TaxLedger,
+  month: number,
+  valueInEuro: number
+): number {
+  const btc = ledger.lots.reduce((sum, lot) => sum + lot.btc, 0);
+  // liczony raz – wołany co miesiąc, więc musi być liniowy względem lotów
+  const averageCost =
+    ledger.lotMethod === LotMethod.AverageCost
+      ? getAverageCost(ledger.lots)
+      : 0;
+  const unrealizedTaxableGain =
+    btc > 0
+      ? ledger.lots
+          .filter(lot => !isExempt(ledger, lot, month))
+          .reduce(
+            (sum, lot) =>
+              sum +
+              (valueInEuro * lot.btc) / btc -
+              (ledger.lotMethod === LotMethod.AverageCost
+                ? averageCost * lot.btc
+                : lot.costBasisInEuro),
+            0
+          )
+      : 0;
+  return (
+    getCapitalGainsTax(
+      ledger,
+      ledger.yearTaxableGainInEuro + unrealizedTaxableGain
+    ) + ledger.yieldTaxDueInEuro
+  );
+}
+
+export interface BtcSale {
+  btcSold: number; // razem z opłatą za wymianę
+  platformExchangeFeeInBtc: number;
+}
+
+export interface MonthlyTaxCalculation {
+  ledger: TaxLedger;
+  month: number;
+  currentBtcPriceInEuro: number;
+  fxRate: number; // jednostki waluty wpłat (waluty podatku) za 1 jednostkę waluty kwotowania
+  platformExchangeFeePct: number;
+  userAccumulatedBtcHolding: number; // saldo po wszystkich operacjach miesiąca
+  withdrawalSale: BtcSale; // sprzedaż na wypłatę (przed wpłatą)
+  dcaInBtc: number; // BTC z wpłaty po opłacie
+  dcaCostInEuro: number; // wpłata w walucie wpłat (z opłatą – koszt nabycia)
+  yieldInBtc: number; // yield netto
+  forfeitedBtc?: number; // utracone po yieldzie bez przychodu (default, kara za lock-up)
+  laterSales: BtcSale[]; // sprzedaże po wpłacie (pożyczka, zakupy)
+  isTaxYearEnd: boolean;
+}
+
+// Miesiąc podatkowy w kolejności silnika: sprzedaż na wypłatę, lot z wpłaty,
+// lot z yieldu, utracone BTC, pozostałe sprzedaże; na koniec roku podatek płacony sprzedażą
+// BTC (jej zysk trafia już do kolejnego roku). Kwoty zwracane w walucie kwotowania.
+export function calculateMonthlyTax({
+  ledger,
+  month,
+  currentBtcPriceInEuro,
+  fxRate,
+  platformExchangeFeePct,
+  userAccumulatedBtcHolding,
+  withdrawalSale,
+  dcaInBtc,
+  dcaCostInEuro,
+  yieldInBtc,
+  forfeitedBtc = 0,
+  laterSales,
+  isTaxYearEnd,
+}: MonthlyTaxCalculation) {
+  const priceInTaxCurrency = currentBtcPriceInEuro * fxRate;
+  const dispose = (sale: BtcSale) =>
+    disposeTaxLots(
+      ledger,
+      month,
+      sale.btcSold,
+      (sale.btcSold - sale.platformExchangeFeeInBtc) * priceInTaxCurrency
+    ).realizedGainInEuro;
+
+  let realizedGainInEuro = dispose(withdrawalSale);
+  addTaxLot(ledger, { month, btc: dcaInBtc, costBasisInEuro: dcaCostInEuro });
+  const yieldIncomeTaxInEuro = addYieldTaxLot(
+    ledger,
+    month,
+    yieldInBtc,
+    yieldInBtc * priceInTaxCurrency
+  );
+  forfeitTaxLots(ledger, forfeitedBtc);
+  laterSales.forEach(sale => (realizedGainInEuro += dispose(sale)));
+
+  let holding = userAccumulatedBtcHolding;
+  let taxPaidInEuro = 0;
+  let taxBtcSold = 0;
+  let platformExchangeFeeInBtc = 0;
+  if (isTaxYearEnd) {
+    // gdy saldo nie wystarcza, sprzedajemy resztę (niedopłata przepada)
+    const taxSale = calculateUserWithdrawal({
+      monthlyWithdrawalInEuro: settleTaxYear(ledger) / fxRate,
+      currentBtcPriceInEuro,
+      userAccumulatedBtcHolding: holding,
+      platformExchangeFeePct,
+    });
+    realizedGainInEuro += dispose(taxSale);
+    holding = taxSale.userAccumulatedBtcHolding;
+    taxPaidInEuro = taxSale.withdrawalInEuro;
+    taxBtcSold = taxSale.btcSold;
+    platformExchangeFeeInBtc = taxSale.platformExchangeFeeInBtc;
+  }
+
+  return {
+    userAccumulatedBtcHolding: holding,
+    realizedGainInEuro: realizedGainInEuro / fxRate,
+    yieldIncomeTaxInEuro: yieldIncomeTaxInEuro / fxRate,
+    taxPaidInEuro,
+    taxBtcSold,
+    platformExchangeFeeInBtc,
+    costBasisInEuro: getCostBasis(ledger) / fxRate,
+    outstandingTaxInEuro:
+      getOutstandingTax(
+        ledger,
+        month,
+        holding * priceInTaxCurrency * (1 - platformExchangeFeePct)
+      ) / fxRate,
+  };
+}
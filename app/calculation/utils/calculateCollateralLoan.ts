@@ -0,0 +1,160 @@
+import { PlatformData } from '../simulateUserTreasuryGrowth';
+import { calculateUserWithdrawal } from './calculateUserWithdrawal';
+
+export interface CollateralLoanData {
+  startMonth: number; // pierwszy miesiąc pożyczki pod zastaw BTC
+  targetLtv: number; // docelowy LTV = dług / wartość BTC, np. 0.3
+  yearlyInterestRate: number; // oprocentowanie, kapitalizowane miesięcznie, np. 0.08
+  monthlyDrawInEuro?: number; // stała miesięczna kwota w walucie wpłat (do targetLtv); brak → jednorazowo do targetLtv w startMonth
+  enableIndexing?: boolean; // monthlyDrawInEuro rośnie z inflacją (cpiFactor), domyślnie false
+  autoRebalance?: boolean; // co miesiąc dobiera lub spłaca dług do targetLtv, domyślnie false
+  marginCallLtv?: number; // od tego LTV sprzedajemy BTC i spłacamy dług do targetLtv; brak → bez margin calli
+  liquidationLtv?: number; // od tego LTV pożyczkodawca sprzedaje zabezpieczenie i zamyka dług; brak → bez likwidacji
+  liquidationPenaltyPct?: number; // kara od długu przy likwidacji, np. 0.05, domyślnie 0
+}
+
+export interface CollateralLoanCalculation {
+  loanData: CollateralLoanData;
+  month: number;
+  loanBalanceInEuro: number; // dług na koniec poprzedniego miesiąca (waluta kwotowania)
+  currentBtcPriceInEuro: number;
+  userAccumulatedBtcHolding: number; // zabezpieczenie – całe saldo BTC
+  platformExchangeFeePct: PlatformData['platformExchangeFeePct'];
+  cpiFactor: number;
+  fxRate: number; // jednostki waluty wpłat za 1 jednostkę waluty kwotowania
+  loanClosed: boolean; // wcześniejsza likwidacja zakończyła plan pożyczki – bez nowych transz
+}
+
+export function validateCollateralLoanData({
+  targetLtv,
+  marginCallLtv,
+  liquidationLtv,
+  yearlyInterestRate,
+}: CollateralLoanData) {
+  if (!(targetLtv > 0 && targetLtv < 1)) {
+    throw new Error(`targetLtv must be in (0, 1) (got ${targetLtv})`);
+  }
+  if (!(yearlyInterestRate >= 0)) {
+    throw new Error(
+      `yearlyInterestRate must be >= 0 (got ${yearlyInterestRate})`
+    );
+  }
+  if (marginCallLtv !== undefined && !(marginCallLtv > targetLtv)) {
+    throw new Error(
+      `marginCallLtv must be > targetLtv (got ${marginCallLtv} <= ${targetLtv})`
+    );
+  }
+  if (
+    liquidationLtv !== undefined &&
+    !(liquidationLtv > (marginCallLtv ?? targetLtv))
+  ) {
+    throw new Error(
+      `liquidationLtv must be > ${marginCallLtv !== undefined ? 'marginCallLtv' : 'targetLtv'} (got ${liquidationLtv})`
+    );
+  }
+}
+
+// dług bez zabezpieczenia → Infinity (zawsze powyżej progów)
+export function getLtv(loanBalanceInEuro: number, collateralInEuro: number) {
+  if (loanBalanceInEuro <= 0) return 0;
+  return collateralInEuro > 0
+    ? loanBalanceInEuro / collateralInEuro
+    : Number.POSITIVE_INFINITY;
+}
+
+// Jeden miesiąc pożyczki: odsetki, potem likwidacja / margin call / spłata do
+// targetLtv (sprzedaż BTC z opłatą za wymianę) albo pobranie kolejnej transzy.
+// Likwidacja kończy plan: pożyczkodawca zamknął pozycję, więc w kolejnych
+// miesiącach nie ma już transz ani dobierania do targetLtv (loanClosed).
+export function calculateCollateralLoan({
+  loanData,
+  month,
+  loanBalanceInEuro,
+  currentBtcPriceInEuro,
+  userAccumulatedBtcHolding,
+  platformExchangeFeePct,
+  cpiFactor,
+  fxRate,
+  loanClosed,
+}: CollateralLoanCalculation) {
+  const {
+    startMonth,
+    targetLtv,
+    yearlyInterestRate,
+    monthlyDrawInEuro,
+    enableIndexing = false,
+    autoRebalance = false,
+    marginCallLtv,
+    liquidationLtv,
+    liquidationPenaltyPct = 0,
+  } = loanData;
+
+  const loanInterestInEuro = (loanBalanceInEuro * yearlyInterestRate) / 12;
+  let balance = loanBalanceInEuro + loanInterestInEuro;
+  let holding = userAccumulatedBtcHolding;
+  let loanDrawnInEuro = 0;
+  let btcSold = 0;
+  let platformExchangeFeeInBtc = 0;
+  let marginCall = false;
+  let liquidated = false;
+
+  const collateralInEuro = holding * currentBtcPriceInEuro;
+  const ltv = getLtv(balance, collateralInEuro);
+
+  // sprzedaż BTC na spłatę – ta sama mechanika co wypłata (opłata doliczana)
+  const repay = (amountInEuro: number) => {
+    const sale = calculateUserWithdrawal({
+      monthlyWithdrawalInEuro: amountInEuro,
+      currentBtcPriceInEuro,
+      userAccumulatedBtcHolding: holding,
+      platformExchangeFeePct,
+    });
+    holding = sale.userAccumulatedBtcHolding;
+    btcSold += sale.btcSold;
+    platformExchangeFeeInBtc += sale.platformExchangeFeeInBtc;
+    return sale.withdrawalInEuro;
+  };
+
+  if (balance > 0 && liquidationLtv !== undefined && ltv >= liquidationLtv) {
+    // likwidacja: sprzedaż zabezpieczenia na cały dług + karę
+    const penaltyFactor = 1 + liquidationPenaltyPct;
+    const proceeds = repay(balance * penaltyFactor);
+    balance = Math.max(balance - proceeds / penaltyFactor, 0);
+    liquidated = true;
+  } else if (
+    balance > 0 &&
+    ((marginCallLtv !== undefined && ltv >= marginCallLtv) ||
+      (autoRebalance && ltv > targetLtv))
+  ) {
+    // spłata x po sprzedaży x / (1 - fee) BTC:
+    // (D - x) = targetLtv * (V - x / (1 - fee))
+    const repayment =
+      (balance - targetLtv * collateralInEuro) /
+      (1 - targetLtv / (1 - platformExchangeFeePct));
+    balance -= repay(repayment);
+    marginCall = marginCallLtv !== undefined && ltv >= marginCallLtv;
+  } else if (month >= startMonth && !loanClosed) {
+    // nowa transza do targetLtv
+    const headroom = Math.max(targetLtv * collateralInEuro - balance, 0);
+    const requested = monthlyDrawInEuro
+      ? (enableIndexing ? monthlyDrawInEuro * cpiFactor : monthlyDrawInEuro) /
+        fxRate
+      : month === startMonth
+        ? headroom
+        : 0;
+    loanDrawnInEuro = autoRebalance ? headroom : Math.min(requested, headroom);
+    balance += loanDrawnInEuro;
+  }
+
+  return {
+    loanBalanceInEuro: balance,
+    loanDrawnInEuro,
+    loanInterestInEuro,
+    loanLtv: getLtv(balance, holding * currentBtcPriceInEuro),
+    userAccumulatedBtcHolding: holding,
+    btcSold,
+    platformExchangeFeeInBtc,
+    marginCall,
+    liquidated,
+  };
+}
@@ -0,0 +1,192 @@
+import { UserPensionSimulationSnapshot } from '../simulateUserTreasuryGrowth';
+
+export enum ContributionStrategyType {
+  FlatDca = 'flatDca', // wpłata z harmonogramu
+  ValueAveraging = 'valueAveraging', // dopłata do ścieżki docelowej wartości portfela
+  BuyTheDip = 'buyTheDip', // większa wpłata, gdy cena jest X% poniżej średniej lub ATH
+}
+
+export enum DipReference {
+  MovingAverage = 'movingAverage',
+  AllTimeHigh = 'allTimeHigh',
+}
+
+export interface ContributionStrategy {
+  type: ContributionStrategyType;
+  targetYearlyReturnPct?: number; // ValueAveraging: oczekiwany zwrot ścieżki docelowej (rocznie), domyślnie 0
+  dipReference?: DipReference; // BuyTheDip: domyślnie MovingAverage
+  movingAverageMonths?: number; // BuyTheDip: okno średniej, domyślnie 12
+  dipThresholdPct?: number; // BuyTheDip: spadek ceny poniżej odniesienia, od którego kupujemy więcej, np. 0.2
+  dipMultiplier?: number; // BuyTheDip: mnożnik wpłaty przy spadku, np. 2
+  maxMonthlyMultiple?: number; // limit wpłaty = mnożnik × wpłata z harmonogramu; brak → bez limitu
+  totalBudgetInEuro?: number; // limit sumy wpłat w walucie wpłat; brak → bez limitu
+}
+
+// Stan strategii między miesiącami (kwoty w walucie wpłat)
+export interface ContributionStrategyState {
+  targetValueInEuro: number | null; // ścieżka docelowa wartości (value averaging); null przed pierwszą wpłatą
+  totalContributedInEuro: number;
+  allTimeHighInEuro: number; // najwyższa cena dotąd (waluta kwotowania)
+}
+
+export interface ContributionStrategyCalculation {
+  strategy: ContributionStrategy;
+  state: ContributionStrategyState;
+  month: number;
+  btcPriceInEuro: number[]; // ścieżka ceny (do średniej)
+  scheduledDcaInEuro: number; // wpłata z harmonogramu (calculateMonthlyDcaInEuro)
+  portfolioValueInEuro: number; // wartość BTC przed wpłatą, w walucie wpłat
+}
+
+export function validateContributionStrategy({
+  type,
+  movingAverageMonths = 12,
+  dipThresholdPct,
+  dipMultiplier,
+  maxMonthlyMultiple,
+  totalBudgetInEuro,
+}: ContributionStrategy) {
+  if (!Object.values(ContributionStrategyType).includes(type)) {
+    throw new Error(`Unknown contribution strategy "${type}"`);
+  }
+  if (type === ContributionStrategyType.BuyTheDip) {
+    if (!(Number.isInteger(movingAverageMonths) && movingAverageMonths >= 1)) {
+      throw new Error(
+        `movingAverageMonths must be an integer >= 1 (got ${movingAverageMonths})`
+      );
+    }
+    if (
+      dipThresholdPct === undefined ||
+      !(dipThresholdPct > 0 && dipThresholdPct < 1)
+    ) {
+      throw new Error(
+        `dipThresholdPct must be in (0, 1) (got ${dipThresholdPct})`
+      );
+    }
+    if (dipMultiplier === undefined || !(dipMultiplier >= 0)) {
+      throw new Error(`dipMultiplier must be >= 0 (got ${dipMultiplier})`);
+    }
+  }
+  if (maxMonthlyMultiple !== undefined && !(maxMonthlyMultiple >= 0)) {
+    throw new Error(
+      `maxMonthlyMultiple must be >= 0 (got ${maxMonthlyMultiple})`
+    );
+  }
+  if (totalBudgetInEuro !== undefined && !(totalBudgetInEuro >= 0)) {
+    throw new Error(
+      `totalBudgetInEuro must be >= 0 (got ${totalBudgetInEuro})`
+    );
+  }
+}
+
+export function createContributionStrategyState(): ContributionStrategyState {
+  return {
+    targetValueInEuro: null,
+    totalContributedInEuro: 0,
+    allTimeHighInEuro: 0,
+  };
+}
+
+// ATH aktualizujemy co miesiąc od miesiąca 0 – także przed startem wpłat
+export function updateAllTimeHigh(
+  state: ContributionStrategyState,
+  btcPriceInEuro: number
+) {
+  state.allTimeHighInEuro = Math.max(state.allTimeHighInEuro, btcPriceInEuro);
+}
+
+// cena BTC względem odniesienia: 0.3 → 30% poniżej średniej / ATH
+export function getBtcPriceDip(
+  strategy: ContributionStrategy,
+  state: ContributionStrategyState,
+  month: number,
+  btcPriceInEuro: number[]
+): number {
+  const price = btcPriceInEuro[month];
+  let reference = state.allTimeHighInEuro;
+  if (strategy.dipReference !== DipReference.AllTimeHigh) {
+    const window = btcPriceInEuro.slice(
+      Math.max(0, month + 1 - (strategy.movingAverageMonths ?? 12)),
+      month + 1
+    );
+    reference = window.reduce((sum, p) => sum + p, 0) / window.length;
+  }
+  return reference > 0 ? Math.max(1 - price / reference, 0) : 0;
+}
+
+// Wpłata w tym miesiącu (waluta wpłat) wg strategii, po limitach budżetu.
+// Aktualizuje stan (ścieżka docelowa, suma wpłat).
+export function calculateStrategyContribution({
+  strategy,
+  state,
+  month,
+  btcPriceInEuro,
+  scheduledDcaInEuro,
+  portfolioValueInEuro,
+}: ContributionStrategyCalculation): number {
+  let contributionInEuro = scheduledDcaInEuro;
+
+  if (strategy.type === ContributionStrategyType.ValueAveraging) {
+    // ścieżka startuje od wartości portfela (saldo początkowe), rośnie o zwrot
+    // i o wpłatę z harmonogramu; dopłacamy brakującą część (nadwyżki nie sprzedajemy)
+    state.targetValueInEuro =
+      (state.targetValueInEuro === null
+        ? portfolioValueInEuro
+        : state.targetValueInEuro *
+          Math.pow(1 + (strategy.targetYearlyReturnPct ?? 0), 1 / 12)) +
+      scheduledDcaInEuro;
+    contributionInEuro = Math.max(
+      state.targetValueInEuro - portfolioValueInEuro,
+      0
+    );
+  } else if (
+    strategy.type === ContributionStrategyType.BuyTheDip &&
+    getBtcPriceDip(strategy, state, month, btcPriceInEuro) >=
+      strategy.dipThresholdPct!
+  ) {
+    contributionInEuro = scheduledDcaInEuro * strategy.dipMultiplier!;
+  }
+
+  if (strategy.maxMonthlyMultiple !== undefined) {
+    contributionInEuro = Math.min(
+      contributionInEuro,
+      scheduledDcaInEuro * strategy.maxMonthlyMultiple
+    );
+  }
+  if (strategy.totalBudgetInEuro !== undefined) {
+    contributionInEuro = Math.min(
+      contributionInEuro,
+      Math.max(strategy.totalBudgetInEuro - state.totalContributedInEuro, 0)
+    );
+  }
+  state.totalContributedInEuro += contributionInEuro;
+  return contributionInEuro;
+}
+
+export interface ContributionSummary {
+  totalContributedInEuro: number; // suma wpłat (waluta kwotowania)
+  finalBtcHolding: number;
+  finalValueInEuro: number; // wartość BTC na koniec
+  valuePerContributedEuro: number; // wartość końcowa / suma wpłat
+}
+
+// Podsumowanie wpłat i wyniku – do porównania strategii z płaskim DCA na tej
+// samej ścieżce ceny (waluta kwotowania)
+export function getContributionSummary(
+  snapshots: UserPensionSimulationSnapshot[]
+): ContributionSummary {
+  const last = snapshots[snapshots.length - 1];
+  const totalContributedInEuro = last?.cumulativeContributionInEuro ?? 0;
+  const finalValueInEuro = last
+    ? last.userAccumulatedBtcHolding * last.currentBtcPriceInEuro
+    : 0;
+  return {
+    totalContributedInEuro,
+    finalBtcHolding: last?.userAccumulatedBtcHolding ?? 0,
+    finalValueInEuro,
+    valuePerContributedEuro:
+      totalContributedInEuro > 0
+        ? finalValueInEuro / totalContributedInEuro
+        : 0,
+  };
+}
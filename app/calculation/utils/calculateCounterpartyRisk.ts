@@ -0,0 +1,103 @@
+import { UserTreasuryGrowthInput } from '../simulateUserTreasuryGrowth';
+import { SeededRandom, createSeededRandom } from './createSeededRandom';
+
+export enum CounterpartyRiskMode {
+  Expected = 'expected', // deterministycznie: co miesiąc oczekiwana strata (PD · LGD) jako haircut
+  Stochastic = 'stochastic', // losowe defaulty (seed) – default zabiera LGD z narażonego salda
+}
+
+export interface CounterpartyRiskData {
+  yearlyDefaultProbability: number; // PD – szansa defaultu miejsca yieldu w roku, np. 0.02
+  lossGivenDefaultPct: number; // LGD – utracona część narażonego salda przy defaulcie, np. 0.6
+  maxExposurePct?: number; // udział salda narażony na default (reszta np. segregowana), domyślnie 1
+  mode: CounterpartyRiskMode;
+  seed: number; // używany w trybie stochastycznym
+  defaultMonths?: number[]; // gotowe miesiące defaultu (np. z Monte Carlo) – zastępują losowanie
+}
+
+export function validateCounterpartyRiskData({
+  yearlyDefaultProbability,
+  lossGivenDefaultPct,
+  maxExposurePct = 1,
+}: CounterpartyRiskData) {
+  if (!(yearlyDefaultProbability >= 0 && yearlyDefaultProbability <= 1)) {
+    throw new Error(
+      `yearlyDefaultProbability must be in [0, 1] (got ${yearlyDefaultProbability})`
+    );
+  }
+  if (!(lossGivenDefaultPct >= 0 && lossGivenDefaultPct <= 1)) {
+    throw new Error(
+      `lossGivenDefaultPct must be in [0, 1] (got ${lossGivenDefaultPct})`
+    );
+  }
+  if (!(maxExposurePct >= 0 && maxExposurePct <= 1)) {
+    throw new Error(`maxExposurePct must be in [0, 1] (got ${maxExposurePct})`);
+  }
+}
+
+// roczne PD → miesięczne, tak by 12 miesięcy dawało yearlyDefaultProbability
+export function getMonthlyDefaultProbability(yearlyDefaultProbability: number) {
+  return 1 - Math.pow(1 - yearlyDefaultProbability, 1 / 12);
+}
+
+// Losuje miesiące defaultu (niezależnie w każdym miesiącu)
+export function getCounterpartyDefaultMonths(
+  { yearlyDefaultProbability }: CounterpartyRiskData,
+  numberOfMonths: number,
+  random: SeededRandom
+): number[] {
+  const monthlyProbability = getMonthlyDefaultProbability(
+    yearlyDefaultProbability
+  );
+  const defaultMonths: number[] = [];
+  for (let month = 0; month < numberOfMonths; month++) {
+    if (random.next() < monthlyProbability) defaultMonths.push(month);
+  }
+  return defaultMonths;
+}
+
+// Udział salda traconego w każdym miesiącu: w trybie oczekiwanym
+// exposure · PD_m · LGD co miesiąc, w stochastycznym exposure · LGD w
+// miesiącach defaultu.
+export function getCounterpartyLossRates(
+  counterpartyRiskData: CounterpartyRiskData,
+  numberOfMonths: number
+): number[] {
+  const {
+    yearlyDefaultProbability,
+    lossGivenDefaultPct,
+    maxExposurePct = 1,
+    mode,
+    seed,
+  } = counterpartyRiskData;
+  if (mode === CounterpartyRiskMode.Expected) {
+    return new Array(numberOfMonths).fill(
+      maxExposurePct *
+        getMonthlyDefaultProbability(yearlyDefaultProbability) *
+        lossGivenDefaultPct
+    );
+  }
+  const defaultMonths = new Set(
+    counterpartyRiskData.defaultMonths ??
+      getCounterpartyDefaultMonths(
+        counterpartyRiskData,
+        numberOfMonths,
+        createSeededRandom(seed)
+      )
+  );
+  return Array.from({ length: numberOfMonths }, (_, month) =>
+    defaultMonths.has(month) ? maxExposurePct * lossGivenDefaultPct : 0
+  );
+}
+
+// Ten sam plan w samodzielnym przechowywaniu: 0% yieldu, bez tierów i bez
+// ryzyka kontrahenta – punkt odniesienia dla salda skorygowanego o ryzyko.
+export function withSelfCustody(
+  inputData: UserTreasuryGrowthInput
+): UserTreasuryGrowthInput {
+  return {
+    ...inputData,
+    earnData: { yearlyYieldPct: 0 },
+    counterpartyRiskData: undefined,
+  };
+}
@@ -1,8 +1,109 @@
+import { getMonthDate } from './getMonthDate';
+
+export interface ContributionPause {
+  startMonth: number; // pierwszy miesiąc przerwy
+  endMonth: number; // pierwszy miesiąc po przerwie (wpłaty wracają)
+}
+
+export interface ContributionLumpSum {
+  month: number; // miesiąc symulacji
+  amountInEuro: number; // w walucie wpłat, bez indeksacji
+}
+
+// Harmonogram wpłat ponad stałe DCA: podwyżki, przerwy, koniec wpłat,
+// jednorazowe wpłaty i roczna premia. Miesiące liczone od miesiąca 0 symulacji,
+// tylko miesiąc premii jest kalendarzowy.
+export interface ContributionSchedule {
+  yearlyStepUpPct?: number; // podwyżka wpłaty co 12 miesięcy od startMonth (wzrost pensji), np. 0.03; na indeksację CPI
+  pauses?: ContributionPause[]; // okna bez wpłat regularnych i premii
+  stopMonth?: number; // od tego miesiąca brak wpłat regularnych i premii
+  lumpSums?: ContributionLumpSum[]; // jednorazowe wpłaty – także w przerwach i po stopMonth
+  yearlyBonusMonth?: number; // miesiąc kalendarzowy (0 = styczeń … 11 = grudzień), w którym wpłacana jest premia
+  yearlyBonusMultiplier?: number; // premia = mnożnik × bieżąca wpłata miesięczna (13. pensja = 1)
+}
+
+export function validateContributionSchedule({
+  yearlyStepUpPct = 0,
+  pauses = [],
+  lumpSums = [],
+  yearlyBonusMonth,
+  yearlyBonusMultiplier = 0,
+}: ContributionSchedule) {
+  if (!(yearlyStepUpPct > -1)) {
+    throw new Error(`yearlyStepUpPct must be > -1 (got ${yearlyStepUpPct})`);
+  }
+  pauses.forEach((pause, i) => {
+    if (!(pause.startMonth >= 0 && pause.endMonth > pause.startMonth)) {
+      throw new Error(
+        `pauses[${i}] must satisfy 0 <= startMonth < endMonth (got ${pause.startMonth}–${pause.endMonth})`
+      );
+    }
+  });
+  lumpSums.forEach((lumpSum, i) => {
+    if (!(lumpSum.amountInEuro >= 0)) {
+      throw new Error(
+        `lumpSums[${i}].amountInEuro must be >= 0 (got ${lumpSum.amountInEuro})`
+      );
+    }
+  });
+  if (
+    yearlyBonusMonth !== undefined &&
+    !(
+      Number.isInteger(yearlyBonusMonth) &&
+      yearlyBonusMonth >= 0 &&
+      yearlyBonusMonth <= 11
+    )
+  ) {
+    throw new Error(
+      `yearlyBonusMonth must be an integer in [0, 11] (got ${yearlyBonusMonth})`
+    );
+  }
+  if (!(yearlyBonusMultiplier >= 0)) {
+    throw new Error(
+      `yearlyBonusMultiplier must be >= 0 (got ${yearlyBonusMultiplier})`
+    );
+  }
+}
+
+// Wpłata w miesiącu `month` w walucie wpłat. Bez harmonogramu – stałe DCA
+// (opcjonalnie indeksowane CPI), jak dotąd. `startDate` – data miesiąca 0
+// (miesiąc kalendarzowy premii).
 export function calculateMonthlyDcaInEuro(
   dcaBaseEuro: number,
   cpiFactor: number,
-  enableIndexing: boolean
+  enableIndexing: boolean,
+  schedule?: ContributionSchedule,
+  month = 0,
+  startMonth = 0,
+  startDate?: string
 ) {
   const dcaIndexed = enableIndexing ? dcaBaseEuro * cpiFactor : dcaBaseEuro;
-  return dcaIndexed;
+  if (!schedule) return dcaIndexed;
+
+  const {
+    yearlyStepUpPct = 0,
+    pauses = [],
+    stopMonth,
+    lumpSums = [],
+    yearlyBonusMonth,
+    yearlyBonusMultiplier = 0,
+  } = schedule;
+
+  const lumpSumInEuro = lumpSums
+    .filter(lumpSum => lumpSum.month === month)
+    .reduce((sum, lumpSum) => sum + lumpSum.amountInEuro, 0);
+  const isPaused =
+    (stopMonth !== undefined && month >= stopMonth) ||
+    pauses.some(pause => month >= pause.startMonth && month < pause.endMonth);
+  if (isPaused) return lumpSumInEuro;
+
+  const yearsSinceStart = Math.floor(Math.max(month - startMonth, 0) / 12);
+  const dcaSteppedUp =
+    dcaIndexed * Math.pow(1 + yearlyStepUpPct, yearsSinceStart);
+  const bonusInEuro =
+    yearlyBonusMonth !== undefined &&
+    getMonthDate(startDate, month).getUTCMonth() === yearlyBonusMonth
+      ? dcaSteppedUp * yearlyBonusMultiplier
+      : 0;
+  return dcaSteppedUp + bonusInEuro + lumpSumInEuro;
 }
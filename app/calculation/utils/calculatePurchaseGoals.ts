@@ -0,0 +1,166 @@
+import {
+  PlatformData,
+  UserPensionSimulationSnapshot,
+} from '../simulateUserTreasuryGrowth';
+import { CollateralLoanData } from './calculateCollateralLoan';
+import { calculateUserWithdrawal } from './calculateUserWithdrawal';
+
+export enum PurchaseFundingType {
+  Sell = 'sell', // sprzedaż BTC (z opłatą za wymianę)
+  Borrow = 'borrow', // pożyczka pod zastaw BTC do podanego LTV
+}
+
+export interface PurchaseGoal {
+  name: string; // np. 'Car', 'House', 'Tuition'
+  priceInEuro: number; // w walucie wpłat; przy indeksacji w pieniądzu z miesiąca 0
+  enableIndexing?: boolean; // cena rośnie z inflacją (cpiFactor), domyślnie false
+  funding?: PurchaseFundingType; // domyślnie Sell
+  ltv?: number; // dla Borrow: maks. LTV po zakupie; domyślnie loanData.targetLtv
+  execute?: boolean; // zakup jest realizowany (mniej BTC albo większy dług), domyślnie tylko raport
+}
+
+export enum PurchaseGoalPreset {
+  Car = 'car',
+  House = 'house',
+  Tuition = 'tuition',
+}
+
+// typowe cele w dzisiejszych cenach (EUR), indeksowane inflacją
+export const PURCHASE_GOAL_PRESETS: Record<PurchaseGoalPreset, PurchaseGoal> = {
+  [PurchaseGoalPreset.Car]: {
+    name: 'Car',
+    priceInEuro: 30000,
+    enableIndexing: true,
+  },
+  [PurchaseGoalPreset.House]: {
+    name: 'House',
+    priceInEuro: 400000,
+    enableIndexing: true,
+    funding: PurchaseFundingType.Borrow,
+    ltv: 0.5,
+  },
+  [PurchaseGoalPreset.Tuition]: {
+    name: 'Tuition',
+    priceInEuro: 60000,
+    enableIndexing: true,
+  },
+};
+
+export interface PurchaseGoalsCalculation {
+  purchaseGoals: PurchaseGoal[];
+  reachedGoals: boolean[]; // cele osiągnięte we wcześniejszych miesiącach
+  currentBtcPriceInEuro: number;
+  userAccumulatedBtcHolding: number;
+  loanBalanceInEuro: number; // waluta kwotowania
+  loanData?: CollateralLoanData;
+  platformExchangeFeePct: PlatformData['platformExchangeFeePct'];
+  cpiFactor: number;
+  fxRate: number; // jednostki waluty wpłat za 1 jednostkę waluty kwotowania
+}
+
+export function validatePurchaseGoals(
+  purchaseGoals: PurchaseGoal[],
+  loanData?: CollateralLoanData
+) {
+  purchaseGoals.forEach((goal, i) => {
+    if (!(goal.priceInEuro > 0)) {
+      throw new Error(
+        `purchaseGoals[${i}].priceInEuro must be > 0 (got ${goal.priceInEuro})`
+      );
+    }
+    if (goal.funding !== PurchaseFundingType.Borrow) return;
+    const ltv = goal.ltv ?? loanData?.targetLtv;
+    if (!(ltv !== undefined && ltv > 0 && ltv < 1)) {
+      throw new Error(
+        `purchaseGoals[${i}].ltv must be in (0, 1) for a loan-funded purchase (got ${ltv})`
+      );
+    }
+    if (goal.execute && !loanData) {
+      throw new Error(
+        `loanData is required to execute the loan-funded purchase "${goal.name}"`
+      );
+    }
+  });
+}
+
+// Cele, które stają się osiągalne w tym miesiącu (w kolejności z listy). Zakup
+// realizowany od razu zmniejsza saldo BTC albo zwiększa dług, więc kolejne cele
+// sprawdzamy już po nim.
+export function calculatePurchaseGoals({
+  purchaseGoals,
+  reachedGoals,
+  currentBtcPriceInEuro,
+  userAccumulatedBtcHolding,
+  loanBalanceInEuro,
+  loanData,
+  platformExchangeFeePct,
+  cpiFactor,
+  fxRate,
+}: PurchaseGoalsCalculation) {
+  let holding = userAccumulatedBtcHolding;
+  let balance = loanBalanceInEuro;
+  let purchaseSpentInEuro = 0;
+  let btcSold = 0;
+  let platformExchangeFeeInBtc = 0;
+  const goalsReached: number[] = [];
+
+  purchaseGoals.forEach((goal, i) => {
+    if (reachedGoals[i]) return;
+    const costInEuro =
+      (goal.enableIndexing ? goal.priceInEuro * cpiFactor : goal.priceInEuro) /
+      fxRate;
+    const btcValueInEuro = holding * currentBtcPriceInEuro;
+
+    if (goal.funding === PurchaseFundingType.Borrow) {
+      const ltv = goal.ltv ?? loanData!.targetLtv;
+      if (ltv * btcValueInEuro - balance < costInEuro) return;
+      if (goal.execute) {
+        balance += costInEuro;
+        purchaseSpentInEuro += costInEuro;
+      }
+    } else {
+      // wartość netto po opłacie za wymianę i spłacie długu musi pokryć cenę
+      if (
+        btcValueInEuro * (1 - platformExchangeFeePct) - balance <
+        costInEuro
+      ) {
+        return;
+      }
+      if (goal.execute) {
+        const sale = calculateUserWithdrawal({
+          monthlyWithdrawalInEuro: costInEuro,
+          currentBtcPriceInEuro,
+          userAccumulatedBtcHolding: holding,
+          platformExchangeFeePct,
+        });
+        holding = sale.userAccumulatedBtcHolding;
+        btcSold += sale.btcSold;
+        platformExchangeFeeInBtc += sale.platformExchangeFeeInBtc;
+        purchaseSpentInEuro += sale.withdrawalInEuro;
+      }
+    }
+    goalsReached.push(i);
+  });
+
+  return {
+    userAccumulatedBtcHolding: holding,
+    loanBalanceInEuro: balance,
+    goalsReached,
+    purchaseSpentInEuro,
+    btcSold,
+    platformExchangeFeeInBtc,
+  };
+}
+
+// pierwszy miesiąc, w którym każdy cel był osiągalny (null – nie w tym horyzoncie)
+export function getPurchaseGoalMonths(
+  purchaseGoals: PurchaseGoal[],
+  snapshots: UserPensionSimulationSnapshot[]
+): (number | null)[] {
+  return purchaseGoals.map((_, i) => {
+    const month = snapshots.findIndex(snapshot =>
+      snapshot.purchaseGoalsReached.includes(i)
+    );
+    return month >= 0 ? month : null;
+  });
+}
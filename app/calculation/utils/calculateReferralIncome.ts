@@ -0,0 +1,101 @@
+import { UserPensionSimulationSnapshot } from '../simulateUserTreasuryGrowth';
+
+export enum ReferralRewardBasis {
+  Yield = 'yield', // udział w yieldzie brutto poleconych
+  ExchangeFee = 'exchangeFee', // udział w opłatach za wymianę płaconych przez poleconych
+}
+
+export interface ReferralArrival {
+  monthsAfterStart: number; // miesiąc pozyskania, licząc od startMonth użytkownika
+  count: number;
+}
+
+export interface ReferralData {
+  referralCount?: number; // poleceni pozyskani w miesiącu startu
+  referralSchedule?: ReferralArrival[]; // kolejni poleceni w późniejszych miesiącach
+  rewardBasis: ReferralRewardBasis;
+  rewardSharePct: number; // np. 0.1 = 10% yieldu brutto (lub opłat) poleconych; płaci platforma
+  joinDelayMonths?: number; // polecony zaczyna ten sam plan po tylu miesiącach od pozyskania, domyślnie 0
+}
+
+export function validateReferralData({
+  referralCount = 0,
+  referralSchedule = [],
+  rewardSharePct,
+  joinDelayMonths = 0,
+}: ReferralData) {
+  if (!(referralCount >= 0)) {
+    throw new Error(`referralCount must be >= 0 (got ${referralCount})`);
+  }
+  referralSchedule.forEach(({ monthsAfterStart, count }, i) => {
+    if (!(Number.isInteger(monthsAfterStart) && monthsAfterStart >= 0)) {
+      throw new Error(
+        `referralSchedule[${i}].monthsAfterStart must be an integer >= 0 (got ${monthsAfterStart})`
+      );
+    }
+    if (!(count >= 0)) {
+      throw new Error(
+        `referralSchedule[${i}].count must be >= 0 (got ${count})`
+      );
+    }
+  });
+  if (!(rewardSharePct >= 0 && rewardSharePct <= 1)) {
+    throw new Error(`rewardSharePct must be in [0, 1] (got ${rewardSharePct})`);
+  }
+  if (!(Number.isInteger(joinDelayMonths) && joinDelayMonths >= 0)) {
+    throw new Error(
+      `joinDelayMonths must be an integer >= 0 (got ${joinDelayMonths})`
+    );
+  }
+}
+
+// Liczba poleconych wg miesiąca rozpoczęcia ich planu (po joinDelayMonths)
+export function getReferralJoinMonths(
+  {
+    referralCount = 0,
+    referralSchedule = [],
+    joinDelayMonths = 0,
+  }: ReferralData,
+  startMonth: number
+): Map<number, number> {
+  const joinMonths = new Map<number, number>();
+  [{ monthsAfterStart: 0, count: referralCount }, ...referralSchedule].forEach(
+    ({ monthsAfterStart, count }) => {
+      if (count <= 0) return;
+      const joinMonth = startMonth + monthsAfterStart + joinDelayMonths;
+      joinMonths.set(joinMonth, (joinMonths.get(joinMonth) ?? 0) + count);
+    }
+  );
+  return joinMonths;
+}
+
+// Nagroda za polecenia w każdym miesiącu. Każdy polecony realizuje ten sam plan
+// co użytkownik od swojego miesiąca dołączenia (`simulateReferral`); nagroda to
+// udział w jego yieldzie brutto albo w opłatach za wymianę.
+export function getReferralRewards(
+  referralData: ReferralData,
+  startMonth: number,
+  numberOfMonths: number,
+  simulateReferral: (joinMonth: number) => UserPensionSimulationSnapshot[]
+) {
+  const referralRewardInBtc = new Array<number>(numberOfMonths).fill(0);
+  const activeReferrals = new Array<number>(numberOfMonths).fill(0);
+
+  getReferralJoinMonths(referralData, startMonth).forEach(
+    (count, joinMonth) => {
+      if (joinMonth >= numberOfMonths) return;
+      simulateReferral(joinMonth).forEach((snapshot, month) => {
+        if (month < joinMonth) return;
+        const basisInBtc =
+          referralData.rewardBasis === ReferralRewardBasis.Yield
+            ? snapshot.yieldInBtc + snapshot.platformFeeFromYieldInBtc
+            : snapshot.platformExchangeFeeInBtc;
+        referralRewardInBtc[month] +=
+          count * basisInBtc * referralData.rewardSharePct;
+        activeReferrals[month] += count;
+      });
+    }
+  );
+
+  return { referralRewardInBtc, activeReferrals };
+}
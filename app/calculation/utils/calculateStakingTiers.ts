@@ -0,0 +1,204 @@
+import { PlatformData } from '../simulateUserTreasuryGrowth';
+
+export interface StakingTier {
+  name: string;
+  allocationPct: number; // udział salda i nowych BTC w tierze, np. 0.3; suma ≤ 1, reszta pasywna (yield z EarnData)
+  apy: number; // roczna stopa tieru, np. 0.05
+  lockUpMonths?: number; // BTC trafiające do tieru są zablokowane tyle miesięcy, domyślnie 0
+  earlyExitPenaltyPct?: number; // kara od zablokowanych BTC wyjętych przed końcem lock-upu, domyślnie 0
+  platformFeeFromYieldPct?: number; // prowizja od yieldu tieru; domyślnie platformData.platformFeeFromYieldPct
+}
+
+interface StakingLot {
+  month: number; // miesiąc wejścia do tieru (początek lock-upu)
+  btc: number;
+}
+
+// Saldo rozbite na część pasywną i loty w tierach
+export interface StakingState {
+  passiveBtc: number;
+  tierLots: StakingLot[][];
+}
+
+export interface StakingTiersCalculation {
+  stakingTiers: StakingTier[];
+  state: StakingState;
+  month: number;
+  userAccumulatedBtcHolding: number; // saldo po wypłacie i wpłacie, przed yieldem
+  passiveMonthlyYieldRate: number; // stopa części pasywnej (EarnData)
+  platformFeeFromYieldPct: PlatformData['platformFeeFromYieldPct'];
+}
+
+export function validateStakingTiers(stakingTiers: StakingTier[]) {
+  stakingTiers.forEach((tier, i) => {
+    if (!(tier.allocationPct >= 0 && tier.allocationPct <= 1)) {
+      throw new Error(
+        `stakingTiers[${i}].allocationPct must be in [0, 1] (got ${tier.allocationPct})`
+      );
+    }
+    if (!(tier.apy > -1)) {
+      throw new Error(`stakingTiers[${i}].apy must be > -1 (got ${tier.apy})`);
+    }
+    const { lockUpMonths = 0, earlyExitPenaltyPct = 0 } = tier;
+    if (!(Number.isInteger(lockUpMonths) && lockUpMonths >= 0)) {
+      throw new Error(
+        `stakingTiers[${i}].lockUpMonths must be an integer >= 0 (got ${lockUpMonths})`
+      );
+    }
+    if (!(earlyExitPenaltyPct >= 0 && earlyExitPenaltyPct < 1)) {
+      throw new Error(
+        `stakingTiers[${i}].earlyExitPenaltyPct must be in [0, 1) (got ${earlyExitPenaltyPct})`
+      );
+    }
+    const { platformFeeFromYieldPct: feePct } = tier;
+    if (feePct !== undefined && !(feePct >= 0 && feePct <= 1)) {
+      throw new Error(
+        `stakingTiers[${i}].platformFeeFromYieldPct must be in [0, 1] (got ${feePct})`
+      );
+    }
+  });
+  const totalAllocationPct = stakingTiers.reduce(
+    (sum, tier) => sum + tier.allocationPct,
+    0
+  );
+  if (totalAllocationPct > 1 + 1e-9) {
+    throw new Error(
+      `stakingTiers allocations must sum to <= 1 (got ${totalAllocationPct})`
+    );
+  }
+}
+
+export function createStakingState(stakingTiers: StakingTier[]): StakingState {
+  return { passiveBtc: 0, tierLots: stakingTiers.map(() => []) };
+}
+
+export function getStakingTierBtc(state: StakingState): number[] {
+  return state.tierLots.map(lots =>
+    lots.reduce((sum, lot) => sum + lot.btc, 0)
+  );
+}
+
+// Strata części salda (np. default kontrahenta) – proporcjonalnie w każdym
+// tierze i części pasywnej, bez kary za wyjście
+export function scaleStakingState(state: StakingState, factor: number) {
+  state.passiveBtc *= factor;
+  state.tierLots.forEach(lots => lots.forEach(lot => (lot.btc *= factor)));
+}
+
+function addToTier(lots: StakingLot[], month: number, btc: number) {
+  const last = lots[lots.length - 1];
+  if (last && last.month === month) last.btc += btc;
+  else if (btc > 0) lots.push({ month, btc });
+}
+
+// Zdejmuje `btc`: najpierw część pasywna, potem odblokowane loty, na końcu
+// zablokowane (najstarsze najpierw) – od nich liczona jest kara.
+function removeFromStaking(
+  stakingTiers: StakingTier[],
+  state: StakingState,
+  month: number,
+  btc: number,
+  chargePenalty = true
+): number {
+  let remaining = btc;
+  const fromPassive = Math.min(state.passiveBtc, remaining);
+  state.passiveBtc -= fromPassive;
+  remaining -= fromPassive;
+
+  let penaltyInBtc = 0;
+  [false, true].forEach(locked => {
+    state.tierLots.forEach((lots, i) => {
+      const { lockUpMonths = 0, earlyExitPenaltyPct = 0 } = stakingTiers[i];
+      lots.forEach(lot => {
+        if (remaining <= 1e-12) return;
+        if (month - lot.month < lockUpMonths !== locked) return;
+        const taken = Math.min(lot.btc, remaining);
+        lot.btc -= taken;
+        remaining -= taken;
+        if (locked && chargePenalty) {
+          penaltyInBtc += taken * earlyExitPenaltyPct;
+        }
+      });
+      state.tierLots[i] = lots.filter(lot => lot.btc > 1e-12);
+    });
+  });
+  return penaltyInBtc;
+}
+
+// Uzgadnia stan z saldem: przyrost trafia do tierów wg alokacji (nowy lock-up),
+// ubytek (sprzedaże) zdejmowany jak wyżej. Kara zmniejsza saldo – zwracamy ją
+// w BTC (już zdjętą ze stanu).
+export function rebalanceStakingTiers(
+  stakingTiers: StakingTier[],
+  state: StakingState,
+  month: number,
+  userAccumulatedBtcHolding: number
+): number {
+  const trackedBtc =
+    state.passiveBtc +
+    getStakingTierBtc(state).reduce((sum, btc) => sum + btc, 0);
+  const deltaBtc = userAccumulatedBtcHolding - trackedBtc;
+
+  if (deltaBtc >= 0) {
+    let allocatedBtc = 0;
+    stakingTiers.forEach((tier, i) => {
+      addToTier(state.tierLots[i], month, deltaBtc * tier.allocationPct);
+      allocatedBtc += deltaBtc * tier.allocationPct;
+    });
+    state.passiveBtc += deltaBtc - allocatedBtc;
+    return 0;
+  }
+
+  const penaltyInBtc = removeFromStaking(stakingTiers, state, month, -deltaBtc);
+  // kara płacona z pozostałego salda – już bez kolejnej kary
+  removeFromStaking(stakingTiers, state, month, penaltyInBtc, false);
+  return penaltyInBtc;
+}
+
+// Miesiąc stakingu: uzgodnienie salda, potem yield każdego tieru (własne APY
+// i prowizja) i części pasywnej; yield zostaje w tym samym tierze.
+export function calculateStakingTiers({
+  stakingTiers,
+  state,
+  month,
+  userAccumulatedBtcHolding,
+  passiveMonthlyYieldRate,
+  platformFeeFromYieldPct,
+}: StakingTiersCalculation) {
+  const stakingPenaltyInBtc = rebalanceStakingTiers(
+    stakingTiers,
+    state,
+    month,
+    userAccumulatedBtcHolding
+  );
+
+  let platformFeeFromYieldInBtc = 0;
+  const tierYieldInBtc = getStakingTierBtc(state).map((btc, i) => {
+    const tier = stakingTiers[i];
+    const grossYieldInBtc = btc * (Math.pow(1 + tier.apy, 1 / 12) - 1);
+    const feeInBtc =
+      grossYieldInBtc *
+      (tier.platformFeeFromYieldPct ?? platformFeeFromYieldPct);
+    platformFeeFromYieldInBtc += feeInBtc;
+    addToTier(state.tierLots[i], month, grossYieldInBtc - feeInBtc);
+    return grossYieldInBtc - feeInBtc;
+  });
+
+  const passiveGrossYieldInBtc = state.passiveBtc * passiveMonthlyYieldRate;
+  const passiveFeeInBtc = passiveGrossYieldInBtc * platformFeeFromYieldPct;
+  platformFeeFromYieldInBtc += passiveFeeInBtc;
+  state.passiveBtc += passiveGrossYieldInBtc - passiveFeeInBtc;
+
+  const userMonthlyYieldInBtc =
+    tierYieldInBtc.reduce((sum, btc) => sum + btc, 0) +
+    passiveGrossYieldInBtc -
+    passiveFeeInBtc;
+  return {
+    userAccumulatedBtcHolding:
+      userAccumulatedBtcHolding - stakingPenaltyInBtc + userMonthlyYieldInBtc,
+    platformFeeFromYieldInBtc,
+    userMonthlyYieldInBtc,
+    tierYieldInBtc,
+    stakingPenaltyInBtc,
+  };
+}
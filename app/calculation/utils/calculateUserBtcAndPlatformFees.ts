@@ -42,5 +42,7 @@ export function calculateUserBtcAndPlatformFees({
     userAccumulatedBtcHolding: updatedUserAccumulatedBtcHolding,
     platformFeeFromYieldInBtc,
     platformExchangeFeeInBtc,
+    userNetDcaInBtc,
+    userMonthlyYieldInBtc,
   };
 }
@@ -0,0 +1,45 @@
+import {
+  PlatformData,
+  UserPensionSimulationSnapshot,
+} from '../simulateUserTreasuryGrowth';
+
+export interface WithdrawalCalculation {
+  monthlyWithdrawalInEuro: number; // kwota do wypłaty netto (po opłacie) w walucie kwotowania
+  currentBtcPriceInEuro: number;
+  userAccumulatedBtcHolding: number;
+  platformExchangeFeePct: PlatformData['platformExchangeFeePct']; // > 0 0.01 // 1%
+}
+
+export function calculateUserWithdrawal({
+  monthlyWithdrawalInEuro,
+  currentBtcPriceInEuro,
+  userAccumulatedBtcHolding,
+  platformExchangeFeePct,
+}: WithdrawalCalculation) {
+  // ile BTC trzeba sprzedać, żeby po opłacie za wymianę wypłacić pełną kwotę
+  const requiredBtc =
+    monthlyWithdrawalInEuro /
+    (currentBtcPriceInEuro * (1 - platformExchangeFeePct));
+
+  // gdy środków nie wystarcza – sprzedajemy resztę i wypłacamy tyle, ile się da
+  const btcSold = Math.min(requiredBtc, Math.max(userAccumulatedBtcHolding, 0));
+  const platformExchangeFeeInBtc = btcSold * platformExchangeFeePct;
+  const withdrawalInEuro =
+    (btcSold - platformExchangeFeeInBtc) * currentBtcPriceInEuro;
+
+  return {
+    userAccumulatedBtcHolding: userAccumulatedBtcHolding - btcSold,
+    btcSold,
+    withdrawalInEuro,
+    platformExchangeFeeInBtc,
+    fundsDepleted: monthlyWithdrawalInEuro > 0 && btcSold < requiredBtc,
+  };
+}
+
+// pierwszy miesiąc, w którym saldo nie pokryło pełnej wypłaty (null – środki wystarczyły)
+export function getFundsDepletedMonth(
+  snapshots: UserPensionSimulationSnapshot[]
+): number | null {
+  const month = snapshots.findIndex(snapshot => snapshot.fundsDepleted);
+  return month >= 0 ? month : null;
+}
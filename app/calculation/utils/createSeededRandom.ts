@@ -0,0 +1,51 @@
+export interface SeededRandom {
+  /** jednostajny rozkład na [0, 1) */
+  next: () => number;
+  /** standardowy rozkład normalny N(0, 1) */
+  nextNormal: () => number;
+  /** rozkład t-Studenta przeskalowany do wariancji 1 (grube ogony) */
+  nextStudentT: (degreesOfFreedom: number) => number;
+}
+
+// mulberry32 – mały, szybki PRNG; ten sam seed → ta sama sekwencja
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = Math.floor(seed) >>> 0;
+  let spareNormal: number | null = null;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller; druga wartość z pary jest zapamiętywana na kolejne wywołanie
+  const nextNormal = () => {
+    if (spareNormal !== null) {
+      const value = spareNormal;
+      spareNormal = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = next();
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+
+  const nextStudentT = (degreesOfFreedom: number) => {
+    const df = Math.max(3, Math.round(degreesOfFreedom));
+    let chiSquared = 0;
+    for (let i = 0; i < df; i++) {
+      const z = nextNormal();
+      chiSquared += z * z;
+    }
+    const t = nextNormal() / Math.sqrt(chiSquared / df);
+    // Var(t_df) = df / (df - 2) → skalujemy do wariancji 1
+    return t * Math.sqrt((df - 2) / df);
+  };
+
+  return { next, nextNormal, nextStudentT };
+}
@@ -0,0 +1,168 @@
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { applyHalvingCycleOverlay } from './applyHalvingCycleOverlay';
+import { applyStressEvents } from './applyStressEvents';
+import { SeededRandom, createSeededRandom } from './createSeededRandom';
+import { getAnnualBtcCagr } from './getAnnualBtcCagr';
+import { getBtcPricePathFromMonthlyRates } from './getBtcPricePathFromMonthlyRates';
+import { getCustomBtcPricePath } from './getCustomBtcPricePath';
+import { getHistoricalBootstrapBtcPricePath } from './getHistoricalBootstrapBtcPricePath';
+import { getMonthlyBtcCagrRate } from './getMonthlyBtcCagrRate';
+import { getPowerLawBtcPricePath } from './getPowerLawBtcPricePath';
+import {
+  MarketRegime,
+  getRegimeSwitchingBtcPricePath,
+} from './getRegimeSwitchingBtcPricePath';
+
+export enum PriceModelType {
+  CagrDecay = 'cagrDecay',
+  HistoricalBootstrap = 'historicalBootstrap',
+  PowerLaw = 'powerLaw',
+  RegimeSwitching = 'regimeSwitching',
+}
+
+export interface BtcPricePath {
+  btcPriceInEuro: number[]; // cena BTC na początek miesiąca m
+  btcMonthlyRate: number[]; // stopa wzrostu ceny w miesiącu m (m → m + 1)
+  marketRegime?: MarketRegime[]; // reżim rynku w miesiącu m (tylko model regime-switching)
+  btcPriceShock?: number[]; // wylosowany szok z(m) ~ (0, 1) ceny w miesiącu m (tylko ścieżki losowe; 0 = brak szoku)
+}
+
+export function getNumberOfMonths(numberOfYears: number): number {
+  return Math.max(0, Math.ceil(numberOfYears * 12));
+}
+
+// Model ceny: generuje ścieżkę (ceny + stopy miesięczne, opcjonalnie reżimy)
+// na cały horyzont z MarketData. Nowe modele rejestruje się przez
+// registerPriceModel – silnik symulacji korzysta tylko z gotowej ścieżki.
+export interface PriceModel {
+  type: string; // klucz w MarketData.priceModel
+  stochastic: boolean; // true → Monte Carlo losuje nowe ścieżki samym modelem zamiast szoków σ/√12
+  getBtcPricePath(marketData: MarketData, random?: SeededRandom): BtcPricePath;
+}
+
+const priceModels = new Map<string, PriceModel>();
+
+export function registerPriceModel(model: PriceModel): void {
+  priceModels.set(model.type, model);
+}
+
+export function getPriceModel(
+  type: string = PriceModelType.CagrDecay
+): PriceModel {
+  const model = priceModels.get(type);
+  if (!model) {
+    throw new Error(`Unknown price model "${type}"`);
+  }
+  return model;
+}
+
+// Ścieżka ceny dla modelu wybranego w MarketData (domyślnie krzywa CAGR) wraz
+// z opcjonalnym cyklem halvingowym. `random` pozwala losowym modelom (bootstrap,
+// regime-switching) losować nowe ścieżki w Monte Carlo; bez niego używany jest
+// seed z ustawień. Własne ceny (customBtcPrices) zastępują początek ścieżki,
+// a zdarzenia stresowe nakładane są na końcu – na ścieżkę w użyciu.
+export function getBtcPricePath(
+  marketData: MarketData,
+  random?: SeededRandom
+): BtcPricePath {
+  const basePath = getPriceModel(marketData.priceModel).getBtcPricePath(
+    marketData,
+    random
+  );
+  const modelPath = marketData.halvingCycle
+    ? applyHalvingCycleOverlay(
+        basePath,
+        marketData.startDate,
+        marketData.halvingCycle
+      )
+    : basePath;
+  const pricePath = marketData.customBtcPrices
+    ? getCustomBtcPricePath(marketData.customBtcPrices, modelPath)
+    : modelPath;
+  return marketData.stressEvents?.length
+    ? applyStressEvents(pricePath, marketData.stressEvents)
+    : pricePath;
+}
+
+// deterministyczna ścieżka ceny z krzywej wygasającego CAGR
+export function getCagrDecayBtcPricePath(marketData: MarketData): BtcPricePath {
+  const {
+    initialBtcPriceInEuro,
+    numberOfYears,
+    btcCagrToday,
+    btcCagrAsymptote,
+    settleYears,
+    settleEpsilon,
+  } = marketData;
+
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+
+  for (let month = 0; month < numberOfMonths; month++) {
+    const tYears = (month + 0.5) / 12; // +0.5 bo bierzemy srednia ze srodka miesiaca
+    const btcAnnualCagr = getAnnualBtcCagr({
+      yearsSinceStart: tYears,
+      annualCagrStart: btcCagrToday,
+      annualCagrAsymptote: btcCagrAsymptote,
+      yearsToSettle: settleYears,
+      residualFraction: settleEpsilon,
+    });
+    btcMonthlyRate[month] = getMonthlyBtcCagrRate(btcAnnualCagr);
+  }
+
+  return getBtcPricePathFromMonthlyRates(initialBtcPriceInEuro, btcMonthlyRate);
+}
+
+registerPriceModel({
+  type: PriceModelType.CagrDecay,
+  stochastic: false,
+  getBtcPricePath: getCagrDecayBtcPricePath,
+});
+
+registerPriceModel({
+  type: PriceModelType.HistoricalBootstrap,
+  stochastic: true,
+  getBtcPricePath: (marketData, random) => {
+    const { historicalBootstrap } = marketData;
+    if (!historicalBootstrap) {
+      throw new Error(
+        'historicalBootstrap settings are required for the historical bootstrap price model'
+      );
+    }
+    return getHistoricalBootstrapBtcPricePath(
+      marketData,
+      historicalBootstrap,
+      random ?? createSeededRandom(historicalBootstrap.seed)
+    );
+  },
+});
+
+registerPriceModel({
+  type: PriceModelType.PowerLaw,
+  stochastic: false,
+  getBtcPricePath: marketData => {
+    if (!marketData.powerLaw) {
+      throw new Error(
+        'powerLaw settings are required for the power-law price model'
+      );
+    }
+    return getPowerLawBtcPricePath(marketData, marketData.powerLaw);
+  },
+});
+
+registerPriceModel({
+  type: PriceModelType.RegimeSwitching,
+  stochastic: true,
+  getBtcPricePath: (marketData, random) => {
+    if (!marketData.regimeSwitching) {
+      throw new Error(
+        'regimeSwitching settings are required for the regime-switching price model'
+      );
+    }
+    return getRegimeSwitchingBtcPricePath(
+      marketData,
+      marketData.regimeSwitching,
+      random
+    );
+  },
+});
@@ -0,0 +1,17 @@
+import { BtcPricePath } from './getBtcPricePath';
+
+// składa ścieżkę ceny z miesięcznych stóp wzrostu: P(m + 1) = P(m) · (1 + r(m))
+export function getBtcPricePathFromMonthlyRates(
+  initialBtcPriceInEuro: number,
+  btcMonthlyRate: number[]
+): BtcPricePath {
+  const btcPriceInEuro: number[] = new Array(btcMonthlyRate.length);
+
+  let currentBtcPriceInEuro = initialBtcPriceInEuro;
+  for (let month = 0; month < btcMonthlyRate.length; month++) {
+    btcPriceInEuro[month] = currentBtcPriceInEuro;
+    currentBtcPriceInEuro = currentBtcPriceInEuro * (1 + btcMonthlyRate[month]);
+  }
+
+  return { btcPriceInEuro, btcMonthlyRate };
+}
@@ -0,0 +1,132 @@
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { BtcPricePath, getNumberOfMonths } from './getBtcPricePath';
+import { SeededRandom, createSeededRandom } from './createSeededRandom';
+
+export enum CpiModelType {
+  Constant = 'constant', // stałe MarketData.cpi
+  Schedule = 'schedule', // roczny harmonogram stóp
+  MeanReverting = 'meanReverting', // proces Ornsteina-Uhlenbecka wokół stopy długoterminowej
+  Imported = 'imported', // miesięczny indeks cen (np. HICP)
+}
+
+export interface CpiPath {
+  monthlyCpiRate: number[]; // inflacja w miesiącu m (m → m + 1)
+  cpiFactor: number[]; // skumulowany indeks cen na początek miesiąca m (1 w miesiącu 0)
+}
+
+export interface CpiScheduleSettings {
+  yearlyRates: number[]; // stopa roczna dla roku symulacji k; po ostatnim – ostatnia wartość
+}
+
+export interface MeanRevertingCpiSettings {
+  initialRate: number; // bieżąca inflacja roczna, np. 0.05
+  longRunRate: number; // θ – poziom, do którego wraca inflacja, np. 0.02
+  reversionSpeed: number; // κ (rocznie), np. 0.5 → połowa odchylenia znika po ~1.4 roku
+  annualVolatility: number; // σ (rocznie) szoków inflacji, np. 0.01
+  seed: number;
+  btcShockCorrelation?: number; // ρ ∈ [-1, 1] z wylosowanym szokiem ceny BTC (tylko ścieżki losowe)
+}
+
+// Ścieżka inflacji dla modelu wybranego w MarketData (domyślnie stałe cpi).
+// W Monte Carlo `random` losuje nowe szoki procesu OU, a `btcPricePath` pozwala
+// skorelować je z szokami ceny BTC wylosowanymi dla tej samej ścieżki.
+export function getCpiPath(
+  marketData: MarketData,
+  random?: SeededRandom,
+  btcPricePath?: BtcPricePath
+): CpiPath {
+  const { cpi, numberOfYears, cpiModel = CpiModelType.Constant } = marketData;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+  const toMonthly = (annualRate: number) =>
+    Math.pow(1 + Math.max(annualRate, -0.99), 1 / 12) - 1;
+
+  let monthlyCpiRate: number[];
+  if (cpiModel === CpiModelType.Schedule) {
+    const { yearlyRates = [] } = marketData.cpiSchedule ?? {};
+    monthlyCpiRate = Array.from({ length: numberOfMonths }, (_, month) =>
+      toMonthly(
+        yearlyRates.length
+          ? yearlyRates[
+              Math.min(Math.floor(month / 12), yearlyRates.length - 1)
+            ]
+          : cpi
+      )
+    );
+  } else if (cpiModel === CpiModelType.MeanReverting) {
+    const { cpiMeanReverting } = marketData;
+    if (!cpiMeanReverting) {
+      throw new Error(
+        'cpiMeanReverting settings are required for the mean-reverting CPI model'
+      );
+    }
+    monthlyCpiRate = getMeanRevertingAnnualRates(
+      cpiMeanReverting,
+      numberOfMonths,
+      random ?? createSeededRandom(cpiMeanReverting.seed),
+      random ? btcPricePath : undefined
+    ).map(toMonthly);
+  } else if (cpiModel === CpiModelType.Imported) {
+    const { cpiIndex } = marketData;
+    if (!cpiIndex?.length) {
+      throw new Error('cpiIndex is required for the imported CPI model');
+    }
+    cpiIndex.forEach((value, month) => {
+      if (!(value > 0)) {
+        throw new Error(`cpiIndex[${month}] must be > 0 (got ${value})`);
+      }
+    });
+    // po końcu szeregu – stałe cpi
+    monthlyCpiRate = Array.from({ length: numberOfMonths }, (_, month) =>
+      month + 1 < cpiIndex.length
+        ? cpiIndex[month + 1] / cpiIndex[month] - 1
+        : toMonthly(cpi)
+    );
+  } else {
+    monthlyCpiRate = new Array(numberOfMonths).fill(toMonthly(cpi));
+  }
+
+  const cpiFactor: number[] = new Array(numberOfMonths);
+  let factor = 1;
+  for (let month = 0; month < numberOfMonths; month++) {
+    cpiFactor[month] = factor;
+    factor *= 1 + monthlyCpiRate[month];
+  }
+
+  return { monthlyCpiRate, cpiFactor };
+}
+
+// dyskretyzacja OU (dt = 1/12): π(m+1) = π(m) + κ(θ - π(m))/12 + σ/√12 · z(m),
+// z(m) = ρ·z_btc(m) + √(1-ρ²)·ε(m)
+function getMeanRevertingAnnualRates(
+  settings: MeanRevertingCpiSettings,
+  numberOfMonths: number,
+  random: SeededRandom,
+  btcPricePath?: BtcPricePath
+): number[] {
+  const {
+    initialRate,
+    longRunRate,
+    reversionSpeed,
+    annualVolatility,
+    btcShockCorrelation = 0,
+  } = settings;
+  if (!(btcShockCorrelation >= -1 && btcShockCorrelation <= 1)) {
+    throw new Error('btcShockCorrelation must be in [-1, 1]');
+  }
+
+  const btcShocks = btcPricePath?.btcPriceShock;
+  const rho = btcShocks ? btcShockCorrelation : 0;
+  const monthlyVolatility = Math.max(annualVolatility, 0) / Math.sqrt(12);
+
+  const annualRates: number[] = new Array(numberOfMonths);
+  let rate = initialRate;
+  for (let month = 0; month < numberOfMonths; month++) {
+    annualRates[month] = rate;
+    const shock =
+      rho * (btcShocks?.[month] ?? 0) +
+      Math.sqrt(1 - rho * rho) * random.nextNormal();
+    rate +=
+      (reversionSpeed * (longRunRate - rate)) / 12 + monthlyVolatility * shock;
+  }
+  return annualRates;
+}
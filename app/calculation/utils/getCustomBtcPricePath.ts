@@ -0,0 +1,50 @@
+import { BtcPricePath } from './getBtcPricePath';
+import { getBtcPricePathFromMonthlyRates } from './getBtcPricePathFromMonthlyRates';
+import { parseMonthlySeries } from './parseMonthlySeries';
+
+export interface CustomBtcPriceSeries {
+  startMonth?: string; // 'YYYY-MM' pierwszego wiersza (gdy plik zawiera daty)
+  btcPriceInEuro: number[]; // ceny miesięczne; wiersz 0 = miesiąc 0 symulacji
+}
+
+// Własna ścieżka ceny wklejona/wczytana przez użytkownika (CSV/JSON) – format
+// i walidacja jak w parseMonthlySeries
+export function parseCustomBtcPriceSeries(text: string): CustomBtcPriceSeries {
+  const { startMonth, values } = parseMonthlySeries(text, 'price');
+  return { startMonth, btcPriceInEuro: values };
+}
+
+// Własne ceny zastępują początek ścieżki modelu; gdy są krótsze niż horyzont,
+// dalsza część rośnie w tempie skonfigurowanego modelu (jego stopy miesięczne)
+// od ostatniej własnej ceny. Pozostałe dane modelu (np. reżimy rynku) zostają,
+// a szoki ceny w miesiącach z własnymi cenami są zerowane (to nie losowanie).
+export function getCustomBtcPricePath(
+  customBtcPrices: number[],
+  modelPath: BtcPricePath
+): BtcPricePath {
+  const numberOfMonths = modelPath.btcPriceInEuro.length;
+  if (customBtcPrices.length === 0) {
+    throw new Error('customBtcPrices must contain at least one price');
+  }
+  customBtcPrices.forEach((price, month) => {
+    if (!(price > 0)) {
+      throw new Error(`customBtcPrices[${month}] must be > 0 (got ${price})`);
+    }
+  });
+
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+  for (let month = 0; month < numberOfMonths; month++) {
+    btcMonthlyRate[month] =
+      month + 1 < customBtcPrices.length
+        ? customBtcPrices[month + 1] / customBtcPrices[month] - 1
+        : modelPath.btcMonthlyRate[month];
+  }
+
+  return {
+    ...modelPath,
+    ...getBtcPricePathFromMonthlyRates(customBtcPrices[0], btcMonthlyRate),
+    btcPriceShock: modelPath.btcPriceShock?.map((shock, month) =>
+      month + 1 < customBtcPrices.length ? 0 : shock
+    ),
+  };
+}
@@ -0,0 +1,87 @@
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { getNumberOfMonths } from './getBtcPricePath';
+
+export enum Currency {
+  EUR = 'EUR',
+  USD = 'USD',
+  PLN = 'PLN',
+}
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  [Currency.EUR]: '€',
+  [Currency.USD]: '$',
+  [Currency.PLN]: 'zł',
+};
+
+export enum FxModelType {
+  Constant = 'constant', // stały kurs initialRate
+  Drift = 'drift', // kurs zmienia się o annualDrift rocznie
+  Imported = 'imported', // miesięczny szereg kursów (np. NBP/ECB), potem dryf
+}
+
+export interface FxSettings {
+  model?: FxModelType; // domyślnie stały kurs
+  initialRate: number; // jednostki waluty wpłat za 1 jednostkę waluty kwotowania w miesiącu 0, np. 4.3 PLN/EUR
+  annualDrift?: number; // roczna zmiana kursu, np. 0.02 → waluta wpłat słabnie o 2%/rok (Drift i po końcu Imported)
+  rates?: number[]; // miesięczne kursy od miesiąca 0, wymagane dla FxModelType.Imported
+}
+
+export interface FxPath {
+  fxRate: number[]; // kurs w miesiącu m: jednostki waluty wpłat za 1 jednostkę waluty kwotowania
+}
+
+// Ścieżka kursu waluty wpłat (contributionCurrency) względem waluty, w której
+// kwotowana jest cena BTC (quoteCurrency). Te same waluty → kurs 1.
+export function getFxPath(marketData: MarketData): FxPath {
+  const {
+    numberOfYears,
+    quoteCurrency = Currency.EUR,
+    contributionCurrency = quoteCurrency,
+    fx,
+  } = marketData;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+
+  if (contributionCurrency === quoteCurrency) {
+    return { fxRate: new Array(numberOfMonths).fill(1) };
+  }
+  if (!fx) {
+    throw new Error(
+      `fx settings are required to convert ${contributionCurrency} contributions to ${quoteCurrency}`
+    );
+  }
+
+  const { model = FxModelType.Constant, initialRate, annualDrift = 0 } = fx;
+  if (!(initialRate > 0)) {
+    throw new Error(`fx.initialRate must be > 0 (got ${initialRate})`);
+  }
+  const monthlyDrift = Math.pow(1 + Math.max(annualDrift, -0.99), 1 / 12) - 1;
+
+  if (model === FxModelType.Imported) {
+    const { rates } = fx;
+    if (!rates?.length) {
+      throw new Error('fx.rates are required for the imported FX model');
+    }
+    rates.forEach((rate, month) => {
+      if (!(rate > 0)) {
+        throw new Error(`fx.rates[${month}] must be > 0 (got ${rate})`);
+      }
+    });
+    // po końcu szeregu – ostatni kurs z dryfem
+    const lastRate = rates[rates.length - 1];
+    return {
+      fxRate: Array.from({ length: numberOfMonths }, (_, month) =>
+        month < rates.length
+          ? rates[month]
+          : lastRate * Math.pow(1 + monthlyDrift, month - rates.length + 1)
+      ),
+    };
+  }
+
+  return {
+    fxRate: Array.from({ length: numberOfMonths }, (_, month) =>
+      model === FxModelType.Drift
+        ? initialRate * Math.pow(1 + monthlyDrift, month)
+        : initialRate
+    ),
+  };
+}
@@ -0,0 +1,73 @@
+import btcEurMonthlyCloses from '../data/btcEurMonthlyCloses.json';
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { BtcPricePath, getNumberOfMonths } from './getBtcPricePath';
+import { getBtcPricePathFromMonthlyRates } from './getBtcPricePathFromMonthlyRates';
+import { SeededRandom } from './createSeededRandom';
+
+export interface HistoricalBootstrapSettings {
+  blockLengthMonths: number; // długość bloku (np. 12) – zachowuje autokorelację i klastry spadków
+  seed: number; // ten sam seed → ta sama ścieżka
+  demean: boolean; // true → dryf historyczny zastąpiony przez btcCagrAsymptote
+}
+
+// historyczne miesięczne log-stopy BTC/EUR z danych dołączonych do repo
+export function getHistoricalBtcLogReturns(): number[] {
+  const prices = btcEurMonthlyCloses.closes.map(c => c.btcPriceInEuro);
+  const logReturns: number[] = new Array(prices.length - 1);
+  for (let i = 1; i < prices.length; i++) {
+    logReturns[i - 1] = Math.log(prices[i] / prices[i - 1]);
+  }
+  return logReturns;
+}
+
+// Circular block bootstrap: losujemy początek bloku i kopiujemy kolejne
+// historyczne stopy (z zawinięciem na końcu danych), aż wypełnimy horyzont.
+export function getHistoricalBootstrapBtcPricePath(
+  marketData: MarketData,
+  settings: HistoricalBootstrapSettings,
+  random: SeededRandom
+): BtcPricePath {
+  const { initialBtcPriceInEuro, numberOfYears, btcCagrAsymptote } = marketData;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+  const historicalLogReturns = getHistoricalBtcLogReturns();
+  const n = historicalLogReturns.length;
+  const blockLength = Math.min(
+    Math.max(1, Math.round(settings.blockLengthMonths)),
+    n
+  );
+
+  // de-meaning: średnia log-stopa = ln(1 + a∞) / 12
+  const historicalMean = historicalLogReturns.reduce((a, b) => a + b, 0) / n;
+  // szok ceny: wylosowana stopa standaryzowana względem całej historii
+  const historicalStd = Math.sqrt(
+    historicalLogReturns.reduce(
+      (a, r) => a + (r - historicalMean) * (r - historicalMean),
+      0
+    ) / n
+  );
+  const driftAdjustment = settings.demean
+    ? Math.log(1 + Math.max(btcCagrAsymptote, -0.999)) / 12 - historicalMean
+    : 0;
+
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+  const btcPriceShock: number[] = new Array(numberOfMonths);
+  let month = 0;
+  while (month < numberOfMonths) {
+    const blockStart = Math.floor(random.next() * n);
+    for (let k = 0; k < blockLength && month < numberOfMonths; k++) {
+      const historicalLogReturn = historicalLogReturns[(blockStart + k) % n];
+      const logReturn = historicalLogReturn + driftAdjustment;
+      btcMonthlyRate[month] = Math.exp(logReturn) - 1;
+      btcPriceShock[month] =
+        historicalStd > 0
+          ? (historicalLogReturn - historicalMean) / historicalStd
+          : 0;
+      month++;
+    }
+  }
+
+  return {
+    ...getBtcPricePathFromMonthlyRates(initialBtcPriceInEuro, btcMonthlyRate),
+    btcPriceShock,
+  };
+}
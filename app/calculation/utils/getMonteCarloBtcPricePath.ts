@@ -0,0 +1,50 @@
+import { BtcPricePath } from './getBtcPricePath';
+import { SeededRandom } from './createSeededRandom';
+
+export interface MonteCarloPriceShockSettings {
+  annualVolatility: number; // σ (rocznie), np. 0.6 = 60%
+  fatTailDegreesOfFreedom?: number; // ν > 2 → szoki z t-Studenta; brak → rozkład normalny
+}
+
+// Losowa ścieżka ceny: dryf = log-stopa z deterministycznej ścieżki (krzywa CAGR),
+// do tego szok σ/√12 · z. Mediana ścieżek pokrywa się z krzywą deterministyczną.
+// Pierwsze `fixedMonths` stóp (np. z importowanych cen) przechodzi bez szoku.
+export function getMonteCarloBtcPricePath(
+  basePath: BtcPricePath,
+  settings: MonteCarloPriceShockSettings,
+  random: SeededRandom,
+  fixedMonths = 0
+): BtcPricePath {
+  const { annualVolatility, fatTailDegreesOfFreedom } = settings;
+  const numberOfMonths = basePath.btcPriceInEuro.length;
+  const monthlyVolatility = Math.max(annualVolatility, 0) / Math.sqrt(12);
+  const useFatTails =
+    fatTailDegreesOfFreedom !== undefined && fatTailDegreesOfFreedom > 2;
+
+  const btcPriceInEuro: number[] = new Array(numberOfMonths);
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+  const btcPriceShock: number[] = new Array(numberOfMonths).fill(0);
+
+  let currentBtcPriceInEuro = basePath.btcPriceInEuro[0];
+  for (let month = 0; month < numberOfMonths; month++) {
+    if (month < fixedMonths) {
+      btcPriceInEuro[month] = currentBtcPriceInEuro;
+      btcMonthlyRate[month] = basePath.btcMonthlyRate[month];
+      currentBtcPriceInEuro =
+        currentBtcPriceInEuro * (1 + btcMonthlyRate[month]);
+      continue;
+    }
+    const shock = useFatTails
+      ? random.nextStudentT(fatTailDegreesOfFreedom)
+      : random.nextNormal();
+    const logReturn =
+      Math.log(1 + basePath.btcMonthlyRate[month]) + monthlyVolatility * shock;
+    btcPriceShock[month] = shock;
+
+    btcPriceInEuro[month] = currentBtcPriceInEuro;
+    btcMonthlyRate[month] = Math.exp(logReturn) - 1;
+    currentBtcPriceInEuro = currentBtcPriceInEuro * (1 + btcMonthlyRate[month]);
+  }
+
+  return { btcPriceInEuro, btcMonthlyRate, btcPriceShock };
+}
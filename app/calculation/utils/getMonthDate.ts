@@ -0,0 +1,31 @@
+export const DEFAULT_SIMULATION_START_DATE = '2025-08-01';
+
+// nazwy miesięcy kalendarzowych (indeks jak Date.getUTCMonth)
+export const CALENDAR_MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// data (UTC) początku miesiąca `month` symulacji startującej w `startDate`
+export function getMonthDate(
+  startDate: string | undefined,
+  month: number
+): Date {
+  const start = new Date(startDate ?? DEFAULT_SIMULATION_START_DATE);
+  if (Number.isNaN(start.getTime())) {
+    throw new Error('startDate must be a valid ISO date (YYYY-MM-DD)');
+  }
+  return new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, 1)
+  );
+}
@@ -0,0 +1,78 @@
+import { CpiPath } from './getCpiPath';
+
+export enum YieldScheduleType {
+  Constant = 'constant', // stałe yearlyYieldPct
+  Yearly = 'yearly', // jawne stopy dla kolejnych lat
+  LinearDecay = 'linearDecay', // liniowo od yearlyYieldPct do floorPct
+  ExponentialDecay = 'exponentialDecay', // wykładniczo od yearlyYieldPct do floorPct
+  CpiLinked = 'cpiLinked', // inflacja ze ścieżki CPI × mnożnik + spread
+}
+
+export interface YieldSchedule {
+  type: YieldScheduleType;
+  yearlyRates?: number[]; // Yearly: stopa roczna dla roku k; po ostatnim – ostatnia wartość
+  floorPct?: number; // podłoga stopy (decay i CPI-linked), domyślnie 0
+  decayYears?: number; // LinearDecay: po ilu latach stopa osiąga podłogę
+  halfLifeYears?: number; // ExponentialDecay: po ilu latach znika połowa różnicy do podłogi
+  cpiMultiplier?: number; // CpiLinked: mnożnik bieżącej inflacji rocznej, domyślnie 1
+  cpiSpreadPct?: number; // CpiLinked: dodatek do (przemnożonej) inflacji, np. 0.01
+}
+
+// Miesięczne stopy yieldu dla każdego miesiąca symulacji. Bez harmonogramu
+// (lub dla Constant) – stała stopa z yearlyYieldPct; decay startuje od
+// yearlyYieldPct, a CPI-linked korzysta ze ścieżki inflacji (wymaga cpiPath).
+export function getMonthlyYieldRates(
+  yearlyYieldPct: number,
+  numberOfMonths: number,
+  schedule?: YieldSchedule,
+  cpiPath?: CpiPath
+): number[] {
+  const type = schedule?.type ?? YieldScheduleType.Constant;
+  const floorPct = schedule?.floorPct ?? 0;
+
+  let getYearlyRate: (month: number) => number;
+  if (type === YieldScheduleType.Yearly) {
+    const { yearlyRates = [] } = schedule ?? {};
+    getYearlyRate = month =>
+      yearlyRates.length
+        ? yearlyRates[Math.min(Math.floor(month / 12), yearlyRates.length - 1)]
+        : yearlyYieldPct;
+  } else if (type === YieldScheduleType.LinearDecay) {
+    const decayYears = schedule?.decayYears ?? 0;
+    if (!(decayYears > 0)) {
+      throw new Error('decayYears must be > 0 for the linear yield decay');
+    }
+    getYearlyRate = month =>
+      yearlyYieldPct +
+      (floorPct - yearlyYieldPct) * Math.min(month / 12 / decayYears, 1);
+  } else if (type === YieldScheduleType.ExponentialDecay) {
+    const halfLifeYears = schedule?.halfLifeYears ?? 0;
+    if (!(halfLifeYears > 0)) {
+      throw new Error(
+        'halfLifeYears must be > 0 for the exponential yield decay'
+      );
+    }
+    getYearlyRate = month =>
+      floorPct +
+      (yearlyYieldPct - floorPct) * Math.pow(0.5, month / 12 / halfLifeYears);
+  } else if (type === YieldScheduleType.CpiLinked) {
+    if (!cpiPath) {
+      throw new Error('cpiPath is required for the CPI-linked yield schedule');
+    }
+    const { cpiMultiplier = 1, cpiSpreadPct = 0 } = schedule ?? {};
+    getYearlyRate = month =>
+      Math.max(
+        floorPct,
+        (Math.pow(1 + cpiPath.monthlyCpiRate[month], 12) - 1) * cpiMultiplier +
+          cpiSpreadPct
+      );
+  } else {
+    getYearlyRate = () => yearlyYieldPct;
+  }
+
+  return Array.from(
+    { length: numberOfMonths },
+    (_, month) =>
+      Math.pow(1 + Math.max(getYearlyRate(month), -0.99), 1 / 12) - 1
+  );
+}
@@ -0,0 +1,29 @@
+export interface PercentileBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+// percentyl z interpolacją liniową; `sortedValues` musi być posortowane rosnąco
+export function getPercentile(sortedValues: number[], percentile: number) {
+  if (sortedValues.length === 0) return NaN;
+  const p = Math.min(Math.max(percentile, 0), 1);
+  const position = (sortedValues.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight;
+}
+
+export function getPercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: getPercentile(sorted, 0.05),
+    p25: getPercentile(sorted, 0.25),
+    p50: getPercentile(sorted, 0.5),
+    p75: getPercentile(sorted, 0.75),
+    p95: getPercentile(sorted, 0.95),
+  };
+}
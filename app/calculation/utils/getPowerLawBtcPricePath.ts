@@ -0,0 +1,74 @@
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { BtcPricePath, getNumberOfMonths } from './getBtcPricePath';
+import { getMonthDate } from './getMonthDate';
+
+export const BTC_GENESIS_DATE = Date.UTC(2009, 0, 3);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface PowerLawCorridor {
+  supportMultiple: number; // dolne pasmo = trend × supportMultiple (np. 0.5)
+  resistanceMultiple: number; // górne pasmo = trend × resistanceMultiple (np. 3)
+}
+
+export interface PowerLawSettings {
+  exponent: number; // k – cena ∝ (dni od genesis)^k, np. 5.8
+  coefficient: number; // A [EUR] – cena trendu = A · d^k
+  corridor?: PowerLawCorridor; // opcjonalne pasmo wsparcia/oporu wokół trendu
+  reversionYears?: number; // po ilu latach odchylenie od trendu wygasa do ~5%; brak → odchylenie stałe
+}
+
+// cena z linii trendu power-law dla podanej daty
+export function getPowerLawTrendPrice(
+  date: Date,
+  settings: Pick<PowerLawSettings, 'exponent' | 'coefficient'>
+): number {
+  const daysSinceGenesis = Math.max(
+    1,
+    (date.getTime() - BTC_GENESIS_DATE) / MS_PER_DAY
+  );
+  return settings.coefficient * Math.pow(daysSinceGenesis, settings.exponent);
+}
+
+// Ścieżka startuje od initialBtcPriceInEuro; log-odchylenie od trendu wygasa
+// wykładniczo (jak krzywa CAGR: ε = 5% po reversionYears), a pasmo (jeśli jest)
+// ogranicza cenę do [wsparcie, opór].
+export function getPowerLawBtcPricePath(
+  marketData: MarketData,
+  settings: PowerLawSettings
+): BtcPricePath {
+  const { initialBtcPriceInEuro, numberOfYears, startDate } = marketData;
+  const { corridor, reversionYears } = settings;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+
+  const trendAt = (month: number) =>
+    getPowerLawTrendPrice(getMonthDate(startDate, month), settings);
+
+  const initialLogDeviation = Math.log(initialBtcPriceInEuro / trendAt(0));
+  const tau =
+    reversionYears !== undefined && reversionYears > 0
+      ? reversionYears / Math.log(1 / 0.05)
+      : Infinity;
+
+  const priceAt = (month: number) => {
+    const trend = trendAt(month);
+    const logDeviation = initialLogDeviation * Math.exp(-month / 12 / tau);
+    const price = trend * Math.exp(logDeviation);
+    if (!corridor) return price;
+    return Math.min(
+      Math.max(price, trend * corridor.supportMultiple),
+      trend * corridor.resistanceMultiple
+    );
+  };
+
+  const btcPriceInEuro: number[] = new Array(numberOfMonths);
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+  let nextPrice = priceAt(0);
+  for (let month = 0; month < numberOfMonths; month++) {
+    // miesiąc 0 zawsze po cenie startowej (także gdy leży poza pasmem)
+    btcPriceInEuro[month] = month === 0 ? initialBtcPriceInEuro : nextPrice;
+    nextPrice = priceAt(month + 1);
+    btcMonthlyRate[month] = nextPrice / btcPriceInEuro[month] - 1;
+  }
+
+  return { btcPriceInEuro, btcMonthlyRate };
+}
@@ -0,0 +1,138 @@
+import { MarketData } from '../simulateUserTreasuryGrowth';
+import { BtcPricePath, getNumberOfMonths } from './getBtcPricePath';
+import { getBtcPricePathFromMonthlyRates } from './getBtcPricePathFromMonthlyRates';
+import { SeededRandom, createSeededRandom } from './createSeededRandom';
+
+export enum MarketRegime {
+  Bull = 'bull',
+  Bear = 'bear',
+  Sideways = 'sideways',
+}
+
+export enum RegimeSwitchingMode {
+  Expected = 'expected', // deterministycznie: dryf ważony prawdopodobieństwem reżimów
+  Stochastic = 'stochastic', // losowy łańcuch Markowa + szoki σ · z (seed)
+}
+
+export interface RegimeDefinition {
+  regime: MarketRegime;
+  monthlyDrift: number; // średnia miesięczna log-stopa w tym reżimie, np. 0.05
+  monthlyVolatility: number; // odchylenie miesięcznej log-stopy, np. 0.15
+  transitionProbabilities: Partial<Record<MarketRegime, number>>; // P(ten → inny) w miesiącu; wiersz sumuje się do 1
+}
+
+export interface RegimeSwitchingSettings {
+  regimes: RegimeDefinition[]; // bull i bear wymagane, sideways opcjonalny
+  initialRegime: MarketRegime;
+  mode: RegimeSwitchingMode;
+  seed: number; // używany w trybie stochastycznym
+}
+
+function validateRegimes(settings: RegimeSwitchingSettings) {
+  const { regimes, initialRegime } = settings;
+  const defined = new Set(regimes.map(r => r.regime));
+  if (!defined.has(MarketRegime.Bull) || !defined.has(MarketRegime.Bear)) {
+    throw new Error('Regime switching requires bull and bear regimes');
+  }
+  if (!defined.has(initialRegime)) {
+    throw new Error(`Initial regime "${initialRegime}" is not defined`);
+  }
+  for (const { regime, transitionProbabilities } of regimes) {
+    let rowSum = 0;
+    for (const [to, p] of Object.entries(transitionProbabilities)) {
+      if (!defined.has(to as MarketRegime)) {
+        throw new Error(
+          `Transition from "${regime}" to undefined regime "${to}"`
+        );
+      }
+      if (!(p! >= 0)) {
+        throw new Error(`Transition probabilities of "${regime}" must be >= 0`);
+      }
+      rowSum += p!;
+    }
+    if (Math.abs(rowSum - 1) > 1e-6) {
+      throw new Error(
+        `Transition probabilities of "${regime}" must sum to 1 (got ${rowSum})`
+      );
+    }
+  }
+}
+
+// Markov regime-switching: każdy miesiąc ma reżim (bull/bear/sideways) z własnym
+// dryfem i zmiennością. Tryb "expected" propaguje rozkład reżimów (π·P) i używa
+// dryfu ważonego prawdopodobieństwem; raportowany reżim to najbardziej
+// prawdopodobny. Podanie `random` (Monte Carlo) wymusza tryb stochastyczny.
+export function getRegimeSwitchingBtcPricePath(
+  marketData: MarketData,
+  settings: RegimeSwitchingSettings,
+  random?: SeededRandom
+): BtcPricePath & { marketRegime: MarketRegime[] } {
+  validateRegimes(settings);
+
+  const { initialBtcPriceInEuro, numberOfYears } = marketData;
+  const { regimes, initialRegime, mode, seed } = settings;
+  const numberOfMonths = getNumberOfMonths(numberOfYears);
+  const btcMonthlyRate: number[] = new Array(numberOfMonths);
+  const marketRegime: MarketRegime[] = new Array(numberOfMonths);
+  const btcPriceShock: number[] = new Array(numberOfMonths).fill(0);
+
+  const stochasticRandom =
+    random ??
+    (mode === RegimeSwitchingMode.Stochastic
+      ? createSeededRandom(seed)
+      : undefined);
+
+  if (stochasticRandom) {
+    let current = regimes.find(r => r.regime === initialRegime)!;
+    for (let month = 0; month < numberOfMonths; month++) {
+      marketRegime[month] = current.regime;
+      btcPriceShock[month] = stochasticRandom.nextNormal();
+      const logReturn =
+        current.monthlyDrift + current.monthlyVolatility * btcPriceShock[month];
+      btcMonthlyRate[month] = Math.exp(logReturn) - 1;
+
+      // losujemy reżim na kolejny miesiąc
+      const u = stochasticRandom.next();
+      let cumulative = 0;
+      let next = current;
+      for (const candidate of regimes) {
+        cumulative += current.transitionProbabilities[candidate.regime] ?? 0;
+        if (u < cumulative) {
+          next = candidate;
+          break;
+        }
+      }
+      current = next;
+    }
+  } else {
+    let probabilities: number[] = regimes.map(r =>
+      r.regime === initialRegime ? 1 : 0
+    );
+    for (let month = 0; month < numberOfMonths; month++) {
+      let mostLikely = 0;
+      let expectedDrift = 0;
+      probabilities.forEach((p, i) => {
+        expectedDrift += p * regimes[i].monthlyDrift;
+        if (p > probabilities[mostLikely]) mostLikely = i;
+      });
+      marketRegime[month] = regimes[mostLikely].regime;
+      btcMonthlyRate[month] = Math.exp(expectedDrift) - 1;
+
+      // π(m + 1) = π(m) · P
+      probabilities = regimes.map(to =>
+        regimes.reduce(
+          (sum, from, i) =>
+            sum +
+            probabilities[i] * (from.transitionProbabilities[to.regime] ?? 0),
+          0
+        )
+      );
+    }
+  }
+
+  return {
+    ...getBtcPricePathFromMonthlyRates(initialBtcPriceInEuro, btcMonthlyRate),
+    marketRegime,
+    btcPriceShock,
+  };
+}
@@ -0,0 +1,180 @@
+import { UserPensionSimulationSnapshot } from '../simulateUserTreasuryGrowth';
+import { PercentileBand, getPercentileBand } from './getPercentile';
+
+export interface ReturnMetrics {
+  xirrPct: number; // roczna stopa zwrotu ważona kapitałem (XIRR po datach wpłat); NaN, gdy brak rozwiązania
+  twrPct: number; // roczna stopa zwrotu ważona czasem (bez wpływu wpłat i wypłat)
+  moic: number; // (wartość końcowa + wypłacone) / zainwestowany kapitał
+  maxDrawdownPct: number; // największy spadek wartości netto (waluta kwotowania) od szczytu, np. 0.6
+  longestUnderwaterMonths: number; // najdłuższy ciąg miesięcy z wartością + wypłaconym poniżej zainwestowanego
+  investedInEuro: number; // saldo początkowe + suma wpłat (waluta kwotowania)
+  distributedInEuro: number; // wypłaty, zakupy i transze pożyczki wypłacone użytkownikowi
+  finalValueInEuro: number; // wartość netto na koniec (BTC minus dług, przed podatkiem)
+}
+
+export type ReturnMetricsDistribution = Record<
+  keyof ReturnMetrics,
+  PercentileBand
+>;
+
+export interface ReturnMetricsOptions {
+  startMonth?: number; // miesiąc startu planu, domyślnie 0
+  initialBtcHolding?: number; // saldo początkowe – inwestycja po cenie z miesiąca startu
+}
+
+interface CashFlow {
+  years: number; // czas od miesiąca 0
+  amountInEuro: number; // < 0 wpłata, > 0 wypłata dla użytkownika
+}
+
+function getNetPresentValue(cashFlows: CashFlow[], yearlyRate: number) {
+  return cashFlows.reduce(
+    (sum, { years, amountInEuro }) =>
+      sum + amountInEuro / Math.pow(1 + yearlyRate, years),
+    0
+  );
+}
+
+// XIRR metodą bisekcji; NaN, gdy przepływy nie zmieniają znaku NPV. Przepływy
+// bilansujące się bez dyskonta (np. płaska cena) dają dokładnie 0.
+export function getXirr(cashFlows: CashFlow[]): number {
+  const grossInEuro = cashFlows.reduce(
+    (sum, { amountInEuro }) => sum + Math.abs(amountInEuro),
+    0
+  );
+  if (
+    grossInEuro > 0 &&
+    Math.abs(getNetPresentValue(cashFlows, 0)) <= grossInEuro * 1e-12
+  ) {
+    return 0;
+  }
+  let low = -0.9999;
+  let high = 1;
+  const lowNpv = getNetPresentValue(cashFlows, low);
+  while (
+    Math.sign(getNetPresentValue(cashFlows, high)) === Math.sign(lowNpv) &&
+    high < 1e6
+  ) {
+    high *= 10;
+  }
+  const highNpv = getNetPresentValue(cashFlows, high);
+  if (!(Math.sign(lowNpv) !== Math.sign(highNpv))) return NaN;
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const middle = (low + high) / 2;
+    if (
+      Math.sign(getNetPresentValue(cashFlows, middle)) === Math.sign(lowNpv)
+    ) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Metryki zwrotu ścieżki użytkownika (waluta kwotowania). Przepływy i wartość
+// netto miesiąca m są po jego cenie, więc datowane na m / 12 – wartość końcowa
+// na (liczba miesięcy − 1) / 12, a TWR liczony z odstępów między miesiącami.
+export function getReturnMetrics(
+  snapshots: UserPensionSimulationSnapshot[],
+  { startMonth = 0, initialBtcHolding = 0 }: ReturnMetricsOptions = {}
+): ReturnMetrics {
+  const cashFlows: CashFlow[] = [];
+  let investedInEuro = 0;
+  let distributedInEuro = 0;
+  let previousValueInEuro = 0;
+  let twrGrowth = 1;
+  let peakValueInEuro = 0;
+  let maxDrawdownPct = 0;
+  let underwaterMonths = 0;
+  let longestUnderwaterMonths = 0;
+
+  snapshots.forEach((snapshot, month) => {
+    if (month < startMonth) return;
+    const initialInEuro =
+      month === startMonth
+        ? initialBtcHolding * snapshot.currentBtcPriceInEuro
+        : 0;
+    const contributedInEuro = snapshot.contributionInEuro + initialInEuro;
+    const paidOutInEuro =
+      snapshot.withdrawalInEuro +
+      snapshot.purchaseSpentInEuro +
+      snapshot.loanDrawnInEuro;
+    investedInEuro += contributedInEuro;
+    distributedInEuro += paidOutInEuro;
+    cashFlows.push({
+      years: month / 12,
+      amountInEuro: paidOutInEuro - contributedInEuro,
+    });
+
+    // TWR: stopa miesiąca po uwzględnieniu przepływu z jego początku
+    const valueInEuro = snapshot.netWorthInEuro;
+    const startValueInEuro =
+      previousValueInEuro + contributedInEuro - paidOutInEuro;
+    if (startValueInEuro > 0) twrGrowth *= valueInEuro / startValueInEuro;
+    previousValueInEuro = valueInEuro;
+
+    peakValueInEuro = Math.max(peakValueInEuro, valueInEuro);
+    if (peakValueInEuro > 0) {
+      maxDrawdownPct = Math.max(
+        maxDrawdownPct,
+        1 - valueInEuro / peakValueInEuro
+      );
+    }
+    // pod kreską: wypłacenie wszystkiego dałoby mniej, niż wpłacono
+    // (tolerancja na błąd zaokrągleń przy płaskiej cenie)
+    if (valueInEuro + distributedInEuro < investedInEuro * (1 - 1e-9)) {
+      underwaterMonths++;
+      longestUnderwaterMonths = Math.max(
+        longestUnderwaterMonths,
+        underwaterMonths
+      );
+    } else {
+      underwaterMonths = 0;
+    }
+  });
+
+  const activeMonths = Math.max(snapshots.length - startMonth, 0);
+  const finalValueInEuro = activeMonths > 0 ? previousValueInEuro : 0;
+  cashFlows.push({
+    years: (snapshots.length - 1) / 12,
+    amountInEuro: finalValueInEuro,
+  });
+  return {
+    xirrPct: investedInEuro > 0 ? getXirr(cashFlows) : NaN,
+    twrPct:
+      activeMonths > 1 ? Math.pow(twrGrowth, 12 / (activeMonths - 1)) - 1 : 0,
+    moic:
+      investedInEuro > 0
+        ? (finalValueInEuro + distributedInEuro) / investedInEuro
+        : 0,
+    maxDrawdownPct,
+    longestUnderwaterMonths,
+    investedInEuro,
+    distributedInEuro,
+    finalValueInEuro,
+  };
+}
+
+// Rozkład metryk po ścieżkach (Monte Carlo, modele losowe); XIRR bez NaN
+export function getReturnMetricsDistribution(
+  paths: UserPensionSimulationSnapshot[][],
+  options: ReturnMetricsOptions = {}
+): ReturnMetricsDistribution {
+  const metrics = paths.map(path => getReturnMetrics(path, options));
+  const band = (key: keyof ReturnMetrics) =>
+    getPercentileBand(
+      metrics.map(metric => metric[key]).filter(value => !isNaN(value))
+    );
+  return {
+    xirrPct: band('xirrPct'),
+    twrPct: band('twrPct'),
+    moic: band('moic'),
+    maxDrawdownPct: band('maxDrawdownPct'),
+    longestUnderwaterMonths: band('longestUnderwaterMonths'),
+    investedInEuro: band('investedInEuro'),
+    distributedInEuro: band('distributedInEuro'),
+    finalValueInEuro: band('finalValueInEuro'),
+  };
+}
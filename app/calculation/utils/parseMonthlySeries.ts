@@ -0,0 +1,234 @@
+export interface MonthlySeries {
+  startMonth?: string; // 'YYYY-MM' pierwszego wiersza (gdy plik zawiera daty)
+  values: number[]; // wartości miesięczne; wiersz 0 = miesiąc 0 symulacji
+}
+
+interface MonthlySeriesRow {
+  row: number; // numer wiersza w pliku (1-indexed, do komunikatów błędów)
+  month?: string; // 'YYYY-MM'
+  value: number;
+}
+
+const DATE_COLUMN_NAMES = /^(month|date|miesiąc|miesiac|data)$/i;
+const VALUE_COLUMN_NAMES =
+  /(price|cena|close|btc|eur|value|wartość|index|indeks|cpi|hicp|rate|kurs)/i;
+
+// Parsuje miesięczny szereg wklejony/wczytany przez użytkownika (ceny BTC,
+// indeks CPI/HICP, kursy walut):
+//  – CSV (separator , ; lub tab, opcjonalny nagłówek) z kolumnami miesiąc/data
+//    i wartość albo z samą kolumną wartości,
+//  – JSON: tablica liczb, tablica { month|date, btcPriceInEuro|price|value|rate }
+//    albo obiekt { closes: [...] } (format btcEurMonthlyCloses.json).
+// Waliduje wartości (> 0) oraz ciągłość miesięcy (bez luk, duplikatów
+// i cofania się). `valueName` trafia do komunikatów błędów, np. 'price'.
+export function parseMonthlySeries(
+  text: string,
+  valueName: string
+): MonthlySeries {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error(`Custom ${valueName} series is empty`);
+  }
+
+  const rows =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseJsonRows(trimmed, valueName)
+      : parseCsvRows(trimmed, valueName);
+
+  return validateMonthlySeriesRows(rows, valueName);
+}
+
+function parseJsonRows(text: string, valueName: string): MonthlySeriesRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`Custom ${valueName} series is not valid JSON`);
+  }
+
+  const items =
+    parsed && !Array.isArray(parsed) && typeof parsed === 'object'
+      ? (parsed as { closes?: unknown }).closes
+      : parsed;
+  if (!Array.isArray(items)) {
+    throw new Error(
+      `JSON ${valueName} series must be an array or an object with a "closes" array`
+    );
+  }
+
+  return items.map((item, index) => {
+    if (typeof item === 'number') {
+      return { row: index + 1, value: item };
+    }
+    if (!item || typeof item !== 'object') {
+      throw new Error(`Row ${index + 1}: expected a number or an object`);
+    }
+    const { month, date, btcPriceInEuro, price, value, rate } = item as Record<
+      string,
+      unknown
+    >;
+    const rawDate = month ?? date;
+    const rawValue = btcPriceInEuro ?? price ?? value ?? rate;
+    return {
+      row: index + 1,
+      month:
+        rawDate === undefined ? undefined : parseMonth(String(rawDate), index),
+      value: parseValue(String(rawValue), index, '.', valueName),
+    };
+  });
+}
+
+function parseCsvRows(text: string, valueName: string): MonthlySeriesRow[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const delimiter = lines[0].includes('\t')
+    ? '\t'
+    : lines[0].includes(';')
+      ? ';'
+      : ',';
+  // przy separatorze ; lub tab przecinek jest separatorem dziesiętnym (Excel PL/DE)
+  const decimalSeparator = delimiter === ',' ? '.' : ',';
+  const table = lines.map(line =>
+    line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''))
+  );
+
+  const header = table[0];
+  // wiersz danych zawsze zaczyna się cyfrą (data albo wartość) – nagłówek nie
+  const hasHeader = !header.some(cell => /^\d/.test(cell));
+  let dateColumn = header.length > 1 ? 0 : -1;
+  let valueColumn = header.length > 1 ? 1 : 0;
+  if (hasHeader) {
+    const namedDate = header.findIndex(cell => DATE_COLUMN_NAMES.test(cell));
+    const namedValue = header.findIndex(
+      (cell, column) => column !== namedDate && VALUE_COLUMN_NAMES.test(cell)
+    );
+    if (namedDate >= 0) dateColumn = namedDate;
+    if (namedValue >= 0) valueColumn = namedValue;
+  }
+
+  const offset = hasHeader ? 1 : 0;
+  return table.slice(offset).map((cells, index) => ({
+    row: index + offset + 1,
+    month:
+      dateColumn >= 0
+        ? parseMonth(cells[dateColumn], index + offset)
+        : undefined,
+    value: parseValue(
+      cells[valueColumn],
+      index + offset,
+      decimalSeparator,
+      valueName
+    ),
+  }));
+}
+
+// 'YYYY-MM', 'YYYY-MM-DD' lub 'DD.MM.YYYY' → 'YYYY-MM'
+function parseMonth(value: string | undefined, index: number): string {
+  const iso = /^(\d{4})-(\d{2})(-\d{2})?/.exec(value ?? '');
+  const dotted = /^\d{2}\.(\d{2})\.(\d{4})$/.exec(value ?? '');
+  const [year, month] = iso
+    ? [iso[1], iso[2]]
+    : dotted
+      ? [dotted[2], dotted[1]]
+      : [];
+  if (!year || !month || Number(month) < 1 || Number(month) > 12) {
+    throw new Error(
+      `Row ${index + 1}: invalid month "${value ?? ''}" (expected YYYY-MM or YYYY-MM-DD)`
+    );
+  }
+  return `${year}-${month}`;
+}
+
+function parseValue(
+  value: string | undefined,
+  index: number,
+  decimalSeparator: '.' | ',',
+  valueName: string
+): number {
+  const normalized = (value ?? '').replace(/[\s €]/g, '');
+  const parsed = Number(
+    decimalSeparator === ',' && normalized.includes(',')
+      ? normalized.replace(/\./g, '').replace(',', '.')
+      : normalized.replace(/,/g, '')
+  );
+  if (!normalized || !Number.isFinite(parsed)) {
+    throw new Error(`Row ${index + 1}: invalid ${valueName} "${value ?? ''}"`);
+  }
+  return parsed;
+}
+
+function getMonthIndex(month: string): number {
+  const [year, monthOfYear] = month.split('-').map(Number);
+  return year * 12 + monthOfYear - 1;
+}
+
+// Wartości od miesiąca 0 symulacji (startDate 'YYYY-MM-DD'). Szereg z datami
+// zaczynający się wcześniej jest przycinany do startDate; zaczynający się
+// później albo kończący przed startDate jest odrzucany – wartości trafiłyby do
+// innych miesięcy niż w pliku. Szereg bez dat: wiersz 0 = miesiąc 0.
+export function alignMonthlySeries(
+  series: MonthlySeries,
+  startDate: string,
+  valueName: string
+): number[] {
+  if (!series.startMonth) return series.values;
+
+  const simulationStart = startDate.slice(0, 7);
+  const offset =
+    getMonthIndex(simulationStart) - getMonthIndex(series.startMonth);
+  if (offset < 0) {
+    throw new Error(
+      `Custom ${valueName} series starts in ${series.startMonth}, after the simulation start ${simulationStart}`
+    );
+  }
+  if (offset >= series.values.length) {
+    throw new Error(
+      `Custom ${valueName} series ends before the simulation start ${simulationStart}`
+    );
+  }
+  return series.values.slice(offset);
+}
+
+function validateMonthlySeriesRows(
+  rows: MonthlySeriesRow[],
+  valueName: string
+): MonthlySeries {
+  if (rows.length === 0) {
+    throw new Error(`Custom ${valueName} series is empty`);
+  }
+
+  rows.forEach(({ row, value }) => {
+    if (!(value > 0)) {
+      throw new Error(`Row ${row}: ${valueName} must be > 0 (got ${value})`);
+    }
+  });
+
+  const withMonths = rows.filter(row => row.month !== undefined).length;
+  if (withMonths > 0 && withMonths < rows.length) {
+    throw new Error('Either every row or no row must have a month');
+  }
+
+  for (let index = 1; index < withMonths; index++) {
+    const previous = rows[index - 1].month as string;
+    const current = rows[index].month as string;
+    const step = getMonthIndex(current) - getMonthIndex(previous);
+    if (step <= 0) {
+      throw new Error(
+        `Row ${rows[index].row}: months must be in ascending order without duplicates (${current} after ${previous})`
+      );
+    }
+    if (step > 1) {
+      throw new Error(
+        `Row ${rows[index].row}: gap in ${valueName} series – ${step - 1} month(s) missing between ${previous} and ${current}`
+      );
+    }
+  }
+
+  return {
+    startMonth: rows[0].month,
+    values: rows.map(row => row.value),
+  };
+}
@@ -0,0 +1,22 @@
+import { UserTreasuryGrowthInput } from '../simulateUserTreasuryGrowth';
+
+// Ten sam plan rozpoczęty w innym miesiącu: faza wypłat i pożyczka przesunięte
+// tak, by każda kohorta oszczędzała tyle samo miesięcy
+export function withCohortStartMonth(
+  inputData: UserTreasuryGrowthInput,
+  startMonth: number
+): UserTreasuryGrowthInput {
+  const shift = startMonth - (inputData.userData.startMonth ?? 0);
+  return {
+    ...inputData,
+    userData: { ...inputData.userData, startMonth },
+    decumulationData: inputData.decumulationData && {
+      ...inputData.decumulationData,
+      startMonth: inputData.decumulationData.startMonth + shift,
+    },
+    loanData: inputData.loanData && {
+      ...inputData.loanData,
+      startMonth: inputData.loanData.startMonth + shift,
+    },
+  };
+}
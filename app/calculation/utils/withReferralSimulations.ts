@@ -0,0 +1,21 @@
+import {
+  UserPensionSimulationSnapshot,
+  UserTreasuryGrowthInput,
+  simulateUserTreasuryGrowth,
+} from '../simulateUserTreasuryGrowth';
+
+// Wejście ze wspólnym cache symulacji poleconych, wypełnionym bazowym planem
+// (tym z wykresu). Kroki solvera zmieniające DCA, saldo czy wypłatę korzystają
+// z tych samych symulacji – poleceni nie zmieniają planu razem z użytkownikiem,
+// a każdy miesiąc dołączenia liczony jest raz, nie w każdym kroku bisekcji.
+export function withReferralSimulations(
+  inputData: UserTreasuryGrowthInput
+): UserTreasuryGrowthInput {
+  if (!inputData.referralData) return inputData;
+  const referralSimulations = new Map<
+    number,
+    UserPensionSimulationSnapshot[]
+  >();
+  simulateUserTreasuryGrowth({ ...inputData, referralSimulations });
+  return { ...inputData, referralSimulations };
+}
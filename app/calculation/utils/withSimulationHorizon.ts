@@ -0,0 +1,23 @@
+import { UserTreasuryGrowthInput } from '../simulateUserTreasuryGrowth';
+import { getBtcPricePath } from './getBtcPricePath';
+import { getCpiPath } from './getCpiPath';
+import { getFxPath } from './getFxPath';
+
+// Wejście z innym horyzontem (numberOfYears). Gotowe ścieżki o innej długości
+// liczymy od nowa – raz tutaj, a nie w każdym kroku solvera.
+export function withSimulationHorizon(
+  inputData: UserTreasuryGrowthInput,
+  numberOfYears: number
+): UserTreasuryGrowthInput {
+  const marketData = { ...inputData.marketData, numberOfYears };
+  const horizonChanged = numberOfYears !== inputData.marketData.numberOfYears;
+  return {
+    ...inputData,
+    marketData,
+    btcPricePath:
+      (!horizonChanged && inputData.btcPricePath) ||
+      getBtcPricePath(marketData),
+    cpiPath: (!horizonChanged && inputData.cpiPath) || getCpiPath(marketData),
+    fxPath: (!horizonChanged && inputData.fxPath) || getFxPath(marketData),
+  };
+}
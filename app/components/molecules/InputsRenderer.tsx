@@ -28,8 +28,7 @@ export function InputsRenderer({
   return (
     <div className={gridClassName}>
       {inputs.map(inp => {
-        const baseCls =
-          'w-full rounded-md bg-slate-900/70 border border-slate-700 text-slate-100 text-sm px-2 py-1';
+        const baseCls = `w-full rounded-md bg-slate-900/70 border ${inp.error ? 'border-red-500' : 'border-slate-700'} text-slate-100 text-sm px-2 py-1`;
 
         return (
           <div key={inp.id} className="space-y-1">
@@ -62,6 +61,15 @@ export function InputsRenderer({
               />
             )}
 
+            {inp.type === 'month' && (
+              <Input
+                type="month"
+                className={baseCls}
+                value={inp.value ?? ''}
+                onChange={e => inp.onChange(e.target.value)}
+              />
+            )}
+
             {inp.type === 'select' && (
               <select
                 className={baseCls}
@@ -85,6 +93,8 @@ export function InputsRenderer({
                 {inp.value ? 'ON' : 'OFF'}
               </Button>
             )}
+
+            {inp.error && <p className="text-xs text-red-400">{inp.error}</p>}
           </div>
         );
       })}
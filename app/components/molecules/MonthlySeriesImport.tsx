@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/app/components/atoms/button';
+import LabelWithInfo from './LabelWithInfo';
+import {
+  MonthlySeries,
+  alignMonthlySeries,
+  parseMonthlySeries,
+} from '@/app/calculation/utils/parseMonthlySeries';
+
+/***********************************
+ * Paste / upload of a custom monthly series (CSV or JSON), e.g. BTC prices or HICP
+ ***********************************/
+interface MonthlySeriesImportProps {
+  label: string;
+  tooltip: string;
+  /** nazwa wartości w komunikatach błędów, np. "price" */
+  valueName: string;
+  placeholder: string;
+  /** tekst, gdy nic nie zaimportowano */
+  emptyText: string;
+  series: MonthlySeries | null;
+  /** data startu symulacji; gdy podana – szereg z datami musi ją obejmować */
+  startDate?: string;
+  onApply: (series: MonthlySeries) => void;
+  onClear: () => void;
+}
+
+export function MonthlySeriesImport({
+  label,
+  tooltip,
+  valueName,
+  placeholder,
+  emptyText,
+  series,
+  startDate,
+  onApply,
+  onClear,
+}: MonthlySeriesImportProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (value: string) => {
+    try {
+      const parsed = parseMonthlySeries(value, valueName);
+      if (startDate) alignMonthlySeries(parsed, startDate, valueName);
+      onApply(parsed);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    apply(content);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <LabelWithInfo text={label} tip={tooltip} />
+      <textarea
+        className="w-full h-28 rounded-md bg-slate-900/70 border border-slate-700 text-slate-100 text-xs font-mono px-2 py-1"
+        value={text}
+        placeholder={placeholder}
+        onChange={e => setText(e.target.value)}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          className="bg-emerald-600 hover:bg-emerald-500"
+          onClick={() => apply(text)}
+        >
+          Apply
+        </Button>
+        <label className="inline-flex h-9 items-center rounded-md px-3 text-sm font-medium bg-slate-700 hover:bg-slate-600 text-white cursor-pointer">
+          Upload file
+          <input
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </label>
+        {series && (
+          <Button
+            type="button"
+            size="sm"
+            className="bg-slate-700 hover:bg-slate-600"
+            onClick={() => {
+              onClear();
+              setError(null);
+            }}
+          >
+            Clear
+          </Button>
+        )}
+        <span className="text-xs text-slate-400">
+          {series
+            ? `Using ${series.values.length} custom month(s)${series.startMonth ? ` from ${series.startMonth}` : ''}`
+            : emptyText}
+        </span>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -3,13 +3,16 @@
 import React, { useMemo, useState } from 'react';
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip as RechartsTooltip,
   Legend,
+  ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
 import { InputsRenderer } from './InputsRenderer';
 
@@ -42,7 +45,52 @@ export interface SeriesConfig {
   dot?: boolean;
 }
 
-export type InputKind = 'number' | 'text' | 'select' | 'toggle';
+export interface BandConfig {
+  /** unikalne ID pasma */
+  id: string;
+  /** etykieta w tooltipie/przełącznikach */
+  name: string;
+  /** klucz dolnej granicy pasma, np. "valueP5" */
+  lowerKey: string;
+  /** klucz górnej granicy pasma, np. "valueP95" */
+  upperKey: string;
+  /** kolor wypełnienia (CSS color) */
+  color?: string;
+  /** przezroczystość wypełnienia (domyślnie 0.2) */
+  fillOpacity?: number;
+  /** oś Y: left (domyślnie) lub right */
+  yAxisId?: AxisId;
+  /** widoczność startowa (domyślnie true) */
+  visible?: boolean;
+}
+
+export interface ReferenceLineConfig {
+  /** unikalne ID znacznika */
+  id: string;
+  /** wartość na osi X (taka sama jak w data[xKey]) */
+  x: string | number;
+  /** etykieta przy linii (opcjonalnie) */
+  label?: string;
+  /** kolor linii (CSS color) */
+  color?: string;
+  /** styl przerywanej linii (domyślnie "4 4") */
+  strokeDasharray?: string;
+}
+
+export interface ReferenceAreaConfig {
+  /** unikalne ID obszaru */
+  id: string;
+  /** początek obszaru na osi X (taka sama wartość jak w data[xKey]) */
+  x1: string | number;
+  /** koniec obszaru na osi X */
+  x2: string | number;
+  /** etykieta w obszarze (opcjonalnie) */
+  label?: string;
+  /** kolor wypełnienia (CSS color) */
+  color?: string;
+}
+
+export type InputKind = 'number' | 'text' | 'month' | 'select' | 'toggle';
 
 export interface InputOption {
   label: string;
@@ -61,6 +109,7 @@ export interface InputDef {
   step?: number;
   options?: InputOption[]; // dla select
   tooltip?: string;
+  error?: string; // komunikat walidacji wyświetlany pod polem
 }
 
 export interface StandaloneTimeseriesChartProps<T extends Record<string, any>> {
@@ -76,6 +125,12 @@ export interface StandaloneTimeseriesChartProps<T extends Record<string, any>> {
   xKey: keyof T & string;
   /** definicje serii */
   series: SeriesConfig[];
+  /** pasma (np. percentyle Monte Carlo) rysowane pod liniami (opcjonalnie) */
+  bands?: BandConfig[];
+  /** pionowe znaczniki na osi X, np. daty halvingów (opcjonalnie) */
+  referenceLines?: ReferenceLineConfig[];
+  /** zacienione zakresy osi X, np. okna zdarzeń stresowych (opcjonalnie) */
+  referenceAreas?: ReferenceAreaConfig[];
   /** definicje inputów (opcjonalnie) */
   inputs?: InputDef[];
   /** włącz/wyłącz legendę (domyślnie false, bo są toggles niżej) */
@@ -121,6 +176,9 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
     data,
     xKey,
     series,
+    bands = [],
+    referenceLines = [],
+    referenceAreas = [],
     inputs = [],
     xTickFormatter = (v: any) => String(v),
     leftTickFormatter = defaultNumFmt,
@@ -133,17 +191,21 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
 
   // Początkowa widoczność na podstawie "visible" lub true
   const initiallyVisible = useMemo(
-    () => new Set(series.filter(s => s.visible !== false).map(s => s.id)),
-    [series]
+    () =>
+      new Set(
+        [...bands, ...series].filter(s => s.visible !== false).map(s => s.id)
+      ),
+    [series, bands]
   );
   const [visible, setVisible] = useState<Set<string>>(initiallyVisible);
 
   const hasRightAxis = useMemo(
-    () => series.some(s => (s.yAxisId ?? 'left') === 'right'),
-    [series]
+    () => [...series, ...bands].some(s => (s.yAxisId ?? 'left') === 'right'),
+    [series, bands]
   );
 
-  const showAll = () => setVisible(new Set(series.map(s => s.id)));
+  const showAll = () =>
+    setVisible(new Set([...bands, ...series].map(s => s.id)));
   const hideAll = () => setVisible(new Set());
   const toggleSeries = (id: string) =>
     setVisible(prev => {
@@ -198,7 +260,7 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
       {/* Chart */}
       <div style={{ height }} className="w-full">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data}>
+          <ComposedChart data={data}>
             <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.15} />
             <XAxis
               dataKey={xKey}
@@ -222,11 +284,19 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
               />
             )}
             <RechartsTooltip
-              formatter={(v: any, name: string) =>
-                tooltipFormatter
+              formatter={(v: any, name: string) => {
+                if (Array.isArray(v)) {
+                  const [low, high] = v.map(x =>
+                    tooltipFormatter
+                      ? tooltipFormatter(x, name)[0]
+                      : defaultNumFmt(Number(x))
+                  );
+                  return [`${low} – ${high}`, name];
+                }
+                return tooltipFormatter
                   ? tooltipFormatter(v, name)
-                  : [defaultNumFmt(Number(v)), name]
-              }
+                  : [defaultNumFmt(Number(v)), name];
+              }}
               contentStyle={{
                 background: '#0b1220',
                 color: '#e5e7eb',
@@ -239,6 +309,65 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
               <Legend wrapperStyle={{ fontSize: 12, color: '#e5e7eb' }} />
             )}
 
+            {referenceAreas.map(a => (
+              <ReferenceArea
+                key={a.id}
+                x1={a.x1}
+                x2={a.x2}
+                yAxisId="left"
+                fill={a.color ?? '#ef4444'}
+                fillOpacity={0.12}
+                stroke="none"
+                label={
+                  a.label
+                    ? {
+                        value: a.label,
+                        position: 'insideTop',
+                        fill: a.color ?? '#ef4444',
+                        fontSize: 10,
+                      }
+                    : undefined
+                }
+              />
+            ))}
+
+            {referenceLines.map(r => (
+              <ReferenceLine
+                key={r.id}
+                x={r.x}
+                yAxisId="left"
+                stroke={r.color ?? '#94a3b8'}
+                strokeDasharray={r.strokeDasharray ?? '4 4'}
+                label={
+                  r.label
+                    ? {
+                        value: r.label,
+                        position: 'insideTopLeft',
+                        fill: r.color ?? '#94a3b8',
+                        fontSize: 10,
+                      }
+                    : undefined
+                }
+              />
+            ))}
+
+            {bands.map((b, i) =>
+              visible.has(b.id) ? (
+                <Area
+                  key={b.id}
+                  yAxisId={b.yAxisId ?? 'left'}
+                  type="monotone"
+                  dataKey={(d: T) => [d[b.lowerKey], d[b.upperKey]]}
+                  name={b.name}
+                  stroke="none"
+                  fill={b.color ?? DEFAULT_PALETTE[i % DEFAULT_PALETTE.length]}
+                  fillOpacity={b.fillOpacity ?? 0.2}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+              ) : null
+            )}
+
             {series.map((s, i) =>
               visible.has(s.id) ? (
                 <Line
@@ -257,7 +386,7 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
                 />
               ) : null
             )}
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
@@ -278,7 +407,7 @@ export function StandaloneTimeseriesChart<T extends Record<string, any>>(
           Hide all
         </button>
 
-        {series.map((s, i) => {
+        {[...bands, ...series].map((s, i) => {
           const isOn = visible.has(s.id);
           const color = s.color ?? DEFAULT_PALETTE[i % DEFAULT_PALETTE.length];
           return (
@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
+import { CURRENCY_SYMBOLS } from '../../calculation/utils/getFxPath';
+import { InvestmentApproach } from '../../calculation/compareLumpSumVsDca';
+
+const APPROACH_LABELS: Record<InvestmentApproach, string> = {
+  [InvestmentApproach.LumpSum]: 'Lump sum at start',
+  [InvestmentApproach.Spread]: 'Spread evenly',
+  [InvestmentApproach.PlanDca]: 'Current DCA plan',
+};
+
+/***********************************
+ * Lump Sum vs DCA Comparison Component
+ ***********************************/
+const LumpSumComparisonCard: React.FC = () => {
+  const { lumpSumComparison, lumpSumComparisonData, currencyData } =
+    useBTCPension();
+
+  if (!lumpSumComparison) return null;
+
+  const symbol = CURRENCY_SYMBOLS[currencyData.quoteCurrency];
+  const money = (value: number) =>
+    `${symbol}${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="bg-slate-800/60 backdrop-blur rounded-lg px-4 py-3 border border-slate-700">
+      <div className="text-xs uppercase tracking-wide text-gray-400 mb-2">
+        Lump Sum vs DCA (same price path)
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-gray-300">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-1 pr-4 font-normal">Approach</th>
+              <th className="py-1 pr-4 font-normal">Invested</th>
+              <th className="py-1 pr-4 font-normal">Final BTC</th>
+              <th className="py-1 pr-4 font-normal">Final Value</th>
+              <th className="py-1 pr-4 font-normal">Value / Invested</th>
+              <th className="py-1 pr-4 font-normal">Max Drawdown</th>
+              <th className="py-1 pr-4 font-normal">Worst Loss</th>
+              <th className="py-1 font-normal">Months Underwater</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lumpSumComparison.map(result => (
+              <tr key={result.approach} className="border-t border-slate-700">
+                <td className="py-1 pr-4 text-white">
+                  {APPROACH_LABELS[result.approach]}
+                  {result.approach === InvestmentApproach.Spread
+                    ? ` (${lumpSumComparisonData.spreadMonths} mo)`
+                    : ''}
+                </td>
+                <td className="py-1 pr-4">
+                  {money(result.totalContributedInEuro)}
+                </td>
+                <td className="py-1 pr-4">
+                  {result.finalBtcHolding.toFixed(4)}
+                </td>
+                <td className="py-1 pr-4">{money(result.finalValueInEuro)}</td>
+                <td className="py-1 pr-4">
+                  {result.valuePerContributedEuro.toFixed(2)}×
+                </td>
+                <td className="py-1 pr-4">{pct(result.maxDrawdownPct)}</td>
+                <td className="py-1 pr-4">{pct(result.maxLossPct)}</td>
+                <td className="py-1">{result.monthsUnderwater}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LumpSumComparisonCard;
@@ -7,14 +7,84 @@ import {
   CardHeader,
   CardTitle,
 } from '@/app/components/atoms/card';
-import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
+import {
+  YieldScheduleData,
+  useBTCPension,
+} from '../providers/BtcTreasuryGrowthSimulationProvider';
+import { PriceModelType } from '../../calculation/utils/getBtcPricePath';
+import { RegimeSwitchingMode } from '../../calculation/utils/getRegimeSwitchingBtcPricePath';
+import { CpiModelType } from '../../calculation/utils/getCpiPath';
+import { YieldScheduleType } from '../../calculation/utils/getMonthlyYieldRates';
+import { FxModelType } from '../../calculation/utils/getFxPath';
+import { CALENDAR_MONTH_NAMES } from '../../calculation/utils/getMonthDate';
+import { PurchaseFundingType } from '../../calculation/utils/calculatePurchaseGoals';
+import { CounterpartyRiskMode } from '../../calculation/utils/calculateCounterpartyRisk';
+import { ReferralRewardBasis } from '../../calculation/utils/calculateReferralIncome';
+import { PERPETUAL_PAYOUT_YEARS } from '../../calculation/solveSustainableWithdrawal';
+import {
+  LotMethod,
+  getTaxJurisdiction,
+} from '../../calculation/utils/calculateCapitalGainsTax';
+import {
+  ContributionStrategyType,
+  DipReference,
+} from '../../calculation/utils/calculateContributionStrategy';
+
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// opis harmonogramu yieldu, np. "4.00% APY, falling linearly to 0.50% over 10 years"
+function describeYield(
+  yearlyYieldPct: number,
+  schedule: YieldScheduleData
+): string {
+  switch (schedule.type) {
+    case YieldScheduleType.Yearly:
+      return `APY by year ${schedule.yearlyRatesText} %, then the last rate`;
+    case YieldScheduleType.LinearDecay:
+      return `${pct(yearlyYieldPct)} APY, falling linearly to ${pct(schedule.floorPct)} over ${schedule.decayYears} years`;
+    case YieldScheduleType.ExponentialDecay:
+      return `${pct(yearlyYieldPct)} APY, decaying towards ${pct(schedule.floorPct)} (half-life ${schedule.halfLifeYears} years)`;
+    case YieldScheduleType.CpiLinked:
+      return `APY = inflation × ${schedule.cpiMultiplier} + ${pct(schedule.cpiSpreadPct)} (at least ${pct(schedule.floorPct)})`;
+    default:
+      return `${pct(yearlyYieldPct)} APY`;
+  }
+}
 
 /***********************************
  * Model Assumptions Display Component
  ***********************************/
 const ModelAssumptionsCard: React.FC = () => {
-  const { marketData, userData, platformData, simulationSettings, yieldData } =
-    useBTCPension();
+  const {
+    marketData,
+    userData,
+    platformData,
+    simulationSettings,
+    yieldData,
+    currencyData,
+    decumulationData,
+    monteCarloData,
+    loanData,
+    fundsDepletedMonth,
+    liquidationMonths,
+    purchaseGoals,
+    purchaseGoalMonths,
+    taxData,
+    counterpartyRiskData,
+    selfCustodySeries,
+    referralData,
+    lastUserSnapshot,
+  } = useBTCPension();
+  const schedule = userData.contributionSchedule;
+  const strategy = userData.contributionStrategy;
+  const hasContributionSchedule = Boolean(
+    schedule.yearlyStepUpPct ||
+      schedule.pauses?.length ||
+      schedule.stopMonth !== undefined ||
+      schedule.lumpSums?.length ||
+      (schedule.yearlyBonusMonth !== undefined &&
+        schedule.yearlyBonusMultiplier)
+  );
 
   return (
     <Card className="bg-slate-800/60 backdrop-blur rounded-2xl border border-slate-700 shadow-xl">
@@ -27,20 +97,258 @@ const ModelAssumptionsCard: React.FC = () => {
             Key assumptions (ideal conditions)
           </h3>
           <ul className="list-disc pl-6 space-y-1 text-gray-300">
+            {marketData.priceModel === PriceModelType.RegimeSwitching ? (
+              <li>
+                <strong>Accumulation</strong>: monthly DCA in{' '}
+                {currencyData.contributionCurrency}; BTC price switches between
+                bull (
+                {(marketData.regimeSwitching.bull.monthlyDrift * 100).toFixed(
+                  1
+                )}
+                %/mo, ~{marketData.regimeSwitching.bull.averageDurationMonths}{' '}
+                months) and bear (
+                {(marketData.regimeSwitching.bear.monthlyDrift * 100).toFixed(
+                  1
+                )}
+                %/mo, ~{marketData.regimeSwitching.bear.averageDurationMonths}{' '}
+                months)
+                {marketData.regimeSwitching.enableSideways
+                  ? ' and sideways'
+                  : ''}{' '}
+                regimes (
+                {marketData.regimeSwitching.mode ===
+                RegimeSwitchingMode.Stochastic
+                  ? `stochastic, seed ${marketData.regimeSwitching.seed}`
+                  : 'expected regime'}
+                ).
+              </li>
+            ) : marketData.priceModel === PriceModelType.PowerLaw ? (
+              <li>
+                <strong>Accumulation</strong>: monthly DCA in{' '}
+                {currencyData.contributionCurrency}; BTC price follows a power
+                law {marketData.powerLaw.coefficient.toExponential(2)} × (days
+                since genesis)^{marketData.powerLaw.exponent}
+                {marketData.powerLaw.reversionYears > 0
+                  ? `, initial gap to trend fades over ${marketData.powerLaw.reversionYears} years`
+                  : ', parallel to the trend'}
+                {marketData.powerLaw.enableCorridor
+                  ? ` within a ${marketData.powerLaw.supportMultiple}×–${marketData.powerLaw.resistanceMultiple}× corridor`
+                  : ''}{' '}
+                (no volatility).
+              </li>
+            ) : marketData.priceModel === PriceModelType.HistoricalBootstrap ? (
+              <li>
+                <strong>Accumulation</strong>: monthly DCA in{' '}
+                {currencyData.contributionCurrency}; BTC price path built from
+                historical BTC/EUR monthly returns in{' '}
+                {marketData.historicalBootstrap.blockLengthMonths}-month blocks
+                (seed {marketData.historicalBootstrap.seed})
+                {marketData.historicalBootstrap.demean
+                  ? `, de-meaned to ${(marketData.btcCagrAsymptote * 100).toFixed(2)}% long-run CAGR`
+                  : ', with the historical drift'}
+                .
+              </li>
+            ) : (
+              <li>
+                <strong>Accumulation</strong>: monthly DCA in{' '}
+                {currencyData.contributionCurrency}; BTC price grows from{' '}
+                {(marketData.btcCagrToday * 100).toFixed(2)}% to{' '}
+                {(marketData.btcCagrAsymptote * 100).toFixed(2)}% CAGR over{' '}
+                {marketData.settleYears} years (no volatility).
+              </li>
+            )}
+            {marketData.customPriceSeries && (
+              <li>
+                <strong>Custom Price Path</strong>: first{' '}
+                {marketData.customPriceSeries.values.length} month(s) use
+                imported prices
+                {marketData.customPriceSeries.startMonth
+                  ? ` from ${marketData.customPriceSeries.startMonth}`
+                  : ''}
+                ; later months follow the selected model.
+              </li>
+            )}
+            {marketData.stressEvents.map((event, index) => (
+              <li key={`stress-${index}`}>
+                <strong>Stress Event</strong>: {event.name ?? 'crash'} – −
+                {(event.drawdown * 100).toFixed(0)}% from month{' '}
+                {event.startMonth} over {event.crashMonths} months
+                {event.recoveryMonths > 0
+                  ? `, back to the price path after ${(event.plateauMonths ?? 0) + event.recoveryMonths} more months`
+                  : ', no recovery'}
+                .
+              </li>
+            ))}
+            {marketData.enableHalvingCycle && (
+              <li>
+                <strong>Halving Cycle</strong>: peak{' '}
+                {marketData.halvingCycle.peakMultiple}× trend{' '}
+                {marketData.halvingCycle.peakMonthsAfterHalving} months after
+                each halving, then −
+                {(marketData.halvingCycle.postPeakDrawdown * 100).toFixed(0)}%
+                over {marketData.halvingCycle.troughMonthsAfterPeak} months;
+                amplitude × {marketData.halvingCycle.amplitudeDecay} per cycle
+                (long-run CAGR unchanged).
+              </li>
+            )}
+            {currencyData.contributionCurrency !==
+              currencyData.quoteCurrency && (
+              <li>
+                <strong>Currencies</strong>: BTC priced in{' '}
+                {currencyData.quoteCurrency}, contributions in{' '}
+                {currencyData.contributionCurrency} converted at{' '}
+                {currencyData.fxModel === FxModelType.Imported &&
+                currencyData.fxSeries
+                  ? `imported ${currencyData.contributionCurrency}/${currencyData.quoteCurrency} rates for ${currencyData.fxSeries.values.length} month(s)`
+                  : `${currencyData.fxInitialRate} ${currencyData.contributionCurrency}/${currencyData.quoteCurrency}`}
+                {currencyData.fxModel !== FxModelType.Constant &&
+                currencyData.fxAnnualDrift !== 0
+                  ? `, drifting ${(currencyData.fxAnnualDrift * 100).toFixed(2)}% per year`
+                  : ''}
+                .
+              </li>
+            )}
+            {hasContributionSchedule && (
+              <li>
+                <strong>Contribution Schedule</strong>:{' '}
+                {[
+                  schedule.yearlyStepUpPct
+                    ? `DCA raised ${pct(schedule.yearlyStepUpPct)} every year`
+                    : null,
+                  schedule.yearlyBonusMonth !== undefined &&
+                  schedule.yearlyBonusMultiplier
+                    ? `${schedule.yearlyBonusMultiplier}× DCA bonus every ${CALENDAR_MONTH_NAMES[schedule.yearlyBonusMonth]}`
+                    : null,
+                  schedule.pauses?.length
+                    ? `${schedule.pauses.length} break(s) without contributions`
+                    : null,
+                  schedule.stopMonth !== undefined
+                    ? `DCA stops in year ${(schedule.stopMonth / 12).toFixed(1)}`
+                    : null,
+                  schedule.lumpSums?.length
+                    ? `${schedule.lumpSums.length} lump sum(s) totalling ${schedule.lumpSums.reduce((sum, lumpSum) => sum + lumpSum.amountInEuro, 0).toLocaleString()} ${currencyData.contributionCurrency}`
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join('; ')}
+                .
+              </li>
+            )}
+            {strategy.type !== ContributionStrategyType.FlatDca && (
+              <li>
+                <strong>Contribution Strategy</strong>:{' '}
+                {strategy.type === ContributionStrategyType.ValueAveraging
+                  ? `value averaging – each month tops the portfolio up to a target path growing ${pct(strategy.targetYearlyReturnPct ?? 0)} per year plus the scheduled DCA`
+                  : `buy the dip – ${strategy.dipMultiplier}× DCA when BTC is ${pct(strategy.dipThresholdPct ?? 0)} or more below its ${strategy.dipReference === DipReference.AllTimeHigh ? 'all-time high' : `${strategy.movingAverageMonths ?? 12}-month average`}`}
+                {strategy.maxMonthlyMultiple !== undefined
+                  ? `; at most ${strategy.maxMonthlyMultiple}× DCA per month`
+                  : ''}
+                {strategy.totalBudgetInEuro !== undefined
+                  ? `; total budget ${strategy.totalBudgetInEuro.toLocaleString()} ${currencyData.contributionCurrency}`
+                  : ''}
+                .
+              </li>
+            )}
             <li>
-              <strong>Accumulation</strong>: monthly DCA in EUR; BTC price grows
-              from {(marketData.btcCagrToday * 100).toFixed(2)}% to{' '}
-              {(marketData.btcCagrAsymptote * 100).toFixed(2)}% CAGR over{' '}
-              {marketData.settleYears} years (no volatility).
-            </li>
-            <li>
-              <strong>Inflation</strong>: CPI rate{' '}
-              {(marketData.cpi * 100).toFixed(2)}% annually.{' '}
+              <strong>Inflation</strong>:{' '}
+              {marketData.cpiModel === CpiModelType.Schedule
+                ? `yearly CPI schedule ${marketData.cpiScheduleText} %, then the last rate.`
+                : marketData.cpiModel === CpiModelType.MeanReverting
+                  ? `CPI starts at ${(marketData.cpiMeanReverting.initialRate * 100).toFixed(2)}% and reverts to ${(marketData.cpiMeanReverting.longRunRate * 100).toFixed(2)}% (speed ${marketData.cpiMeanReverting.reversionSpeed}/yr, volatility ${(marketData.cpiMeanReverting.annualVolatility * 100).toFixed(2)}%, seed ${marketData.cpiMeanReverting.seed}).`
+                  : marketData.cpiModel === CpiModelType.Imported &&
+                      marketData.cpiIndexSeries
+                    ? `imported CPI index for ${marketData.cpiIndexSeries.values.length} month(s), then ${(marketData.cpi * 100).toFixed(2)}% annually.`
+                    : `CPI rate ${(marketData.cpi * 100).toFixed(2)}% annually.`}{' '}
               <strong>
                 Indexing {marketData.enableIndexing ? 'ON' : 'OFF'}
               </strong>{' '}
               — when ON: contributions increase with inflation.
             </li>
+            {decumulationData.enabled && (
+              <li>
+                <strong>Payout Phase</strong>: from year{' '}
+                {(decumulationData.startMonth / 12).toFixed(1)} DCA stops and{' '}
+                {decumulationData.monthlyWithdrawalInEuro.toLocaleString()}{' '}
+                {currencyData.contributionCurrency}/month
+                {decumulationData.enableIndexing ? ' (CPI-indexed)' : ''} is
+                paid out by selling BTC (exchange fee applies, yield keeps
+                accruing);{' '}
+                {fundsDepletedMonth !== null
+                  ? `funds run out in year ${(fundsDepletedMonth / 12).toFixed(1)}.`
+                  : 'funds last the whole horizon.'}
+              </li>
+            )}
+            {loanData.enabled && (
+              <li>
+                <strong>Collateral Loan</strong>: from year{' '}
+                {(loanData.startMonth / 12).toFixed(1)}{' '}
+                {loanData.monthlyDrawInEuro
+                  ? `${loanData.monthlyDrawInEuro.toLocaleString()} ${currencyData.contributionCurrency}/month${loanData.enableIndexing ? ' (CPI-indexed)' : ''} is borrowed`
+                  : 'a one-off loan is drawn'}{' '}
+                up to {(loanData.targetLtv * 100).toFixed(0)}% LTV at{' '}
+                {(loanData.yearlyInterestRate * 100).toFixed(2)}% interest
+                {loanData.autoRebalance ? ', rebalanced monthly' : ''}
+                {loanData.marginCallLtv
+                  ? `; margin call at ${(loanData.marginCallLtv * 100).toFixed(0)}% LTV`
+                  : ''}
+                {loanData.liquidationLtv
+                  ? `; liquidation at ${(loanData.liquidationLtv * 100).toFixed(0)}% LTV`
+                  : ''}
+                {liquidationMonths.length > 0
+                  ? ` — liquidated in year ${(liquidationMonths[0] / 12).toFixed(1)}, after which the loan draws no further tranches.`
+                  : '.'}
+              </li>
+            )}
+            {purchaseGoals.length > 0 && (
+              <li>
+                <strong>Purchase Goals</strong>:{' '}
+                {purchaseGoals
+                  .map(
+                    (goal, i) =>
+                      `${goal.name} (${goal.priceInEuro.toLocaleString()} ${currencyData.contributionCurrency}${goal.enableIndexing ? ', CPI-indexed' : ''}, ${goal.funding === PurchaseFundingType.Borrow ? `borrowing up to ${((goal.ltv ?? 0) * 100).toFixed(0)}% LTV` : 'selling BTC'}) — ${purchaseGoalMonths[i] !== null ? `affordable in year ${(purchaseGoalMonths[i]! / 12).toFixed(1)}${goal.execute ? ', bought' : ''}` : 'not affordable within the horizon'}`
+                  )
+                  .join('; ')}
+                .
+              </li>
+            )}
+            {taxData.enabled && (
+              <li>
+                <strong>Taxes</strong>:{' '}
+                {getTaxJurisdiction(taxData.jurisdiction).name} rules,{' '}
+                {pct(taxData.capitalGainsTaxRate)} on yearly realized gains
+                (losses carried forward)
+                {getTaxJurisdiction(taxData.jurisdiction)
+                  .holdingPeriodExemptionMonths
+                  ? `, exempt after ${getTaxJurisdiction(taxData.jurisdiction).holdingPeriodExemptionMonths} months of holding`
+                  : ''}
+                ;{' '}
+                {taxData.yieldIncomeTaxRate
+                  ? `yield taxed as income at ${pct(taxData.yieldIncomeTaxRate)}`
+                  : 'yield taxed only when sold'}
+                ; lots matched by{' '}
+                {taxData.lotMethod === LotMethod.AverageCost
+                  ? 'average cost'
+                  : taxData.lotMethod.toUpperCase()}
+                . Tax is paid every December by selling BTC — after-tax value at
+                the end:{' '}
+                {Math.round(
+                  lastUserSnapshot.afterTaxValueInEuro
+                ).toLocaleString()}{' '}
+                {currencyData.quoteCurrency}.
+              </li>
+            )}
+            <li>
+              <strong>Sustainable Income</strong>: the largest monthly
+              withdrawal from year{' '}
+              {(decumulationData.startMonth / 12).toFixed(1)} that does not run
+              out{' '}
+              {decumulationData.payoutYears
+                ? `within ${decumulationData.payoutYears} years`
+                : `within ${PERPETUAL_PAYOUT_YEARS} years (the perpetual payout horizon)`}
+              {monteCarloData.enabled
+                ? ` on ${(decumulationData.successProbability * 100).toFixed(0)}% of the Monte Carlo price paths.`
+                : ' on the deterministic price path.'}
+            </li>
             <li>
               <strong>Platform Fees</strong>: yield fee{' '}
               {(platformData.platformFeeFromYieldPct * 100).toFixed(2)}% from
@@ -50,9 +358,69 @@ const ModelAssumptionsCard: React.FC = () => {
             </li>
             <li>
               <strong>Earn Yield</strong>:{' '}
-              {(yieldData.userYearlyYieldPct * 100).toFixed(2)}% APY on
-              accumulated BTC.
+              {describeYield(
+                yieldData.userYearlyYieldPct,
+                yieldData.userYieldSchedule
+              )}{' '}
+              on accumulated BTC.
             </li>
+            {yieldData.userStakingTiers.length > 0 && (
+              <li>
+                <strong>Staking Tiers</strong>:{' '}
+                {yieldData.userStakingTiers
+                  .map(
+                    tier =>
+                      `${tier.name} ${(tier.allocationPct * 100).toFixed(0)}% at ${(tier.apy * 100).toFixed(2)}% APY` +
+                      (tier.lockUpMonths
+                        ? ` (${tier.lockUpMonths}-month lock-up, ${((tier.earlyExitPenaltyPct ?? 0) * 100).toFixed(0)}% early-exit penalty)`
+                        : '')
+                  )
+                  .join(', ')}
+                ; the unallocated rest earns the base yield. Sales use the
+                passive share first, then unlocked, then locked BTC.
+              </li>
+            )}
+            {counterpartyRiskData.enabled && (
+              <li>
+                <strong>Counterparty Risk</strong>:{' '}
+                {pct(counterpartyRiskData.yearlyDefaultProbability)} yearly
+                default probability,{' '}
+                {pct(counterpartyRiskData.lossGivenDefaultPct)} loss given
+                default on {pct(counterpartyRiskData.maxExposurePct)} of the
+                holdings
+                {counterpartyRiskData.mode === CounterpartyRiskMode.Expected
+                  ? ', applied as a monthly expected-loss haircut'
+                  : ', sampled as random default events'}
+                {monteCarloData.enabled
+                  ? ' (Monte Carlo paths sample default events)'
+                  : ''}
+                . Final holdings{' '}
+                {lastUserSnapshot.userAccumulatedBtcHolding.toFixed(4)} ₿ vs{' '}
+                {selfCustodySeries?.[
+                  selfCustodySeries.length - 1
+                ].userAccumulatedBtcHolding.toFixed(4)}{' '}
+                ₿ in self-custody at 0% yield.
+              </li>
+            )}
+            {referralData.enabled && (
+              <li>
+                <strong>Referrals</strong>:{' '}
+                {referralData.referralCount +
+                  referralData.referralSchedule.reduce(
+                    (sum, arrival) => sum + arrival.count,
+                    0
+                  )}{' '}
+                referred users on the same plan
+                {referralData.joinDelayMonths
+                  ? `, starting ${referralData.joinDelayMonths} months after the referral`
+                  : ''}
+                ; the user earns {pct(referralData.rewardSharePct)} of their{' '}
+                {referralData.rewardBasis === ReferralRewardBasis.Yield
+                  ? 'gross yield'
+                  : 'exchange fees'}{' '}
+                in BTC, paid by the platform out of its fees.
+              </li>
+            )}
             <li>
               <strong>Platform Growth</strong>:{' '}
               {platformData.userStarts.toLocaleString()} to{' '}
@@ -62,7 +430,11 @@ const ModelAssumptionsCard: React.FC = () => {
             </li>
             <li>
               <strong>Platform Investment</strong>: Platform reinvests fees at{' '}
-              {(yieldData.platformYearlyYieldPct * 100).toFixed(2)}% APY.
+              {describeYield(
+                yieldData.platformYearlyYieldPct,
+                yieldData.platformYieldSchedule
+              )}
+              .
             </li>
             <li>
               <strong>Cadence</strong>: all calculations are done monthly with
@@ -4,6 +4,8 @@ import React, { useMemo } from 'react';
 import {
   StandaloneTimeseriesChart,
   SeriesConfig,
+  ReferenceAreaConfig,
+  ReferenceLineConfig,
 } from '../molecules/StandaloneTimeseriesChart';
 import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
 import { formatNumber } from '@/lib/formatPrice';
@@ -30,6 +32,11 @@ const PlatformRevenueChart: React.FC<PlatformRevenueChartProps> = ({
     simulationSettings,
     platformWithInvestmentSeries,
     lastPlatformSnapshot,
+    halvingMonths,
+    stressEventWindows,
+    displayCurrencySymbol: cur,
+    displayFxRate,
+    referralData,
   } = useBTCPension();
 
   // Enhanced platform series with calculated values
@@ -37,41 +44,44 @@ const PlatformRevenueChart: React.FC<PlatformRevenueChartProps> = ({
     return platformWithInvestmentSeries.map((snapshot, index) => {
       const monthNumber = index + 1; // numer miesiąca (1-300)
       const yearNumber = monthNumber / 12; // lata (1/12 do 25)
+      const btcPriceInDisplayCurrency =
+        snapshot.btcPriceInEuro * displayFxRate[index];
 
       return {
         year: yearNumber, // konwertuj miesiące na lata
         month: monthNumber,
         yearLabel: `${yearNumber.toFixed(1)} years (${monthNumber} months)`, // etykieta z latami i miesiącami
-        btcPrice: snapshot.btcPriceInEuro,
+        btcPrice: btcPriceInDisplayCurrency,
         btcFeeFromYield: snapshot.btcFeeFromYield,
         btcFeeFromExchange: snapshot.btcFeeFromExchange,
         btcFeeTotal: snapshot.btcFeeTotal,
+        btcReferralPayout: snapshot.btcReferralPayout,
         platformWorkingBtc: snapshot.platformWorkingBtc,
         platformMonthlyYieldBtc: snapshot.platformMonthlyYieldBtc,
         platformPrincipalEndBtc: snapshot.platformPrincipalEndBtc,
         platformCapitalInEuro:
-          snapshot.platformPrincipalEndBtc * snapshot.btcPriceInEuro,
+          snapshot.platformPrincipalEndBtc * btcPriceInDisplayCurrency,
         totalUsers: snapshot.totalUsers,
         totalUsersBtcOnPlatform: snapshot.totalUsersBtcOnPlatform,
         aumBtc: snapshot.totalUsersBtcOnPlatform, // AUM w BTC (tylko BTC użytkowników)
         aumBtcInFiat:
-          snapshot.totalUsersBtcOnPlatform * snapshot.btcPriceInEuro, // AUM w euro
+          snapshot.totalUsersBtcOnPlatform * btcPriceInDisplayCurrency, // AUM w walucie prezentacji
       };
     });
-  }, [platformWithInvestmentSeries]);
+  }, [platformWithInvestmentSeries, displayFxRate]);
 
   // Chart series configuration
   const series: SeriesConfig[] = [
     {
       id: 'platformCapitalInEuro',
-      name: 'Platform Capital (€)',
+      name: `Platform Capital (${cur})`,
       dataKey: 'platformCapitalInEuro',
       color: '#f59e0b',
       yAxisId: 'left',
     },
     {
       id: 'aumBtcInFiat',
-      name: 'AUM (€)',
+      name: `AUM (${cur})`,
       dataKey: 'aumBtcInFiat',
       color: '#10b981',
       yAxisId: 'left',
@@ -79,7 +89,7 @@ const PlatformRevenueChart: React.FC<PlatformRevenueChartProps> = ({
     },
     {
       id: 'btcPrice',
-      name: 'BTC Price (€)',
+      name: `BTC Price (${cur})`,
       dataKey: 'btcPrice',
       color: '#ef4444',
       yAxisId: 'left',
@@ -131,8 +141,41 @@ const PlatformRevenueChart: React.FC<PlatformRevenueChartProps> = ({
       yAxisId: 'right',
       strokeDasharray: '3 1',
     },
+    // nagrody za polecenia (tylko gdy włączone) – już odjęte od Monthly Fees
+    ...(referralData.enabled
+      ? ([
+          {
+            id: 'btcReferralPayout',
+            name: 'Referral Payouts (₿)',
+            dataKey: 'btcReferralPayout',
+            color: '#e11d48',
+            yAxisId: 'right',
+            strokeDasharray: '2 2',
+          },
+        ] as SeriesConfig[])
+      : []),
   ];
 
+  // Halving markers (only when the halving cycle overlay is enabled)
+  const referenceLines: ReferenceLineConfig[] = halvingMonths
+    .filter(m => m < enhancedPlatformSeries.length)
+    .map(m => ({
+      id: `halving-${m}`,
+      x: enhancedPlatformSeries[m].yearLabel,
+      label: 'Halving',
+      color: '#eab308',
+    }));
+
+  // Stress event windows (crash → recovery)
+  const referenceAreas: ReferenceAreaConfig[] = stressEventWindows
+    .filter(w => w.endMonth < enhancedPlatformSeries.length)
+    .map(w => ({
+      id: `stress-${w.startMonth}`,
+      x1: enhancedPlatformSeries[w.startMonth].yearLabel,
+      x2: enhancedPlatformSeries[w.endMonth].yearLabel,
+      label: w.name,
+    }));
+
   return (
     <StandaloneTimeseriesChart
       title="Platform Revenue & Capital Growth"
@@ -141,6 +184,8 @@ const PlatformRevenueChart: React.FC<PlatformRevenueChartProps> = ({
       data={enhancedPlatformSeries}
       xKey="yearLabel"
       series={series}
+      referenceLines={referenceLines}
+      referenceAreas={referenceAreas}
       onFullscreenClick={onFullscreenClick}
       xTickFormatter={v => {
         // yearLabel ma format "X.Y years (Z months)", chcemy tylko pełne lata dla osi
@@ -14,10 +14,10 @@ interface PlatformTreasuryGrowthChartProps {
 /***********************************
  * Series Configuration
  ***********************************/
-const PLATFORM_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
+const getPlatformTreasuryGrowthSeries = (cur: string): SeriesConfig[] => [
   {
     id: 'platformCapitalInEuro',
-    name: 'Platform Capital (€)',
+    name: `Platform Capital (${cur})`,
     dataKey: 'platformCapitalInEuro',
     color: '#f59e0b',
     yAxisId: 'left',
@@ -61,13 +61,20 @@ const PLATFORM_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
 const PlatformTreasuryGrowthChart: React.FC<
   PlatformTreasuryGrowthChartProps
 > = ({ isOpen, onClose }) => {
-  const { simulationSettings, platformWithInvestmentSeries } = useBTCPension();
+  const {
+    simulationSettings,
+    platformWithInvestmentSeries,
+    halvingMonths,
+    stressEventWindows,
+    displayCurrencySymbol,
+    displayFxRate,
+  } = useBTCPension();
 
   // Enhanced platform series with calculated values
   const enhancedPlatformSeries = useMemo(() => {
     return platformWithInvestmentSeries.map((snapshot, index) => ({
       month: index,
-      btcPrice: snapshot.btcPriceInEuro,
+      btcPrice: snapshot.btcPriceInEuro * displayFxRate[index],
       btcFeeFromYield: snapshot.btcFeeFromYield,
       btcFeeFromExchange: snapshot.btcFeeFromExchange,
       btcFeeTotal: snapshot.btcFeeTotal,
@@ -75,9 +82,11 @@ const PlatformTreasuryGrowthChart: React.FC<
       platformMonthlyYieldBtc: snapshot.platformMonthlyYieldBtc,
       platformPrincipalEndBtc: snapshot.platformPrincipalEndBtc,
       platformCapitalInEuro:
-        snapshot.platformPrincipalEndBtc * snapshot.btcPriceInEuro,
+        snapshot.platformPrincipalEndBtc *
+        snapshot.btcPriceInEuro *
+        displayFxRate[index],
     }));
-  }, [platformWithInvestmentSeries]);
+  }, [platformWithInvestmentSeries, displayFxRate]);
 
   return (
     <FullscreenChartWrapper
@@ -90,7 +99,19 @@ const PlatformTreasuryGrowthChart: React.FC<
         height: 600,
         data: enhancedPlatformSeries,
         xKey: 'month',
-        series: PLATFORM_TREASURY_GROWTH_SERIES,
+        series: getPlatformTreasuryGrowthSeries(displayCurrencySymbol),
+        referenceLines: halvingMonths.map(m => ({
+          id: `halving-${m}`,
+          x: m,
+          label: 'Halving',
+          color: '#eab308',
+        })),
+        referenceAreas: stressEventWindows.map(w => ({
+          id: `stress-${w.startMonth}`,
+          x1: w.startMonth,
+          x2: w.endMonth,
+          label: w.name,
+        })),
         xTickFormatter: v => (v % 12 === 0 ? String(v / 12) : ''),
         leftTickFormatter: v => v.toLocaleString('en-US'),
         rightTickFormatter: v => formatNumber(v, { decimals: 8 }),
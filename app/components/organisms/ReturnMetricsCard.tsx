@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
+import { ReturnMetrics } from '../../calculation/utils/getReturnMetrics';
+import { PercentileBand } from '../../calculation/utils/getPercentile';
+
+const pct = (value: number) =>
+  isNaN(value) ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+const multiple = (value: number) => `${value.toFixed(2)}×`;
+const months = (value: number) => `${Math.round(value)} mo`;
+
+const METRICS: {
+  key: keyof ReturnMetrics;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: 'xirrPct', label: 'Money-Weighted (XIRR)', format: pct },
+  { key: 'twrPct', label: 'Time-Weighted (TWR)', format: pct },
+  { key: 'moic', label: 'MOIC', format: multiple },
+  { key: 'maxDrawdownPct', label: 'Max Drawdown', format: pct },
+  {
+    key: 'longestUnderwaterMonths',
+    label: 'Longest Underwater',
+    format: months,
+  },
+];
+
+/***********************************
+ * Return Metrics Summary Component
+ ***********************************/
+const ReturnMetricsCard: React.FC = () => {
+  const { returnMetrics, returnMetricsDistribution } = useBTCPension();
+
+  if (returnMetrics.investedInEuro <= 0) return null;
+
+  const range = (band: PercentileBand, format: (value: number) => string) =>
+    `P5–P95: ${format(band.p5)} – ${format(band.p95)}`;
+
+  return (
+    <div className="bg-slate-800/60 backdrop-blur rounded-lg px-4 py-3 border border-slate-700">
+      <div className="text-xs uppercase tracking-wide text-gray-400 mb-2">
+        Return Metrics
+        {returnMetricsDistribution
+          ? ' (before tax, median across Monte Carlo paths)'
+          : ' (before tax)'}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {METRICS.map(({ key, label, format }) => (
+          <div key={key}>
+            <div className="text-xs text-gray-400">{label}</div>
+            <div className="text-lg font-semibold text-white">
+              {format(
+                returnMetricsDistribution
+                  ? returnMetricsDistribution[key].p50
+                  : returnMetrics[key]
+              )}
+            </div>
+            {returnMetricsDistribution && (
+              <div className="text-xs text-gray-400">
+                {range(returnMetricsDistribution[key], format)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnMetricsCard;
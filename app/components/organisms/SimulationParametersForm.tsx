@@ -10,7 +10,118 @@ import {
 import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
 import { InputsRenderer } from '../molecules/InputsRenderer';
 import { InputDef } from '../molecules/StandaloneTimeseriesChart';
+import { MonthlySeriesImport } from '../molecules/MonthlySeriesImport';
+import { Button } from '@/app/components/atoms/button';
 import { GrowthType } from '../../calculation/utils/getPlatformUsersTimeline';
+import { PriceModelType } from '../../calculation/utils/getBtcPricePath';
+import {
+  MarketRegime,
+  RegimeSwitchingMode,
+} from '../../calculation/utils/getRegimeSwitchingBtcPricePath';
+import {
+  RecoveryShape,
+  StressEvent,
+  StressEventPreset,
+  STRESS_EVENT_PRESETS,
+  getStressEventFromPreset,
+} from '../../calculation/utils/applyStressEvents';
+import { CpiModelType } from '../../calculation/utils/getCpiPath';
+import { YieldScheduleType } from '../../calculation/utils/getMonthlyYieldRates';
+import { StakingTier } from '../../calculation/utils/calculateStakingTiers';
+import { CounterpartyRiskMode } from '../../calculation/utils/calculateCounterpartyRisk';
+import {
+  ReferralArrival,
+  ReferralRewardBasis,
+} from '../../calculation/utils/calculateReferralIncome';
+import {
+  CURRENCY_SYMBOLS,
+  Currency,
+  FxModelType,
+} from '../../calculation/utils/getFxPath';
+import { CALENDAR_MONTH_NAMES } from '../../calculation/utils/getMonthDate';
+import {
+  SavingsGoalType,
+  SavingsGoalVariable,
+} from '../../calculation/solveSavingsGoal';
+import { MAX_MONTE_CARLO_PATHS } from '../../calculation/simulateUserTreasuryGrowthMonteCarlo';
+import { PERPETUAL_PAYOUT_YEARS } from '../../calculation/solveSustainableWithdrawal';
+import {
+  PURCHASE_GOAL_PRESETS,
+  PurchaseFundingType,
+  PurchaseGoal,
+  PurchaseGoalPreset,
+} from '../../calculation/utils/calculatePurchaseGoals';
+import {
+  LotMethod,
+  TaxJurisdictionType,
+  getTaxJurisdiction,
+} from '../../calculation/utils/calculateCapitalGainsTax';
+import {
+  ContributionLumpSum,
+  ContributionPause,
+  ContributionSchedule,
+} from '../../calculation/utils/calculateMonthlyDcaInEuro';
+import {
+  ContributionStrategy,
+  ContributionStrategyType,
+  DipReference,
+} from '../../calculation/utils/calculateContributionStrategy';
+
+// Komunikaty walidacji silnika zaczynają się nazwą pola wejścia – mapa na id
+// pól formularza; indeks listy ("stakingTiers[2].apy") przechodzi do id wiersza
+const ENGINE_ERROR_FIELDS: Record<string, string> = {
+  startDate: 'startDate',
+  'fx.initialRate': 'fxInitialRate',
+  btcShockCorrelation: 'cpiBtcCorrelation',
+  yearlyStepUpPct: 'scheduleStepUp',
+  yearlyBonusMonth: 'scheduleBonusMonth',
+  yearlyBonusMultiplier: 'scheduleBonusMultiplier',
+  'pauses[]': 'pauseMonths-',
+  'lumpSums[].amountInEuro': 'lumpSumAmount-',
+  movingAverageMonths: 'strategyMovingAverageMonths',
+  dipThresholdPct: 'strategyDipThreshold',
+  dipMultiplier: 'strategyDipMultiplier',
+  maxMonthlyMultiple: 'strategyMaxMonthlyMultiple',
+  totalBudgetInEuro: 'strategyTotalBudget',
+  payoutYears: 'payoutYears',
+  successProbability: 'payoutSuccessProbability',
+  targetLtv: 'loanTargetLtv',
+  marginCallLtv: 'loanMarginCallLtv',
+  liquidationLtv: 'loanLiquidationLtv',
+  yearlyInterestRate: 'loanInterestRate',
+  'purchaseGoals[].priceInEuro': 'purchasePrice-',
+  'purchaseGoals[].ltv': 'purchaseLtv-',
+  capitalGainsTaxRate: 'taxCapitalGainsRate',
+  yieldIncomeTaxRate: 'taxYieldIncomeRate',
+  totalCapitalInEuro: 'lumpSumCapital',
+  spreadMonths: 'lumpSumSpreadMonths',
+  yearlyDefaultProbability: 'counterpartyDefaultProbability',
+  lossGivenDefaultPct: 'counterpartyLossGivenDefault',
+  maxExposurePct: 'counterpartyMaxExposure',
+  referralCount: 'referralCount',
+  rewardSharePct: 'referralRewardShare',
+  joinDelayMonths: 'referralJoinDelay',
+  'referralSchedule[].count': 'referralArrivalCount-',
+  'referralSchedule[].monthsAfterStart': 'referralArrivalYear-',
+  targetValue: 'goalTargetValue',
+  targetMonth: 'goalTargetYear',
+  stakingTiers: 'stakingAllocation-0',
+  'stakingTiers[].allocationPct': 'stakingAllocation-',
+  'stakingTiers[].apy': 'stakingApy-',
+  'stakingTiers[].lockUpMonths': 'stakingLockUp-',
+  'stakingTiers[].earlyExitPenaltyPct': 'stakingPenalty-',
+  'stakingTiers[].platformFeeFromYieldPct': 'stakingFee-',
+  numberOfPaths: 'numberOfPaths',
+};
+
+function getErrorFieldId(message: string): string | undefined {
+  const match = message.match(/^([\w.]+?)(?:\[(\d+)\])?(\.\w+)?[\s:]/);
+  if (!match) return undefined;
+  const [, name, index, property = ''] = match;
+  const fieldId =
+    ENGINE_ERROR_FIELDS[`${name}${index !== undefined ? '[]' : ''}${property}`];
+  return fieldId && index !== undefined ? `${fieldId}${index}` : fieldId;
+}
 
 /***********************************
  * Simulation Parameters Form Component
@@ -22,79 +133,669 @@ const SimulationParametersForm: React.FC = () => {
     platformData,
     simulationSettings,
     yieldData,
+    monteCarloData,
+    currencyData,
+    decumulationData,
+    goalSeekData,
+    savingsGoalResult,
+    strategyComparison,
+    loanData,
+    purchaseGoals,
+    taxData,
+    lumpSumComparisonData,
+    counterpartyRiskData,
+    referralData,
+    simulationErrors,
     setMarketData,
     setUserData,
     setPlatformData,
     setSimulationSettings,
     setYieldData,
+    setMonteCarloData,
+    setCurrencyData,
+    setDecumulationData,
+    setGoalSeekData,
+    setLoanData,
+    setPurchaseGoals,
+    setTaxData,
+    setLumpSumComparisonData,
+    setCounterpartyRiskData,
+    setReferralData,
   } = useBTCPension();
 
-  // BTC & Market Parameters
-  const marketInputs: InputDef[] = [
+  // błąd walidacji pod polem, którego dotyczy (pełna lista – nad formularzem)
+  const fieldErrors = new Map(
+    simulationErrors.flatMap(message => {
+      const fieldId = getErrorFieldId(message);
+      return fieldId ? [[fieldId, message] as const] : [];
+    })
+  );
+  const withFieldErrors = (inputs: InputDef[]): InputDef[] =>
+    inputs.map(input =>
+      fieldErrors.has(input.id)
+        ? { ...input, error: fieldErrors.get(input.id) }
+        : input
+    );
+
+  const setRegimeSwitching = (
+    patch: Partial<typeof marketData.regimeSwitching>
+  ) =>
+    setMarketData(prev => ({
+      ...prev,
+      regimeSwitching: { ...prev.regimeSwitching, ...patch },
+    }));
+
+  const regimeInputs = (
+    regime: 'bull' | 'bear' | 'sideways',
+    label: string
+  ): InputDef[] => {
+    const params = marketData.regimeSwitching[regime];
+    const setParams = (patch: Partial<typeof params>) =>
+      setRegimeSwitching({ [regime]: { ...params, ...patch } });
+    return [
+      {
+        id: `${regime}MonthlyDrift`,
+        label: `${label} Drift (%/mo)`,
+        type: 'number',
+        value: params.monthlyDrift * 100,
+        onChange: value => setParams({ monthlyDrift: Number(value) / 100 }),
+        step: 0.1,
+        tooltip: `Average monthly log-return in ${label.toLowerCase()} markets`,
+      },
+      {
+        id: `${regime}MonthlyVolatility`,
+        label: `${label} Volatility (%/mo)`,
+        type: 'number',
+        value: params.monthlyVolatility * 100,
+        onChange: value =>
+          setParams({ monthlyVolatility: Number(value) / 100 }),
+        min: 0,
+        step: 0.5,
+        tooltip: `Monthly volatility in ${label.toLowerCase()} markets (stochastic mode and Monte Carlo)`,
+      },
+      {
+        id: `${regime}AverageDuration`,
+        label: `${label} Duration (months)`,
+        type: 'number',
+        value: params.averageDurationMonths,
+        onChange: value =>
+          setParams({ averageDurationMonths: Math.max(1, Number(value)) }),
+        min: 1,
+        step: 1,
+        tooltip: `Average length of a ${label.toLowerCase()} phase; sets the chance of staying in it each month`,
+      },
+    ];
+  };
+
+  const setCpiMeanReverting = (
+    patch: Partial<typeof marketData.cpiMeanReverting>
+  ) =>
+    setMarketData(prev => ({
+      ...prev,
+      cpiMeanReverting: { ...prev.cpiMeanReverting, ...patch },
+    }));
+
+  // CPI Model Parameters (depend on the selected model)
+  const cpiModelInputs: Record<CpiModelType, InputDef[]> = {
+    [CpiModelType.Constant]: [],
+    [CpiModelType.Schedule]: [
+      {
+        id: 'cpiSchedule',
+        label: 'CPI by Year (%)',
+        type: 'text',
+        value: marketData.cpiScheduleText,
+        onChange: value =>
+          setMarketData(prev => ({ ...prev, cpiScheduleText: value })),
+        tooltip:
+          'Annual CPI for simulation years 1, 2, 3, … separated by commas; the last rate is kept afterwards',
+      },
+    ],
+    [CpiModelType.MeanReverting]: [
+      {
+        id: 'cpiInitialRate',
+        label: 'CPI Today (%)',
+        type: 'number',
+        value: marketData.cpiMeanReverting.initialRate * 100,
+        onChange: value =>
+          setCpiMeanReverting({ initialRate: Number(value) / 100 }),
+        step: 0.1,
+        tooltip: 'Current annual inflation rate',
+      },
+      {
+        id: 'cpiLongRunRate',
+        label: 'CPI Long-run (%)',
+        type: 'number',
+        value: marketData.cpiMeanReverting.longRunRate * 100,
+        onChange: value =>
+          setCpiMeanReverting({ longRunRate: Number(value) / 100 }),
+        step: 0.1,
+        tooltip: 'Level that inflation reverts to over time',
+      },
+      {
+        id: 'cpiReversionSpeed',
+        label: 'Reversion Speed (/yr)',
+        type: 'number',
+        value: marketData.cpiMeanReverting.reversionSpeed,
+        onChange: value =>
+          setCpiMeanReverting({ reversionSpeed: Math.max(0, Number(value)) }),
+        min: 0,
+        step: 0.1,
+        tooltip:
+          'How fast inflation returns to the long-run level (0.5 ≈ half the gap closes in 1.4 years)',
+      },
+      {
+        id: 'cpiVolatility',
+        label: 'CPI Volatility (%)',
+        type: 'number',
+        value: marketData.cpiMeanReverting.annualVolatility * 100,
+        onChange: value =>
+          setCpiMeanReverting({ annualVolatility: Number(value) / 100 }),
+        min: 0,
+        step: 0.1,
+        tooltip: 'Annual standard deviation of inflation shocks',
+      },
+      {
+        id: 'cpiSeed',
+        label: 'CPI Seed',
+        type: 'number',
+        value: marketData.cpiMeanReverting.seed,
+        onChange: value => setCpiMeanReverting({ seed: Number(value) }),
+        step: 1,
+        tooltip: 'Random seed of the inflation path (same seed → same path)',
+      },
+      {
+        id: 'cpiBtcCorrelation',
+        label: 'Correlation with BTC',
+        type: 'number',
+        value: marketData.cpiMeanReverting.btcShockCorrelation ?? 0,
+        onChange: value =>
+          setCpiMeanReverting({
+            btcShockCorrelation: Math.min(1, Math.max(-1, Number(value))),
+          }),
+        min: -1,
+        step: 0.1,
+        tooltip:
+          'Correlation (-1 to 1) between inflation shocks and BTC price shocks on Monte Carlo paths',
+      },
+    ],
+    [CpiModelType.Imported]: [],
+  };
+
+  // BTC Price Model Parameters (depend on the selected model)
+  const btcCagrAsymptoteInput: InputDef = {
+    id: 'btcCagrAsymptote',
+    label: 'BTC CAGR Asymptote (%)',
+    type: 'number',
+    value: marketData.btcCagrAsymptote * 100,
+    onChange: value =>
+      setMarketData(prev => ({
+        ...prev,
+        btcCagrAsymptote: Number(value) / 100,
+      })),
+    min: 0,
+    step: 0.1,
+    tooltip: 'Final BTC growth rate that CAGR approaches over time',
+  };
+
+  const priceModelInputs: Record<PriceModelType, InputDef[]> = {
+    [PriceModelType.CagrDecay]: [
+      {
+        id: 'btcCagrToday',
+        label: 'BTC CAGR Start (%)',
+        type: 'number',
+        value: marketData.btcCagrToday * 100,
+        onChange: value =>
+          setMarketData(prev => ({
+            ...prev,
+            btcCagrToday: Number(value) / 100,
+          })),
+        min: 0,
+        step: 0.1,
+        tooltip: 'Initial annual BTC growth rate',
+      },
+      btcCagrAsymptoteInput,
+      {
+        id: 'settleYears',
+        label: 'Settle Years',
+        type: 'number',
+        value: marketData.settleYears,
+        onChange: value =>
+          setMarketData(prev => ({ ...prev, settleYears: Number(value) })),
+        min: 1,
+        step: 1,
+        tooltip: 'Years until CAGR settles to asymptote',
+      },
+      {
+        id: 'settleEpsilon',
+        label: 'Settle Epsilon (%)',
+        type: 'number',
+        value: (marketData.settleEpsilon || 0.05) * 100,
+        onChange: value =>
+          setMarketData(prev => ({
+            ...prev,
+            settleEpsilon: Number(value) / 100,
+          })),
+        min: 0,
+        step: 0.01,
+        tooltip: 'Residual fraction remaining after settle years',
+      },
+    ],
+    [PriceModelType.HistoricalBootstrap]: [
+      {
+        id: 'blockLengthMonths',
+        label: 'Bootstrap Block (months)',
+        type: 'number',
+        value: marketData.historicalBootstrap.blockLengthMonths,
+        onChange: value =>
+          setMarketData(prev => ({
+            ...prev,
+            historicalBootstrap: {
+              ...prev.historicalBootstrap,
+              blockLengthMonths: Number(value),
+            },
+          })),
+        min: 1,
+        step: 1,
+        tooltip:
+          'Length of consecutive historical months copied per block (keeps momentum and drawdown clusters)',
+      },
+      {
+        id: 'bootstrapSeed',
+        label: 'Bootstrap Seed',
+        type: 'number',
+        value: marketData.historicalBootstrap.seed,
+        onChange: value =>
+          setMarketData(prev => ({
+            ...prev,
+            historicalBootstrap: {
+              ...prev.historicalBootstrap,
+              seed: Number(value),
+            },
+          })),
+        step: 1,
+        tooltip: 'Same seed always produces the same historical price path',
+      },
+      {
+        id: 'bootstrapDemean',
+        label: 'De-mean Returns',
+        type: 'toggle',
+        value: marketData.historicalBootstrap.demean,
+        onChange: value =>
+          setMarketData(prev => ({
+            ...prev,
+            historicalBootstrap: { ...prev.historicalBootstrap, demean: value },
+          })),
+        tooltip:
+          'When ON: historical drift is replaced so the long-run growth matches the CAGR asymptote',
+      },
+      ...(marketData.historicalBootstrap.demean ? [btcCagrAsymptoteInput] : []),
+    ],
+    [PriceModelType.RegimeSwitching]: [
+      {
+        id: 'regimeSwitchingMode',
+        label: 'Regime Mode',
+        type: 'select',
+        value: marketData.regimeSwitching.mode,
+        onChange: value =>
+          setRegimeSwitching({ mode: value as RegimeSwitchingMode }),
+        options: [
+          { label: 'Expected regime', value: RegimeSwitchingMode.Expected },
+          {
+            label: 'Stochastic (seeded)',
+            value: RegimeSwitchingMode.Stochastic,
+          },
+        ],
+        tooltip:
+          'Expected: smooth probability-weighted drift. Stochastic: random bull/bear phases from the seed',
+      },
+      {
+        id: 'regimeSwitchingSeed',
+        label: 'Regime Seed',
+        type: 'number',
+        value: marketData.regimeSwitching.seed,
+        onChange: value => setRegimeSwitching({ seed: Number(value) }),
+        step: 1,
+        tooltip: 'Same seed always produces the same regime sequence',
+      },
+      {
+        id: 'initialRegime',
+        label: 'Initial Regime',
+        type: 'select',
+        value: marketData.regimeSwitching.initialRegime,
+        onChange: value =>
+          setRegimeSwitching({ initialRegime: value as MarketRegime }),
+        options: [
+          { label: 'Bull', value: MarketRegime.Bull },
+          { label: 'Bear', value: MarketRegime.Bear },
+          ...(marketData.regimeSwitching.enableSideways
+            ? [{ label: 'Sideways', value: MarketRegime.Sideways }]
+            : []),
+        ],
+        tooltip: 'Market regime in the first simulated month',
+      },
+      {
+        id: 'enableSideways',
+        label: 'Sideways Regime',
+        type: 'toggle',
+        value: marketData.regimeSwitching.enableSideways,
+        onChange: value => setRegimeSwitching({ enableSideways: value }),
+        tooltip: 'When ON: adds a third, low-volatility sideways regime',
+      },
+      ...regimeInputs('bull', 'Bull'),
+      ...regimeInputs('bear', 'Bear'),
+      ...(marketData.regimeSwitching.enableSideways
+        ? regimeInputs('sideways', 'Sideways')
+        : []),
+    ],
+    [PriceModelType.PowerLaw]: [
+      {
+        id: 'powerLawExponent',
+        label: 'Power-Law Exponent (k)',
+        type: 'number',
+        value: marketData.powerLaw.exponent,
+        onChange: value => setPowerLaw({ exponent: Number(value) }),
+        min: 0,
+        step: 0.01,
+        tooltip: 'Price ∝ (days since genesis)^k',
+      },
+      {
+        id: 'powerLawCoefficient',
+        label: 'Power-Law Coefficient (EUR)',
+        type: 'number',
+        value: marketData.powerLaw.coefficient,
+        onChange: value => setPowerLaw({ coefficient: Number(value) }),
+        min: 0,
+        step: 1e-18,
+        tooltip: 'Trend price = coefficient × (days since genesis)^k',
+      },
+      {
+        id: 'powerLawReversionYears',
+        label: 'Reversion to Trend (yrs)',
+        type: 'number',
+        value: marketData.powerLaw.reversionYears,
+        onChange: value => setPowerLaw({ reversionYears: Number(value) }),
+        min: 0,
+        step: 1,
+        tooltip:
+          'Years until the gap between initial price and trend shrinks to 5%. 0 = path stays parallel to the trend',
+      },
+      {
+        id: 'powerLawCorridor',
+        label: 'Support/Resistance Corridor',
+        type: 'toggle',
+        value: marketData.powerLaw.enableCorridor,
+        onChange: value => setPowerLaw({ enableCorridor: value }),
+        tooltip: 'When ON: price is kept between support and resistance bands',
+      },
+      ...(marketData.powerLaw.enableCorridor
+        ? [
+            {
+              id: 'powerLawSupportMultiple',
+              label: 'Support (× trend)',
+              type: 'number' as const,
+              value: marketData.powerLaw.supportMultiple,
+              onChange: (value: any) =>
+                setPowerLaw({ supportMultiple: Number(value) }),
+              min: 0,
+              step: 0.05,
+              tooltip: 'Lower band as a multiple of the trend price',
+            },
+            {
+              id: 'powerLawResistanceMultiple',
+              label: 'Resistance (× trend)',
+              type: 'number' as const,
+              value: marketData.powerLaw.resistanceMultiple,
+              onChange: (value: any) =>
+                setPowerLaw({ resistanceMultiple: Number(value) }),
+              min: 1,
+              step: 0.1,
+              tooltip: 'Upper band as a multiple of the trend price',
+            },
+          ]
+        : []),
+    ],
+  };
+
+  const setPowerLaw = (patch: Partial<typeof marketData.powerLaw>) =>
+    setMarketData(prev => ({
+      ...prev,
+      powerLaw: { ...prev.powerLaw, ...patch },
+    }));
+
+  const setHalvingCycle = (patch: Partial<typeof marketData.halvingCycle>) =>
+    setMarketData(prev => ({
+      ...prev,
+      halvingCycle: { ...prev.halvingCycle, ...patch },
+    }));
+
+  // Halving Cycle Overlay (applies on top of any price model)
+  const halvingCycleInputs: InputDef[] = [
     {
-      id: 'initialBtcPriceInEuro',
-      label: 'Initial BTC Price (EUR)',
+      id: 'enableHalvingCycle',
+      label: 'Halving Cycle Overlay',
+      type: 'toggle',
+      value: marketData.enableHalvingCycle,
+      onChange: value =>
+        setMarketData(prev => ({ ...prev, enableHalvingCycle: value })),
+      tooltip:
+        'When ON: adds a 4-year halving boom/bust cycle on top of the price trend (long-run CAGR unchanged)',
+    },
+    ...(marketData.enableHalvingCycle
+      ? [
+          {
+            id: 'halvingPeakMultiple',
+            label: 'Cycle Peak (× trend)',
+            type: 'number' as const,
+            value: marketData.halvingCycle.peakMultiple,
+            onChange: (value: any) =>
+              setHalvingCycle({ peakMultiple: Number(value) }),
+            min: 1,
+            step: 0.1,
+            tooltip: 'Price at the cycle peak as a multiple of the trend',
+          },
+          {
+            id: 'halvingPeakMonths',
+            label: 'Peak After Halving (months)',
+            type: 'number' as const,
+            value: marketData.halvingCycle.peakMonthsAfterHalving,
+            onChange: (value: any) =>
+              setHalvingCycle({ peakMonthsAfterHalving: Number(value) }),
+            min: 0,
+            step: 1,
+            tooltip: 'Months from a halving to the cycle peak',
+          },
+          {
+            id: 'halvingPostPeakDrawdown',
+            label: 'Post-Peak Drawdown (%)',
+            type: 'number' as const,
+            value: marketData.halvingCycle.postPeakDrawdown * 100,
+            onChange: (value: any) =>
+              setHalvingCycle({ postPeakDrawdown: Number(value) / 100 }),
+            min: 0,
+            max: 99,
+            step: 1,
+            tooltip: 'Fall from the cycle peak to the following trough',
+          },
+          {
+            id: 'halvingTroughMonths',
+            label: 'Trough After Peak (months)',
+            type: 'number' as const,
+            value: marketData.halvingCycle.troughMonthsAfterPeak,
+            onChange: (value: any) =>
+              setHalvingCycle({ troughMonthsAfterPeak: Number(value) }),
+            min: 0,
+            step: 1,
+            tooltip: 'Months from the cycle peak to the trough',
+          },
+          {
+            id: 'halvingAmplitudeDecay',
+            label: 'Amplitude Decay (× per cycle)',
+            type: 'number' as const,
+            value: marketData.halvingCycle.amplitudeDecay,
+            onChange: (value: any) =>
+              setHalvingCycle({ amplitudeDecay: Number(value) }),
+            min: 0,
+            max: 1,
+            step: 0.05,
+            tooltip:
+              'Each next cycle keeps this fraction of the previous amplitude (1 = no decay)',
+          },
+        ]
+      : []),
+  ];
+
+  // Stress Events (scheduled crashes applied on top of the price path)
+  const updateStressEvent = (index: number, patch: Partial<StressEvent>) =>
+    setMarketData(prev => ({
+      ...prev,
+      stressEvents: prev.stressEvents.map((event, i) =>
+        i === index ? { ...event, ...patch } : event
+      ),
+    }));
+
+  const addStressEvent = (preset: StressEventPreset) =>
+    setMarketData(prev => ({
+      ...prev,
+      // domyślnie 2 lata przed końcem horyzontu ("przed emeryturą")
+      stressEvents: [
+        ...prev.stressEvents,
+        getStressEventFromPreset(
+          preset,
+          Math.max(0, simulationSettings.numberOfYears * 12 - 24)
+        ),
+      ],
+    }));
+
+  const removeStressEvent = (index: number) =>
+    setMarketData(prev => ({
+      ...prev,
+      stressEvents: prev.stressEvents.filter((_, i) => i !== index),
+    }));
+
+  const stressEventInputs = (event: StressEvent, index: number): InputDef[] => [
+    {
+      id: `stressStartMonth-${index}`,
+      label: 'Start (month)',
       type: 'number',
-      value: marketData.initialBtcPriceInEuro,
+      value: event.startMonth,
       onChange: value =>
-        setMarketData(prev => ({
-          ...prev,
-          initialBtcPriceInEuro: Number(value),
-        })),
+        updateStressEvent(index, {
+          startMonth: Math.max(0, Math.round(Number(value))),
+        }),
       min: 0,
       step: 1,
-      tooltip: 'Starting BTC price in EUR',
+      tooltip: 'Simulation month (0 = start) in which the price starts to fall',
     },
     {
-      id: 'btcCagrToday',
-      label: 'BTC CAGR Start (%)',
+      id: `stressDrawdown-${index}`,
+      label: 'Drawdown (%)',
       type: 'number',
-      value: marketData.btcCagrToday * 100,
+      value: event.drawdown * 100,
       onChange: value =>
-        setMarketData(prev => ({ ...prev, btcCagrToday: Number(value) / 100 })),
-      min: 0,
-      step: 0.1,
-      tooltip: 'Initial annual BTC growth rate',
+        updateStressEvent(index, {
+          drawdown: Math.min(99, Math.max(1, Number(value))) / 100,
+        }),
+      min: 1,
+      max: 99,
+      step: 1,
+      tooltip: 'Fall from the price at the start month to the bottom',
     },
     {
-      id: 'btcCagrAsymptote',
-      label: 'BTC CAGR Asymptote (%)',
+      id: `stressCrashMonths-${index}`,
+      label: 'Crash (months)',
       type: 'number',
-      value: marketData.btcCagrAsymptote * 100,
+      value: event.crashMonths,
       onChange: value =>
-        setMarketData(prev => ({
-          ...prev,
-          btcCagrAsymptote: Number(value) / 100,
-        })),
+        updateStressEvent(index, { crashMonths: Math.max(1, Number(value)) }),
+      min: 1,
+      step: 1,
+      tooltip: 'How long the fall to the bottom takes',
+    },
+    {
+      id: `stressPlateauMonths-${index}`,
+      label: 'At Bottom (months)',
+      type: 'number',
+      value: event.plateauMonths ?? 0,
+      onChange: value =>
+        updateStressEvent(index, {
+          plateauMonths: Math.max(0, Number(value)),
+        }),
       min: 0,
-      step: 0.1,
-      tooltip: 'Final BTC growth rate that CAGR approaches over time',
+      step: 1,
+      tooltip: 'How long the price stays flat at the bottom',
     },
     {
-      id: 'settleYears',
-      label: 'Settle Years',
+      id: `stressRecoveryMonths-${index}`,
+      label: 'Recovery (months)',
       type: 'number',
-      value: marketData.settleYears,
+      value: event.recoveryMonths,
       onChange: value =>
-        setMarketData(prev => ({ ...prev, settleYears: Number(value) })),
-      min: 1,
+        updateStressEvent(index, {
+          recoveryMonths: Math.max(0, Number(value)),
+        }),
+      min: 0,
       step: 1,
-      tooltip: 'Years until CAGR settles to asymptote',
+      tooltip:
+        'Months to climb back to the normal price path (0 = never, the discount stays)',
+    },
+    {
+      id: `stressRecoveryShape-${index}`,
+      label: 'Recovery Shape',
+      type: 'select',
+      value: event.recoveryShape ?? RecoveryShape.Linear,
+      onChange: value =>
+        updateStressEvent(index, { recoveryShape: value as RecoveryShape }),
+      options: [
+        { label: 'Linear', value: RecoveryShape.Linear },
+        { label: 'Fast (V)', value: RecoveryShape.Fast },
+        { label: 'Slow (U)', value: RecoveryShape.Slow },
+      ],
+      tooltip: 'How the recovery progresses over time',
     },
+  ];
+
+  // BTC & Market Parameters
+  const marketInputs: InputDef[] = [
     {
-      id: 'settleEpsilon',
-      label: 'Settle Epsilon (%)',
+      id: 'initialBtcPriceInEuro',
+      label: `Initial BTC Price (${currencyData.quoteCurrency})`,
       type: 'number',
-      value: (marketData.settleEpsilon || 0.05) * 100,
+      value: marketData.initialBtcPriceInEuro,
       onChange: value =>
         setMarketData(prev => ({
           ...prev,
-          settleEpsilon: Number(value) / 100,
+          initialBtcPriceInEuro: Number(value),
         })),
       min: 0,
-      step: 0.01,
-      tooltip: 'Residual fraction remaining after settle years',
+      step: 1,
+      tooltip: `Starting BTC price in ${currencyData.quoteCurrency}`,
     },
+    {
+      id: 'priceModel',
+      label: 'BTC Price Model',
+      type: 'select',
+      value: marketData.priceModel,
+      onChange: value =>
+        setMarketData(prev => ({
+          ...prev,
+          priceModel: value as PriceModelType,
+        })),
+      options: [
+        { label: 'CAGR decay curve', value: PriceModelType.CagrDecay },
+        {
+          label: 'Historical bootstrap',
+          value: PriceModelType.HistoricalBootstrap,
+        },
+        { label: 'Power law', value: PriceModelType.PowerLaw },
+        {
+          label: 'Bull/bear regime switching',
+          value: PriceModelType.RegimeSwitching,
+        },
+      ],
+      tooltip: 'How the future BTC price path is generated',
+    },
+    ...priceModelInputs[marketData.priceModel],
+    ...halvingCycleInputs,
     {
       id: 'cpi',
       label: 'CPI Rate (%)',
@@ -104,8 +805,28 @@ const SimulationParametersForm: React.FC = () => {
         setMarketData(prev => ({ ...prev, cpi: Number(value) / 100 })),
       min: 0,
       step: 0.1,
-      tooltip: 'Annual inflation rate (Consumer Price Index)',
+      tooltip:
+        'Annual inflation rate (Consumer Price Index); also used after a schedule or imported index ends',
     },
+    {
+      id: 'cpiModel',
+      label: 'CPI Model',
+      type: 'select',
+      value: marketData.cpiModel,
+      onChange: value =>
+        setMarketData(prev => ({
+          ...prev,
+          cpiModel: value as CpiModelType,
+        })),
+      options: [
+        { label: 'Constant rate', value: CpiModelType.Constant },
+        { label: 'Yearly schedule', value: CpiModelType.Schedule },
+        { label: 'Mean-reverting', value: CpiModelType.MeanReverting },
+        { label: 'Imported index', value: CpiModelType.Imported },
+      ],
+      tooltip: 'How the inflation path used for indexing is generated',
+    },
+    ...cpiModelInputs[marketData.cpiModel],
     {
       id: 'enableIndexing',
       label: 'Inflation Indexing',
@@ -122,14 +843,14 @@ const SimulationParametersForm: React.FC = () => {
   const userInputs: InputDef[] = [
     {
       id: 'monthlyDcaInEuro',
-      label: 'Monthly DCA (EUR)',
+      label: `Monthly DCA (${currencyData.contributionCurrency})`,
       type: 'number',
       value: userData.monthlyDcaInEuro,
       onChange: value =>
         setUserData(prev => ({ ...prev, monthlyDcaInEuro: Number(value) })),
       min: 0,
       step: 1,
-      tooltip: 'Monthly dollar cost averaging amount in EUR',
+      tooltip: `Monthly dollar cost averaging amount in ${currencyData.contributionCurrency}`,
     },
     {
       id: 'initialBtcHolding',
@@ -144,6 +865,1110 @@ const SimulationParametersForm: React.FC = () => {
     },
   ];
 
+  // Contribution Schedule (raises, breaks, lump sums, yearly bonus)
+  const schedule = userData.contributionSchedule;
+  const setSchedule = (patch: Partial<ContributionSchedule>) =>
+    setUserData(prev => ({
+      ...prev,
+      contributionSchedule: { ...prev.contributionSchedule, ...patch },
+    }));
+
+  const scheduleInputs: InputDef[] = [
+    {
+      id: 'scheduleStepUp',
+      label: 'Yearly Raise (%)',
+      type: 'number',
+      value: (schedule.yearlyStepUpPct ?? 0) * 100,
+      onChange: value => setSchedule({ yearlyStepUpPct: Number(value) / 100 }),
+      min: 0,
+      step: 0.5,
+      tooltip:
+        'The monthly DCA grows by this much every 12 months (salary growth), on top of inflation indexing',
+    },
+    {
+      id: 'scheduleStopYear',
+      label: 'Stop DCA (year, 0 = never)',
+      type: 'number',
+      value: (schedule.stopMonth ?? 0) / 12,
+      onChange: value =>
+        setSchedule({
+          stopMonth:
+            Number(value) > 0 ? Math.round(Number(value) * 12) : undefined,
+        }),
+      min: 0,
+      step: 1,
+      tooltip:
+        'Simulation year from which monthly contributions and bonuses stop; lump sums still apply',
+    },
+    {
+      id: 'scheduleBonusMonth',
+      label: 'Yearly Bonus Month',
+      type: 'select',
+      value: String(schedule.yearlyBonusMonth ?? -1),
+      onChange: value =>
+        setSchedule({
+          yearlyBonusMonth: Number(value) >= 0 ? Number(value) : undefined,
+        }),
+      options: [
+        { label: 'No bonus', value: '-1' },
+        ...CALENDAR_MONTH_NAMES.map((name, i) => ({
+          label: name,
+          value: String(i),
+        })),
+      ],
+      tooltip: 'Calendar month in which the bonus is paid in every year',
+    },
+    {
+      id: 'scheduleBonusMultiplier',
+      label: 'Bonus (× monthly DCA)',
+      type: 'number',
+      value: schedule.yearlyBonusMultiplier ?? 0,
+      onChange: value => setSchedule({ yearlyBonusMultiplier: Number(value) }),
+      min: 0,
+      step: 0.5,
+      tooltip:
+        'Bonus as a multiple of the current monthly DCA (1 = a 13th salary)',
+    },
+  ];
+
+  // Contribution Strategy (value averaging / buy the dip on top of the schedule)
+  const strategy = userData.contributionStrategy;
+  const setStrategy = (patch: Partial<ContributionStrategy>) =>
+    setUserData(prev => ({
+      ...prev,
+      contributionStrategy: { ...prev.contributionStrategy, ...patch },
+    }));
+
+  const strategyInputs: InputDef[] = [
+    {
+      id: 'strategyType',
+      label: 'Contribution Strategy',
+      type: 'select',
+      value: strategy.type,
+      onChange: value =>
+        setStrategy({ type: value as ContributionStrategyType }),
+      options: [
+        { label: 'Flat DCA', value: ContributionStrategyType.FlatDca },
+        {
+          label: 'Value averaging',
+          value: ContributionStrategyType.ValueAveraging,
+        },
+        { label: 'Buy the dip', value: ContributionStrategyType.BuyTheDip },
+      ],
+      tooltip:
+        'How much is paid in each month; the schedule above is the baseline amount',
+    },
+    ...(strategy.type === ContributionStrategyType.ValueAveraging
+      ? ([
+          {
+            id: 'strategyTargetReturn',
+            label: 'Target Path Return (%/yr)',
+            type: 'number',
+            value: (strategy.targetYearlyReturnPct ?? 0) * 100,
+            onChange: value =>
+              setStrategy({ targetYearlyReturnPct: Number(value) / 100 }),
+            step: 1,
+            tooltip:
+              'The target portfolio value grows by this return plus the scheduled contribution; each month tops the portfolio up to it',
+          },
+        ] as InputDef[])
+      : []),
+    ...(strategy.type === ContributionStrategyType.BuyTheDip
+      ? ([
+          {
+            id: 'strategyDipReference',
+            label: 'Dip Measured From',
+            type: 'select',
+            value: strategy.dipReference ?? DipReference.MovingAverage,
+            onChange: value =>
+              setStrategy({ dipReference: value as DipReference }),
+            options: [
+              { label: 'Moving average', value: DipReference.MovingAverage },
+              { label: 'All-time high', value: DipReference.AllTimeHigh },
+            ],
+            tooltip: 'Reference price the dip is measured against',
+          },
+          ...(strategy.dipReference !== DipReference.AllTimeHigh
+            ? ([
+                {
+                  id: 'strategyMovingAverageMonths',
+                  label: 'Moving Average (months)',
+                  type: 'number',
+                  value: strategy.movingAverageMonths ?? 12,
+                  onChange: value =>
+                    setStrategy({
+                      movingAverageMonths: Math.max(
+                        1,
+                        Math.round(Number(value))
+                      ),
+                    }),
+                  min: 1,
+                  step: 1,
+                  tooltip: 'Window of the moving average price',
+                },
+              ] as InputDef[])
+            : []),
+          {
+            id: 'strategyDipThreshold',
+            label: 'Dip Threshold (%)',
+            type: 'number',
+            value: (strategy.dipThresholdPct ?? 0) * 100,
+            onChange: value =>
+              setStrategy({
+                dipThresholdPct: Math.min(99, Math.max(1, Number(value))) / 100,
+              }),
+            min: 1,
+            max: 99,
+            step: 5,
+            tooltip: 'How far below the reference the price must be',
+          },
+          {
+            id: 'strategyDipMultiplier',
+            label: 'Dip Multiplier',
+            type: 'number',
+            value: strategy.dipMultiplier ?? 1,
+            onChange: value =>
+              setStrategy({ dipMultiplier: Math.max(0, Number(value)) }),
+            min: 0,
+            step: 0.5,
+            tooltip:
+              'The scheduled contribution is multiplied by this in a dip',
+          },
+        ] as InputDef[])
+      : []),
+    {
+      id: 'strategyMaxMonthlyMultiple',
+      label: 'Monthly Cap (× DCA, 0 = off)',
+      type: 'number',
+      value: strategy.maxMonthlyMultiple ?? 0,
+      onChange: value =>
+        setStrategy({
+          maxMonthlyMultiple: Number(value) > 0 ? Number(value) : undefined,
+        }),
+      min: 0,
+      step: 0.5,
+      tooltip: 'No month pays in more than this multiple of the scheduled DCA',
+    },
+    {
+      id: 'strategyTotalBudget',
+      label: `Total Budget (${currencyData.contributionCurrency}, 0 = off)`,
+      type: 'number',
+      value: strategy.totalBudgetInEuro ?? 0,
+      onChange: value =>
+        setStrategy({
+          totalBudgetInEuro: Number(value) > 0 ? Number(value) : undefined,
+        }),
+      min: 0,
+      step: 1000,
+      tooltip: 'Contributions stop once their sum reaches this budget',
+    },
+  ];
+
+  const pauses = schedule.pauses ?? [];
+  const updatePause = (index: number, patch: Partial<ContributionPause>) =>
+    setSchedule({
+      pauses: pauses.map((pause, i) =>
+        i === index ? { ...pause, ...patch } : pause
+      ),
+    });
+
+  const pauseInputs = (pause: ContributionPause, index: number): InputDef[] => [
+    {
+      id: `pauseStartYear-${index}`,
+      label: 'Break Starts (year)',
+      type: 'number',
+      value: pause.startMonth / 12,
+      onChange: value => {
+        const startMonth = Math.max(0, Math.round(Number(value) * 12));
+        updatePause(index, {
+          startMonth,
+          endMonth: startMonth + (pause.endMonth - pause.startMonth),
+        });
+      },
+      min: 0,
+      step: 0.5,
+      tooltip: 'Simulation year in which contributions pause',
+    },
+    {
+      id: `pauseMonths-${index}`,
+      label: 'Break (months)',
+      type: 'number',
+      value: pause.endMonth - pause.startMonth,
+      onChange: value =>
+        updatePause(index, {
+          endMonth: pause.startMonth + Math.max(1, Math.round(Number(value))),
+        }),
+      min: 1,
+      step: 1,
+      tooltip: 'How many months without contributions',
+    },
+  ];
+
+  const lumpSums = schedule.lumpSums ?? [];
+  const updateLumpSum = (index: number, patch: Partial<ContributionLumpSum>) =>
+    setSchedule({
+      lumpSums: lumpSums.map((lumpSum, i) =>
+        i === index ? { ...lumpSum, ...patch } : lumpSum
+      ),
+    });
+
+  const lumpSumInputs = (
+    lumpSum: ContributionLumpSum,
+    index: number
+  ): InputDef[] => [
+    {
+      id: `lumpSumYear-${index}`,
+      label: 'Paid In (year)',
+      type: 'number',
+      value: lumpSum.month / 12,
+      onChange: value =>
+        updateLumpSum(index, {
+          month: Math.max(0, Math.round(Number(value) * 12)),
+        }),
+      min: 0,
+      step: 0.5,
+      tooltip: 'Simulation year of the one-off contribution',
+    },
+    {
+      id: `lumpSumAmount-${index}`,
+      label: `Amount (${currencyData.contributionCurrency})`,
+      type: 'number',
+      value: lumpSum.amountInEuro,
+      onChange: value =>
+        updateLumpSum(index, { amountInEuro: Math.max(0, Number(value)) }),
+      min: 0,
+      step: 1000,
+      tooltip: 'One-off contribution, not indexed to inflation',
+    },
+  ];
+
+  // Payout Phase (Decumulation) Parameters
+  const decumulationInputs: InputDef[] = [
+    {
+      id: 'decumulationEnabled',
+      label: 'Payout Phase',
+      type: 'toggle',
+      value: decumulationData.enabled,
+      onChange: value =>
+        setDecumulationData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: DCA stops at the payout start and BTC is sold every month to pay a pension',
+    },
+    {
+      id: 'payoutStartYear',
+      label: 'Payout Starts (year)',
+      type: 'number',
+      value: decumulationData.startMonth / 12,
+      onChange: value =>
+        setDecumulationData(prev => ({
+          ...prev,
+          startMonth: Math.max(0, Math.round(Number(value) * 12)),
+        })),
+      min: 0,
+      step: 1,
+      tooltip:
+        'Simulation year in which the withdrawals begin (also used for the sustainable income)',
+    },
+    {
+      id: 'payoutYears',
+      label: `Payout Duration (years, 0 = perpetual: ${PERPETUAL_PAYOUT_YEARS} years)`,
+      type: 'number',
+      value: decumulationData.payoutYears,
+      onChange: value =>
+        setDecumulationData(prev => ({
+          ...prev,
+          payoutYears: Math.max(0, Number(value)),
+        })),
+      min: 0,
+      step: 1,
+      tooltip: `How long the sustainable income must last; 0 solves for a perpetual income, modelled as a ${PERPETUAL_PAYOUT_YEARS}-year payout`,
+    },
+    {
+      id: 'payoutSuccessProbability',
+      label: 'Success Probability',
+      type: 'number',
+      value: decumulationData.successProbability,
+      onChange: value =>
+        setDecumulationData(prev => ({
+          ...prev,
+          successProbability: Math.min(1, Math.max(0.5, Number(value))),
+        })),
+      min: 0.5,
+      max: 1,
+      step: 0.05,
+      tooltip:
+        'With Monte Carlo ON: share of price paths on which the sustainable income must not run out',
+    },
+    {
+      id: 'withdrawalIndexing',
+      label: 'Withdrawal Indexing',
+      type: 'toggle',
+      value: decumulationData.enableIndexing,
+      onChange: value =>
+        setDecumulationData(prev => ({ ...prev, enableIndexing: value })),
+      tooltip:
+        "When ON: the withdrawal is in today's money and grows with the CPI path",
+    },
+    ...(decumulationData.enabled
+      ? ([
+          {
+            id: 'monthlyWithdrawalInEuro',
+            label: `Monthly Withdrawal (${currencyData.contributionCurrency})`,
+            type: 'number',
+            value: decumulationData.monthlyWithdrawalInEuro,
+            onChange: value =>
+              setDecumulationData(prev => ({
+                ...prev,
+                monthlyWithdrawalInEuro: Number(value),
+              })),
+            min: 0,
+            step: 50,
+            tooltip:
+              'Net monthly pension; BTC is sold at the current price and the exchange fee is added on top',
+          },
+        ] as InputDef[])
+      : []),
+  ];
+
+  // Collateral Loan Parameters
+  const loanInputs: InputDef[] = [
+    {
+      id: 'loanEnabled',
+      label: 'Collateral Loan',
+      type: 'toggle',
+      value: loanData.enabled,
+      onChange: value => setLoanData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: borrows against the BTC balance instead of selling it; interest accrues monthly',
+    },
+    ...(loanData.enabled
+      ? ([
+          {
+            id: 'loanStartYear',
+            label: 'Loan Starts (year)',
+            type: 'number',
+            value: loanData.startMonth / 12,
+            onChange: value =>
+              setLoanData(prev => ({
+                ...prev,
+                startMonth: Math.max(0, Math.round(Number(value) * 12)),
+              })),
+            min: 0,
+            step: 1,
+            tooltip: 'Simulation year of the first loan draw',
+          },
+          {
+            id: 'loanMonthlyDraw',
+            label: `Monthly Draw (${currencyData.contributionCurrency}, 0 = one-off)`,
+            type: 'number',
+            value: loanData.monthlyDrawInEuro,
+            onChange: value =>
+              setLoanData(prev => ({
+                ...prev,
+                monthlyDrawInEuro: Number(value),
+              })),
+            min: 0,
+            step: 50,
+            tooltip:
+              'Borrowed every month while the LTV stays below the target; 0 borrows up to the target LTV once',
+          },
+          {
+            id: 'loanIndexing',
+            label: 'Draw Indexing',
+            type: 'toggle',
+            value: loanData.enableIndexing,
+            onChange: value =>
+              setLoanData(prev => ({ ...prev, enableIndexing: value })),
+            tooltip:
+              "When ON: the monthly draw is in today's money and grows with the CPI path",
+          },
+          {
+            id: 'loanTargetLtv',
+            label: 'Target LTV',
+            type: 'number',
+            value: loanData.targetLtv,
+            onChange: value =>
+              setLoanData(prev => ({ ...prev, targetLtv: Number(value) })),
+            min: 0.01,
+            max: 0.95,
+            step: 0.05,
+            tooltip: 'Maximum loan balance as a share of the BTC value',
+          },
+          {
+            id: 'loanInterestRate',
+            label: 'Interest Rate (yearly)',
+            type: 'number',
+            value: loanData.yearlyInterestRate,
+            onChange: value =>
+              setLoanData(prev => ({
+                ...prev,
+                yearlyInterestRate: Number(value),
+              })),
+            min: 0,
+            step: 0.01,
+            tooltip: 'Loan interest, added to the balance every month',
+          },
+          {
+            id: 'loanAutoRebalance',
+            label: 'Auto-Rebalance',
+            type: 'toggle',
+            value: loanData.autoRebalance,
+            onChange: value =>
+              setLoanData(prev => ({ ...prev, autoRebalance: value })),
+            tooltip:
+              'When ON: borrows more after rallies and sells BTC to repay after drops, keeping the target LTV',
+          },
+          {
+            id: 'loanMarginCallLtv',
+            label: 'Margin Call LTV (0 = off)',
+            type: 'number',
+            value: loanData.marginCallLtv,
+            onChange: value =>
+              setLoanData(prev => ({ ...prev, marginCallLtv: Number(value) })),
+            min: 0,
+            max: 1,
+            step: 0.05,
+            tooltip:
+              'Above this LTV, BTC is sold to repay the loan back to the target LTV',
+          },
+          {
+            id: 'loanLiquidationLtv',
+            label: 'Liquidation LTV (0 = off)',
+            type: 'number',
+            value: loanData.liquidationLtv,
+            onChange: value =>
+              setLoanData(prev => ({ ...prev, liquidationLtv: Number(value) })),
+            min: 0,
+            max: 1,
+            step: 0.05,
+            tooltip:
+              'Above this LTV, the lender sells the collateral to close the loan; the loan plan ends and draws no further tranches',
+          },
+          {
+            id: 'loanLiquidationPenalty',
+            label: 'Liquidation Penalty',
+            type: 'number',
+            value: loanData.liquidationPenaltyPct,
+            onChange: value =>
+              setLoanData(prev => ({
+                ...prev,
+                liquidationPenaltyPct: Number(value),
+              })),
+            min: 0,
+            step: 0.01,
+            tooltip: 'Penalty on the loan balance charged at liquidation',
+          },
+        ] as InputDef[])
+      : []),
+  ];
+
+  // Purchase Goals
+  const updatePurchaseGoal = (index: number, patch: Partial<PurchaseGoal>) =>
+    setPurchaseGoals(prev =>
+      prev.map((goal, i) => (i === index ? { ...goal, ...patch } : goal))
+    );
+
+  const addPurchaseGoal = (preset: PurchaseGoalPreset) =>
+    setPurchaseGoals(prev => [...prev, { ...PURCHASE_GOAL_PRESETS[preset] }]);
+
+  const removePurchaseGoal = (index: number) =>
+    setPurchaseGoals(prev => prev.filter((_, i) => i !== index));
+
+  const purchaseGoalInputs = (
+    goal: PurchaseGoal,
+    index: number
+  ): InputDef[] => [
+    {
+      id: `purchaseName-${index}`,
+      label: 'Name',
+      type: 'text',
+      value: goal.name,
+      onChange: value => updatePurchaseGoal(index, { name: value }),
+      tooltip: 'Shown as a marker on the user chart',
+    },
+    {
+      id: `purchasePrice-${index}`,
+      label: `Price (${currencyData.contributionCurrency})`,
+      type: 'number',
+      value: goal.priceInEuro,
+      onChange: value =>
+        updatePurchaseGoal(index, {
+          priceInEuro: Math.max(1, Number(value)),
+        }),
+      min: 1,
+      step: 1000,
+      tooltip: "Price in today's money when indexed, otherwise nominal",
+    },
+    {
+      id: `purchaseIndexing-${index}`,
+      label: 'Price Indexing',
+      type: 'toggle',
+      value: goal.enableIndexing ?? false,
+      onChange: value => updatePurchaseGoal(index, { enableIndexing: value }),
+      tooltip: 'When ON: the price grows with the CPI path',
+    },
+    {
+      id: `purchaseFunding-${index}`,
+      label: 'Funding',
+      type: 'select',
+      value: goal.funding ?? PurchaseFundingType.Sell,
+      onChange: value =>
+        updatePurchaseGoal(index, {
+          funding: value as PurchaseFundingType,
+          ltv: goal.ltv ?? 0.5,
+        }),
+      options: [
+        { label: 'Sell BTC', value: PurchaseFundingType.Sell },
+        { label: 'Borrow against BTC', value: PurchaseFundingType.Borrow },
+      ],
+      tooltip:
+        'Sell: affordable when the BTC sale (after fees and any loan) covers the price. Borrow: when the loan stays within the LTV',
+    },
+    ...(goal.funding === PurchaseFundingType.Borrow
+      ? ([
+          {
+            id: `purchaseLtv-${index}`,
+            label: 'Max LTV',
+            type: 'number',
+            value: goal.ltv ?? 0.5,
+            onChange: value =>
+              updatePurchaseGoal(index, {
+                ltv: Math.min(0.95, Math.max(0.05, Number(value))),
+              }),
+            min: 0.05,
+            max: 0.95,
+            step: 0.05,
+            tooltip:
+              'Loan balance after the purchase as a share of the BTC value',
+          },
+        ] as InputDef[])
+      : []),
+    {
+      id: `purchaseExecute-${index}`,
+      label: 'Buy When Affordable',
+      type: 'toggle',
+      value: goal.execute ?? false,
+      onChange: value => updatePurchaseGoal(index, { execute: value }),
+      tooltip:
+        goal.funding === PurchaseFundingType.Borrow
+          ? 'When ON (requires the collateral loan): the price is added to the loan balance'
+          : 'When ON: BTC is sold at the first affordable month and the plan continues with the rest',
+    },
+  ];
+
+  // Tax Parameters
+  const taxInputs: InputDef[] = [
+    {
+      id: 'taxEnabled',
+      label: 'Taxes',
+      type: 'toggle',
+      value: taxData.enabled,
+      onChange: value => setTaxData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: tracks the cost basis of every purchase and yield credit and pays the yearly tax by selling BTC',
+    },
+    ...(taxData.enabled
+      ? ([
+          {
+            id: 'taxJurisdiction',
+            label: 'Jurisdiction',
+            type: 'select',
+            value: taxData.jurisdiction,
+            onChange: value => {
+              const jurisdiction = getTaxJurisdiction(value);
+              setTaxData(prev => ({
+                ...prev,
+                jurisdiction: value as TaxJurisdictionType,
+                capitalGainsTaxRate: jurisdiction.capitalGainsTaxRate,
+                yieldIncomeTaxRate: jurisdiction.yieldIncomeTaxRate,
+              }));
+            },
+            options: Object.values(TaxJurisdictionType).map(type => ({
+              label: getTaxJurisdiction(type).name,
+              value: type,
+            })),
+            tooltip:
+              "Country rules; selecting one resets the rates to the country's defaults",
+          },
+          {
+            id: 'taxLotMethod',
+            label: 'Lot Method',
+            type: 'select',
+            value: taxData.lotMethod,
+            onChange: value =>
+              setTaxData(prev => ({ ...prev, lotMethod: value as LotMethod })),
+            options: [
+              { label: 'FIFO', value: LotMethod.Fifo },
+              { label: 'LIFO', value: LotMethod.Lifo },
+              { label: 'Average cost', value: LotMethod.AverageCost },
+            ],
+            tooltip: 'Which purchases a sale is matched against',
+          },
+          {
+            id: 'taxCapitalGainsRate',
+            label: 'Capital Gains Tax Rate',
+            type: 'number',
+            value: taxData.capitalGainsTaxRate,
+            onChange: value =>
+              setTaxData(prev => ({
+                ...prev,
+                capitalGainsTaxRate: Number(value),
+              })),
+            min: 0,
+            max: 0.99,
+            step: 0.01,
+            tooltip:
+              'Tax on the yearly realized gain after losses carried forward',
+          },
+          {
+            id: 'taxYieldIncomeRate',
+            label: 'Yield Income Tax Rate',
+            type: 'number',
+            value: taxData.yieldIncomeTaxRate,
+            onChange: value =>
+              setTaxData(prev => ({
+                ...prev,
+                yieldIncomeTaxRate: Number(value),
+              })),
+            min: 0,
+            max: 0.99,
+            step: 0.01,
+            tooltip:
+              'Yield is taxed as income when credited; 0 taxes it only when sold (zero cost basis)',
+          },
+          {
+            id: 'taxInitialCostBasis',
+            label: `Initial Cost Basis (${currencyData.contributionCurrency}, 0 = market)`,
+            type: 'number',
+            value: taxData.initialCostBasisInEuro,
+            onChange: value =>
+              setTaxData(prev => ({
+                ...prev,
+                initialCostBasisInEuro: Number(value),
+              })),
+            min: 0,
+            step: 1000,
+            tooltip:
+              'What the initial BTC holding cost; 0 uses its market value at the start',
+          },
+        ] as InputDef[])
+      : []),
+  ];
+
+  // Lump Sum vs DCA Parameters
+  const lumpSumComparisonInputs: InputDef[] = [
+    {
+      id: 'lumpSumComparisonEnabled',
+      label: 'Lump Sum vs DCA',
+      type: 'toggle',
+      value: lumpSumComparisonData.enabled,
+      onChange: value =>
+        setLumpSumComparisonData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: invests the same capital all at once, spread over N months and with the current plan, on the same price path',
+    },
+    ...(lumpSumComparisonData.enabled
+      ? ([
+          {
+            id: 'lumpSumCapital',
+            label: `Capital (${currencyData.contributionCurrency}, 0 = plan total)`,
+            type: 'number',
+            value: lumpSumComparisonData.totalCapitalInEuro,
+            onChange: value =>
+              setLumpSumComparisonData(prev => ({
+                ...prev,
+                totalCapitalInEuro: Math.max(0, Number(value)),
+              })),
+            min: 0,
+            step: 1000,
+            tooltip:
+              'Capital to compare; 0 uses the sum of all contributions in the current plan',
+          },
+          {
+            id: 'lumpSumSpreadMonths',
+            label: 'Spread Over (months)',
+            type: 'number',
+            value: lumpSumComparisonData.spreadMonths,
+            onChange: value =>
+              setLumpSumComparisonData(prev => ({
+                ...prev,
+                spreadMonths: Math.max(1, Math.round(Number(value))),
+              })),
+            min: 1,
+            step: 1,
+            tooltip:
+              'Number of equal monthly purchases for the spread approach',
+          },
+        ] as InputDef[])
+      : []),
+  ];
+
+  // Counterparty Risk Parameters
+  const counterpartyRiskInputs: InputDef[] = [
+    {
+      id: 'counterpartyRiskEnabled',
+      label: 'Counterparty Risk',
+      type: 'toggle',
+      value: counterpartyRiskData.enabled,
+      onChange: value =>
+        setCounterpartyRiskData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: the yield venue can default and take part of the holdings; the chart adds the same plan in self-custody (0% yield) for comparison',
+    },
+    ...(counterpartyRiskData.enabled
+      ? ([
+          {
+            id: 'counterpartyDefaultProbability',
+            label: 'Default Probability (%/yr)',
+            type: 'number',
+            value: counterpartyRiskData.yearlyDefaultProbability * 100,
+            onChange: value =>
+              setCounterpartyRiskData(prev => ({
+                ...prev,
+                yearlyDefaultProbability: Math.min(
+                  1,
+                  Math.max(0, Number(value) / 100)
+                ),
+              })),
+            min: 0,
+            max: 100,
+            step: 0.5,
+            tooltip: 'Chance that the yield venue defaults in a given year',
+          },
+          {
+            id: 'counterpartyLossGivenDefault',
+            label: 'Loss Given Default (%)',
+            type: 'number',
+            value: counterpartyRiskData.lossGivenDefaultPct * 100,
+            onChange: value =>
+              setCounterpartyRiskData(prev => ({
+                ...prev,
+                lossGivenDefaultPct: Math.min(
+                  1,
+                  Math.max(0, Number(value) / 100)
+                ),
+              })),
+            min: 0,
+            max: 100,
+            step: 5,
+            tooltip: 'Share of the exposed BTC lost when the venue defaults',
+          },
+          {
+            id: 'counterpartyMaxExposure',
+            label: 'Max Exposure (%)',
+            type: 'number',
+            value: counterpartyRiskData.maxExposurePct * 100,
+            onChange: value =>
+              setCounterpartyRiskData(prev => ({
+                ...prev,
+                maxExposurePct: Math.min(1, Math.max(0, Number(value) / 100)),
+              })),
+            min: 0,
+            max: 100,
+            step: 5,
+            tooltip:
+              'Share of the holdings exposed to the venue; the rest is segregated and never lost',
+          },
+          {
+            id: 'counterpartyRiskMode',
+            label: 'Default Mode',
+            type: 'select',
+            value: counterpartyRiskData.mode,
+            onChange: value =>
+              setCounterpartyRiskData(prev => ({
+                ...prev,
+                mode: value as CounterpartyRiskMode,
+              })),
+            options: [
+              {
+                label: 'Expected loss',
+                value: CounterpartyRiskMode.Expected,
+              },
+              {
+                label: 'Stochastic (seeded)',
+                value: CounterpartyRiskMode.Stochastic,
+              },
+            ],
+            tooltip:
+              'Expected: a small monthly haircut of PD × LGD. Stochastic: random default events from the seed (Monte Carlo always samples defaults per path)',
+          },
+          ...(counterpartyRiskData.mode === CounterpartyRiskMode.Stochastic
+            ? ([
+                {
+                  id: 'counterpartyRiskSeed',
+                  label: 'Default Seed',
+                  type: 'number',
+                  value: counterpartyRiskData.seed,
+                  onChange: value =>
+                    setCounterpartyRiskData(prev => ({
+                      ...prev,
+                      seed: Number(value),
+                    })),
+                  step: 1,
+                  tooltip: 'Same seed always produces the same default months',
+                },
+              ] as InputDef[])
+            : []),
+        ] as InputDef[])
+      : []),
+  ];
+
+  // Referral Parameters
+  const referralInputs: InputDef[] = [
+    {
+      id: 'referralEnabled',
+      label: 'Referrals',
+      type: 'toggle',
+      value: referralData.enabled,
+      onChange: value => setReferralData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: referred users follow the same plan and the user earns a share of their yield or fees, paid by the platform',
+    },
+    ...(referralData.enabled
+      ? ([
+          {
+            id: 'referralCount',
+            label: 'Referrals at Start',
+            type: 'number',
+            value: referralData.referralCount,
+            onChange: value =>
+              setReferralData(prev => ({
+                ...prev,
+                referralCount: Math.max(0, Math.round(Number(value))),
+              })),
+            min: 0,
+            step: 1,
+            tooltip: 'Users referred in the month the plan starts',
+          },
+          {
+            id: 'referralRewardBasis',
+            label: 'Reward Basis',
+            type: 'select',
+            value: referralData.rewardBasis,
+            onChange: value =>
+              setReferralData(prev => ({
+                ...prev,
+                rewardBasis: value as ReferralRewardBasis,
+              })),
+            options: [
+              { label: 'Gross yield', value: ReferralRewardBasis.Yield },
+              {
+                label: 'Exchange fees',
+                value: ReferralRewardBasis.ExchangeFee,
+              },
+            ],
+            tooltip:
+              "Share of the referrals' gross yield or of the exchange fees they pay",
+          },
+          {
+            id: 'referralRewardShare',
+            label: 'Reward Share (%)',
+            type: 'number',
+            value: referralData.rewardSharePct * 100,
+            onChange: value =>
+              setReferralData(prev => ({
+                ...prev,
+                rewardSharePct: Math.min(1, Math.max(0, Number(value) / 100)),
+              })),
+            min: 0,
+            max: 100,
+            step: 1,
+            tooltip: 'Credited to the user in BTC and charged to the platform',
+          },
+          {
+            id: 'referralJoinDelay',
+            label: 'Join Delay (months)',
+            type: 'number',
+            value: referralData.joinDelayMonths,
+            onChange: value =>
+              setReferralData(prev => ({
+                ...prev,
+                joinDelayMonths: Math.max(0, Math.round(Number(value))),
+              })),
+            min: 0,
+            step: 1,
+            tooltip: 'Months between the referral and the start of their plan',
+          },
+        ] as InputDef[])
+      : []),
+  ];
+
+  const updateReferralArrival = (
+    index: number,
+    patch: Partial<ReferralArrival>
+  ) =>
+    setReferralData(prev => ({
+      ...prev,
+      referralSchedule: prev.referralSchedule.map((arrival, i) =>
+        i === index ? { ...arrival, ...patch } : arrival
+      ),
+    }));
+
+  const referralArrivalInputs = (
+    arrival: ReferralArrival,
+    index: number
+  ): InputDef[] => [
+    {
+      id: `referralArrivalYear-${index}`,
+      label: 'Referred After (years)',
+      type: 'number',
+      value: arrival.monthsAfterStart / 12,
+      onChange: value =>
+        updateReferralArrival(index, {
+          monthsAfterStart: Math.max(0, Math.round(Number(value) * 12)),
+        }),
+      min: 0,
+      step: 0.5,
+      tooltip: 'Time after the plan start when these users are referred',
+    },
+    {
+      id: `referralArrivalCount-${index}`,
+      label: 'Referred Users',
+      type: 'number',
+      value: arrival.count,
+      onChange: value =>
+        updateReferralArrival(index, {
+          count: Math.max(0, Math.round(Number(value))),
+        }),
+      min: 0,
+      step: 1,
+    },
+  ];
+
+  // Goal Seek Parameters
+  const goalSeekInputs: InputDef[] = [
+    {
+      id: 'goalSeekEnabled',
+      label: 'Goal Seek',
+      type: 'toggle',
+      value: goalSeekData.enabled,
+      onChange: value => setGoalSeekData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: solves for the DCA, initial holding or horizon needed to reach the target',
+    },
+    ...(goalSeekData.enabled
+      ? ([
+          {
+            id: 'goalType',
+            label: 'Target',
+            type: 'select',
+            value: goalSeekData.type,
+            onChange: value =>
+              setGoalSeekData(prev => ({
+                ...prev,
+                type: value as SavingsGoalType,
+              })),
+            options: [
+              {
+                label: `Value (${currencyData.contributionCurrency})`,
+                value: SavingsGoalType.NominalValue,
+              },
+              {
+                label: `Real value (today's ${currencyData.contributionCurrency})`,
+                value: SavingsGoalType.RealValue,
+              },
+              { label: 'BTC amount', value: SavingsGoalType.BtcAmount },
+            ],
+            tooltip:
+              "Portfolio value, its value in today's money (deflated by the CPI path) or the BTC balance",
+          },
+          {
+            id: 'goalTargetValue',
+            label:
+              goalSeekData.type === SavingsGoalType.BtcAmount
+                ? 'Target (BTC)'
+                : `Target (${currencyData.contributionCurrency})`,
+            type: 'number',
+            value: goalSeekData.targetValue,
+            onChange: value =>
+              setGoalSeekData(prev => ({
+                ...prev,
+                targetValue: Number(value),
+              })),
+            min: 0,
+            step: goalSeekData.type === SavingsGoalType.BtcAmount ? 0.1 : 10000,
+            tooltip: 'Amount to reach',
+          },
+          {
+            id: 'goalSolveFor',
+            label: 'Solve For',
+            type: 'select',
+            value: goalSeekData.solveFor,
+            onChange: value =>
+              setGoalSeekData(prev => ({
+                ...prev,
+                solveFor: value as SavingsGoalVariable,
+              })),
+            options: [
+              { label: 'Monthly DCA', value: SavingsGoalVariable.MonthlyDca },
+              {
+                label: 'Initial BTC holding',
+                value: SavingsGoalVariable.InitialBtcHolding,
+              },
+              {
+                label: 'Horizon (years)',
+                value: SavingsGoalVariable.NumberOfYears,
+              },
+            ],
+            tooltip:
+              'Parameter to solve for; the others stay as set above (fees, yield and indexing included)',
+          },
+          ...(goalSeekData.solveFor !== SavingsGoalVariable.NumberOfYears
+            ? ([
+                {
+                  id: 'goalTargetYear',
+                  label: 'By the End of Year',
+                  type: 'number',
+                  value: goalSeekData.targetYear,
+                  onChange: value =>
+                    setGoalSeekData(prev => ({
+                      ...prev,
+                      targetYear: Math.max(1, Math.round(Number(value))),
+                    })),
+                  min: 1,
+                  step: 1,
+                  tooltip:
+                    'Simulation year in which the target must be reached',
+                },
+              ] as InputDef[])
+            : []),
+        ] as InputDef[])
+      : []),
+  ];
+
+  // opis rozwiązania goal-seek i zastosowanie go do parametrów
+  const goalSeekSolution = (() => {
+    if (!savingsGoalResult) return null;
+    const { value } = savingsGoalResult;
+    if (value === null) return { text: 'Target not reachable', apply: null };
+    switch (goalSeekData.solveFor) {
+      case SavingsGoalVariable.InitialBtcHolding:
+        return {
+          text: `Initial holding: ${value.toFixed(8)} BTC`,
+          apply: () =>
+            setUserData(prev => ({ ...prev, initialBtcHolding: value })),
+        };
+      case SavingsGoalVariable.NumberOfYears:
+        return {
+          text: `Reached after ${value.toFixed(2)} years`,
+          apply: () =>
+            setSimulationSettings(prev => ({
+              ...prev,
+              numberOfYears: Math.ceil(value),
+            })),
+        };
+      default:
+        return {
+          text: `Monthly DCA: ${CURRENCY_SYMBOLS[currencyData.contributionCurrency]}${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`,
+          apply: () =>
+            setUserData(prev => ({
+              ...prev,
+              monthlyDcaInEuro: Math.ceil(value * 100) / 100,
+            })),
+        };
+    }
+  })();
+
   // Platform Parameters
   const platformInputs: InputDef[] = [
     {
@@ -152,8 +1977,11 @@ const SimulationParametersForm: React.FC = () => {
       type: 'number',
       value: platformData.userStarts,
       onChange: value =>
-        setPlatformData(prev => ({ ...prev, userStarts: Number(value) })),
-      min: 0,
+        setPlatformData(prev => ({
+          ...prev,
+          userStarts: Math.max(1, Number(value)),
+        })),
+      min: 1,
       step: 1000,
       tooltip: 'Initial number of platform users',
     },
@@ -163,8 +1991,11 @@ const SimulationParametersForm: React.FC = () => {
       type: 'number',
       value: platformData.userEnds,
       onChange: value =>
-        setPlatformData(prev => ({ ...prev, userEnds: Number(value) })),
-      min: 0,
+        setPlatformData(prev => ({
+          ...prev,
+          userEnds: Math.max(1, Number(value)),
+        })),
+      min: 1,
       step: 10000,
       tooltip: 'Target number of platform users',
     },
@@ -211,6 +2042,110 @@ const SimulationParametersForm: React.FC = () => {
     },
   ];
 
+  const yieldScheduleInputs = (
+    key: 'userYieldSchedule' | 'platformYieldSchedule',
+    label: string
+  ): InputDef[] => {
+    const schedule = yieldData[key];
+    const setSchedule = (patch: Partial<typeof schedule>) =>
+      setYieldData(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+    const floorInput: InputDef = {
+      id: `${key}Floor`,
+      label: `${label} Yield Floor (%)`,
+      type: 'number',
+      value: schedule.floorPct * 100,
+      onChange: value => setSchedule({ floorPct: Number(value) / 100 }),
+      min: 0,
+      step: 0.1,
+      tooltip: 'Lowest yield the schedule can reach',
+    };
+    const typeInputs: Record<YieldScheduleType, InputDef[]> = {
+      [YieldScheduleType.Constant]: [],
+      [YieldScheduleType.Yearly]: [
+        {
+          id: `${key}YearlyRates`,
+          label: `${label} Yield by Year (%)`,
+          type: 'text',
+          value: schedule.yearlyRatesText,
+          onChange: value => setSchedule({ yearlyRatesText: value }),
+          tooltip:
+            'APY for simulation years 1, 2, 3, … separated by commas; the last rate is kept afterwards',
+        },
+      ],
+      [YieldScheduleType.LinearDecay]: [
+        floorInput,
+        {
+          id: `${key}DecayYears`,
+          label: `${label} Decay Years`,
+          type: 'number',
+          value: schedule.decayYears,
+          onChange: value =>
+            setSchedule({ decayYears: Math.max(1, Number(value)) }),
+          min: 1,
+          step: 1,
+          tooltip: 'Years until the yield falls linearly to the floor',
+        },
+      ],
+      [YieldScheduleType.ExponentialDecay]: [
+        floorInput,
+        {
+          id: `${key}HalfLifeYears`,
+          label: `${label} Half-life (years)`,
+          type: 'number',
+          value: schedule.halfLifeYears,
+          onChange: value =>
+            setSchedule({ halfLifeYears: Math.max(0.1, Number(value)) }),
+          min: 0.1,
+          step: 0.5,
+          tooltip: 'Years after which half of the gap to the floor is gone',
+        },
+      ],
+      [YieldScheduleType.CpiLinked]: [
+        floorInput,
+        {
+          id: `${key}CpiMultiplier`,
+          label: `${label} CPI Multiplier`,
+          type: 'number',
+          value: schedule.cpiMultiplier,
+          onChange: value => setSchedule({ cpiMultiplier: Number(value) }),
+          step: 0.1,
+          tooltip: 'Yield = current inflation × multiplier + spread',
+        },
+        {
+          id: `${key}CpiSpread`,
+          label: `${label} Spread over CPI (%)`,
+          type: 'number',
+          value: schedule.cpiSpreadPct * 100,
+          onChange: value => setSchedule({ cpiSpreadPct: Number(value) / 100 }),
+          step: 0.1,
+          tooltip: 'Yield = current inflation × multiplier + spread',
+        },
+      ],
+    };
+    return [
+      {
+        id: `${key}Type`,
+        label: `${label} Yield Schedule`,
+        type: 'select',
+        value: schedule.type,
+        onChange: value => setSchedule({ type: value as YieldScheduleType }),
+        options: [
+          { label: 'Constant APY', value: YieldScheduleType.Constant },
+          { label: 'Per-year rates', value: YieldScheduleType.Yearly },
+          { label: 'Linear decay', value: YieldScheduleType.LinearDecay },
+          {
+            label: 'Exponential decay',
+            value: YieldScheduleType.ExponentialDecay,
+          },
+          { label: 'Linked to CPI', value: YieldScheduleType.CpiLinked },
+        ],
+        tooltip:
+          'How the APY changes over time; decays start from the yield rate',
+      },
+      ...typeInputs[schedule.type],
+    ];
+  };
+
   // Yield Parameters
   const yieldInputs: InputDef[] = [
     {
@@ -227,6 +2162,7 @@ const SimulationParametersForm: React.FC = () => {
       step: 0.1,
       tooltip: 'Annual yield rate on accumulated BTC',
     },
+    ...yieldScheduleInputs('userYieldSchedule', 'User'),
     {
       id: 'platformYearlyYieldPct',
       label: 'Platform Yield Rate (APY, %)',
@@ -241,6 +2177,206 @@ const SimulationParametersForm: React.FC = () => {
       step: 0.1,
       tooltip: "Platform's investment yield rate",
     },
+    ...yieldScheduleInputs('platformYieldSchedule', 'Platform'),
+  ];
+
+  // Staking Tiers
+  const updateStakingTier = (index: number, patch: Partial<StakingTier>) =>
+    setYieldData(prev => ({
+      ...prev,
+      userStakingTiers: prev.userStakingTiers.map((tier, i) =>
+        i === index ? { ...tier, ...patch } : tier
+      ),
+    }));
+
+  const addStakingTier = () =>
+    setYieldData(prev => ({
+      ...prev,
+      userStakingTiers: [
+        ...prev.userStakingTiers,
+        {
+          name: `Tier ${prev.userStakingTiers.length + 1}`,
+          allocationPct: 0,
+          apy: 0.05,
+          lockUpMonths: 12,
+          earlyExitPenaltyPct: 0.05,
+        },
+      ],
+    }));
+
+  const removeStakingTier = (index: number) =>
+    setYieldData(prev => ({
+      ...prev,
+      userStakingTiers: prev.userStakingTiers.filter((_, i) => i !== index),
+    }));
+
+  const stakingTierInputs = (tier: StakingTier, index: number): InputDef[] => {
+    // udział pozostałych tierów – suma alokacji nie może przekroczyć 100%
+    const otherAllocationPct = yieldData.userStakingTiers.reduce(
+      (sum, other, i) => (i === index ? sum : sum + other.allocationPct),
+      0
+    );
+    return [
+      {
+        id: `stakingName-${index}`,
+        label: 'Name',
+        type: 'text',
+        value: tier.name,
+        onChange: value => updateStakingTier(index, { name: value }),
+      },
+      {
+        id: `stakingAllocation-${index}`,
+        label: 'Allocation (%)',
+        type: 'number',
+        value: tier.allocationPct * 100,
+        onChange: value =>
+          updateStakingTier(index, {
+            allocationPct: Math.min(
+              1 - otherAllocationPct,
+              Math.max(0, Number(value) / 100)
+            ),
+          }),
+        min: 0,
+        max: 100,
+        step: 5,
+        tooltip:
+          'Share of the holding and new BTC staked in this tier; the unallocated rest earns the user yield rate',
+      },
+      {
+        id: `stakingApy-${index}`,
+        label: 'APY (%)',
+        type: 'number',
+        value: tier.apy * 100,
+        onChange: value =>
+          updateStakingTier(index, { apy: Number(value) / 100 }),
+        min: 0,
+        step: 0.1,
+      },
+      {
+        id: `stakingLockUp-${index}`,
+        label: 'Lock-up (months)',
+        type: 'number',
+        value: tier.lockUpMonths ?? 0,
+        onChange: value =>
+          updateStakingTier(index, {
+            lockUpMonths: Math.max(0, Math.round(Number(value))),
+          }),
+        min: 0,
+        step: 1,
+        tooltip:
+          'Every BTC added to the tier (including its yield) stays locked this long',
+      },
+      {
+        id: `stakingPenalty-${index}`,
+        label: 'Early Exit Penalty (%)',
+        type: 'number',
+        value: (tier.earlyExitPenaltyPct ?? 0) * 100,
+        onChange: value =>
+          updateStakingTier(index, {
+            earlyExitPenaltyPct: Math.min(
+              0.99,
+              Math.max(0, Number(value) / 100)
+            ),
+          }),
+        min: 0,
+        max: 99,
+        step: 1,
+        tooltip:
+          'Charged on locked BTC sold before the lock-up ends (withdrawals, purchases, loan and tax sales); the passive share and unlocked BTC are sold first',
+      },
+      {
+        id: `stakingFee-${index}`,
+        label: 'Platform Yield Fee (%)',
+        type: 'number',
+        value:
+          (tier.platformFeeFromYieldPct ??
+            platformData.platformFeeFromYieldPct) * 100,
+        onChange: value =>
+          updateStakingTier(index, {
+            platformFeeFromYieldPct: Math.min(
+              1,
+              Math.max(0, Number(value) / 100)
+            ),
+          }),
+        min: 0,
+        max: 100,
+        step: 0.1,
+        tooltip:
+          "Platform fee on this tier's yield; defaults to the platform yield fee",
+      },
+    ];
+  };
+
+  // Monte Carlo (Risk) Parameters
+  const monteCarloInputs: InputDef[] = [
+    {
+      id: 'monteCarloEnabled',
+      label: 'Monte Carlo',
+      type: 'toggle',
+      value: monteCarloData.enabled,
+      onChange: value =>
+        setMonteCarloData(prev => ({ ...prev, enabled: value })),
+      tooltip:
+        'When ON: simulates many random BTC price paths and shows percentile bands',
+    },
+    {
+      id: 'numberOfPaths',
+      label: 'Number of Paths',
+      type: 'number',
+      value: monteCarloData.numberOfPaths,
+      onChange: value =>
+        setMonteCarloData(prev => ({
+          ...prev,
+          numberOfPaths: Math.min(
+            MAX_MONTE_CARLO_PATHS,
+            Math.max(1, Number(value))
+          ),
+        })),
+      min: 1,
+      max: MAX_MONTE_CARLO_PATHS,
+      step: 50,
+      tooltip: `How many random price paths are simulated (up to ${MAX_MONTE_CARLO_PATHS})`,
+    },
+    {
+      id: 'annualVolatility',
+      label: 'BTC Volatility (%/yr)',
+      type: 'number',
+      value: monteCarloData.annualVolatility * 100,
+      onChange: value =>
+        setMonteCarloData(prev => ({
+          ...prev,
+          annualVolatility: Number(value) / 100,
+        })),
+      min: 0,
+      step: 1,
+      tooltip:
+        'Annualized volatility of monthly BTC returns around the CAGR curve',
+    },
+    {
+      id: 'fatTailDegreesOfFreedom',
+      label: 'Fat Tails (t dof)',
+      type: 'number',
+      value: monteCarloData.fatTailDegreesOfFreedom,
+      onChange: value =>
+        setMonteCarloData(prev => ({
+          ...prev,
+          fatTailDegreesOfFreedom: Number(value),
+        })),
+      min: 0,
+      step: 1,
+      tooltip:
+        'Degrees of freedom of Student-t shocks (3-10 = fat tails). 0 = normal distribution',
+    },
+    {
+      id: 'seed',
+      label: 'Random Seed',
+      type: 'number',
+      value: monteCarloData.seed,
+      onChange: value =>
+        setMonteCarloData(prev => ({ ...prev, seed: Number(value) })),
+      step: 1,
+      tooltip: 'Same seed always produces the same price paths',
+    },
   ];
 
   // Simulation Settings
@@ -259,6 +2395,120 @@ const SimulationParametersForm: React.FC = () => {
       step: 1,
       tooltip: 'Savings horizon in years',
     },
+    {
+      id: 'startDate',
+      label: 'Start Month',
+      type: 'month',
+      value: simulationSettings.startDate.slice(0, 7),
+      onChange: value => {
+        if (!value) return;
+        setSimulationSettings(prev => ({ ...prev, startDate: `${value}-01` }));
+      },
+      tooltip: 'Calendar month of the first simulated month',
+    },
+  ];
+
+  // Currencies & FX
+  const currencyOptions = Object.values(Currency).map(currency => ({
+    label: currency,
+    value: currency,
+  }));
+  const fxPair = `${currencyData.contributionCurrency}/${currencyData.quoteCurrency}`;
+  const hasFx =
+    currencyData.contributionCurrency !== currencyData.quoteCurrency;
+  const currencyInputs: InputDef[] = [
+    {
+      id: 'quoteCurrency',
+      label: 'BTC Price Currency',
+      type: 'select',
+      value: currencyData.quoteCurrency,
+      onChange: value =>
+        setCurrencyData(prev => ({
+          ...prev,
+          quoteCurrency: value as Currency,
+        })),
+      options: currencyOptions,
+      tooltip: 'Currency of the BTC price path (initial price, CAGR, imports)',
+    },
+    {
+      id: 'contributionCurrency',
+      label: 'Contribution Currency',
+      type: 'select',
+      value: currencyData.contributionCurrency,
+      onChange: value =>
+        setCurrencyData(prev => ({
+          ...prev,
+          contributionCurrency: value as Currency,
+        })),
+      options: currencyOptions,
+      tooltip: 'Currency of the monthly DCA; converted with the FX path',
+    },
+    {
+      id: 'displayCurrency',
+      label: 'Show Results In',
+      type: 'select',
+      value: hasFx
+        ? currencyData.displayCurrency
+        : currencyData.contributionCurrency,
+      onChange: value =>
+        setCurrencyData(prev => ({
+          ...prev,
+          displayCurrency: value as Currency,
+        })),
+      options: (hasFx
+        ? [currencyData.quoteCurrency, currencyData.contributionCurrency]
+        : [currencyData.contributionCurrency]
+      ).map(currency => ({ label: currency, value: currency })),
+      tooltip: 'Currency of values, prices and investments in the charts',
+    },
+    ...(hasFx
+      ? ([
+          {
+            id: 'fxModel',
+            label: 'FX Model',
+            type: 'select',
+            value: currencyData.fxModel,
+            onChange: value =>
+              setCurrencyData(prev => ({
+                ...prev,
+                fxModel: value as FxModelType,
+              })),
+            options: [
+              { label: 'Constant rate', value: FxModelType.Constant },
+              { label: 'Annual drift', value: FxModelType.Drift },
+              { label: 'Imported series', value: FxModelType.Imported },
+            ],
+            tooltip: `How the ${fxPair} exchange rate develops`,
+          },
+          {
+            id: 'fxInitialRate',
+            label: `FX Rate (${fxPair})`,
+            type: 'number',
+            value: currencyData.fxInitialRate,
+            onChange: value =>
+              setCurrencyData(prev => ({
+                ...prev,
+                fxInitialRate: Math.max(0.0001, Number(value)),
+              })),
+            min: 0.0001,
+            step: 0.01,
+            tooltip: `${currencyData.contributionCurrency} per 1 ${currencyData.quoteCurrency} in the first month`,
+          },
+          {
+            id: 'fxAnnualDrift',
+            label: 'FX Drift (%/yr)',
+            type: 'number',
+            value: currencyData.fxAnnualDrift * 100,
+            onChange: value =>
+              setCurrencyData(prev => ({
+                ...prev,
+                fxAnnualDrift: Number(value) / 100,
+              })),
+            step: 0.1,
+            tooltip: `Yearly change of the ${fxPair} rate (positive = ${currencyData.contributionCurrency} weakens); also used after an imported series ends`,
+          },
+        ] as InputDef[])
+      : []),
   ];
 
   return (
@@ -267,46 +2517,469 @@ const SimulationParametersForm: React.FC = () => {
         <CardTitle className="text-lg text-white">Global Parameters</CardTitle>
       </CardHeader>
       <CardContent className="px-6 pb-8 space-y-6">
+        {simulationErrors.length > 0 && (
+          <div className="rounded-md border border-red-500/60 bg-red-950/40 px-3 py-2 text-xs text-red-300">
+            <div className="font-semibold">
+              Invalid settings – results below use the last valid settings:
+            </div>
+            <ul className="list-disc pl-4">
+              {simulationErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
         {/* Simulation Settings */}
         <div>
           <h4 className="text-sm font-semibold text-white mb-2">
             Simulation Settings
           </h4>
           <InputsRenderer
-            inputs={simulationInputs}
+            inputs={withFieldErrors(simulationInputs)}
             gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
           />
         </div>
 
+        {/* Currencies & FX */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Currencies & FX
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(currencyInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+          />
+          {hasFx && currencyData.fxModel === FxModelType.Imported && (
+            <div className="mt-4">
+              <MonthlySeriesImport
+                label={`FX Rates ${fxPair} (CSV / JSON)`}
+                tooltip={`One row per month: month (YYYY-MM) and ${currencyData.contributionCurrency} per 1 ${currencyData.quoteCurrency}. Dated rows are aligned to the simulation start date (earlier months are skipped); undated rows start at month 0. After the series ends the last rate moves with the FX drift`}
+                valueName="FX rate"
+                placeholder={'month,rate\n2025-01,4.27\n2025-02,4.21\n…'}
+                emptyText="No rates imported – using the FX rate"
+                series={currencyData.fxSeries}
+                startDate={simulationSettings.startDate}
+                onApply={series =>
+                  setCurrencyData(prev => ({ ...prev, fxSeries: series }))
+                }
+                onClear={() =>
+                  setCurrencyData(prev => ({ ...prev, fxSeries: null }))
+                }
+              />
+            </div>
+          )}
+        </div>
+
         {/* BTC & Market Parameters */}
         <div>
           <h4 className="text-sm font-semibold text-white mb-2">
             BTC & Market Parameters
           </h4>
           <InputsRenderer
-            inputs={marketInputs}
+            inputs={withFieldErrors(marketInputs)}
             gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
           />
         </div>
 
+        {/* Custom BTC Price Path */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Custom BTC Price Path
+          </h4>
+          <MonthlySeriesImport
+            label="Price Path (CSV / JSON)"
+            tooltip="One row per month: month (YYYY-MM) and BTC price in EUR, or a JSON array. The first dated row sets the simulation start date; a shorter series is extended with the selected price model"
+            valueName="price"
+            placeholder={'month,price\n2025-01,90000\n2025-02,95000\n…'}
+            emptyText="No custom path – using the selected model"
+            series={marketData.customPriceSeries}
+            onApply={series => {
+              setMarketData(prev => ({ ...prev, customPriceSeries: series }));
+              // daty w pliku wyznaczają miesiąc 0 symulacji
+              if (series.startMonth) {
+                setSimulationSettings(prev => ({
+                  ...prev,
+                  startDate: `${series.startMonth}-01`,
+                }));
+              }
+            }}
+            onClear={() =>
+              setMarketData(prev => ({ ...prev, customPriceSeries: null }))
+            }
+          />
+        </div>
+
+        {/* Imported CPI Index */}
+        {marketData.cpiModel === CpiModelType.Imported && (
+          <div>
+            <h4 className="text-sm font-semibold text-white mb-2">
+              Imported CPI Index
+            </h4>
+            <MonthlySeriesImport
+              label="CPI Index (CSV / JSON)"
+              tooltip="One row per month: month (YYYY-MM) and index level (e.g. Eurostat HICP). Dated rows are aligned to the simulation start date (earlier months are skipped); undated rows start at month 0. After the series ends the CPI rate is used"
+              valueName="CPI index"
+              placeholder={'month,hicp\n2025-01,127.3\n2025-02,127.9\n…'}
+              emptyText="No index imported – using the CPI rate"
+              series={marketData.cpiIndexSeries}
+              startDate={simulationSettings.startDate}
+              onApply={series =>
+                setMarketData(prev => ({ ...prev, cpiIndexSeries: series }))
+              }
+              onClear={() =>
+                setMarketData(prev => ({ ...prev, cpiIndexSeries: null }))
+              }
+            />
+          </div>
+        )}
+
+        {/* Stress Events */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Stress Events
+          </h4>
+          <div className="space-y-4">
+            {marketData.stressEvents.map((event, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-slate-300">
+                    {event.name ?? `Stress event ${index + 1}`}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="bg-slate-700 hover:bg-slate-600"
+                    onClick={() => removeStressEvent(index)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <InputsRenderer
+                  inputs={withFieldErrors(stressEventInputs(event, index))}
+                  gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+                />
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {Object.values(StressEventPreset).map(preset => (
+                <Button
+                  key={preset}
+                  type="button"
+                  size="sm"
+                  className="bg-red-700 hover:bg-red-600"
+                  onClick={() => addStressEvent(preset)}
+                >
+                  + {STRESS_EVENT_PRESETS[preset].name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
         {/* User Parameters */}
         <div>
           <h4 className="text-sm font-semibold text-white mb-2">
             User Parameters
           </h4>
           <InputsRenderer
-            inputs={userInputs}
+            inputs={withFieldErrors(userInputs)}
             gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
           />
         </div>
 
+        {/* Contribution Schedule */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Contribution Schedule
+          </h4>
+          <div className="space-y-4">
+            <InputsRenderer
+              inputs={withFieldErrors(scheduleInputs)}
+              gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+            />
+            <InputsRenderer
+              inputs={withFieldErrors(strategyInputs)}
+              gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+            />
+            {strategyComparison && (
+              <p className="text-sm text-slate-200">
+                {(
+                  [
+                    ['This strategy', strategyComparison.strategy],
+                    ['flat DCA', strategyComparison.flatDca],
+                  ] as const
+                )
+                  .map(
+                    ([name, summary]) =>
+                      `${name} pays in ${Math.round(summary.totalContributedInEuro).toLocaleString()} ${currencyData.quoteCurrency} for ${summary.finalBtcHolding.toFixed(4)} BTC (${summary.valuePerContributedEuro.toFixed(2)}× contributions)`
+                  )
+                  .join('; ')}{' '}
+                on the same price path.
+              </p>
+            )}
+            {pauses.map((pause, index) => (
+              <div key={`pause-${index}`} className="flex items-end gap-4">
+                <div className="flex-1">
+                  <InputsRenderer
+                    inputs={withFieldErrors(pauseInputs(pause, index))}
+                    gridCols="grid grid-cols-1 md:grid-cols-2 gap-4"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="bg-slate-700 hover:bg-slate-600"
+                  onClick={() =>
+                    setSchedule({
+                      pauses: pauses.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            {lumpSums.map((lumpSum, index) => (
+              <div key={`lumpSum-${index}`} className="flex items-end gap-4">
+                <div className="flex-1">
+                  <InputsRenderer
+                    inputs={withFieldErrors(lumpSumInputs(lumpSum, index))}
+                    gridCols="grid grid-cols-1 md:grid-cols-2 gap-4"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="bg-slate-700 hover:bg-slate-600"
+                  onClick={() =>
+                    setSchedule({
+                      lumpSums: lumpSums.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                className="bg-blue-700 hover:bg-blue-600"
+                onClick={() =>
+                  setSchedule({
+                    pauses: [...pauses, { startMonth: 60, endMonth: 72 }],
+                  })
+                }
+              >
+                + Break
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                className="bg-blue-700 hover:bg-blue-600"
+                onClick={() =>
+                  setSchedule({
+                    lumpSums: [...lumpSums, { month: 12, amountInEuro: 10000 }],
+                  })
+                }
+              >
+                + Lump Sum
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Payout Phase */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Payout Phase
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(decumulationInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+          />
+        </div>
+
+        {/* Collateral Loan */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Collateral Loan
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(loanInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4"
+          />
+        </div>
+
+        {/* Purchase Goals */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Purchase Goals
+          </h4>
+          <div className="space-y-4">
+            {purchaseGoals.map((goal, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-slate-300">
+                    {goal.name || `Goal ${index + 1}`}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="bg-slate-700 hover:bg-slate-600"
+                    onClick={() => removePurchaseGoal(index)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <InputsRenderer
+                  inputs={withFieldErrors(purchaseGoalInputs(goal, index))}
+                  gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+                />
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {Object.values(PurchaseGoalPreset).map(preset => (
+                <Button
+                  key={preset}
+                  type="button"
+                  size="sm"
+                  className="bg-purple-700 hover:bg-purple-600"
+                  onClick={() => addPurchaseGoal(preset)}
+                >
+                  + {PURCHASE_GOAL_PRESETS[preset].name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Taxes */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">Taxes</h4>
+          <InputsRenderer
+            inputs={withFieldErrors(taxInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+          />
+        </div>
+
+        {/* Lump Sum vs DCA */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Lump Sum vs DCA
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(lumpSumComparisonInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-3 gap-4"
+          />
+        </div>
+
+        {/* Counterparty Risk */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Counterparty Risk
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(counterpartyRiskInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+          />
+        </div>
+
+        {/* Referrals */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">Referrals</h4>
+          <div className="space-y-4">
+            <InputsRenderer
+              inputs={withFieldErrors(referralInputs)}
+              gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4"
+            />
+            {referralData.enabled && (
+              <>
+                {referralData.referralSchedule.map((arrival, index) => (
+                  <div
+                    key={`referral-${index}`}
+                    className="flex items-end gap-4"
+                  >
+                    <div className="flex-1">
+                      <InputsRenderer
+                        inputs={withFieldErrors(
+                          referralArrivalInputs(arrival, index)
+                        )}
+                        gridCols="grid grid-cols-1 md:grid-cols-2 gap-4"
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      className="bg-slate-700 hover:bg-slate-600"
+                      onClick={() =>
+                        setReferralData(prev => ({
+                          ...prev,
+                          referralSchedule: prev.referralSchedule.filter(
+                            (_, i) => i !== index
+                          ),
+                        }))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  size="sm"
+                  className="bg-blue-700 hover:bg-blue-600"
+                  onClick={() =>
+                    setReferralData(prev => ({
+                      ...prev,
+                      referralSchedule: [
+                        ...prev.referralSchedule,
+                        { monthsAfterStart: 12, count: 1 },
+                      ],
+                    }))
+                  }
+                >
+                  + Later Referrals
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Goal Seek */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">Goal Seek</h4>
+          <InputsRenderer
+            inputs={withFieldErrors(goalSeekInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4"
+          />
+          {goalSeekSolution && (
+            <div className="mt-3 flex items-center gap-3">
+              <span className="text-sm text-slate-200">
+                {goalSeekSolution.text}
+              </span>
+              {goalSeekSolution.apply && (
+                <Button
+                  type="button"
+                  size="sm"
+                  className="bg-slate-700 hover:bg-slate-600"
+                  onClick={goalSeekSolution.apply}
+                >
+                  Apply
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Platform Parameters */}
         <div>
           <h4 className="text-sm font-semibold text-white mb-2">
             Platform Parameters
           </h4>
           <InputsRenderer
-            inputs={platformInputs}
+            inputs={withFieldErrors(platformInputs)}
             gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4"
           />
         </div>
@@ -317,8 +2990,59 @@ const SimulationParametersForm: React.FC = () => {
             Yield Parameters
           </h4>
           <InputsRenderer
-            inputs={yieldInputs}
-            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-4"
+            inputs={withFieldErrors(yieldInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+          />
+        </div>
+
+        {/* Staking Tiers */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Staking Tiers
+          </h4>
+          <div className="space-y-4">
+            {yieldData.userStakingTiers.map((tier, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-slate-300">
+                    {tier.name || `Tier ${index + 1}`}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="bg-slate-700 hover:bg-slate-600"
+                    onClick={() => removeStakingTier(index)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <InputsRenderer
+                  inputs={withFieldErrors(stakingTierInputs(tier, index))}
+                  gridCols="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4"
+                />
+              </div>
+            ))}
+            {yieldData.userStakingTiers.length < 5 && (
+              <Button
+                type="button"
+                size="sm"
+                className="bg-purple-700 hover:bg-purple-600"
+                onClick={addStakingTier}
+              >
+                + Staking Tier
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Monte Carlo (Risk) Parameters */}
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-2">
+            Risk Parameters (Monte Carlo)
+          </h4>
+          <InputsRenderer
+            inputs={withFieldErrors(monteCarloInputs)}
+            gridCols="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4"
           />
         </div>
       </CardContent>
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
+import { CURRENCY_SYMBOLS } from '../../calculation/utils/getFxPath';
+import { PERPETUAL_PAYOUT_YEARS } from '../../calculation/solveSustainableWithdrawal';
+
+/***********************************
+ * Sustainable Income Headline Component
+ ***********************************/
+const SustainableIncomeCard: React.FC = () => {
+  const {
+    decumulationData,
+    currencyData,
+    userMonteCarloResult,
+    sustainableWithdrawal,
+  } = useBTCPension();
+
+  if (!sustainableWithdrawal) return null;
+
+  const symbol = CURRENCY_SYMBOLS[currencyData.contributionCurrency];
+  const duration = decumulationData.payoutYears
+    ? `for ${decumulationData.payoutYears} years`
+    : `for ${PERPETUAL_PAYOUT_YEARS} years (perpetual)`;
+
+  return (
+    <div className="flex flex-wrap items-baseline justify-between gap-2 bg-slate-800/60 backdrop-blur rounded-lg px-4 py-3 border border-slate-700">
+      <div>
+        <div className="text-xs uppercase tracking-wide text-gray-400">
+          Sustainable Monthly Income
+        </div>
+        <div className="text-2xl font-semibold text-white">
+          {symbol}
+          {sustainableWithdrawal.monthlyWithdrawalInEuro.toLocaleString(
+            'en-US',
+            { maximumFractionDigits: 0 }
+          )}
+          <span className="text-sm font-normal text-gray-400"> / month</span>
+        </div>
+      </div>
+      <div className="text-sm text-gray-300">
+        from year {(decumulationData.startMonth / 12).toFixed(1)} {duration}
+        {decumulationData.enableIndexing
+          ? " · in today's money, CPI-indexed"
+          : ' · nominal'}
+        {userMonteCarloResult
+          ? ` · lasts on ${(sustainableWithdrawal.successProbability * 100).toFixed(0)}% of ${sustainableWithdrawal.pathWithdrawals.length} price paths`
+          : ' · deterministic price path'}
+      </div>
+    </div>
+  );
+};
+
+export default SustainableIncomeCard;
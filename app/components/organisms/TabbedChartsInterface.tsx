@@ -4,6 +4,9 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import UserPortfolioChart from './UserPortfolioChart';
 import PlatformRevenueChart from './PlatformRevenueChart';
+import SustainableIncomeCard from './SustainableIncomeCard';
+import LumpSumComparisonCard from './LumpSumComparisonCard';
+import ReturnMetricsCard from './ReturnMetricsCard';
 
 type TabType = 'user' | 'platform';
 
@@ -58,10 +61,15 @@ const TabbedChartsInterface: React.FC<TabbedChartsInterfaceProps> = ({
         transition={{ duration: 0.3 }}
       >
         {activeTab === 'user' && (
-          <UserPortfolioChart
-            portfolioHeight={portfolioHeight}
-            onFullscreenClick={onUserFullscreenClick}
-          />
+          <div className="space-y-4">
+            <SustainableIncomeCard />
+            <LumpSumComparisonCard />
+            <ReturnMetricsCard />
+            <UserPortfolioChart
+              portfolioHeight={portfolioHeight}
+              onFullscreenClick={onUserFullscreenClick}
+            />
+          </div>
         )}
         {activeTab === 'platform' && (
           <PlatformRevenueChart
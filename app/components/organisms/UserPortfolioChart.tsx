@@ -4,10 +4,12 @@ import React, { useMemo } from 'react';
 import {
   StandaloneTimeseriesChart,
   SeriesConfig,
+  BandConfig,
+  ReferenceAreaConfig,
+  ReferenceLineConfig,
 } from '../molecules/StandaloneTimeseriesChart';
 import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
 import { formatNumber } from '@/lib/formatPrice';
-import { calculateMonthlyDcaInEuro } from '../../calculation/utils/calculateMonthlyDcaInEuro';
 
 /******************************************************
  * Utility helpers
@@ -15,6 +17,14 @@ import { calculateMonthlyDcaInEuro } from '../../calculation/utils/calculateMont
 const fmt = (n: number, d = 0) =>
   n.toLocaleString('en-US', { maximumFractionDigits: d });
 
+const STAKING_TIER_COLORS = [
+  '#a3e635',
+  '#2dd4bf',
+  '#818cf8',
+  '#f472b6',
+  '#facc15',
+];
+
 /***********************************
  * User Portfolio Chart Component
  ***********************************/
@@ -28,68 +38,93 @@ const UserPortfolioChart: React.FC<UserPortfolioChartProps> = ({
   onFullscreenClick,
 }) => {
   const {
-    marketData,
-    userData,
     simulationSettings,
     userSeries,
     lastUserSnapshot,
+    userMonteCarloResult,
+    halvingMonths,
+    stressEventWindows,
+    displayCurrencySymbol: cur,
+    displayFxRate,
+    payoutStartMonth,
+    fundsDepletedMonth,
+    loanStartMonth,
+    liquidationMonths,
+    purchaseGoals,
+    purchaseGoalMonths,
+    taxData,
+    yieldData,
+    selfCustodySeries,
+    referralData,
   } = useBTCPension();
 
   // Enhanced user series with calculated values
   const enhancedUserSeries = useMemo(() => {
     return userSeries.map((snapshot, index) => {
-      // Calculate total investment up to this month
-      let totalInvestment = 0;
-      const monthlyDca = userData.monthlyDcaInEuro;
-      const startMonth = userData.startMonth;
-      const enableIndexing = marketData.enableIndexing;
-      const cpi = marketData.cpi;
-
-      for (let m = startMonth; m <= index; m++) {
-        if (m >= startMonth) {
-          const cpiFactor = Math.pow(1 + cpi, m / 12);
-          const monthlyContribution = calculateMonthlyDcaInEuro(
-            monthlyDca,
-            cpiFactor,
-            enableIndexing
-          );
-          totalInvestment += monthlyContribution;
-        }
-      }
-
       const monthNumber = index + 1; // numer miesiąca (1-300)
       const yearNumber = monthNumber / 12; // lata (1/12 do 25)
+      const percentiles = userMonteCarloResult?.percentiles[index];
+      const fx = displayFxRate[index];
+      const toDisplay = (value: number | undefined) =>
+        value === undefined ? undefined : value * fx;
 
       return {
         year: yearNumber, // konwertuj miesiące na lata
         month: monthNumber,
         yearLabel: `${yearNumber.toFixed(1)} years (${monthNumber} months)`, // etykieta z latami i miesiącami
-        btcPrice: snapshot.currentBtcPriceInEuro,
+        btcPrice: snapshot.currentBtcPriceInEuro * fx,
         btcHolding: snapshot.userAccumulatedBtcHolding,
         btcValue:
-          snapshot.userAccumulatedBtcHolding * snapshot.currentBtcPriceInEuro,
-        totalInvestment,
+          snapshot.userAccumulatedBtcHolding *
+          snapshot.currentBtcPriceInEuro *
+          fx,
+        totalInvestment: snapshot.cumulativeContributionInEuro * fx,
+        costBasis: snapshot.costBasisInEuro * fx,
+        unrealizedPnl: snapshot.unrealizedPnlInEuro * fx,
+        breakEvenPrice: snapshot.breakEvenBtcPriceInEuro * fx,
+        totalPlatformFeesValue: snapshot.cumulativePlatformFeesInEuro * fx,
+        withdrawal: snapshot.withdrawalInEuro * fx,
+        loanBalance: snapshot.loanBalanceInEuro * fx,
+        netWorth: snapshot.netWorthInEuro * fx,
+        afterTaxValue: snapshot.afterTaxValueInEuro * fx,
+        selfCustodyHolding:
+          selfCustodySeries?.[index].userAccumulatedBtcHolding,
         platformFeeFromYield: snapshot.platformFeeFromYieldInBtc,
         platformExchangeFee: snapshot.platformExchangeFeeInBtc,
-        totalPlatformFees:
-          (snapshot.platformFeeFromYieldInBtc || 0) +
-          (snapshot.platformExchangeFeeInBtc || 0),
+        // sumy od startu liczone przez silnik
+        totalPlatformFees: snapshot.cumulativePlatformFeesInBtc,
+        totalWithdrawn: snapshot.cumulativeWithdrawalInEuro * fx,
+        totalTaxPaid: snapshot.cumulativeTaxPaidInEuro * fx,
+        totalCounterpartyLoss: snapshot.cumulativeCounterpartyLossInBtc,
+        totalReferralIncome: snapshot.cumulativeReferralRewardInBtc,
+        // BTC w tierach stakingu (stakingTier0, stakingTier1, ...)
+        ...Object.fromEntries(
+          snapshot.stakingTierBtc.map((btc, i) => [`stakingTier${i}`, btc])
+        ),
+        // Monte Carlo percentiles (fan)
+        btcValueP5: toDisplay(percentiles?.userBtcValueInEuro.p5),
+        btcValueP25: toDisplay(percentiles?.userBtcValueInEuro.p25),
+        btcValueP50: toDisplay(percentiles?.userBtcValueInEuro.p50),
+        btcValueP75: toDisplay(percentiles?.userBtcValueInEuro.p75),
+        btcValueP95: toDisplay(percentiles?.userBtcValueInEuro.p95),
+        btcHoldingP5: percentiles?.userAccumulatedBtcHolding.p5,
+        btcHoldingP95: percentiles?.userAccumulatedBtcHolding.p95,
       };
     });
-  }, [userSeries, userData, marketData]);
+  }, [userSeries, userMonteCarloResult, displayFxRate, selfCustodySeries]);
 
   // Chart series configuration
   const series: SeriesConfig[] = [
     {
       id: 'btcValue',
-      name: 'BTC Value (€)',
+      name: `BTC Value (${cur})`,
       dataKey: 'btcValue',
       color: '#f59e0b',
       yAxisId: 'left',
     },
     {
       id: 'btcPrice',
-      name: 'BTC Price (€)',
+      name: `BTC Price (${cur})`,
       dataKey: 'btcPrice',
       color: '#ef4444',
       yAxisId: 'left',
@@ -104,7 +139,7 @@ const UserPortfolioChart: React.FC<UserPortfolioChartProps> = ({
     },
     {
       id: 'totalPlatformFees',
-      name: 'Platform Fees (₿)',
+      name: 'Total Platform Fees (₿)',
       dataKey: 'totalPlatformFees',
       color: '#06b6d4',
       yAxisId: 'right',
@@ -112,7 +147,7 @@ const UserPortfolioChart: React.FC<UserPortfolioChartProps> = ({
     },
     {
       id: 'totalInvestment',
-      name: 'Total Investment (€)',
+      name: `Total Investment (${cur})`,
       dataKey: 'totalInvestment',
       color: '#8b5cf6',
       yAxisId: 'left',
@@ -120,14 +155,306 @@ const UserPortfolioChart: React.FC<UserPortfolioChartProps> = ({
     },
   ];
 
+  // Cost basis and P/L series (from the engine snapshots)
+  const costBasisSeries: SeriesConfig[] = [
+    {
+      id: 'costBasis',
+      name: `Cost Basis (${cur})`,
+      dataKey: 'costBasis',
+      color: '#a78bfa',
+      yAxisId: 'left',
+      strokeDasharray: '4 2',
+    },
+    {
+      id: 'unrealizedPnl',
+      name: `Unrealized P/L (${cur})`,
+      dataKey: 'unrealizedPnl',
+      color: '#14b8a6',
+      yAxisId: 'left',
+    },
+    {
+      id: 'breakEvenPrice',
+      name: `Break-Even BTC Price (${cur})`,
+      dataKey: 'breakEvenPrice',
+      color: '#fda4af',
+      yAxisId: 'left',
+      strokeDasharray: '5 5',
+      visible: false,
+    },
+    {
+      id: 'totalPlatformFeesValue',
+      name: `Total Platform Fees (${cur})`,
+      dataKey: 'totalPlatformFeesValue',
+      color: '#0891b2',
+      yAxisId: 'left',
+      strokeDasharray: '2 2',
+      visible: false,
+    },
+  ];
+
+  // Payout phase series (only when decumulation is enabled)
+  const payoutSeries: SeriesConfig[] =
+    payoutStartMonth !== null
+      ? [
+          {
+            id: 'withdrawal',
+            name: `Monthly Withdrawal (${cur})`,
+            dataKey: 'withdrawal',
+            color: '#f97316',
+            yAxisId: 'left',
+          },
+          {
+            id: 'totalWithdrawn',
+            name: `Total Withdrawn (${cur})`,
+            dataKey: 'totalWithdrawn',
+            color: '#fb923c',
+            yAxisId: 'left',
+            strokeDasharray: '3 1',
+          },
+        ]
+      : [];
+
+  // Collateral loan series (only when the loan is enabled)
+  const loanSeries: SeriesConfig[] =
+    loanStartMonth !== null
+      ? [
+          {
+            id: 'loanBalance',
+            name: `Loan Balance (${cur})`,
+            dataKey: 'loanBalance',
+            color: '#e11d48',
+            yAxisId: 'left',
+          },
+          {
+            id: 'netWorth',
+            name: `Net Worth (${cur})`,
+            dataKey: 'netWorth',
+            color: '#10b981',
+            yAxisId: 'left',
+            strokeDasharray: '4 2',
+          },
+        ]
+      : [];
+
+  // Tax series (only when taxes are enabled)
+  const taxSeries: SeriesConfig[] = taxData.enabled
+    ? [
+        {
+          id: 'afterTaxValue',
+          name: `After-Tax Value (${cur})`,
+          dataKey: 'afterTaxValue',
+          color: '#84cc16',
+          yAxisId: 'left',
+          strokeDasharray: '4 2',
+        },
+        {
+          id: 'totalTaxPaid',
+          name: `Total Tax Paid (${cur})`,
+          dataKey: 'totalTaxPaid',
+          color: '#64748b',
+          yAxisId: 'left',
+          strokeDasharray: '3 1',
+        },
+      ]
+    : [];
+
+  // Counterparty risk series (only when counterparty risk is enabled)
+  const counterpartySeries: SeriesConfig[] = selfCustodySeries
+    ? [
+        {
+          id: 'selfCustodyHolding',
+          name: 'Self-Custody Holdings (₿)',
+          dataKey: 'selfCustodyHolding',
+          color: '#94a3b8',
+          yAxisId: 'right',
+          strokeDasharray: '4 2',
+        },
+        {
+          id: 'totalCounterpartyLoss',
+          name: 'Counterparty Losses (₿)',
+          dataKey: 'totalCounterpartyLoss',
+          color: '#dc2626',
+          yAxisId: 'right',
+          strokeDasharray: '3 1',
+        },
+      ]
+    : [];
+
+  // Referral income series (only when referrals are enabled)
+  const referralSeries: SeriesConfig[] = referralData.enabled
+    ? [
+        {
+          id: 'totalReferralIncome',
+          name: 'Referral Income (₿)',
+          dataKey: 'totalReferralIncome',
+          color: '#d946ef',
+          yAxisId: 'right',
+          strokeDasharray: '3 1',
+        },
+      ]
+    : [];
+
+  // Staking tier series (one per configured tier)
+  const stakingSeries: SeriesConfig[] = yieldData.userStakingTiers.map(
+    (tier, i) => ({
+      id: `stakingTier${i}`,
+      name: `${tier.name || `Tier ${i + 1}`} (₿)`,
+      dataKey: `stakingTier${i}`,
+      color: STAKING_TIER_COLORS[i % STAKING_TIER_COLORS.length],
+      yAxisId: 'right',
+      strokeDasharray: '2 4',
+    })
+  );
+
+  // Monte Carlo fan (only when Monte Carlo is enabled)
+  const bands: BandConfig[] = userMonteCarloResult
+    ? [
+        {
+          id: 'btcValueP5P95',
+          name: `BTC Value P5–P95 (${cur})`,
+          lowerKey: 'btcValueP5',
+          upperKey: 'btcValueP95',
+          color: '#f59e0b',
+          fillOpacity: 0.12,
+          yAxisId: 'left',
+        },
+        {
+          id: 'btcValueP25P75',
+          name: `BTC Value P25–P75 (${cur})`,
+          lowerKey: 'btcValueP25',
+          upperKey: 'btcValueP75',
+          color: '#f59e0b',
+          fillOpacity: 0.25,
+          yAxisId: 'left',
+        },
+        {
+          id: 'btcHoldingP5P95',
+          name: 'BTC Holdings P5–P95 (₿)',
+          lowerKey: 'btcHoldingP5',
+          upperKey: 'btcHoldingP95',
+          color: '#22c55e',
+          fillOpacity: 0.12,
+          yAxisId: 'right',
+          visible: false,
+        },
+      ]
+    : [];
+
+  const chartSeries: SeriesConfig[] = userMonteCarloResult
+    ? [
+        ...series,
+        ...costBasisSeries,
+        ...payoutSeries,
+        ...loanSeries,
+        ...taxSeries,
+        ...stakingSeries,
+        ...counterpartySeries,
+        ...referralSeries,
+        {
+          id: 'btcValueP50',
+          name: `BTC Value Median (${cur})`,
+          dataKey: 'btcValueP50',
+          color: '#fbbf24',
+          yAxisId: 'left',
+          strokeDasharray: '6 3',
+        },
+      ]
+    : [
+        ...series,
+        ...costBasisSeries,
+        ...payoutSeries,
+        ...loanSeries,
+        ...taxSeries,
+        ...stakingSeries,
+        ...counterpartySeries,
+        ...referralSeries,
+      ];
+
+  // Halving markers (only when the halving cycle overlay is enabled)
+  const referenceLines: ReferenceLineConfig[] = halvingMonths
+    .filter(m => m < enhancedUserSeries.length)
+    .map(m => ({
+      id: `halving-${m}`,
+      x: enhancedUserSeries[m].yearLabel,
+      label: 'Halving',
+      color: '#eab308',
+    }));
+
+  // Accumulation → payout transition and the month the funds run out
+  if (payoutStartMonth !== null) {
+    referenceLines.push({
+      id: 'payout-start',
+      x: enhancedUserSeries[payoutStartMonth].yearLabel,
+      label: 'Payout starts',
+      color: '#f97316',
+    });
+  }
+  if (fundsDepletedMonth !== null) {
+    referenceLines.push({
+      id: 'funds-depleted',
+      x: enhancedUserSeries[fundsDepletedMonth].yearLabel,
+      label: 'Funds depleted',
+      color: '#ef4444',
+    });
+  }
+
+  // Loan start and collateral liquidations
+  if (loanStartMonth !== null) {
+    referenceLines.push({
+      id: 'loan-start',
+      x: enhancedUserSeries[loanStartMonth].yearLabel,
+      label: 'Loan starts',
+      color: '#e11d48',
+    });
+  }
+  liquidationMonths.forEach(m =>
+    referenceLines.push({
+      id: `liquidation-${m}`,
+      x: enhancedUserSeries[m].yearLabel,
+      label: 'Liquidation',
+      color: '#be123c',
+    })
+  );
+
+  // Purchase goals: first month each goal is affordable
+  purchaseGoalMonths.forEach((m, i) => {
+    if (m === null) return;
+    referenceLines.push({
+      id: `purchase-${i}`,
+      x: enhancedUserSeries[m].yearLabel,
+      label: purchaseGoals[i].execute
+        ? `${purchaseGoals[i].name} (bought)`
+        : purchaseGoals[i].name,
+      color: '#a855f7',
+    });
+  });
+
+  // Stress event windows (crash → recovery)
+  const referenceAreas: ReferenceAreaConfig[] = stressEventWindows
+    .filter(w => w.endMonth < enhancedUserSeries.length)
+    .map(w => ({
+      id: `stress-${w.startMonth}`,
+      x1: enhancedUserSeries[w.startMonth].yearLabel,
+      x2: enhancedUserSeries[w.endMonth].yearLabel,
+      label: w.name,
+    }));
+
   return (
     <StandaloneTimeseriesChart
+      key={userMonteCarloResult ? 'monte-carlo' : 'deterministic'}
       title="User BTC Accumulation & Platform Fees"
-      description={`BTC accumulation and platform fees over ${simulationSettings.numberOfYears} years`}
+      description={`BTC accumulation and platform fees over ${simulationSettings.numberOfYears} years${
+        userMonteCarloResult
+          ? ` · Monte Carlo fan from ${userMonteCarloResult.paths.length} price paths`
+          : ''
+      }`}
       height={portfolioHeight}
       data={enhancedUserSeries}
       xKey="yearLabel"
-      series={series}
+      series={chartSeries}
+      bands={bands}
+      referenceLines={referenceLines}
+      referenceAreas={referenceAreas}
       onFullscreenClick={onFullscreenClick}
       xTickFormatter={v => {
         // yearLabel ma format "X.Y years (Z months)", chcemy tylko pełne lata dla osi
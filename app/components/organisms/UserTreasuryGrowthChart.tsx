@@ -3,7 +3,6 @@
 import React, { useMemo } from 'react';
 import { useBTCPension } from '../providers/BtcTreasuryGrowthSimulationProvider';
 import { formatNumber } from '@/lib/formatPrice';
-import { calculateMonthlyDcaInEuro } from '../../calculation/utils/calculateMonthlyDcaInEuro';
 import { FullscreenChartWrapper } from '../molecules/FullscreenChartWrapper';
 import { SeriesConfig } from '../molecules/StandaloneTimeseriesChart';
 
@@ -15,17 +14,17 @@ interface UserTreasuryGrowthChartProps {
 /***********************************
  * Series Configuration
  ***********************************/
-const USER_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
+const getUserTreasuryGrowthSeries = (cur: string): SeriesConfig[] => [
   {
     id: 'btcValue',
-    name: 'BTC Value (€)',
+    name: `BTC Value (${cur})`,
     dataKey: 'btcValue',
     color: '#f59e0b',
     yAxisId: 'left',
   },
   {
     id: 'btcPrice',
-    name: 'BTC Price (€)',
+    name: `BTC Price (${cur})`,
     dataKey: 'btcPrice',
     color: '#ef4444',
     yAxisId: 'left',
@@ -40,7 +39,7 @@ const USER_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
   },
   {
     id: 'totalPlatformFees',
-    name: 'Platform Fees (₿)',
+    name: 'Total Platform Fees (₿)',
     dataKey: 'totalPlatformFees',
     color: '#06b6d4',
     yAxisId: 'right',
@@ -48,7 +47,7 @@ const USER_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
   },
   {
     id: 'totalInvestment',
-    name: 'Total Investment (€)',
+    name: `Total Investment (${cur})`,
     dataKey: 'totalInvestment',
     color: '#8b5cf6',
     yAxisId: 'left',
@@ -56,6 +55,24 @@ const USER_TREASURY_GROWTH_SERIES: SeriesConfig[] = [
   },
 ];
 
+const getPayoutSeries = (cur: string): SeriesConfig[] => [
+  {
+    id: 'withdrawal',
+    name: `Monthly Withdrawal (${cur})`,
+    dataKey: 'withdrawal',
+    color: '#f97316',
+    yAxisId: 'left',
+  },
+  {
+    id: 'totalWithdrawn',
+    name: `Total Withdrawn (${cur})`,
+    dataKey: 'totalWithdrawn',
+    color: '#fb923c',
+    yAxisId: 'left',
+    strokeDasharray: '3 1',
+  },
+];
+
 /***********************************
  * User Treasury Growth Fullscreen Chart Component
  ***********************************/
@@ -63,46 +80,40 @@ const UserTreasuryGrowthChart: React.FC<UserTreasuryGrowthChartProps> = ({
   isOpen,
   onClose,
 }) => {
-  const { marketData, userData, simulationSettings, userSeries } =
-    useBTCPension();
+  const {
+    simulationSettings,
+    userSeries,
+    halvingMonths,
+    stressEventWindows,
+    displayCurrencySymbol,
+    displayFxRate,
+    payoutStartMonth,
+    fundsDepletedMonth,
+  } = useBTCPension();
 
   // Enhanced user series with calculated values
   const enhancedUserSeries = useMemo(() => {
     return userSeries.map((snapshot, index) => {
-      // Calculate total investment up to this month
-      let totalInvestment = 0;
-      const monthlyDca = userData.monthlyDcaInEuro;
-      const startMonth = userData.startMonth;
-      const enableIndexing = marketData.enableIndexing;
-      const cpi = marketData.cpi;
-
-      for (let m = startMonth; m <= index; m++) {
-        if (m >= startMonth) {
-          const cpiFactor = Math.pow(1 + cpi, m / 12);
-          const monthlyContribution = calculateMonthlyDcaInEuro(
-            monthlyDca,
-            cpiFactor,
-            enableIndexing
-          );
-          totalInvestment += monthlyContribution;
-        }
-      }
-
       return {
         month: index,
-        btcPrice: snapshot.currentBtcPriceInEuro,
+        btcPrice: snapshot.currentBtcPriceInEuro * displayFxRate[index],
         btcHolding: snapshot.userAccumulatedBtcHolding,
         btcValue:
-          snapshot.userAccumulatedBtcHolding * snapshot.currentBtcPriceInEuro,
-        totalInvestment,
+          snapshot.userAccumulatedBtcHolding *
+          snapshot.currentBtcPriceInEuro *
+          displayFxRate[index],
+        totalInvestment:
+          snapshot.cumulativeContributionInEuro * displayFxRate[index],
+        withdrawal: snapshot.withdrawalInEuro * displayFxRate[index],
         platformFeeFromYield: snapshot.platformFeeFromYieldInBtc,
         platformExchangeFee: snapshot.platformExchangeFeeInBtc,
-        totalPlatformFees:
-          (snapshot.platformFeeFromYieldInBtc || 0) +
-          (snapshot.platformExchangeFeeInBtc || 0),
+        // sumy od startu liczone przez silnik
+        totalWithdrawn:
+          snapshot.cumulativeWithdrawalInEuro * displayFxRate[index],
+        totalPlatformFees: snapshot.cumulativePlatformFeesInBtc,
       };
     });
-  }, [userSeries, userData, marketData]);
+  }, [userSeries, displayFxRate]);
 
   return (
     <FullscreenChartWrapper
@@ -115,7 +126,46 @@ const UserTreasuryGrowthChart: React.FC<UserTreasuryGrowthChartProps> = ({
         height: 600,
         data: enhancedUserSeries,
         xKey: 'month',
-        series: USER_TREASURY_GROWTH_SERIES,
+        series: [
+          ...getUserTreasuryGrowthSeries(displayCurrencySymbol),
+          ...(payoutStartMonth !== null
+            ? getPayoutSeries(displayCurrencySymbol)
+            : []),
+        ],
+        referenceLines: [
+          ...halvingMonths.map(m => ({
+            id: `halving-${m}`,
+            x: m,
+            label: 'Halving',
+            color: '#eab308',
+          })),
+          ...(payoutStartMonth !== null
+            ? [
+                {
+                  id: 'payout-start',
+                  x: payoutStartMonth,
+                  label: 'Payout starts',
+                  color: '#f97316',
+                },
+              ]
+            : []),
+          ...(fundsDepletedMonth !== null
+            ? [
+                {
+                  id: 'funds-depleted',
+                  x: fundsDepletedMonth,
+                  label: 'Funds depleted',
+                  color: '#ef4444',
+                },
+              ]
+            : []),
+        ],
+        referenceAreas: stressEventWindows.map(w => ({
+          id: `stress-${w.startMonth}`,
+          x1: w.startMonth,
+          x2: w.endMonth,
+          label: w.name,
+        })),
         xTickFormatter: v => (v % 12 === 0 ? String(v / 12) : ''),
         leftTickFormatter: v => v.toLocaleString('en-US'),
         rightTickFormatter: v => formatNumber(v, { decimals: 8 }),
@@ -9,7 +9,15 @@
 //    – buildPlatformMonthlySnapshotsWithInvestment
 // ================================================================
 
-import React, { createContext, useContext, useMemo, useState } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import {
   UserTreasuryGrowthInput,
   UserPensionSimulationSnapshot,
@@ -20,7 +28,96 @@ import {
   PlatformMonthlySnapshot,
   SimulatePlatformTreasuryGrowthResult,
 } from '../../calculation/simulatePlatformTreasuryGrowth';
+import {
+  simulateUserTreasuryGrowthMonteCarlo,
+  UserMonteCarloSimulationResult,
+} from '../../calculation/simulateUserTreasuryGrowthMonteCarlo';
 import { GrowthType } from '../../calculation/utils/getPlatformUsersTimeline';
+import { PriceModelType } from '../../calculation/utils/getBtcPricePath';
+import { HistoricalBootstrapSettings } from '../../calculation/utils/getHistoricalBootstrapBtcPricePath';
+import {
+  HalvingCycleSettings,
+  getHalvingMonths,
+} from '../../calculation/utils/applyHalvingCycleOverlay';
+import {
+  getBtcPricePath,
+  getNumberOfMonths,
+} from '../../calculation/utils/getBtcPricePath';
+import {
+  MarketRegime,
+  RegimeSwitchingMode,
+  RegimeSwitchingSettings,
+} from '../../calculation/utils/getRegimeSwitchingBtcPricePath';
+import {
+  StressEvent,
+  StressEventWindow,
+  getStressEventWindows,
+} from '../../calculation/utils/applyStressEvents';
+import {
+  MonthlySeries,
+  alignMonthlySeries,
+} from '../../calculation/utils/parseMonthlySeries';
+import {
+  CpiModelType,
+  MeanRevertingCpiSettings,
+  getCpiPath,
+} from '../../calculation/utils/getCpiPath';
+import {
+  YieldSchedule,
+  YieldScheduleType,
+} from '../../calculation/utils/getMonthlyYieldRates';
+import {
+  CURRENCY_SYMBOLS,
+  Currency,
+  FxModelType,
+} from '../../calculation/utils/getFxPath';
+import { DEFAULT_SIMULATION_START_DATE } from '../../calculation/utils/getMonthDate';
+import { getFundsDepletedMonth } from '../../calculation/utils/calculateUserWithdrawal';
+import {
+  SustainableWithdrawalResult,
+  solveSustainableWithdrawal,
+} from '../../calculation/solveSustainableWithdrawal';
+import {
+  SavingsGoalResult,
+  SavingsGoalType,
+  SavingsGoalVariable,
+  solveSavingsGoal,
+} from '../../calculation/solveSavingsGoal';
+import {
+  PurchaseFundingType,
+  PurchaseGoal,
+  getPurchaseGoalMonths,
+} from '../../calculation/utils/calculatePurchaseGoals';
+import { StakingTier } from '../../calculation/utils/calculateStakingTiers';
+import {
+  CounterpartyRiskMode,
+  withSelfCustody,
+} from '../../calculation/utils/calculateCounterpartyRisk';
+import {
+  ReferralArrival,
+  ReferralRewardBasis,
+} from '../../calculation/utils/calculateReferralIncome';
+import {
+  LotMethod,
+  TaxJurisdictionType,
+} from '../../calculation/utils/calculateCapitalGainsTax';
+import { ContributionSchedule } from '../../calculation/utils/calculateMonthlyDcaInEuro';
+import {
+  ContributionStrategy,
+  ContributionStrategyType,
+  ContributionSummary,
+  getContributionSummary,
+} from '../../calculation/utils/calculateContributionStrategy';
+import {
+  LumpSumComparisonResult,
+  compareLumpSumVsDca,
+} from '../../calculation/compareLumpSumVsDca';
+import {
+  ReturnMetrics,
+  ReturnMetricsDistribution,
+  getReturnMetrics,
+  getReturnMetricsDistribution,
+} from '../../calculation/utils/getReturnMetrics';
 import { buildPlatformMonthlySnapshots } from '@/app/calculation/utils/buildPlatformMonthlySnapshots';
 import { buildCohortSimulationSet } from '@/app/calculation/utils/buildCohortSimulationSet';
 
@@ -38,11 +135,71 @@ interface BTCPensionContextType {
   simulationSettings: SimulationSettings;
   /** Dane zysków */
   yieldData: YieldData;
+  /** Ustawienia symulacji Monte Carlo (zmienność ceny) */
+  monteCarloData: MonteCarloData;
+  /** Waluty (kwotowania BTC, wpłat, prezentacji) i kurs */
+  currencyData: CurrencyData;
+  /** Faza wypłat (emerytura) */
+  decumulationData: DecumulationData;
+  /** Cel oszczędnościowy (goal-seek) */
+  goalSeekData: GoalSeekData;
+  /** Pożyczka pod zastaw BTC */
+  loanData: LoanData;
+  /** Cele zakupowe (auto, dom, studia) */
+  purchaseGoals: PurchaseGoal[];
+  /** Podatek od zysków kapitałowych i yieldu */
+  taxData: TaxData;
+  /** Porównanie: cały kapitał na starcie vs rozłożony vs bieżący plan */
+  lumpSumComparisonData: LumpSumComparisonData;
+  /** Ryzyko defaultu miejsca yieldu (kontrahenta) */
+  counterpartyRiskData: CounterpartyRiskData;
+  /** Nagrody za poleconych użytkowników */
+  referralData: ReferralData;
 
   /** Snapshoty miesięczne użytkownika */
   userSeries: UserPensionSimulationSnapshot[];
   /** Ostatni snapshot użytkownika (ułatwia wyświetlanie podsumowań) */
   lastUserSnapshot: UserPensionSimulationSnapshot;
+  /** Miesiące symulacji z halvingiem (puste, gdy cykl halvingowy wyłączony) */
+  halvingMonths: number[];
+  /** Okna zdarzeń stresowych (do cieniowania na wykresach) */
+  stressEventWindows: StressEventWindow[];
+  /** Miesiąc startu fazy wypłat (null, gdy wyłączona) */
+  payoutStartMonth: number | null;
+  /** Pierwszy miesiąc, w którym zabrakło środków na pełną wypłatę (null – wystarczyło) */
+  fundsDepletedMonth: number | null;
+  /** Miesiąc pierwszej transzy pożyczki (null, gdy wyłączona) */
+  loanStartMonth: number | null;
+  /** Miesiące likwidacji zabezpieczenia */
+  liquidationMonths: number[];
+  /** Pierwszy miesiąc osiągalności każdego celu zakupowego (null – poza horyzontem) */
+  purchaseGoalMonths: (number | null)[];
+  /** Maks. bezpieczna miesięczna wypłata od miesiąca startu wypłat (w walucie wpłat; null, gdy wypłaty wyłączone) */
+  sustainableWithdrawal: SustainableWithdrawalResult | null;
+  /** Rozwiązanie goal-seek (null, gdy wyłączony) */
+  savingsGoalResult: SavingsGoalResult | null;
+  /** Strategia wpłat vs płaskie DCA na tej samej ścieżce ceny (null dla płaskiego DCA) */
+  strategyComparison: {
+    strategy: ContributionSummary;
+    flatDca: ContributionSummary;
+  } | null;
+  /** Wyniki porównania lump sum vs DCA (null, gdy wyłączone) */
+  lumpSumComparison: LumpSumComparisonResult[] | null;
+  /** XIRR, TWR, MOIC i drawdown ścieżki użytkownika (waluta kwotowania) */
+  returnMetrics: ReturnMetrics;
+  /** Rozkład tych metryk po ścieżkach Monte Carlo (null, gdy wyłączone) */
+  returnMetricsDistribution: ReturnMetricsDistribution | null;
+  /** Ten sam plan w samodzielnym przechowywaniu – 0% yieldu, bez ryzyka (null, gdy ryzyko wyłączone) */
+  selfCustodySeries: UserPensionSimulationSnapshot[] | null;
+  /** Waluta prezentacji wyników (kwotowania albo wpłat) i jej symbol */
+  displayCurrency: Currency;
+  displayCurrencySymbol: string;
+  /** Kurs waluty kwotowania → waluta prezentacji w miesiącu m (1 dla waluty kwotowania) */
+  displayFxRate: number[];
+  /** Wynik Monte Carlo użytkownika (null, gdy wyłączone) */
+  userMonteCarloResult: UserMonteCarloSimulationResult | null;
+  /** Komunikaty walidacji błędnych ustawień (wyniki zostają z ostatnich poprawnych) */
+  simulationErrors: string[];
 
   /** Snapshoty miesięczne platformy (bez inwestycji) */
   platformSeries: PlatformMonthlySnapshot[];
@@ -59,6 +216,20 @@ interface BTCPensionContextType {
     React.SetStateAction<SimulationSettings>
   >;
   setYieldData: React.Dispatch<React.SetStateAction<YieldData>>;
+  setMonteCarloData: React.Dispatch<React.SetStateAction<MonteCarloData>>;
+  setCurrencyData: React.Dispatch<React.SetStateAction<CurrencyData>>;
+  setDecumulationData: React.Dispatch<React.SetStateAction<DecumulationData>>;
+  setGoalSeekData: React.Dispatch<React.SetStateAction<GoalSeekData>>;
+  setLoanData: React.Dispatch<React.SetStateAction<LoanData>>;
+  setPurchaseGoals: React.Dispatch<React.SetStateAction<PurchaseGoal[]>>;
+  setTaxData: React.Dispatch<React.SetStateAction<TaxData>>;
+  setLumpSumComparisonData: React.Dispatch<
+    React.SetStateAction<LumpSumComparisonData>
+  >;
+  setCounterpartyRiskData: React.Dispatch<
+    React.SetStateAction<CounterpartyRiskData>
+  >;
+  setReferralData: React.Dispatch<React.SetStateAction<ReferralData>>;
 }
 
 interface MarketData {
@@ -69,12 +240,51 @@ interface MarketData {
   settleEpsilon: number;
   cpi: number;
   enableIndexing: boolean;
+  cpiModel: CpiModelType;
+  cpiScheduleText: string; // roczne stopy CPI w %, np. "5, 4, 3"
+  cpiMeanReverting: MeanRevertingCpiSettings;
+  cpiIndexSeries: MonthlySeries | null; // zaimportowany indeks cen (np. HICP)
+  priceModel: PriceModelType;
+  historicalBootstrap: HistoricalBootstrapSettings;
+  powerLaw: PowerLawData;
+  regimeSwitching: RegimeSwitchingData;
+  enableHalvingCycle: boolean;
+  halvingCycle: HalvingCycleSettings;
+  customPriceSeries: MonthlySeries | null; // zaimportowana ścieżka ceny (CSV/JSON)
+  stressEvents: StressEvent[]; // zaplanowane krachy / stagnacje
+}
+
+interface PowerLawData {
+  exponent: number;
+  coefficient: number;
+  reversionYears: number;
+  enableCorridor: boolean;
+  supportMultiple: number;
+  resistanceMultiple: number;
+}
+
+interface RegimeData {
+  monthlyDrift: number;
+  monthlyVolatility: number;
+  averageDurationMonths: number; // średni czas trwania → P(pozostania) = 1 - 1/czas
+}
+
+interface RegimeSwitchingData {
+  mode: RegimeSwitchingMode;
+  seed: number;
+  initialRegime: MarketRegime;
+  enableSideways: boolean;
+  bull: RegimeData;
+  bear: RegimeData;
+  sideways: RegimeData;
 }
 
 interface UserData {
   monthlyDcaInEuro: number;
   startMonth: number;
   initialBtcHolding: number;
+  contributionSchedule: ContributionSchedule; // pusty → stałe DCA
+  contributionStrategy: ContributionStrategy;
 }
 
 interface PlatformData {
@@ -87,15 +297,200 @@ interface PlatformData {
 
 interface SimulationSettings {
   numberOfYears: number;
+  startDate: string; // 'YYYY-MM-DD'
 }
 
 interface YieldData {
   userYearlyYieldPct: number;
   platformYearlyYieldPct: number;
+  userYieldSchedule: YieldScheduleData;
+  platformYieldSchedule: YieldScheduleData;
+  userStakingTiers: StakingTier[]; // puste – cały yield wg userYearlyYieldPct
+}
+
+export interface YieldScheduleData {
+  type: YieldScheduleType;
+  yearlyRatesText: string; // roczne stopy w %, np. "5, 4, 3"
+  floorPct: number;
+  decayYears: number;
+  halfLifeYears: number;
+  cpiMultiplier: number;
+  cpiSpreadPct: number;
+}
+
+interface CurrencyData {
+  quoteCurrency: Currency; // waluta ceny BTC
+  contributionCurrency: Currency; // waluta wpłat DCA
+  displayCurrency: Currency; // waluta wykresów (jedna z powyższych)
+  fxModel: FxModelType;
+  fxInitialRate: number; // jednostki waluty wpłat za 1 jednostkę waluty kwotowania
+  fxAnnualDrift: number;
+  fxSeries: MonthlySeries | null; // zaimportowane kursy miesięczne
+}
+
+interface DecumulationData {
+  enabled: boolean;
+  startMonth: number; // miesiąc symulacji startu wypłat
+  monthlyWithdrawalInEuro: number; // w walucie wpłat
+  enableIndexing: boolean;
+  payoutYears: number; // 0 → bezterminowo
+  successProbability: number; // dla Monte Carlo, np. 0.9
+}
+
+interface GoalSeekData {
+  enabled: boolean;
+  type: SavingsGoalType;
+  targetValue: number; // w walucie wpłat albo w BTC
+  targetYear: number; // cel na koniec tego roku symulacji
+  solveFor: SavingsGoalVariable;
+}
+
+interface LoanData {
+  enabled: boolean;
+  startMonth: number; // miesiąc symulacji pierwszej transzy
+  targetLtv: number;
+  yearlyInterestRate: number;
+  monthlyDrawInEuro: number; // w walucie wpłat; 0 → jednorazowo do targetLtv
+  enableIndexing: boolean;
+  autoRebalance: boolean;
+  marginCallLtv: number; // 0 → bez margin calli
+  liquidationLtv: number; // 0 → bez likwidacji
+  liquidationPenaltyPct: number;
+}
+
+interface LumpSumComparisonData {
+  enabled: boolean;
+  totalCapitalInEuro: number; // w walucie wpłat; 0 → suma wpłat bieżącego planu
+  spreadMonths: number;
+}
+
+interface CounterpartyRiskData {
+  enabled: boolean;
+  yearlyDefaultProbability: number;
+  lossGivenDefaultPct: number;
+  maxExposurePct: number;
+  mode: CounterpartyRiskMode; // Monte Carlo zawsze losuje defaulty
+  seed: number;
+}
+
+interface ReferralData {
+  enabled: boolean;
+  referralCount: number; // poleceni pozyskani w miesiącu startu
+  referralSchedule: ReferralArrival[];
+  rewardBasis: ReferralRewardBasis;
+  rewardSharePct: number;
+  joinDelayMonths: number;
+}
+
+interface TaxData {
+  enabled: boolean;
+  jurisdiction: TaxJurisdictionType;
+  lotMethod: LotMethod;
+  capitalGainsTaxRate: number; // domyślnie stawka kraju
+  yieldIncomeTaxRate: number; // 0 → yield opodatkowany dopiero przy sprzedaży
+  initialCostBasisInEuro: number; // w walucie wpłat; 0 → wartość rynkowa na starcie
+}
+
+interface MonteCarloData {
+  enabled: boolean;
+  numberOfPaths: number;
+  annualVolatility: number;
+  seed: number;
+  fatTailDegreesOfFreedom: number; // 0 → rozkład normalny
 }
 
 const BTCPensionContext = createContext<BTCPensionContextType | null>(null);
 
+// Uproszczony formularz → pełna macierz przejść: P(pozostania) = 1 - 1/czas trwania,
+// reszta prawdopodobieństwa dzielona po równo między pozostałe reżimy.
+// "5, 4; 3" → [0.05, 0.04, 0.03] (niepoprawne wartości pomijane)
+function parsePercentList(text: string): number[] {
+  return text
+    .split(/[,;\s]+/)
+    .filter(value => value.length > 0)
+    .map(Number)
+    .filter(Number.isFinite)
+    .map(value => value / 100);
+}
+
+function toYieldSchedule(data: YieldScheduleData): YieldSchedule {
+  const { yearlyRatesText, ...schedule } = data;
+  return { ...schedule, yearlyRates: parsePercentList(yearlyRatesText) };
+}
+
+function toRegimeSwitchingSettings(
+  data: RegimeSwitchingData
+): RegimeSwitchingSettings {
+  const enabled: [MarketRegime, RegimeData][] = [
+    [MarketRegime.Bull, data.bull],
+    [MarketRegime.Bear, data.bear],
+    ...(data.enableSideways
+      ? [[MarketRegime.Sideways, data.sideways] as [MarketRegime, RegimeData]]
+      : []),
+  ];
+
+  return {
+    mode: data.mode,
+    seed: data.seed,
+    initialRegime: enabled.some(([regime]) => regime === data.initialRegime)
+      ? data.initialRegime
+      : MarketRegime.Bull,
+    regimes: enabled.map(([regime, params]) => {
+      const stay = 1 - 1 / Math.max(1, params.averageDurationMonths);
+      const others = enabled.filter(([other]) => other !== regime);
+      return {
+        regime,
+        monthlyDrift: params.monthlyDrift,
+        monthlyVolatility: params.monthlyVolatility,
+        transitionProbabilities: Object.fromEntries([
+          [regime, stay],
+          ...others.map(([other]) => [other, (1 - stay) / others.length]),
+        ]),
+      };
+    }),
+  };
+}
+
+// Monte Carlo i solvery to setki pełnych symulacji – liczone dopiero po tylu
+// ms bez zmian w formularzu, poza renderem
+const DEFERRED_COMPUTATION_DELAY_MS = 400;
+
+interface DeferredComputation<T> {
+  value: T | null; // null – wyłączone albo błąd
+  error: string | null;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Ciężkie obliczenie w efekcie z opóźnieniem: do jego końca zostaje poprzedni
+// wynik, a błąd walidacji trafia do komunikatu zamiast przerywać render.
+function useDeferredComputation<T>(
+  compute: () => T,
+  enabled: boolean
+): DeferredComputation<T> {
+  const [result, setResult] = useState<DeferredComputation<T>>({
+    value: null,
+    error: null,
+  });
+  useEffect(() => {
+    if (!enabled) {
+      setResult({ value: null, error: null });
+      return;
+    }
+    const timeout = setTimeout(() => {
+      try {
+        setResult({ value: compute(), error: null });
+      } catch (error) {
+        setResult({ value: null, error: getErrorMessage(error) });
+      }
+    }, DEFERRED_COMPUTATION_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [compute, enabled]);
+  return result;
+}
+
 /******************************************************
  * Provider
  ******************************************************/
@@ -111,12 +506,76 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
     settleEpsilon: 0.05,
     cpi: 0.03,
     enableIndexing: false,
+    cpiModel: CpiModelType.Constant,
+    cpiScheduleText: '5, 4, 3, 2.5',
+    cpiMeanReverting: {
+      initialRate: 0.03,
+      longRunRate: 0.02,
+      reversionSpeed: 0.5,
+      annualVolatility: 0.01,
+      seed: 42,
+      btcShockCorrelation: 0,
+    },
+    cpiIndexSeries: null,
+    priceModel: PriceModelType.CagrDecay,
+    historicalBootstrap: {
+      blockLengthMonths: 12,
+      seed: 42,
+      demean: true,
+    },
+    powerLaw: {
+      exponent: 5.8,
+      coefficient: 1e-17,
+      reversionYears: 8,
+      enableCorridor: false,
+      supportMultiple: 0.5,
+      resistanceMultiple: 3,
+    },
+    regimeSwitching: {
+      mode: RegimeSwitchingMode.Expected,
+      seed: 42,
+      initialRegime: MarketRegime.Bull,
+      enableSideways: true,
+      bull: {
+        monthlyDrift: 0.05,
+        monthlyVolatility: 0.15,
+        averageDurationMonths: 18,
+      },
+      bear: {
+        monthlyDrift: -0.06,
+        monthlyVolatility: 0.18,
+        averageDurationMonths: 12,
+      },
+      sideways: {
+        monthlyDrift: 0.005,
+        monthlyVolatility: 0.07,
+        averageDurationMonths: 10,
+      },
+    },
+    enableHalvingCycle: false,
+    halvingCycle: {
+      peakMultiple: 2,
+      peakMonthsAfterHalving: 18,
+      postPeakDrawdown: 0.7,
+      troughMonthsAfterPeak: 12,
+      amplitudeDecay: 0.8,
+    },
+    customPriceSeries: null,
+    stressEvents: [],
   });
 
   const [userData, setUserData] = useState<UserData>({
     monthlyDcaInEuro: 100,
     startMonth: 0,
     initialBtcHolding: 0,
+    contributionSchedule: {},
+    contributionStrategy: {
+      type: ContributionStrategyType.FlatDca,
+      targetYearlyReturnPct: 0,
+      dipThresholdPct: 0.2,
+      dipMultiplier: 2,
+      movingAverageMonths: 12,
+    },
   });
 
   const [platformData, setPlatformData] = useState<PlatformData>({
@@ -127,23 +586,226 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
     platformExchangeFeePct: 0.001,
   });
 
+  // stała data startowa przy renderze (ten sam wynik na serwerze i w
+  // przeglądarce); bieżący miesiąc ustawiany dopiero po zamontowaniu
   const [simulationSettings, setSimulationSettings] =
     useState<SimulationSettings>({
       numberOfYears: 25,
+      startDate: DEFAULT_SIMULATION_START_DATE,
     });
+  useEffect(() => {
+    setSimulationSettings(prev => ({
+      ...prev,
+      startDate: `${new Date().toISOString().slice(0, 7)}-01`,
+    }));
+  }, []);
 
   const [yieldData, setYieldData] = useState<YieldData>({
     userYearlyYieldPct: 0.02,
     platformYearlyYieldPct: 0.02,
+    userYieldSchedule: {
+      type: YieldScheduleType.Constant,
+      yearlyRatesText: '4, 3, 2',
+      floorPct: 0.005,
+      decayYears: 10,
+      halfLifeYears: 5,
+      cpiMultiplier: 1,
+      cpiSpreadPct: 0,
+    },
+    platformYieldSchedule: {
+      type: YieldScheduleType.Constant,
+      yearlyRatesText: '4, 3, 2',
+      floorPct: 0.005,
+      decayYears: 10,
+      halfLifeYears: 5,
+      cpiMultiplier: 1,
+      cpiSpreadPct: 0,
+    },
+    userStakingTiers: [],
+  });
+
+  const [monteCarloData, setMonteCarloData] = useState<MonteCarloData>({
+    enabled: false,
+    numberOfPaths: 200,
+    annualVolatility: 0.6,
+    seed: 42,
+    fatTailDegreesOfFreedom: 0,
+  });
+
+  const [currencyData, setCurrencyData] = useState<CurrencyData>({
+    quoteCurrency: Currency.EUR,
+    contributionCurrency: Currency.EUR,
+    displayCurrency: Currency.EUR,
+    fxModel: FxModelType.Constant,
+    fxInitialRate: 4.3,
+    fxAnnualDrift: 0,
+    fxSeries: null,
+  });
+
+  const [decumulationData, setDecumulationData] = useState<DecumulationData>({
+    enabled: false,
+    startMonth: 20 * 12,
+    monthlyWithdrawalInEuro: 1000,
+    enableIndexing: true,
+    payoutYears: 25,
+    successProbability: 0.9,
+  });
+
+  const [goalSeekData, setGoalSeekData] = useState<GoalSeekData>({
+    enabled: false,
+    type: SavingsGoalType.NominalValue,
+    targetValue: 1000000,
+    targetYear: 20,
+    solveFor: SavingsGoalVariable.MonthlyDca,
+  });
+
+  const [loanData, setLoanData] = useState<LoanData>({
+    enabled: false,
+    startMonth: 20 * 12,
+    targetLtv: 0.25,
+    yearlyInterestRate: 0.08,
+    monthlyDrawInEuro: 1000,
+    enableIndexing: true,
+    autoRebalance: false,
+    marginCallLtv: 0.6,
+    liquidationLtv: 0.8,
+    liquidationPenaltyPct: 0.05,
+  });
+
+  const [purchaseGoals, setPurchaseGoals] = useState<PurchaseGoal[]>([]);
+
+  const [taxData, setTaxData] = useState<TaxData>({
+    enabled: false,
+    jurisdiction: TaxJurisdictionType.Poland,
+    lotMethod: LotMethod.Fifo,
+    capitalGainsTaxRate: 0.19,
+    yieldIncomeTaxRate: 0.19,
+    initialCostBasisInEuro: 0,
+  });
+
+  const [lumpSumComparisonData, setLumpSumComparisonData] =
+    useState<LumpSumComparisonData>({
+      enabled: false,
+      totalCapitalInEuro: 0,
+      spreadMonths: 12,
+    });
+
+  const [counterpartyRiskData, setCounterpartyRiskData] =
+    useState<CounterpartyRiskData>({
+      enabled: false,
+      yearlyDefaultProbability: 0.02,
+      lossGivenDefaultPct: 0.6,
+      maxExposurePct: 1,
+      mode: CounterpartyRiskMode.Expected,
+      seed: 42,
+    });
+
+  const [referralData, setReferralData] = useState<ReferralData>({
+    enabled: false,
+    referralCount: 3,
+    referralSchedule: [],
+    rewardBasis: ReferralRewardBasis.Yield,
+    rewardSharePct: 0.1,
+    joinDelayMonths: 0,
   });
 
   // ======= 2. Budowanie UserTreasuryGrowthInput z rozdzielonych stanów
-  const userInput = useMemo(
-    (): UserTreasuryGrowthInput => ({
-      marketData: {
-        ...marketData,
-        numberOfYears: simulationSettings.numberOfYears,
+  // zaimportowane szeregi z datami przycięte do startDate; szereg, który nie
+  // obejmuje startDate, zgłasza błąd i jest pomijany (zostaje model)
+  const importedSeries = useMemo(() => {
+    const errors: string[] = [];
+    const align = (series: MonthlySeries | null, valueName: string) => {
+      if (!series) return undefined;
+      try {
+        return alignMonthlySeries(
+          series,
+          simulationSettings.startDate,
+          valueName
+        );
+      } catch (error) {
+        errors.push(getErrorMessage(error));
+        return undefined;
+      }
+    };
+    return {
+      customBtcPrices: align(marketData.customPriceSeries, 'price'),
+      cpiIndex: align(marketData.cpiIndexSeries, 'CPI index'),
+      fxRates: align(currencyData.fxSeries, 'FX rate'),
+      errors,
+    };
+  }, [
+    marketData.customPriceSeries,
+    marketData.cpiIndexSeries,
+    currencyData.fxSeries,
+    simulationSettings.startDate,
+  ]);
+
+  const engineMarketData = useMemo(
+    (): UserTreasuryGrowthInput['marketData'] => ({
+      ...marketData,
+      numberOfYears: simulationSettings.numberOfYears,
+      startDate: simulationSettings.startDate,
+      powerLaw: {
+        exponent: marketData.powerLaw.exponent,
+        coefficient: marketData.powerLaw.coefficient,
+        reversionYears: marketData.powerLaw.reversionYears,
+        corridor: marketData.powerLaw.enableCorridor
+          ? {
+              supportMultiple: marketData.powerLaw.supportMultiple,
+              resistanceMultiple: marketData.powerLaw.resistanceMultiple,
+            }
+          : undefined,
       },
+      regimeSwitching: toRegimeSwitchingSettings(marketData.regimeSwitching),
+      halvingCycle: marketData.enableHalvingCycle
+        ? marketData.halvingCycle
+        : undefined,
+      customBtcPrices: importedSeries.customBtcPrices,
+      // bez zaimportowanego indeksu – stałe cpi
+      cpiModel:
+        marketData.cpiModel === CpiModelType.Imported &&
+        !importedSeries.cpiIndex
+          ? CpiModelType.Constant
+          : marketData.cpiModel,
+      cpiSchedule: {
+        yearlyRates: parsePercentList(marketData.cpiScheduleText),
+      },
+      cpiIndex: importedSeries.cpiIndex,
+      quoteCurrency: currencyData.quoteCurrency,
+      contributionCurrency: currencyData.contributionCurrency,
+      fx: {
+        // bez zaimportowanych kursów – stały kurs
+        model:
+          currencyData.fxModel === FxModelType.Imported &&
+          !importedSeries.fxRates
+            ? FxModelType.Constant
+            : currencyData.fxModel,
+        initialRate: currencyData.fxInitialRate,
+        annualDrift: currencyData.fxAnnualDrift,
+        rates: importedSeries.fxRates,
+      },
+    }),
+    [marketData, simulationSettings, currencyData, importedSeries]
+  );
+
+  // jedna ścieżka ceny współdzielona przez użytkownika, kohorty i platformę
+  // oraz jedna ścieżka inflacji (dla modelu OU – ścieżka oczekiwana wg seeda);
+  // przy błędnych ustawieniach rynku błąd zgłasza symulacja poniżej
+  const marketPaths = useMemo(() => {
+    try {
+      return {
+        btcPricePath: getBtcPricePath(engineMarketData),
+        cpiPath: getCpiPath(engineMarketData),
+      };
+    } catch {
+      return {};
+    }
+  }, [engineMarketData]);
+
+  const draftUserInput = useMemo(
+    (): UserTreasuryGrowthInput => ({
+      marketData: engineMarketData,
+      ...marketPaths,
       userData,
       platformData: {
         platformFeeFromYieldPct: platformData.platformFeeFromYieldPct,
@@ -151,19 +813,295 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
       },
       earnData: {
         yearlyYieldPct: yieldData.userYearlyYieldPct,
+        yieldSchedule: toYieldSchedule(yieldData.userYieldSchedule),
+        stakingTiers: yieldData.userStakingTiers,
       },
+      decumulationData: decumulationData.enabled
+        ? {
+            startMonth: decumulationData.startMonth,
+            monthlyWithdrawalInEuro: decumulationData.monthlyWithdrawalInEuro,
+            enableIndexing: decumulationData.enableIndexing,
+          }
+        : undefined,
+      loanData: loanData.enabled
+        ? {
+            startMonth: loanData.startMonth,
+            targetLtv: loanData.targetLtv,
+            yearlyInterestRate: loanData.yearlyInterestRate,
+            monthlyDrawInEuro: loanData.monthlyDrawInEuro || undefined,
+            enableIndexing: loanData.enableIndexing,
+            autoRebalance: loanData.autoRebalance,
+            marginCallLtv: loanData.marginCallLtv || undefined,
+            liquidationLtv: loanData.liquidationLtv || undefined,
+            liquidationPenaltyPct: loanData.liquidationPenaltyPct,
+          }
+        : undefined,
+      // zakup na kredyt realizujemy tylko przy włączonej pożyczce
+      purchaseGoals: purchaseGoals.map(goal => ({
+        ...goal,
+        execute:
+          goal.execute &&
+          (goal.funding !== PurchaseFundingType.Borrow || loanData.enabled),
+      })),
+      taxData: taxData.enabled
+        ? {
+            jurisdiction: taxData.jurisdiction,
+            lotMethod: taxData.lotMethod,
+            capitalGainsTaxRate: taxData.capitalGainsTaxRate,
+            yieldIncomeTaxRate: taxData.yieldIncomeTaxRate,
+            initialCostBasisInEuro: taxData.initialCostBasisInEuro || undefined,
+          }
+        : undefined,
+      counterpartyRiskData: counterpartyRiskData.enabled
+        ? {
+            yearlyDefaultProbability:
+              counterpartyRiskData.yearlyDefaultProbability,
+            lossGivenDefaultPct: counterpartyRiskData.lossGivenDefaultPct,
+            maxExposurePct: counterpartyRiskData.maxExposurePct,
+            mode: counterpartyRiskData.mode,
+            seed: counterpartyRiskData.seed,
+          }
+        : undefined,
+      referralData: referralData.enabled
+        ? {
+            referralCount: referralData.referralCount,
+            referralSchedule: referralData.referralSchedule,
+            rewardBasis: referralData.rewardBasis,
+            rewardSharePct: referralData.rewardSharePct,
+            joinDelayMonths: referralData.joinDelayMonths,
+          }
+        : undefined,
     }),
-    [marketData, userData, platformData, simulationSettings, yieldData]
+    [
+      engineMarketData,
+      marketPaths,
+      userData,
+      platformData,
+      yieldData,
+      decumulationData,
+      loanData,
+      purchaseGoals,
+      taxData,
+      counterpartyRiskData,
+      referralData,
+    ]
   );
 
   // ======= 3. Symulacje (pamiętajmy o useMemo, żeby nie liczyć na każdym renderze)
-  const userSeries = useMemo(
-    () => simulateUserTreasuryGrowth(userInput),
-    [userInput]
-  );
+  // błędna wartość w formularzu nie przerywa renderu – zostaje ostatnie
+  // poprawne wejście i jego wyniki, a komunikat trafia do formularza
+  const lastValidSimulation = useRef<{
+    userInput: UserTreasuryGrowthInput;
+    userSeries: UserPensionSimulationSnapshot[];
+  } | null>(null);
+  const { userInput, userSeries, userInputError } = useMemo(() => {
+    try {
+      const simulation = {
+        userInput: draftUserInput,
+        userSeries: simulateUserTreasuryGrowth(draftUserInput),
+      };
+      lastValidSimulation.current = simulation;
+      return { ...simulation, userInputError: null };
+    } catch (error) {
+      // domyślne ustawienia muszą być poprawne
+      if (!lastValidSimulation.current) throw error;
+      return {
+        ...lastValidSimulation.current,
+        userInputError: getErrorMessage(error),
+      };
+    }
+  }, [draftUserInput]);
 
   const lastUserSnapshot = userSeries[userSeries.length - 1];
 
+  const payoutStartMonth =
+    decumulationData.enabled && decumulationData.startMonth < userSeries.length
+      ? decumulationData.startMonth
+      : null;
+  const fundsDepletedMonth = useMemo(
+    () => getFundsDepletedMonth(userSeries),
+    [userSeries]
+  );
+
+  const loanStartMonth =
+    loanData.enabled && loanData.startMonth < userSeries.length
+      ? loanData.startMonth
+      : null;
+  const liquidationMonths = useMemo(
+    () =>
+      userSeries.flatMap((snapshot, month) =>
+        snapshot.liquidated ? [month] : []
+      ),
+    [userSeries]
+  );
+
+  const purchaseGoalMonths = useMemo(
+    () => getPurchaseGoalMonths(purchaseGoals, userSeries),
+    [purchaseGoals, userSeries]
+  );
+
+  const halvingMonths = useMemo(
+    () =>
+      marketData.enableHalvingCycle
+        ? getHalvingMonths(
+            simulationSettings.startDate,
+            getNumberOfMonths(simulationSettings.numberOfYears)
+          )
+        : [],
+    [marketData.enableHalvingCycle, simulationSettings]
+  );
+
+  const stressEventWindows = useMemo(
+    () =>
+      getStressEventWindows(
+        marketData.stressEvents,
+        getNumberOfMonths(simulationSettings.numberOfYears)
+      ),
+    [marketData.stressEvents, simulationSettings.numberOfYears]
+  );
+
+  // prezentacja w walucie wpłat → przeliczenie kursem z danego miesiąca
+  const displayCurrency =
+    currencyData.displayCurrency === currencyData.contributionCurrency
+      ? currencyData.contributionCurrency
+      : currencyData.quoteCurrency;
+  const displayFxRate = useMemo(
+    () =>
+      userSeries.map(snapshot =>
+        displayCurrency === currencyData.quoteCurrency ? 1 : snapshot.fxRate
+      ),
+    [userSeries, displayCurrency, currencyData.quoteCurrency]
+  );
+
+  // Monte Carlo, solvery i porównania – z opóźnieniem, poza renderem
+  const monteCarloSettings = useMemo(
+    () => ({
+      numberOfPaths: monteCarloData.numberOfPaths,
+      annualVolatility: monteCarloData.annualVolatility,
+      seed: monteCarloData.seed,
+      fatTailDegreesOfFreedom:
+        monteCarloData.fatTailDegreesOfFreedom || undefined,
+    }),
+    [monteCarloData]
+  );
+
+  const userMonteCarlo = useDeferredComputation(
+    useCallback(
+      () => simulateUserTreasuryGrowthMonteCarlo(userInput, monteCarloSettings),
+      [userInput, monteCarloSettings]
+    ),
+    monteCarloData.enabled
+  );
+  const userMonteCarloResult = userMonteCarlo.value;
+
+  // solver to wiele pełnych symulacji – tylko przy włączonej fazie wypłat
+  const sustainableWithdrawalComputation = useDeferredComputation(
+    useCallback(
+      () =>
+        solveSustainableWithdrawal(userInput, {
+          startMonth: decumulationData.startMonth,
+          payoutYears: decumulationData.payoutYears || undefined,
+          enableIndexing: decumulationData.enableIndexing,
+          successProbability: decumulationData.successProbability,
+          monteCarlo: monteCarloData.enabled ? monteCarloSettings : undefined,
+        }),
+      [userInput, decumulationData, monteCarloData.enabled, monteCarloSettings]
+    ),
+    decumulationData.enabled
+  );
+  const sustainableWithdrawal = sustainableWithdrawalComputation.value;
+
+  const savingsGoal = useDeferredComputation(
+    useCallback(
+      () =>
+        solveSavingsGoal(userInput, {
+          type: goalSeekData.type,
+          targetValue: goalSeekData.targetValue,
+          targetMonth: Math.max(goalSeekData.targetYear * 12 - 1, 0),
+          solveFor: goalSeekData.solveFor,
+        }),
+      [userInput, goalSeekData]
+    ),
+    goalSeekData.enabled && goalSeekData.targetValue > 0
+  );
+  const savingsGoalResult = savingsGoal.value;
+
+  const strategyComparisonComputation = useDeferredComputation(
+    useCallback(
+      () => ({
+        strategy: getContributionSummary(userSeries),
+        flatDca: getContributionSummary(
+          simulateUserTreasuryGrowth({
+            ...userInput,
+            userData: {
+              ...userInput.userData,
+              contributionStrategy: undefined,
+            },
+          })
+        ),
+      }),
+      [userInput, userSeries]
+    ),
+    userData.contributionStrategy.type !== ContributionStrategyType.FlatDca
+  );
+  const strategyComparison = strategyComparisonComputation.value;
+
+  const lumpSumComparisonComputation = useDeferredComputation(
+    useCallback(
+      () =>
+        compareLumpSumVsDca(userInput, {
+          totalCapitalInEuro:
+            lumpSumComparisonData.totalCapitalInEuro || undefined,
+          spreadMonths: lumpSumComparisonData.spreadMonths,
+        }),
+      [userInput, lumpSumComparisonData]
+    ),
+    lumpSumComparisonData.enabled
+  );
+  const lumpSumComparison = lumpSumComparisonComputation.value;
+
+  const simulationErrors = [
+    ...importedSeries.errors,
+    userInputError,
+    userMonteCarlo.error,
+    sustainableWithdrawalComputation.error,
+    savingsGoal.error,
+    strategyComparisonComputation.error,
+    lumpSumComparisonComputation.error,
+  ].filter((error): error is string => error !== null);
+
+  const returnMetricsOptions = useMemo(
+    () => ({
+      startMonth: userData.startMonth,
+      initialBtcHolding: userData.initialBtcHolding,
+    }),
+    [userData.startMonth, userData.initialBtcHolding]
+  );
+
+  const returnMetrics = useMemo(
+    () => getReturnMetrics(userSeries, returnMetricsOptions),
+    [userSeries, returnMetricsOptions]
+  );
+
+  const returnMetricsDistribution = useMemo(
+    () =>
+      userMonteCarloResult
+        ? getReturnMetricsDistribution(
+            userMonteCarloResult.paths,
+            returnMetricsOptions
+          )
+        : null,
+    [userMonteCarloResult, returnMetricsOptions]
+  );
+
+  const selfCustodySeries = useMemo(
+    () =>
+      userInput.counterpartyRiskData
+        ? simulateUserTreasuryGrowth(withSelfCustody(userInput))
+        : null,
+    [userInput]
+  );
+
   // Platform simulations
   const aggregatedPlatformSnapshots = useMemo(
     () =>
@@ -196,6 +1134,7 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
         userTreasuryGrowthInput: userInput,
         platformTreasuryGrowthData: {
           yearlyYieldPct: yieldData.platformYearlyYieldPct,
+          yieldSchedule: toYieldSchedule(yieldData.platformYieldSchedule),
         },
       }),
     [platformData, simulationSettings, userInput, yieldData]
@@ -211,8 +1150,37 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
     platformData,
     simulationSettings,
     yieldData,
+    monteCarloData,
+    currencyData,
+    decumulationData,
+    goalSeekData,
+    loanData,
+    purchaseGoals,
+    taxData,
+    lumpSumComparisonData,
+    counterpartyRiskData,
+    referralData,
     userSeries,
     lastUserSnapshot,
+    halvingMonths,
+    stressEventWindows,
+    payoutStartMonth,
+    fundsDepletedMonth,
+    loanStartMonth,
+    liquidationMonths,
+    purchaseGoalMonths,
+    sustainableWithdrawal,
+    savingsGoalResult,
+    strategyComparison,
+    lumpSumComparison,
+    returnMetrics,
+    returnMetricsDistribution,
+    selfCustodySeries,
+    displayCurrency,
+    displayCurrencySymbol: CURRENCY_SYMBOLS[displayCurrency],
+    displayFxRate,
+    userMonteCarloResult,
+    simulationErrors,
     platformSeries,
     platformWithInvestmentSeries,
     lastPlatformSnapshot,
@@ -221,6 +1189,16 @@ export const BtcTreasuryGrowthSimulationProvider: React.FC<{
     setPlatformData,
     setSimulationSettings,
     setYieldData,
+    setMonteCarloData,
+    setCurrencyData,
+    setDecumulationData,
+    setGoalSeekData,
+    setLoanData,
+    setPurchaseGoals,
+    setTaxData,
+    setLumpSumComparisonData,
+    setCounterpartyRiskData,
+    setReferralData,
   };
 
   return (